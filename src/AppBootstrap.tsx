@@ -1,15 +1,41 @@
 // src/AppBootstrap.tsx - Clean application with Zustand state management
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { ThemeProvider } from './contexts/ThemeContext';
 import { useApplicationServices } from './hooks/useApplicationServices';
 import { STRIDECanvas } from './components/STRIDECanvas';
 import { RightSidebar } from './components/RightSidebar';
+import { loadLintConfig, saveLintConfig } from './components/ProblemsPanel';
 import { Header } from './components/Header';
+import { Settings, NetworkSettings, loadNetworkSettings } from './components/Settings';
+import { ParticipantsPanel } from './components/ParticipantsPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { DiffPanel } from './components/DiffPanel';
+import { BranchesPanel } from './components/BranchesPanel';
+import { DiagramTabs } from './components/DiagramTabs';
 import { DiagramElement } from './types/diagram';
 import { useDiagramFromServices } from './hooks/useDiagramFromServices';
+import useUndoRedo from './hooks/useUndoRedo';
 import { v4 as uuidv4 } from 'uuid';
 import { makePassphrase } from './utils/passphrase';
 import { HTMLReportGenerator } from './services/htmlReportGenerator';
+import { PDFReportGenerator } from './services/pdfReportGenerator';
+import { ThreatDragonConverter } from './services/threatDragonConverter';
+import { TmtImporter } from './services/tmtImporter';
+import { OtmConverter } from './services/otmConverter';
+import { TransportKind } from './services/transport';
+import { canEdit, canComment } from './state/roomRoles';
+import { DistributedStateEvent } from './state/distributedStateManager';
+import { RoomCredentials } from './utils/roomAccess';
+import { makeRoomSalt } from './utils/roomCrypto';
+import { encryptedStorage, QuotaWarning } from './state/encryptedStorage';
+import { encodeSnapshot, decodeSnapshot, SNAPSHOT_PARAM, FORK_PARAM } from './utils/snapshotLink';
+import { ModelState } from './state/versionHistory';
+import { ModelBranch } from './state/modelBranches';
+import { diffModels, DiffableModel, ChangeKind } from './utils/modelDiff';
+import { validateModel } from './utils/modelSchema';
+import { LevelId } from './utils/dfdLevels';
+import { LintConfig, lintModel, worstByElement } from './utils/modelLint';
+import { ViewId, listViews, placeReference, referencesTo, resolveReference, resolveReferences } from './utils/projectViews';
 import './App.css';
 
 /**
@@ -25,11 +51,25 @@ export default function AppBootstrap() {
     return storedUserId;
   });
   
-  const [roomConfig] = useState(() => {
+  const [roomConfig, setRoomConfig] = useState(() => {
     const url = new URL(window.location.href);
     const fragmentParams = new URLSearchParams(url.hash.substring(1));
     let roomId = fragmentParams.get('r');
     let passphrase = fragmentParams.get('i');
+    // n=<salt> - links from before per-room salts have none and use the legacy derivation
+    let salt = fragmentParams.get('n');
+    // t=local|relay (+ relay=<url>) in an invite link overrides this browser's network settings
+    const linkTransport = fragmentParams.get('t');
+    const transport: TransportKind | null = linkTransport === 'local' || linkTransport === 'relay' ? linkTransport : null;
+    const relayUrl = fragmentParams.get('relay');
+    // o=<fingerprint> names the owner's key; a room id we generate ourselves is ours
+    const owner = { createdHere: !roomId, fingerprint: fragmentParams.get('o') };
+    // v=<transport secret>&e=<edit public key> instead of i=<passphrase>: read-only link
+    const viewSecret = fragmentParams.get('v');
+    const editPublicKey = fragmentParams.get('e');
+    const readOnlyLink = roomId && !passphrase && viewSecret && editPublicKey
+      ? { transportSecret: viewSecret, editPublicKey }
+      : null;
     
     // If no room in URL, generate one (using existing logic from useModelkaMesh)
     if (!roomId) {
@@ -40,14 +80,16 @@ export default function AppBootstrap() {
     }
     
     // If no passphrase in URL, generate one (using existing logic from useModelkaMesh) 
-    if (!passphrase) {
+    if (!passphrase && !readOnlyLink) {
       passphrase = makePassphrase();
+      salt = makeRoomSalt();
     }
 
     // Update URL with room and passphrase (like useModelkaMesh does)
     url.search = '';
     fragmentParams.set('r', roomId);
-    fragmentParams.set('i', encodeURIComponent(passphrase));
+    if (passphrase) fragmentParams.set('i', encodeURIComponent(passphrase));
+    if (passphrase && salt) fragmentParams.set('n', salt);
     url.hash = fragmentParams.toString();
     
     const updatedUrl = url.toString();
@@ -56,7 +98,7 @@ export default function AppBootstrap() {
       window.history.replaceState({}, '', updatedUrl);
     }
     
-    return { roomId, passphrase };
+    return { roomId, passphrase, salt, transport, relayUrl, owner, readOnlyLink };
   });
 
   const [p2pEnabled, setP2pEnabled] = useState(() => {
@@ -64,12 +106,39 @@ export default function AppBootstrap() {
     return saved !== null ? JSON.parse(saved) : true; // Default to P2P enabled
   });
 
+  // Network transport: invite link first, then saved settings
+  const [network, setNetwork] = useState(() => {
+    const saved = loadNetworkSettings();
+    return {
+      transport: roomConfig.transport ?? saved.transport,
+      relayUrl: roomConfig.relayUrl ?? saved.relayUrl,
+    };
+  });
+  const [showSettings, setShowSettings] = useState(false);
+  const [showParticipants, setShowParticipants] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [comparison, setComparison] = useState<{ label: string; before: DiffableModel } | null>(null);
+  const [ignoreLayout, setIgnoreLayout] = useState(false);
+  const [showBranches, setShowBranches] = useState(false);
+  const [view, setView] = useState<ViewId>(null); // the diagram of the project on the canvas
+  const [pendingViews, setPendingViews] = useState<string[]>([]); // added here, still empty
+  const [level, setLevel] = useState<LevelId>(null); // the DFD level on the canvas
+  const [lintConfig, setLintConfig] = useState<LintConfig>(loadLintConfig);
+  const [branches, setBranches] = useState<ModelBranch[]>([]);
+  const pendingNetwork = useRef<NetworkSettings | null>(null);
+
   // Application services with Zustand store
   const application = useApplicationServices({ 
     userId, 
     roomId: roomConfig.roomId, 
     passphrase: roomConfig.passphrase,
-    p2pEnabled 
+    salt: roomConfig.salt,
+    p2pEnabled,
+    transport: network.transport,
+    relayUrl: network.relayUrl,
+    owner: roomConfig.owner,
+    readOnlyLink: roomConfig.readOnlyLink,
   });
 
   // Monitor URL hash changes for room switching
@@ -98,6 +167,132 @@ export default function AppBootstrap() {
   // Diagram operations (only available when ready)
   const diagram = useDiagramFromServices(application.services.distributedState);
 
+  // Version history: the timeline, and the past model being viewed (read-only)
+  const timeline = React.useMemo(
+    () => (showHistory && diagram ? diagram.getVersionTimeline() : []),
+    [showHistory, diagram?.elements, diagram?.threatActors]
+  );
+  const historyEntry = historyIndex !== null ? timeline[historyIndex] ?? null : null;
+  const pastVersion = React.useMemo(
+    () => (historyEntry && diagram ? diagram.getVersionAt(historyEntry) : null),
+    [historyEntry]
+  );
+  const viewingPast = showHistory && historyEntry !== null;
+
+  // Comparing another version (a past one, or a file) with the current model:
+  // the canvas shows both, removed elements included, with the changes highlighted
+  const diff = React.useMemo(
+    () => (comparison && diagram
+      ? diffModels(comparison.before, { elements: diagram.elements, threatActors: diagram.threatActors }, { ignoreLayout })
+      : null),
+    [comparison, diagram?.elements, diagram?.threatActors, ignoreLayout]
+  );
+  const changeHighlights = React.useMemo(
+    () => (diff ? Object.fromEntries(diff.elements.map(change => [change.id, change.kind])) as Record<string, ChangeKind> : undefined),
+    [diff]
+  );
+  const canvasElements = viewingPast ? Object.values(pastVersion?.elements ?? {})
+    : comparison && changeHighlights ? [
+      ...(diagram?.elements || []),
+      ...comparison.before.elements.filter(element => changeHighlights[element.id] === 'removed'),
+    ]
+    : diagram?.elements || [];
+
+  // Leave a sub-diagram whose process is gone (deleted, or absent from the version shown)
+  React.useEffect(() => {
+    if (level && !canvasElements.some(element => element.id === level)) setLevel(null);
+  }, [level, canvasElements]);
+
+  const handleLevelChange = (next: LevelId) => {
+    diagram?.selectElement(null);
+    setLevel(next);
+  };
+
+  // Diagrams of the project: named by their elements, plus new ones nothing was drawn in yet.
+  // Elements placed in several diagrams are drawn and edited with their original's threats
+  const views = React.useMemo(() => {
+    const named = listViews(diagram?.elements || []);
+    return [...named, ...pendingViews.filter(pending => !named.includes(pending))];
+  }, [diagram?.elements, pendingViews]);
+  const resolvedCanvasElements = React.useMemo(() => resolveReferences(canvasElements), [canvasElements]);
+  const selectedElement = React.useMemo(
+    () => (diagram?.selectedElement
+      ? resolveReference(diagram.selectedElement, new Map((diagram.elements).map(element => [element.id, element])))
+      : null),
+    [diagram?.selectedElement, diagram?.elements]
+  );
+
+  React.useEffect(() => {
+    if (view && !views.includes(view)) setView(null);
+  }, [view, views]);
+
+  const handleViewChange = (next: ViewId) => {
+    diagram?.selectElement(null);
+    setLevel(null);
+    setView(next);
+  };
+
+  const handleRenameView = (from: string, to: string) => {
+    if (pendingViews.includes(from)) {
+      setPendingViews(pendingViews.map(pending => (pending === from ? to : pending)));
+    }
+    const members = diagram?.elements.filter(element => element.view === from) ?? [];
+    if (members.length > 0) diagram?.updateElements(members.map(element => ({ id: element.id, patch: { view: to } })));
+    if (view === from) setView(to);
+  };
+
+  const handleDeleteView = (name: string) => {
+    const members = diagram?.elements.filter(element => element.view === name) ?? [];
+    const sharedElsewhere = members.filter(element =>
+      referencesTo(diagram?.elements || [], element.id).some(ref => ref.view !== name)
+    );
+    if (members.length > 0 && !window.confirm(
+      `Delete diagram “${name}” and its ${members.length} element(s)?` +
+      (sharedElsewhere.length > 0 ? ` ${sharedElsewhere.map(element => `“${element.name}”`).join(', ')} also disappear from the other diagrams they are placed in.` : '') +
+      ' The change can be undone.'
+    )) return;
+    setPendingViews(pendingViews.filter(pending => pending !== name));
+    if (members.length > 0) diagram?.deleteElements(members.map(element => element.id));
+    if (view === name) handleViewChange(null);
+  };
+
+  // Problems in the project as it is now - not in a past version being looked at
+  const problems = React.useMemo(() => lintModel(diagram?.elements || [], lintConfig), [diagram?.elements, lintConfig]);
+  const problemBadges = React.useMemo(() => worstByElement(problems), [problems]);
+
+  const handleLintConfigChange = (config: LintConfig) => {
+    setLintConfig(config);
+    saveLintConfig(config);
+  };
+
+  // Select an element wherever it is: switch to its diagram and level first
+  const handleRevealElement = (elementId: string) => {
+    const element = diagram?.elements.find(candidate => candidate.id === elementId);
+    if (!diagram || !element) return;
+    setView(element.view ?? null);
+    setLevel(element.parentId ?? null);
+    diagram.selectElement(elementId);
+  };
+
+  // Another appearance of a library element, in the diagram and level shown
+  const handlePlaceElement = (elementId: string) => {
+    const original = diagram?.elements.find(element => element.id === elementId);
+    if (!diagram || !original) return;
+    const reference = {
+      ...placeReference(original, view, { x: 100 + Math.round(Math.random() * 200), y: 100 + Math.round(Math.random() * 200) }),
+      ...(level ? { parentId: level } : {}),
+    };
+    diagram.createElement(reference);
+    diagram.selectElement(reference.id);
+  };
+
+  // Peers enforce roles; the UI just hides what this role cannot do
+  const readOnly = diagram ? !canEdit(diagram.role) : false;
+  const canEditNotes = diagram ? canComment(diagram.role) : true;
+
+  // Ctrl+Z / Ctrl+Shift+Z - reverts only this user's own edits
+  useUndoRedo(readOnly ? undefined : diagram?.undo, readOnly ? undefined : diagram?.redo);
+
   // P2P toggle handler
   const handleToggleP2P = async (enabled: boolean) => {
     localStorage.setItem('p2p_enabled', JSON.stringify(enabled));
@@ -115,6 +310,228 @@ export default function AppBootstrap() {
     await application.toggleP2P(enabled);
   };
 
+  const handleNetworkSettingsChange = React.useCallback((settings: NetworkSettings) => {
+    pendingNetwork.current = settings;
+  }, []);
+
+  // Apply network changes once the dialog closes, not on every keystroke
+  const handleCloseSettings = () => {
+    setShowSettings(false);
+    const next = pendingNetwork.current;
+    if (!next || (next.transport === network.transport && next.relayUrl === network.relayUrl)) return;
+    if (next.transport === 'relay' && !/^wss?:\/\//.test(next.relayUrl)) {
+      alert('Enter a ws:// or wss:// relay URL to use the WebSocket relay.');
+      return;
+    }
+
+    console.log(`🔄 Switching network: ${network.transport} → ${next.transport}`);
+    setNetwork({ transport: next.transport, relayUrl: next.relayUrl });
+
+    // Keep the URL in sync so copies of it land on the same network
+    const url = new URL(window.location.href);
+    const fragmentParams = new URLSearchParams(url.hash.substring(1));
+    fragmentParams.delete('t');
+    fragmentParams.delete('relay');
+    if (next.transport !== 'webrtc') fragmentParams.set('t', next.transport);
+    if (next.transport === 'relay') fragmentParams.set('relay', next.relayUrl);
+    url.hash = fragmentParams.toString();
+    window.history.replaceState({}, '', url.toString());
+  };
+
+  // Locking drops the decrypted models from memory by reloading into the lock screen
+  const handleLock = async () => {
+    application.services.distributedState?.persistNow();
+    await encryptedStorage.flush();
+    encryptedStorage.lock();
+    window.location.reload();
+  };
+
+  const handleForgetDevice = async () => {
+    await application.dispose();
+    await encryptedStorage.forgetDevice();
+    window.location.replace(window.location.pathname);
+  };
+
+  // Read-only sharing: a live link that can follow but not change the room,
+  // or a frozen copy of the model that connects to nobody
+  const handleShareReadOnly = async (kind: 'live' | 'snapshot') => {
+    if (!diagram) return;
+    const base = `${window.location.origin}${window.location.pathname}`;
+    try {
+      let shareUrl: string;
+      if (kind === 'snapshot') {
+        const encoded = await encodeSnapshot({
+          roomId: roomConfig.roomId,
+          frozenAt: Date.now(),
+          elements: diagram.elements,
+          threatActors: diagram.threatActors,
+        });
+        shareUrl = `${base}#${SNAPSHOT_PARAM}=${encoded}`;
+      } else {
+        const params = diagram.getReadOnlyLinkParams();
+        if (!params) throw new Error('This browser cannot create read-only links (no Ed25519 support)');
+        const ownerFingerprint = await diagram.getOwnerFingerprint();
+        const networkParams = network.transport === 'relay' ? `&t=relay&relay=${encodeURIComponent(network.relayUrl)}`
+          : network.transport === 'local' ? '&t=local'
+          : '';
+        shareUrl = `${base}#r=${roomConfig.roomId}&v=${params.v}&e=${params.e}${ownerFingerprint ? `&o=${ownerFingerprint}` : ''}${networkParams}`;
+      }
+      await navigator.clipboard.writeText(shareUrl);
+      alert(kind === 'snapshot'
+        ? `Snapshot link copied (${Math.round(shareUrl.length / 1024)} KB). It shows the model as it is now and never updates.`
+        : `Read-only link copied: ${shareUrl}`);
+    } catch (error) {
+      console.error('❌ Failed to create read-only link:', error);
+      alert(`Failed to create read-only link: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // Forking opens the version in a new room, in a new tab. The fork link (#f=...)
+  // carries the model, which that tab adds to its fresh room once ready
+  const handleForkVersion = async () => {
+    if (!pastVersion) throw new Error('This version cannot be rebuilt');
+    const encoded = await encodeSnapshot({
+      roomId: roomConfig.roomId,
+      frozenAt: historyEntry?.timestamp ?? Date.now(),
+      elements: Object.values(pastVersion.elements),
+      threatActors: Object.values(pastVersion.threatActors),
+    });
+    const networkParams = network.transport === 'relay' ? `&t=relay&relay=${encodeURIComponent(network.relayUrl)}`
+      : network.transport === 'local' ? '&t=local'
+      : '';
+    window.open(`${window.location.origin}${window.location.pathname}#${FORK_PARAM}=${encoded}${networkParams}`, '_blank');
+  };
+
+  const handleCompareVersion = () => {
+    if (!pastVersion) return;
+    setComparison({
+      label: historyEntry?.timestamp ? `the version of ${new Date(historyEntry.timestamp).toLocaleString()}` : 'an earlier version',
+      before: { elements: Object.values(pastVersion.elements), threatActors: Object.values(pastVersion.threatActors) },
+    });
+    setHistoryIndex(null);
+  };
+
+  const handleCompareFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = e => {
+      try {
+        const { issues, elements, threatActors } = validateModel(JSON.parse(e.target?.result as string));
+        const errors = issues.filter(issue => issue.severity === 'error');
+        if (errors.length > 0) {
+          throw new Error(`${errors.length} schema error(s), e.g. ${errors[0].path}: ${errors[0].message}`);
+        }
+        setComparison({ label: file.name, before: { elements, threatActors } });
+        setHistoryIndex(null);
+      } catch (error) {
+        console.error('❌ Failed to compare with file:', error);
+        alert(`Could not compare with ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  // Branches are rooms of their own, opened in a tab each. A local branch
+  // stays on the local transport, so it reaches only this browser's tabs
+  const branchLink = async (branch: ModelBranch) => {
+    const ownFingerprint = await diagram?.getOwnFingerprint();
+    const networkParams = !branch.shared ? '&t=local'
+      : network.transport === 'relay' ? `&t=relay&relay=${encodeURIComponent(network.relayUrl)}`
+      : network.transport === 'local' ? '&t=local'
+      : '';
+    return `${window.location.origin}${window.location.pathname}#r=${branch.id}&i=${branch.passphrase}&n=${branch.salt}${ownFingerprint ? `&o=${ownFingerprint}` : ''}${networkParams}`;
+  };
+
+  const handleShowBranches = () => {
+    setBranches(diagram?.listBranches() ?? []);
+    setShowHistory(false);
+    setHistoryIndex(null);
+    setShowBranches(true);
+  };
+
+  const handleCreateBranch = async (name: string, shared: boolean) => {
+    if (!diagram) return;
+    const branch = await diagram.createBranch(name, shared);
+    setBranches(diagram.listBranches());
+    window.open(await branchLink(branch), '_blank');
+  };
+
+  const handleMergeBranch = async (merged: DiffableModel) => {
+    if (!diagram) return;
+    const version: ModelState = {
+      elements: Object.fromEntries(merged.elements.map(element => [element.id, element])),
+      threatActors: Object.fromEntries(merged.threatActors.map(actor => [actor.id, actor])),
+    };
+    if (!(await diagram.restoreVersion(version))) throw new Error('The change was refused');
+  };
+
+  const forkSeeded = useRef(false);
+  React.useEffect(() => {
+    if (!diagram || !application.isReady || forkSeeded.current) return;
+    const fragmentParams = new URLSearchParams(window.location.hash.substring(1));
+    const encoded = fragmentParams.get(FORK_PARAM);
+    if (!encoded) return;
+    forkSeeded.current = true;
+
+    // Drop the model from the URL so reloading or sharing the link does not fork again
+    fragmentParams.delete(FORK_PARAM);
+    window.history.replaceState({}, '', `${window.location.pathname}#${fragmentParams.toString()}`);
+
+    decodeSnapshot(encoded)
+      .then(snapshot => {
+        const version: ModelState = {
+          elements: Object.fromEntries(snapshot.elements.map(element => [element.id, element])),
+          threatActors: Object.fromEntries(snapshot.threatActors.map(actor => [actor.id, actor])),
+        };
+        return diagram.restoreVersion(version);
+      })
+      .then(() => console.log('🍴 Seeded forked room'))
+      .catch(error => {
+        console.error('❌ Failed to fork version:', error);
+        alert(`Could not fork the version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      });
+  }, [diagram, application.isReady]);
+
+  // A rotated room key replaces the link parameters; the new config reconnects
+  // us under the new key, which the old link cannot derive
+  React.useEffect(() => {
+    const distributedState = application.services.distributedState;
+    if (!distributedState) return;
+
+    const adoptCredentials = (credentials: RoomCredentials) => {
+      const url = new URL(window.location.href);
+      const fragmentParams = new URLSearchParams(url.hash.substring(1));
+      ['i', 'n', 'v', 'e'].forEach(param => fragmentParams.delete(param));
+      if (credentials.kind === 'edit') {
+        fragmentParams.set('i', encodeURIComponent(credentials.passphrase));
+        if (credentials.salt) fragmentParams.set('n', credentials.salt);
+      } else {
+        fragmentParams.set('v', credentials.transportSecret);
+        fragmentParams.set('e', credentials.editPublicKey);
+      }
+      url.hash = fragmentParams.toString();
+      window.history.replaceState({}, '', url.toString());
+
+      setRoomConfig(prev => credentials.kind === 'edit'
+        ? { ...prev, passphrase: credentials.passphrase, salt: credentials.salt, readOnlyLink: null }
+        : { ...prev, passphrase: null, salt: null, readOnlyLink: { transportSecret: credentials.transportSecret, editPublicKey: credentials.editPublicKey } });
+    };
+
+    const handleEvent = (event: DistributedStateEvent) => {
+      if (event.type !== 'room_key_rotated') return;
+      adoptCredentials(event.credentials);
+      alert(event.rotatedBy === 'us'
+        ? '🔑 Room key rotated. Connected participants were moved to the new key and old links no longer work - send a fresh invite to anyone else.'
+        : '🔑 The room key was rotated. You were moved to the new key; links you saved earlier no longer work.');
+    };
+
+    distributedState.addEventListener(handleEvent);
+    return () => distributedState.removeEventListener(handleEvent);
+  }, [application.services.distributedState]);
+
+  // Warn before the browser starts refusing to save
+  const [quotaWarning, setQuotaWarning] = useState<QuotaWarning | null>(null);
+  React.useEffect(() => encryptedStorage.onQuotaWarning(setQuotaWarning), []);
+
   // UI handlers
   const handleAddElement = (type: DiagramElement['type'], pos: { x: number; y: number }) => {
     if (!diagram) return;
@@ -130,12 +547,14 @@ export default function AppBootstrap() {
       notes: '',
       description: '',
       assets: [],
+      ...(view ? { view } : {}),
+      ...(level ? { parentId: level } : {}),
     } as DiagramElement;
 
     diagram.createElement(newElement);
   };
 
-  const handleExport = (format: 'png' | 'json' | 'html') => {
+  const handleExport = (format: 'png' | 'json' | 'html' | 'pdf' | 'threat-dragon' | 'otm-json' | 'otm-yaml') => {
     if (format === 'json' && diagram) {
       try {
         const state = diagram.exportDiagram();
@@ -234,6 +653,106 @@ export default function AppBootstrap() {
       } else {
         alert('Diagram not ready. Please wait for initialization to complete.');
       }
+    } else if (format === 'pdf') {
+      // Handle PDF export natively in the browser - no print dialog involved
+      if (diagram) {
+        try {
+          console.log('📕 Generating PDF threat report...');
+          
+          const generator = new PDFReportGenerator();
+          
+          // Get canvas screenshot if available
+          const canvas = document.querySelector('canvas') as HTMLCanvasElement;
+          const canvasDataURL = canvas ? canvas.toDataURL('image/png') : undefined;
+          
+          const pdfBlob = generator.generateThreatReport(
+            diagram.elements,
+            diagram.threatActors,
+            canvasDataURL,
+            {
+              projectName: `Room ${roomConfig.roomId}`,
+              reportTitle: 'Threat Modeling Report',
+              includeScreenshot: !!canvasDataURL,
+              includeThreatAnalysis: true,
+              includeAssetInventory: true,
+              includeRecommendations: true,
+            }
+          );
+          
+          // Download the PDF
+          const url = URL.createObjectURL(pdfBlob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `threat-report-${roomConfig.roomId}-${new Date().toISOString().split('T')[0]}.pdf`;
+          document.body.appendChild(link);
+          link.click();
+          document.body.removeChild(link);
+          URL.revokeObjectURL(url);
+          
+          console.log('✅ PDF report generated successfully');
+        } catch (error) {
+          console.error('❌ PDF export failed:', error);
+          alert('Failed to export PDF. Please try again.');
+        }
+      } else {
+        alert('Diagram not ready. Please wait for initialization to complete.');
+      }
+    } else if (format === 'threat-dragon') {
+      // Export as an OWASP Threat Dragon v2 model - fields kept from a previous import are written back
+      if (diagram) {
+        try {
+          const model = new ThreatDragonConverter().exportModel(diagram.elements);
+          
+          const blob = new Blob([JSON.stringify(model, null, 2)], { type: 'application/json' });
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `threat-dragon-${roomConfig.roomId}-${new Date().toISOString().split('T')[0]}.json`;
+          document.body.appendChild(link);
+          link.click();
+          document.body.removeChild(link);
+          URL.revokeObjectURL(url);
+          
+          console.log('✅ Threat Dragon model exported successfully');
+        } catch (error) {
+          console.error('❌ Threat Dragon export failed:', error);
+          alert('Failed to export Threat Dragon model. Please try again.');
+        }
+      } else {
+        alert('Diagram not ready. Please wait for initialization to complete.');
+      }
+    } else if (format === 'otm-json' || format === 'otm-yaml') {
+      // Export as an Open Threat Model document, stamped with room provenance and checksum
+      if (diagram) {
+        try {
+          const otmFormat = format === 'otm-yaml' ? 'yaml' : 'json';
+          const model = new OtmConverter().exportModel(diagram.elements, {
+            projectName: `Room ${roomConfig.roomId}`,
+            roomId: roomConfig.roomId,
+            exportedBy: userId,
+            threatActors: diagram.threatActors,
+          });
+          
+          const blob = new Blob([OtmConverter.serialize(model, otmFormat)], {
+            type: otmFormat === 'yaml' ? 'application/yaml' : 'application/json',
+          });
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `otm-${roomConfig.roomId}-${new Date().toISOString().split('T')[0]}.${otmFormat}`;
+          document.body.appendChild(link);
+          link.click();
+          document.body.removeChild(link);
+          URL.revokeObjectURL(url);
+          
+          console.log('✅ OTM model exported successfully');
+        } catch (error) {
+          console.error('❌ OTM export failed:', error);
+          alert('Failed to export OTM model. Please try again.');
+        }
+      } else {
+        alert('Diagram not ready. Please wait for initialization to complete.');
+      }
     } else if (format === 'png') {
       // Handle PNG export
       if ((window as any).modelkaExport?.png) {
@@ -251,8 +770,10 @@ export default function AppBootstrap() {
       return;
     }
     
-    if (!file || file.type !== 'application/json') {
-      alert('Please select a valid JSON file.');
+    const isTmtFile = !!file && TmtImporter.isTmtModel(file.name);
+    const isYamlFile = !!file && /\.ya?ml$/i.test(file.name);
+    if (!file || (file.type !== 'application/json' && !isTmtFile && !isYamlFile)) {
+      alert('Please select a valid JSON, OTM YAML or Threat Modeling Tool (.tm7) file.');
       return;
     }
     
@@ -264,7 +785,37 @@ export default function AppBootstrap() {
           throw new Error('File content is empty');
         }
 
-        const data = JSON.parse(fileContent);
+        let data: any;
+        let importWarnings: string[] = [];
+        
+        if (isTmtFile) {
+          // Microsoft Threat Modeling Tool models are XML - the report lists what couldn't be translated
+          const { elements, report } = new TmtImporter().importModel(fileContent);
+          importWarnings = TmtImporter.describeReport(report);
+          console.log('📋 TMT import report:\n' + importWarnings.join('\n'));
+          data = { elements, threatActors: [] };
+        } else {
+          data = isYamlFile ? OtmConverter.parse(fileContent) : JSON.parse(fileContent);
+        }
+        
+        // Open Threat Model documents (JSON or YAML)
+        if (OtmConverter.isOtmModel(data)) {
+          const result = new OtmConverter().importModel(data);
+          console.log(`📐 Converted OTM ${data.otmVersion} model: ${result.elements.length} elements (integrity: ${result.integrity})`);
+          if (result.provenance) {
+            console.log(`📐 Exported from room ${result.provenance.roomId} by ${result.provenance.exportedBy} at ${new Date(result.provenance.exportedAt).toISOString()}`);
+          }
+          importWarnings = result.warnings;
+          data = { elements: result.elements, threatActors: result.threatActors };
+        }
+        
+        // OWASP Threat Dragon models (v1/v2) are converted to Modelka elements first
+        if (ThreatDragonConverter.isThreatDragonModel(data)) {
+          const result = new ThreatDragonConverter().importModel(data);
+          console.log(`🐉 Converted Threat Dragon v${result.version} model: ${result.elements.length} elements`);
+          importWarnings = result.warnings;
+          data = { elements: result.elements, threatActors: [] };
+        }
         
         // Validate import data structure
         if (!data.elements && !data.threatActors) {
@@ -322,7 +873,8 @@ export default function AppBootstrap() {
         
         if (success) {
           console.log('✅ Import completed successfully');
-          alert(`Successfully imported ${elements.length} elements and ${threatActors.length} threat actors.`);
+          const notes = importWarnings.length > 0 ? `\n\nNotes:\n- ${importWarnings.join('\n- ')}` : '';
+          alert(`Successfully imported ${elements.length} elements and ${threatActors.length} threat actors.${notes}`);
         } else {
           throw new Error('Import operation failed');
         }
@@ -419,24 +971,53 @@ export default function AppBootstrap() {
           onExport={handleExport}
           onImport={handleImport}
           onToggleConnectionMode={() => {}}
-          onShowSettings={() => {}}
-          onGenerateInviteLink={() => {
-            const inviteUrl = `${window.location.origin}${window.location.pathname}#r=${roomConfig.roomId}&i=${roomConfig.passphrase || 'defaultpass'}`;
+          onShowSettings={() => setShowSettings(true)}
+          onLock={encryptedStorage.getMode() === 'passphrase' ? handleLock : undefined}
+          onGenerateInviteLink={roomConfig.readOnlyLink ? undefined : async () => {
+            const networkParams = network.transport === 'relay' ? `&t=relay&relay=${encodeURIComponent(network.relayUrl)}`
+              : network.transport === 'local' ? '&t=local'
+              : '';
+            const ownerFingerprint = await diagram?.getOwnerFingerprint();
+            const ownerParam = ownerFingerprint ? `&o=${ownerFingerprint}` : '';
+            const saltParam = roomConfig.salt ? `&n=${roomConfig.salt}` : '';
+            const inviteUrl = `${window.location.origin}${window.location.pathname}#r=${roomConfig.roomId}&i=${roomConfig.passphrase || 'defaultpass'}${saltParam}${ownerParam}${networkParams}`;
             navigator.clipboard.writeText(inviteUrl);
             alert(`Invite link copied: ${inviteUrl}`);
           }}
           peersConnected={diagram?.stats?.connectedPeers || 0}
-          networkType="BitTorrent"
+          networkType={network.transport === 'relay' ? 'Relay' : network.transport === 'local' ? 'Local' : 'BitTorrent'}
           latency={application.isConnected ? 50 : undefined}
           quality={application.isConnected ? 'excellent' : undefined}
           p2pEnabled={p2pEnabled}
           onToggleP2P={handleToggleP2P}
+          onShowParticipants={() => setShowParticipants(true)}
+          onShowHistory={() => {
+            setShowBranches(false);
+            setShowHistory(true);
+          }}
+          onShowBranches={diagram ? handleShowBranches : undefined}
+          onShareReadOnly={handleShareReadOnly}
+          readOnly={readOnly}
         />
 
+        {quotaWarning && (
+          <div className={`storage-warning ${quotaWarning.level}`} role="alert">
+            <span>
+              {quotaWarning.level === 'full'
+                ? '⚠️ Browser storage is full - recent changes were not saved on this device.'
+                : '⚠️ Browser storage is nearly full.'}
+              {quotaWarning.usage && ` ${Math.round(quotaWarning.usage.usage / 1024 / 1024)} of ${Math.round(quotaWarning.usage.quota / 1024 / 1024)} MB used.`}
+              {' '}Export your models and delete sessions you no longer need.
+            </span>
+            <button onClick={() => setQuotaWarning(null)} title="Dismiss">✕</button>
+          </div>
+        )}
+
         <div className="app-body">
+          <div className="canvas-container">
           <STRIDECanvas
-            elements={diagram?.elements || []}
-            selectedElement={diagram?.selectedElement || null}
+            elements={resolvedCanvasElements}
+            selectedElement={selectedElement}
             onElementsChange={(elements) => {
               elements.forEach(element => {
                 const existing = diagram?.elements.find(e => e.id === element.id);
@@ -449,32 +1030,150 @@ export default function AppBootstrap() {
             }}
             onElementSelect={(element) => diagram?.selectElement(element?.id || null)}
             onElementDelete={(elementId) => diagram?.deleteElement(elementId)}
+            selectedElementIds={diagram?.selectedElementIds || []}
+            onSelectionChange={(elementIds) => diagram?.selectElements(elementIds)}
+            onElementsUpdate={(updates) => diagram?.updateElements(updates)}
+            onElementsDelete={(elementIds) => diagram?.deleteElements(elementIds)}
+            readOnly={readOnly || viewingPast || !!comparison}
+            changeHighlights={changeHighlights}
+            problems={viewingPast || comparison ? undefined : problemBadges}
+            view={view}
+            level={level}
+            onLevelChange={handleLevelChange}
+          />
+          <DiagramTabs
+            views={views}
+            current={view}
+            onSelect={handleViewChange}
+            onAdd={(name) => {
+              setPendingViews([...pendingViews, name]);
+              handleViewChange(name);
+            }}
+            onRename={handleRenameView}
+            onDelete={handleDeleteView}
+            readOnly={readOnly || viewingPast || !!comparison}
           />
-
-          <div className="sidebar-container">
-            <RightSidebar
-              selectedElement={diagram?.selectedElement || null}
-              elements={diagram?.elements || []}
-              threatActors={diagram?.threatActors || []}
-              onElementUpdate={(element) => diagram?.updateElement(element.id, element)}
-              onThreatUpdate={(elementId, threats) => {
-                diagram?.updateElement(elementId, { threats });
-              }}
-              onThreatActorsChange={(threatActors) => {
-                threatActors.forEach(ta => {
-                  const existing = diagram?.threatActors.find(t => t.id === ta.id);
-                  if (existing) {
-                    diagram?.updateThreatActor(ta.id, ta);
-                  } else {
-                    diagram?.createThreatActor(ta);
-                  }
-                });
-              }}
-              onElementDelete={(elementId) => diagram?.deleteElement(elementId)}
-            />
           </div>
+
+          {diff && comparison ? (
+            <div className="sidebar-container">
+              <DiffPanel
+                diff={diff}
+                label={comparison.label}
+                ignoreLayout={ignoreLayout}
+                onIgnoreLayoutChange={setIgnoreLayout}
+                onSelectElement={(elementId) => diagram?.selectElement(elementId)}
+                onClose={() => setComparison(null)}
+              />
+            </div>
+          ) : showHistory && diagram ? (
+            <div className="sidebar-container">
+              <HistoryPanel
+                timeline={timeline}
+                selected={historyIndex}
+                onSelect={setHistoryIndex}
+                onRestore={async () => {
+                  if (!pastVersion) throw new Error('This version cannot be rebuilt');
+                  if (!(await diagram.restoreVersion(pastVersion))) throw new Error('The change was refused');
+                }}
+                onFork={handleForkVersion}
+                onSaveVersion={diagram.saveVersion}
+                onCompare={handleCompareVersion}
+                onCompareFile={handleCompareFile}
+                onClose={() => {
+                  setShowHistory(false);
+                  setHistoryIndex(null);
+                }}
+                userId={userId}
+                readOnly={readOnly}
+              />
+            </div>
+          ) : showBranches && diagram ? (
+            <div className="sidebar-container">
+              <BranchesPanel
+                branches={branches}
+                elements={diagram.elements}
+                threatActors={diagram.threatActors}
+                onCreate={handleCreateBranch}
+                onOpen={async (branch) => window.open(await branchLink(branch), '_blank')}
+                onCopyLink={async (branch) => {
+                  const link = await branchLink(branch);
+                  await navigator.clipboard.writeText(link);
+                  alert(`Branch link copied: ${link}`);
+                }}
+                onRead={diagram.readBranch}
+                onMerge={handleMergeBranch}
+                onDelete={(branch) => {
+                  diagram.deleteBranch(branch.id);
+                  setBranches(diagram.listBranches());
+                }}
+                onClose={() => setShowBranches(false)}
+                readOnly={readOnly}
+              />
+            </div>
+          ) : (
+            <div className="sidebar-container">
+              <RightSidebar
+                selectedElement={selectedElement}
+                selectionCount={diagram?.selectedElementIds.length || 0}
+                elements={diagram?.elements || []}
+                threatActors={diagram?.threatActors || []}
+                onElementUpdate={(element) => diagram?.updateElement(element.id, element)}
+                onThreatUpdate={(elementId, threats) => {
+                  diagram?.updateElement(elementId, { threats });
+                }}
+                onThreatActorsChange={(threatActors) => {
+                  diagram?.threatActors
+                    .filter(existing => !threatActors.some(ta => ta.id === existing.id))
+                    .forEach(removed => diagram?.deleteThreatActor(removed.id));
+                  threatActors.forEach(ta => {
+                    const existing = diagram?.threatActors.find(t => t.id === ta.id);
+                    if (existing) {
+                      diagram?.updateThreatActor(ta.id, ta);
+                    } else {
+                      diagram?.createThreatActor(ta);
+                    }
+                  });
+                }}
+                onElementDelete={(elementId) => diagram?.deleteElement(elementId)}
+                readOnly={readOnly}
+                canEditNotes={canEditNotes}
+                currentView={view}
+                onPlaceElement={handlePlaceElement}
+                onElementSelect={(elementId) => diagram?.selectElement(elementId)}
+                problems={problems}
+                lintConfig={lintConfig}
+                onLintConfigChange={handleLintConfigChange}
+                onRevealElement={handleRevealElement}
+              />
+            </div>
+          )}
         </div>
 
+        <Settings
+          isOpen={showSettings}
+          onClose={handleCloseSettings}
+          onConfigChange={handleNetworkSettingsChange}
+          onLock={handleLock}
+          onForgetDevice={handleForgetDevice}
+        />
+
+        {diagram && (
+          <ParticipantsPanel
+            isOpen={showParticipants}
+            onClose={() => setShowParticipants(false)}
+            participants={diagram.participants}
+            ownRole={diagram.role}
+            isOwner={diagram.isOwner}
+            defaultRole={diagram.defaultRole}
+            onSetRole={diagram.setParticipantRole}
+            onKick={diagram.kickParticipant}
+            onSetDefaultRole={diagram.setDefaultRole}
+            canRotateKey={diagram.canRotateKey}
+            onRotateKey={diagram.rotateRoomKey}
+          />
+        )}
+
         {/* System status indicator */}
         {application.state !== 'ready' && application.state !== 'private_mode' && (
           <div className="system-status">
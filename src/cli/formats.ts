@@ -0,0 +1,131 @@
+// src/cli/formats.ts - Loading and writing model files in every format the app supports
+import { DOMParser as XmlDomParser } from '@xmldom/xmldom';
+import { DiagramElement, ThreatActor } from '../types/diagram';
+import { ThreatDragonConverter } from '../services/threatDragonConverter';
+import { TmtImporter } from '../services/tmtImporter';
+import { OtmConverter } from '../services/otmConverter';
+import { validateModel, SchemaIssue } from '../utils/modelSchema';
+
+export type ModelFormat = 'modelka' | 'threat-dragon' | 'otm-json' | 'otm-yaml' | 'tm7';
+
+/** Formats `convert` can write (.tm7 is import-only) */
+export const OUTPUT_FORMATS: ModelFormat[] = ['modelka', 'threat-dragon', 'otm-json', 'otm-yaml'];
+
+export interface LoadedModel {
+  format: ModelFormat;
+  elements: DiagramElement[];
+  threatActors: ThreatActor[];
+  /** Schema issues of the (converted) model */
+  issues: SchemaIssue[];
+  /** Notes from format conversion (untranslated items, checksum mismatches...) */
+  conversionNotes: string[];
+}
+
+export interface WriteOptions {
+  roomId?: string;
+  title?: string;
+}
+
+const isYamlFile = (fileName: string) => /\.ya?ml$/i.test(fileName);
+
+/**
+ * Load a model from file content, converting foreign formats to Modelka elements
+ */
+export function loadModel(fileName: string, content: string): LoadedModel {
+  if (TmtImporter.isTmtModel(fileName, content)) {
+    const importer = new TmtImporter(xml =>
+      new XmlDomParser().parseFromString(xml, 'text/xml') as unknown as Document
+    );
+    const { elements, report } = importer.importModel(content);
+    return withValidation('tm7', elements, [], TmtImporter.describeReport(report).slice(1));
+  }
+
+  const data = isYamlFile(fileName) ? OtmConverter.parse(content) : JSON.parse(content);
+
+  if (OtmConverter.isOtmModel(data)) {
+    const result = new OtmConverter().importModel(data);
+    const notes = [...result.warnings];
+    if (result.integrity === 'verified') {
+      notes.unshift(`Checksum verified (exported from room ${result.provenance?.roomId} by ${result.provenance?.exportedBy})`);
+    }
+    return withValidation(isYamlFile(fileName) ? 'otm-yaml' : 'otm-json', result.elements, result.threatActors, notes);
+  }
+
+  if (ThreatDragonConverter.isThreatDragonModel(data)) {
+    const result = new ThreatDragonConverter().importModel(data);
+    return withValidation('threat-dragon', result.elements, [], result.warnings);
+  }
+
+  const validation = validateModel(data);
+  return {
+    format: 'modelka',
+    elements: validation.elements,
+    threatActors: validation.threatActors,
+    issues: validation.issues,
+    conversionNotes: [],
+  };
+}
+
+function withValidation(
+  format: ModelFormat,
+  elements: DiagramElement[],
+  threatActors: ThreatActor[],
+  conversionNotes: string[]
+): LoadedModel {
+  const { issues } = validateModel({ elements, threatActors });
+  return { format, elements, threatActors, issues, conversionNotes };
+}
+
+/**
+ * Infer the output format from a file name (`.yaml` -> OTM YAML, otherwise Modelka JSON)
+ */
+export function formatFromFileName(fileName: string): ModelFormat {
+  return isYamlFile(fileName) ? 'otm-yaml' : 'modelka';
+}
+
+/**
+ * Serialize elements to the given format
+ */
+export function serializeModel(
+  elements: DiagramElement[],
+  threatActors: ThreatActor[],
+  format: ModelFormat,
+  options: WriteOptions = {}
+): string {
+  switch (format) {
+    case 'threat-dragon':
+      return JSON.stringify(new ThreatDragonConverter().exportModel(elements, { title: options.title }), null, 2);
+
+    case 'otm-json':
+    case 'otm-yaml': {
+      const model = new OtmConverter().exportModel(elements, {
+        projectName: options.title,
+        roomId: options.roomId,
+        exportedBy: 'modelka-cli',
+        threatActors,
+      });
+      return OtmConverter.serialize(model, format === 'otm-yaml' ? 'yaml' : 'json');
+    }
+
+    case 'modelka':
+      // Same shape as the app's JSON export
+      return JSON.stringify({
+        version: '2.1',
+        exportedAt: new Date().toISOString(),
+        exportedBy: 'modelka-cli',
+        roomId: options.roomId,
+        metadata: {
+          elementCount: elements.length,
+          threatActorCount: threatActors.length,
+          appVersion: 'Modelka 2.1',
+          preservesPositions: true,
+          preservesConnections: true,
+        },
+        elements,
+        threatActors,
+      }, null, 2);
+
+    default:
+      throw new Error(`Cannot write ${format} files`);
+  }
+}
@@ -0,0 +1,333 @@
+// src/cli/modelka.ts - Headless CLI for CI pipelines: validate, convert, report, lint, diff and merge model files
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { HTMLReportGenerator } from '../services/htmlReportGenerator';
+import { SchemaIssue } from '../utils/modelSchema';
+import { diffModels, formatDiff, summarizeDiff, isEmptyDiff } from '../utils/modelDiff';
+import { mergeModels, MergeSide } from '../state/modelMerge';
+import { loadModel, serializeModel, formatFromFileName, LoadedModel, ModelFormat, OUTPUT_FORMATS } from './formats';
+import { DFD_RULES, LintConfig, LintFinding, lintModel, parseLintConfig } from '../utils/modelLint';
+import { REVIEW_RULES } from './policies';
+
+/** Exit codes */
+const EXIT_OK = 0;
+const EXIT_FAILED = 1; // validation or policy failure, merge conflicts
+const EXIT_USAGE = 2; // bad arguments, unreadable or unparseable input
+
+const USAGE = `Usage: modelka <command> [options]
+
+Commands:
+  validate <model>                   Check a model against the DiagramElement / ThreatActor schema
+  convert <model> <output>           Convert between formats
+      --to <format>                  modelka | threat-dragon | otm-json | otm-yaml
+                                     (default: otm-yaml for .yaml/.yml output, modelka otherwise)
+  report <model>                     Render the HTML threat report
+      --out <file>                   Output file (default: <model>.report.html)
+      --title <title>                Report title
+      --project <name>               Project name
+  lint <model>                       Validate, then check DFD rules and review policies
+      --fail-on <error|warning>      Lowest severity that fails the run (default: error)
+      --rules <file>                 JSON of rule id to error | warning | off
+  rules                              List the lint rules and their default severities
+  diff <before> <after>              Added, removed and changed elements, threats, controls,
+                                     assets and threat actors
+      --ignore-layout                Leave out moves, resizes and re-routed flows
+  merge <base> <ours> <theirs>       Three-way merge; fails if conflicts had to be resolved
+      --out <file>                   Output file (default: <ours>, as a git merge driver expects)
+      --prefer <ours|theirs>         Side that wins conflicting edits (default: ours)
+
+Global options:
+  --json                             Machine-readable output
+  --help                             Show this help
+
+Input formats: Modelka JSON, OWASP Threat Dragon JSON, OTM JSON/YAML, Microsoft TMT .tm7
+
+Exit codes: 0 success, 1 validation or policy failure or merge conflicts, 2 usage or input error`;
+
+class UsageError extends Error {}
+
+interface ParsedArgs {
+  command?: string;
+  positional: string[];
+  options: Record<string, string | boolean>;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const options: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const [key, inline] = arg.slice(2).split('=', 2);
+    if (inline !== undefined) {
+      options[key] = inline;
+    } else if (['json', 'help', 'ignore-layout'].includes(key)) {
+      options[key] = true;
+    } else if (i + 1 < argv.length) {
+      options[key] = argv[++i];
+    } else {
+      throw new UsageError(`Missing value for --${key}`);
+    }
+  }
+
+  return { command: positional.shift(), positional, options };
+}
+
+function readModel(file: string | undefined): LoadedModel {
+  if (!file) {
+    throw new UsageError('Missing model file');
+  }
+  let content: string;
+  try {
+    content = readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new UsageError(`Cannot read ${file}: ${(error as Error).message}`);
+  }
+  try {
+    return loadModel(file, content);
+  } catch (error) {
+    throw new UsageError(`Cannot parse ${file}: ${(error as Error).message}`);
+  }
+}
+
+function printIssues(issues: SchemaIssue[]): void {
+  for (const issue of issues) {
+    console.log(`${issue.severity === 'error' ? '❌' : '⚠️ '} ${issue.path}: ${issue.message}`);
+  }
+}
+
+function printNotes(model: LoadedModel): void {
+  for (const note of model.conversionNotes) {
+    console.log(`ℹ️  ${note}`);
+  }
+}
+
+function validate(args: ParsedArgs): number {
+  const model = readModel(args.positional[0]);
+  const errors = model.issues.filter(issue => issue.severity === 'error');
+
+  if (args.options.json) {
+    console.log(JSON.stringify({ format: model.format, valid: errors.length === 0, issues: model.issues, notes: model.conversionNotes }, null, 2));
+  } else {
+    printNotes(model);
+    printIssues(model.issues);
+    console.log(errors.length === 0
+      ? `✅ ${model.format} model is valid (${model.elements.length} elements, ${model.threatActors.length} threat actors)`
+      : `❌ ${errors.length} schema error(s)`);
+  }
+
+  return errors.length === 0 ? EXIT_OK : EXIT_FAILED;
+}
+
+function convert(args: ParsedArgs): number {
+  const [input, output] = args.positional;
+  if (!output) {
+    throw new UsageError('Missing output file');
+  }
+
+  const format = (args.options.to as ModelFormat | undefined) ?? formatFromFileName(output);
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new UsageError(`Unsupported output format "${format}" (expected ${OUTPUT_FORMATS.join(', ')})`);
+  }
+
+  const model = readModel(input);
+  const errors = model.issues.filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    printIssues(errors);
+    console.error(`❌ ${input} is not a valid model - nothing written`);
+    return EXIT_FAILED;
+  }
+
+  const title = basename(input).replace(/\.[^.]+$/, '');
+  writeFileSync(output, serializeModel(model.elements, model.threatActors, format, { title }));
+  printNotes(model);
+  console.log(`✅ Converted ${model.format} → ${format}: ${output}`);
+  return EXIT_OK;
+}
+
+function report(args: ParsedArgs): number {
+  const input = args.positional[0];
+  const model = readModel(input);
+  const errors = model.issues.filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    printIssues(errors);
+    console.error(`❌ ${input} is not a valid model - no report generated`);
+    return EXIT_FAILED;
+  }
+
+  const out = (args.options.out as string | undefined) ?? `${input.replace(/\.[^.]+$/, '')}.report.html`;
+  const html = new HTMLReportGenerator().generateThreatReport(model.elements, model.threatActors, undefined, {
+    includeScreenshot: false,
+    projectName: (args.options.project as string | undefined) ?? basename(input).replace(/\.[^.]+$/, ''),
+    reportTitle: (args.options.title as string | undefined) ?? 'Threat Modeling Report',
+  });
+  writeFileSync(out, html);
+  console.log(`✅ Report written to ${out}`);
+  return EXIT_OK;
+}
+
+const LINT_RULES = [...DFD_RULES, ...REVIEW_RULES];
+
+function readLintConfig(file: string | undefined): LintConfig {
+  if (!file) return {};
+  try {
+    return parseLintConfig(JSON.parse(readFileSync(file, 'utf8')), LINT_RULES);
+  } catch (error) {
+    throw new UsageError(`Cannot use rules file ${file}: ${(error as Error).message}`);
+  }
+}
+
+function lint(args: ParsedArgs): number {
+  const failOn = (args.options['fail-on'] as string | undefined) ?? 'error';
+  if (failOn !== 'error' && failOn !== 'warning') {
+    throw new UsageError('--fail-on must be "error" or "warning"');
+  }
+  const config = readLintConfig(args.options.rules as string | undefined);
+
+  const model = readModel(args.positional[0]);
+  const violations: LintFinding[] = model.issues.some(issue => issue.severity === 'error')
+    ? []
+    : lintModel(model.elements, config, LINT_RULES);
+  const failing = [
+    ...model.issues.filter(issue => failOn === 'warning' || issue.severity === 'error'),
+    ...violations.filter(violation => failOn === 'warning' || violation.severity === 'error'),
+  ];
+
+  if (args.options.json) {
+    console.log(JSON.stringify({ format: model.format, issues: model.issues, violations, failed: failing.length > 0 }, null, 2));
+  } else {
+    printNotes(model);
+    printIssues(model.issues);
+    for (const violation of violations) {
+      console.log(`${violation.severity === 'error' ? '❌' : '⚠️ '} [${violation.rule}] ${violation.message}`);
+    }
+    const errors = [...model.issues, ...violations].filter(item => item.severity === 'error').length;
+    const warnings = model.issues.length + violations.length - errors;
+    console.log(`${failing.length > 0 ? '❌' : '✅'} ${errors} error(s), ${warnings} warning(s)`);
+  }
+
+  return failing.length > 0 ? EXIT_FAILED : EXIT_OK;
+}
+
+function rules(args: ParsedArgs): number {
+  const config = readLintConfig(args.options.rules as string | undefined);
+  const listed = LINT_RULES.map(rule => ({
+    id: rule.id,
+    severity: config[rule.id] ?? rule.defaultSeverity,
+    default: rule.defaultSeverity,
+    description: rule.description,
+  }));
+
+  if (args.options.json) {
+    console.log(JSON.stringify(listed, null, 2));
+  } else {
+    const width = Math.max(...listed.map(rule => rule.id.length));
+    for (const rule of listed) {
+      console.log(`${rule.id.padEnd(width)}  ${rule.severity.padEnd(7)}  ${rule.description}`);
+    }
+  }
+  return EXIT_OK;
+}
+
+/**
+ * Load a model for diff and merge, which need it to be valid
+ */
+function readValidModel(file: string | undefined): LoadedModel {
+  const model = readModel(file);
+  const errors = model.issues.filter(issue => issue.severity === 'error');
+  if (errors.length > 0) {
+    printIssues(errors);
+    throw new UsageError(`${file} is not a valid model`);
+  }
+  return model;
+}
+
+function diff(args: ParsedArgs): number {
+  const [beforeFile, afterFile] = args.positional;
+  if (!afterFile) {
+    throw new UsageError('Missing model file to compare with');
+  }
+
+  const changes = diffModels(readValidModel(beforeFile), readValidModel(afterFile), { ignoreLayout: !!args.options['ignore-layout'] });
+  const summary = summarizeDiff(changes);
+
+  if (args.options.json) {
+    console.log(JSON.stringify({ summary, ...changes }, null, 2));
+  } else {
+    console.log(formatDiff(changes));
+    if (!isEmptyDiff(changes)) {
+      const line = (label: string, counts: { added: number; removed: number; changed: number }) =>
+        `${label}: +${counts.added} -${counts.removed} ~${counts.changed}`;
+      console.log(`\n${[
+        line('elements', summary.elements),
+        line('threats', summary.threats),
+        line('controls', summary.controls),
+        line('assets', summary.assets),
+        line('threat actors', summary.threatActors),
+      ].join(', ')}`);
+    }
+  }
+
+  return EXIT_OK;
+}
+
+function merge(args: ParsedArgs): number {
+  const [baseFile, oursFile, theirsFile] = args.positional;
+  if (!theirsFile) {
+    throw new UsageError('merge needs <base> <ours> <theirs>');
+  }
+  const prefer = (args.options.prefer as string | undefined) ?? 'ours';
+  if (prefer !== 'ours' && prefer !== 'theirs') {
+    throw new UsageError('--prefer must be "ours" or "theirs"');
+  }
+
+  const result = mergeModels(readValidModel(baseFile), readValidModel(oursFile), readValidModel(theirsFile), prefer as MergeSide);
+  const out = (args.options.out as string | undefined) ?? oursFile;
+  const format = formatFromFileName(out);
+  writeFileSync(out, serializeModel(result.elements, result.threatActors, format, { title: basename(out).replace(/\.[^.]+$/, '') }));
+
+  if (args.options.json) {
+    console.log(JSON.stringify({ out, conflicts: result.conflicts }, null, 2));
+  } else {
+    for (const conflict of result.conflicts) {
+      const kept = conflict.resolution === 'merged' ? 'merged both' : `kept ${conflict.resolution}`;
+      console.log(`⚠️  ${conflict.path}: ${conflict.detail} - ${kept}`);
+    }
+    console.log(result.conflicts.length === 0
+      ? `✅ Merged without conflicts: ${out}`
+      : `❌ ${result.conflicts.length} conflict(s) resolved automatically - review ${out}`);
+  }
+
+  return result.conflicts.length === 0 ? EXIT_OK : EXIT_FAILED;
+}
+
+const COMMANDS: Record<string, (args: ParsedArgs) => number> = { validate, convert, report, lint, rules, diff, merge };
+
+export function main(argv: string[]): number {
+  try {
+    const args = parseArgs(argv);
+    if (args.options.help || !args.command) {
+      console.log(USAGE);
+      return args.command || args.options.help ? EXIT_OK : EXIT_USAGE;
+    }
+
+    const command = COMMANDS[args.command];
+    if (!command) {
+      throw new UsageError(`Unknown command "${args.command}"`);
+    }
+    return command(args);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`❌ ${error.message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    console.error('❌ Unexpected error:', error);
+    return EXIT_USAGE;
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,68 @@
+// src/cli/policies.ts - Review policy rules run by `modelka lint`, next to the DFD rules
+import { DiagramElement } from '../types/diagram';
+import { LintRule, elementLabel as label } from '../utils/modelLint';
+import { getCrossedBoundaries } from '../utils/trustBoundaries';
+
+const isTreated = (threat: DiagramElement['threats'][number]) =>
+  threat.controls.some(control => control.implemented);
+
+const untreatedThreats = (originals: DiagramElement[], severity: 'critical' | 'high', title: string) =>
+  originals.flatMap(element => element.threats
+    .filter(threat => threat.severity === severity && !isTreated(threat))
+    .map(threat => ({
+      elementId: element.id,
+      message: `${title} threat "${threat.title}" on ${label(element)} has no implemented control`,
+    })));
+
+/**
+ * The built-in review policies:
+ * - critical threats need an implemented control (error), high ones should have one (warning)
+ * - flows crossing a trust boundary must have threats recorded
+ * - processes, stores and flows should have at least one threat
+ * - elements should be named (processes are covered by the DFD rules)
+ */
+export const REVIEW_RULES: LintRule[] = [
+  {
+    id: 'untreated-critical-threat',
+    description: 'Critical threats need an implemented control',
+    defaultSeverity: 'error',
+    check: ({ originals }) => untreatedThreats(originals, 'critical', 'Critical'),
+  },
+  {
+    id: 'untreated-high-threat',
+    description: 'High threats should have an implemented control',
+    defaultSeverity: 'warning',
+    check: ({ originals }) => untreatedThreats(originals, 'high', 'High'),
+  },
+  {
+    id: 'unanalyzed-boundary-crossing',
+    description: 'Data flows crossing a trust boundary must have threats recorded',
+    defaultSeverity: 'error',
+    check: ({ elements }) => elements
+      .filter(element => element.type === 'data-flow' && element.threats.length === 0)
+      .map(element => ({ element, crossed: getCrossedBoundaries(element, elements) }))
+      .filter(({ crossed }) => crossed.length > 0)
+      .map(({ element, crossed }) => ({
+        elementId: element.id,
+        message: `Data flow ${label(element)} crosses ${crossed.map(label).join(', ')} but has no threats`,
+      })),
+  },
+  {
+    id: 'no-threats',
+    description: 'Processes, data stores and data flows should have at least one threat',
+    defaultSeverity: 'warning',
+    check: ({ elements, originals }) => originals
+      .filter(element => element.threats.length === 0 && element.type !== 'trust-boundary' && element.type !== 'external-entity')
+      // Boundary crossings without threats are reported by the rule above
+      .filter(element => element.type !== 'data-flow' || getCrossedBoundaries(element, elements).length === 0)
+      .map(element => ({ elementId: element.id, message: `${label(element)} has no threats recorded` })),
+  },
+  {
+    id: 'unnamed-element',
+    description: 'Elements should be named',
+    defaultSeverity: 'warning',
+    check: ({ originals }) => originals
+      .filter(element => element.type !== 'process' && !element.name?.trim())
+      .map(element => ({ elementId: element.id, message: `${element.type} ${element.id} has no name` })),
+  },
+];
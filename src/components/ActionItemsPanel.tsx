@@ -1,10 +1,13 @@
 import React, { useState, useMemo } from 'react';
 import { DiagramElement, Threat, ThreatSeverity, SEVERITY_LEVELS, STRIDE_CATEGORIES } from '../types/diagram';
+import { compareByRisk, getRiskScore } from '../utils/riskScoring';
+import { expandedProcesses, levelLabel, rollUpThreats } from '../utils/dfdLevels';
 import './ActionItemsPanel.css';
 
 interface ActionItemsPanelProps {
   elements: DiagramElement[];
   onThreatUpdate: (elementId: string, threats: Threat[]) => void;
+  readOnly?: boolean;
 }
 
 interface ActionItem {
@@ -12,14 +15,17 @@ interface ActionItem {
   elementId: string;
   elementName: string;
   elementType: string;
+  levelLabel: string; // processes the element's sub-diagram sits in, e.g. `Order service › Payment`
 }
 
 export const ActionItemsPanel: React.FC<ActionItemsPanelProps> = ({
   elements,
-  onThreatUpdate
+  onThreatUpdate,
+  readOnly = false
 }) => {
-  const [sortBy, setSortBy] = useState<'severity' | 'element' | 'stride'>('severity');
+  const [sortBy, setSortBy] = useState<'risk' | 'element' | 'stride'>('risk');
   const [filterSeverity, setFilterSeverity] = useState<ThreatSeverity | 'all'>('all');
+  const [filterLevel, setFilterLevel] = useState<string>('all'); // a process: its action items rolled up across its sub-diagrams
 
   // Extract all action items from elements
   const actionItems = useMemo(() => {
@@ -33,7 +39,8 @@ export const ActionItemsPanel: React.FC<ActionItemsPanelProps> = ({
             threat,
             elementId: element.id,
             elementName: element.name,
-            elementType: element.type
+            elementType: element.type,
+            levelLabel: levelLabel(elements, element)
           });
         });
     });
@@ -41,6 +48,15 @@ export const ActionItemsPanel: React.FC<ActionItemsPanelProps> = ({
     return items;
   }, [elements]);
 
+  // Processes with sub-diagrams, and the action items that roll up to each
+  const levels = useMemo(
+    () => expandedProcesses(elements).map(process => ({
+      process,
+      itemKeys: new Set(rollUpThreats(elements, process.id).filter(({ threat }) => threat.isActionItem).map(({ threat, element }) => `${element.id}-${threat.id}`)),
+    })),
+    [elements]
+  );
+
   // Filter and sort action items
   const filteredAndSortedItems = useMemo(() => {
     let filtered = actionItems;
@@ -50,11 +66,17 @@ export const ActionItemsPanel: React.FC<ActionItemsPanelProps> = ({
       filtered = filtered.filter(item => item.threat.severity === filterSeverity);
     }
 
+    // Filter by level - a process and everything below it
+    const level = levels.find(({ process }) => process.id === filterLevel);
+    if (level) {
+      filtered = filtered.filter(item => level.itemKeys.has(`${item.elementId}-${item.threat.id}`));
+    }
+
     // Sort items
     return filtered.sort((a, b) => {
       switch (sortBy) {
-        case 'severity':
-          return SEVERITY_LEVELS[b.threat.severity].score - SEVERITY_LEVELS[a.threat.severity].score;
+        case 'risk':
+          return compareByRisk(a.threat, b.threat);
         case 'element':
           return a.elementName.localeCompare(b.elementName);
         case 'stride':
@@ -63,7 +85,7 @@ export const ActionItemsPanel: React.FC<ActionItemsPanelProps> = ({
           return 0;
       }
     });
-  }, [actionItems, sortBy, filterSeverity]);
+  }, [actionItems, sortBy, filterSeverity, filterLevel, levels]);
 
   // Get severity stats
   const severityStats = useMemo(() => {
@@ -149,7 +171,7 @@ export const ActionItemsPanel: React.FC<ActionItemsPanelProps> = ({
                 onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
                 className="form-select"
               >
-                <option value="severity">Severity</option>
+                <option value="risk">Risk Score</option>
                 <option value="element">Element</option>
                 <option value="stride">STRIDE Category</option>
               </select>
@@ -169,6 +191,24 @@ export const ActionItemsPanel: React.FC<ActionItemsPanelProps> = ({
                 <option value="low">Low</option>
               </select>
             </div>
+
+            {levels.length > 0 && (
+              <div className="control-group">
+                <label>Within:</label>
+                <select
+                  value={filterLevel}
+                  onChange={(e) => setFilterLevel(e.target.value)}
+                  className="form-select"
+                >
+                  <option value="all">All Levels</option>
+                  {levels.map(({ process, itemKeys }) => (
+                    <option key={process.id} value={process.id}>
+                      ⊞ {levelLabel(elements, process) ? `${levelLabel(elements, process)} › ` : ''}{process.name} ({itemKeys.size})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
           </div>
 
           <div className="action-items-list">
@@ -176,23 +216,29 @@ export const ActionItemsPanel: React.FC<ActionItemsPanelProps> = ({
               <div key={`${item.elementId}-${item.threat.id}`} className="action-item">
                 <div className="action-item-header">
                   <div className="item-info">
-                    <span className="element-badge">
-                      {getElementIcon(item.elementType)} {item.elementName}
+                    <span className="element-badge" title={item.levelLabel ? `In the sub-diagram of ${item.levelLabel}` : undefined}>
+                      {getElementIcon(item.elementType)} {item.levelLabel && `${item.levelLabel} › `}{item.elementName}
                     </span>
-                    <span className={`severity-badge severity-${item.threat.severity}`}>
-                      {SEVERITY_LEVELS[item.threat.severity].name}
+                    <span
+                      className={`severity-badge severity-${item.threat.severity}`}
+                      title={item.threat.severityOverride ? 'Severity set manually (overrides the risk score)' : undefined}
+                    >
+                      {SEVERITY_LEVELS[item.threat.severity].name} · {getRiskScore(item.threat).toFixed(1)}
+                      {item.threat.severityOverride && ' ⚑'}
                     </span>
                     <span className="stride-badge">
                       {STRIDE_CATEGORIES[item.threat.strideCategory].icon} {STRIDE_CATEGORIES[item.threat.strideCategory].name}
                     </span>
                   </div>
-                  <button
-                    className="remove-action-item"
-                    onClick={() => handleToggleActionItem(item.elementId, item.threat.id, false)}
-                    title="Remove from action items"
-                  >
-                    ❌
-                  </button>
+                  {!readOnly && (
+                    <button
+                      className="remove-action-item"
+                      onClick={() => handleToggleActionItem(item.elementId, item.threat.id, false)}
+                      title="Remove from action items"
+                    >
+                      ❌
+                    </button>
+                  )}
                 </div>
 
                 <div className="action-item-content">
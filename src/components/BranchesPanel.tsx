@@ -0,0 +1,284 @@
+import React, { useMemo, useState } from 'react';
+import { DiagramElement, ThreatActor, ThreatSeverity } from '../types/diagram';
+import { ModelBranch } from '../state/modelBranches';
+import { ModelState } from '../state/versionHistory';
+import { MergeConflict, MergeSide, mergeModels, resolveMerge } from '../state/modelMerge';
+import { DiffableModel, diffModels, summarizeDiff } from '../utils/modelDiff';
+import { RiskSummary, summarizeRisk } from '../utils/riskScoring';
+import './BranchesPanel.css';
+
+interface BranchesPanelProps {
+  branches: ModelBranch[];
+  elements: DiagramElement[]; // the main line, as it is now
+  threatActors: ThreatActor[];
+  onCreate: (name: string, shared: boolean) => Promise<unknown>;
+  onOpen: (branch: ModelBranch) => void;
+  onCopyLink: (branch: ModelBranch) => Promise<unknown>;
+  onRead: (branch: ModelBranch) => Promise<{ base: ModelState | null; model: ModelState | null }>;
+  onMerge: (merged: DiffableModel) => Promise<unknown>;
+  onDelete: (branch: ModelBranch) => void;
+  onClose: () => void;
+  readOnly?: boolean;
+}
+
+interface OpenBranch {
+  branch: ModelBranch;
+  view: 'compare' | 'merge';
+  base: DiffableModel | null;
+  model: DiffableModel;
+}
+
+const SEVERITIES: ThreatSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+const toModel = (state: ModelState): DiffableModel => ({
+  elements: Object.values(state.elements),
+  threatActors: Object.values(state.threatActors),
+});
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${Math.round(delta * 10) / 10}` : delta < 0 ? `−${Math.round(-delta * 10) / 10}` : '');
+
+/** A larger risk figure on the branch is worse */
+const RiskRow: React.FC<{ label: string; main: number; branch: number }> = ({ label, main, branch }) => (
+  <tr>
+    <th scope="row">{label}</th>
+    <td>{main}</td>
+    <td>{branch}</td>
+    <td className={branch > main ? 'worse' : branch < main ? 'better' : ''}>{formatDelta(branch - main)}</td>
+  </tr>
+);
+
+const RiskComparison: React.FC<{ main: DiffableModel; branch: DiffableModel }> = ({ main, branch }) => {
+  const [mainRisk, branchRisk]: RiskSummary[] = useMemo(
+    () => [summarizeRisk(main.elements), summarizeRisk(branch.elements)],
+    [main, branch]
+  );
+  // Elements whose residual risk differs between the two
+  const elementRows = useMemo(() => {
+    const residual = (elements: DiagramElement[]) =>
+      new Map(elements.map(element => [element.id, summarizeRisk([element]).residualRisk]));
+    const mainResidual = residual(main.elements);
+    const branchResidual = residual(branch.elements);
+    return [...new Map([...main.elements, ...branch.elements].map(element => [element.id, element])).values()]
+      .map(element => ({ element, main: mainResidual.get(element.id) ?? 0, branch: branchResidual.get(element.id) ?? 0 }))
+      .filter(row => row.main !== row.branch)
+      .sort((a, b) => Math.abs(b.branch - b.main) - Math.abs(a.branch - a.main));
+  }, [main, branch]);
+
+  return (
+    <table className="branch-risk">
+      <thead>
+        <tr><th /><th>Main</th><th>Branch</th><th>Δ</th></tr>
+      </thead>
+      <tbody>
+        <RiskRow label="Threats" main={mainRisk.threats} branch={branchRisk.threats} />
+        <RiskRow label="Unmitigated" main={mainRisk.unmitigated} branch={branchRisk.unmitigated} />
+        {SEVERITIES.map(severity => (
+          <RiskRow key={severity} label={severity[0].toUpperCase() + severity.slice(1)} main={mainRisk.bySeverity[severity]} branch={branchRisk.bySeverity[severity]} />
+        ))}
+        <RiskRow label="Average risk" main={mainRisk.averageRisk} branch={branchRisk.averageRisk} />
+        <RiskRow label="Residual risk" main={mainRisk.residualRisk} branch={branchRisk.residualRisk} />
+      </tbody>
+      {elementRows.length > 0 && (
+        <tbody>
+          <tr><th colSpan={4} className="branch-risk-section">Residual risk by element</th></tr>
+          {elementRows.map(row => (
+            <RiskRow key={row.element.id} label={row.element.name || 'unnamed'} main={row.main} branch={row.branch} />
+          ))}
+        </tbody>
+      )}
+    </table>
+  );
+};
+
+const formatValue = (value: unknown) => {
+  if (value === undefined) return '—';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}…` : text;
+};
+
+const MergeView: React.FC<{
+  base: DiffableModel;
+  main: DiffableModel;
+  branch: DiffableModel;
+  busy: boolean;
+  readOnly: boolean;
+  onMerge: (merged: DiffableModel) => void;
+}> = ({ base, main, branch, busy, readOnly, onMerge }) => {
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({});
+  const conflicts = useMemo(() => mergeModels(base, main, branch).conflicts, [base, main, branch]);
+  // One choice per element (or threat actor), covering all of its conflicts
+  const byItem = useMemo(() => {
+    const groups = new Map<string, MergeConflict[]>();
+    conflicts.forEach(conflict => groups.set(conflict.itemId, [...(groups.get(conflict.itemId) ?? []), conflict]));
+    return [...groups.entries()];
+  }, [conflicts]);
+  const merged = useMemo(() => resolveMerge(base, main, branch, choices), [base, main, branch, choices]);
+  const incoming = useMemo(() => summarizeDiff(diffModels(main, merged)), [main, merged]);
+  const incomingCount = Object.values(incoming).reduce((sum, counts) => sum + counts.added + counts.removed + counts.changed, 0);
+
+  return (
+    <div className="branch-merge">
+      <p className="branch-note">
+        {incomingCount === 0 ? 'Merging changes nothing on the main line.' : `Merging makes ${incomingCount} change(s) to the main line, as one change that can be undone.`}
+        {' '}{byItem.length === 0 ? 'No conflicts.' : `${conflicts.length} conflict(s) in ${byItem.length} item(s). A removal always wins over an edit.`}
+      </p>
+      {byItem.map(([itemId, itemConflicts]) => (
+        <div key={itemId} className="branch-conflict">
+          <div className="branch-conflict-title">{itemConflicts[0].path.split(' › ')[0]}</div>
+          <ul>
+            {itemConflicts.map(conflict => (
+              <li key={`${conflict.path}-${conflict.detail}`}>
+                <div>{conflict.path.split(' › ').slice(1).join(' › ') || conflict.detail}</div>
+                <div className="branch-conflict-values">
+                  main: {formatValue(conflict.ours)} · branch: {formatValue(conflict.theirs)}
+                </div>
+              </li>
+            ))}
+          </ul>
+          <div className="branch-conflict-choice">
+            <label>
+              <input type="radio" checked={(choices[itemId] ?? 'ours') === 'ours'} onChange={() => setChoices({ ...choices, [itemId]: 'ours' })} />
+              Keep main
+            </label>
+            <label>
+              <input type="radio" checked={choices[itemId] === 'theirs'} onChange={() => setChoices({ ...choices, [itemId]: 'theirs' })} />
+              Take branch
+            </label>
+          </div>
+        </div>
+      ))}
+      {!readOnly && (
+        <button className="branch-primary" onClick={() => onMerge(merged)} disabled={busy || incomingCount === 0}>
+          ⤵️ Merge into main
+        </button>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Named branches of the model: "what-if" copies in rooms of their own, each
+ * edited in its own tab. Branches can be compared with the main line for
+ * risk, and merged back into it conflict by conflict.
+ */
+export const BranchesPanel: React.FC<BranchesPanelProps> = ({
+  branches,
+  elements,
+  threatActors,
+  onCreate,
+  onOpen,
+  onCopyLink,
+  onRead,
+  onMerge,
+  onDelete,
+  onClose,
+  readOnly = false
+}) => {
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [open, setOpen] = useState<OpenBranch | null>(null);
+  const main = useMemo(() => ({ elements, threatActors }), [elements, threatActors]);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`❌ ${failure}:`, error);
+      alert(`${failure}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    run(async () => {
+      await onCreate(name.trim(), shared);
+      setName('');
+    }, 'Could not create the branch');
+  };
+
+  const show = (branch: ModelBranch, view: OpenBranch['view']) => run(async () => {
+    const { base, model } = await onRead(branch);
+    if (!model) throw new Error('The branch has not been saved on this device');
+    setOpen({ branch, view, base: base ? toModel(base) : null, model: toModel(model) });
+  }, 'Could not read the branch');
+
+  const handleMerge = (merged: DiffableModel) => {
+    if (!open || !window.confirm(`Merge “${open.branch.name}” into the main line? Everyone in the room gets the change, and it can be undone.`)) return;
+    run(async () => {
+      await onMerge(merged);
+      setOpen(null);
+    }, 'Could not merge the branch');
+  };
+
+  const handleDelete = (branch: ModelBranch) => {
+    if (!window.confirm(`Delete branch “${branch.name}” from this device?${branch.shared ? ' Others in it keep their copy.' : ''}`)) return;
+    if (open?.branch.id === branch.id) setOpen(null);
+    onDelete(branch);
+  };
+
+  return (
+    <div className="branches-panel">
+      <div className="panel-header">
+        <h3>🌿 Branches</h3>
+        <button className="close-btn" onClick={onClose} title="Close">×</button>
+      </div>
+
+      {!readOnly && (
+        <div className="branch-create">
+          <input
+            type="text"
+            value={name}
+            placeholder="What if…"
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          />
+          <label className="branch-option">
+            <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+            Shared - others can join it over the network
+          </label>
+          <button className="branch-primary" onClick={handleCreate} disabled={busy || !name.trim()}>🌿 Branch from now</button>
+        </div>
+      )}
+
+      {branches.length === 0 ? (
+        <p className="branch-empty">No branches of this model on this device.</p>
+      ) : (
+        <ul className="branch-list">
+          {[...branches].reverse().map(branch => (
+            <li key={branch.id} className={`branch-item${open?.branch.id === branch.id ? ' selected' : ''}`}>
+              <div className="branch-name">{branch.name}</div>
+              <div className="branch-meta">
+                {branch.shared ? 'Shared' : 'Local'} · {new Date(branch.createdAt).toLocaleString()}
+              </div>
+              <div className="branch-actions">
+                <button onClick={() => onOpen(branch)} disabled={busy}>↗️ Open</button>
+                {branch.shared && (
+                  <button onClick={() => run(() => onCopyLink(branch), 'Could not copy the link')} disabled={busy}>🔗 Copy link</button>
+                )}
+                <button onClick={() => show(branch, 'compare')} disabled={busy}>⚖️ Compare</button>
+                <button onClick={() => show(branch, 'merge')} disabled={busy}>⤵️ Merge…</button>
+                <button onClick={() => handleDelete(branch)} disabled={busy}>🗑️</button>
+              </div>
+
+              {open?.branch.id === branch.id && (
+                <div className="branch-detail">
+                  {open.view === 'compare' ? (
+                    <RiskComparison main={main} branch={open.model} />
+                  ) : open.base ? (
+                    <MergeView base={open.base} main={main} branch={open.model} busy={busy} readOnly={readOnly} onMerge={handleMerge} />
+                  ) : (
+                    <p className="branch-note">The branch point is gone from this device, so the branch cannot be merged.</p>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -6,7 +6,7 @@ interface ConnectionStatusProps {
   connectionState: 'not-initialized' | RTCPeerConnectionState | 'connecting';
   userCount: number;
   peersConnected?: number;
-  networkType?: 'BitTorrent' | 'WebRTC' | 'Hybrid';
+  networkType?: 'BitTorrent' | 'WebRTC' | 'Hybrid' | 'Relay' | 'Local';
   latency?: number;
   quality?: 'excellent' | 'good' | 'poor' | 'unstable';
   p2pEnabled?: boolean;
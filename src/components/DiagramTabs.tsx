@@ -0,0 +1,82 @@
+import React from 'react';
+import { MAIN_VIEW_NAME, ViewId } from '../utils/projectViews';
+import './DiagramTabs.css';
+
+interface DiagramTabsProps {
+  views: string[]; // the project's named diagrams; the main one comes first
+  current: ViewId;
+  onSelect: (view: ViewId) => void;
+  onAdd: (name: string) => void;
+  onRename: (view: string, name: string) => void;
+  onDelete: (view: string) => void;
+  readOnly?: boolean;
+}
+
+/**
+ * Tabs for the diagrams of the project, along the bottom of the canvas.
+ * Double-click a tab to rename it.
+ */
+export const DiagramTabs: React.FC<DiagramTabsProps> = ({
+  views,
+  current,
+  onSelect,
+  onAdd,
+  onRename,
+  onDelete,
+  readOnly = false
+}) => {
+  const askName = (title: string, initial: string) => {
+    const name = window.prompt(title, initial)?.trim();
+    if (!name) return null;
+    if (name === MAIN_VIEW_NAME || views.includes(name)) {
+      alert(`There already is a diagram named “${name}”.`);
+      return null;
+    }
+    return name;
+  };
+
+  return (
+    <div className="diagram-tabs" role="tablist">
+      <button
+        role="tab"
+        className={`diagram-tab ${current === null ? 'active' : ''}`}
+        aria-selected={current === null}
+        onClick={() => onSelect(null)}
+      >
+        {MAIN_VIEW_NAME}
+      </button>
+      {views.map(view => (
+        <span key={view} className={`diagram-tab ${current === view ? 'active' : ''}`}>
+          <button
+            role="tab"
+            aria-selected={current === view}
+            onClick={() => onSelect(view)}
+            onDoubleClick={() => {
+              if (readOnly) return;
+              const name = askName('Rename diagram', view);
+              if (name) onRename(view, name);
+            }}
+            title={readOnly ? undefined : 'Double-click to rename'}
+          >
+            {view}
+          </button>
+          {!readOnly && (
+            <button className="diagram-tab-close" onClick={() => onDelete(view)} title="Delete this diagram">×</button>
+          )}
+        </span>
+      ))}
+      {!readOnly && (
+        <button
+          className="diagram-tab add"
+          onClick={() => {
+            const name = askName('Name the new diagram', `Diagram ${views.length + 2}`);
+            if (name) onAdd(name);
+          }}
+          title="Add a diagram to the project"
+        >
+          +
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useMemo } from 'react';
+import { ELEMENT_CONFIGS } from '../types/diagram';
+import { ChangeKind, CHANGE_CONFIGS, ItemChange, ModelDiff, describeFieldChange, summarizeDiff, isEmptyDiff } from '../utils/modelDiff';
+import './DiffPanel.css';
+
+interface DiffPanelProps {
+  diff: ModelDiff;
+  label: string; // what the current model is compared with
+  ignoreLayout: boolean;
+  onIgnoreLayoutChange: (ignore: boolean) => void;
+  onSelectElement: (elementId: string) => void;
+  onClose: () => void;
+}
+
+const MARKS: Record<ChangeKind, string> = { added: '+', removed: '−', changed: '~' };
+
+const ChangeLine: React.FC<{ label: string; change: ItemChange }> = ({ label, change }) => (
+  <div className={`diff-line ${change.kind}`}>
+    <span className="diff-mark" style={{ color: CHANGE_CONFIGS[change.kind].color }}>{MARKS[change.kind]}</span>
+    <span>
+      {label} <strong>{change.name || 'unnamed'}</strong>
+      {change.kind === 'changed'
+        ? change.fields.length > 0 && <span className="diff-fields">: {change.fields.map(describeFieldChange).join(', ')}</span>
+        : <span className="diff-fields"> {change.kind}</span>}
+    </span>
+  </div>
+);
+
+/**
+ * What changed between another version of the model and the current one.
+ * The canvas highlights the same changes; clicking an element selects it.
+ */
+export const DiffPanel: React.FC<DiffPanelProps> = ({ diff, label, ignoreLayout, onIgnoreLayoutChange, onSelectElement, onClose }) => {
+  const summary = useMemo(() => summarizeDiff(diff), [diff]);
+  const counts = (name: string, value: { added: number; removed: number; changed: number }) =>
+    value.added + value.removed + value.changed > 0 && (
+      <span className="diff-count">{name} +{value.added} −{value.removed} ~{value.changed}</span>
+    );
+
+  return (
+    <div className="diff-panel">
+      <div className="panel-header">
+        <h3>🔍 Changes</h3>
+        <button className="close-btn" onClick={onClose} title="Stop comparing">×</button>
+      </div>
+
+      <div className="diff-header">
+        <div className="diff-label">Since {label}</div>
+        <div className="diff-summary">
+          {counts('Elements', summary.elements)}
+          {counts('Threats', summary.threats)}
+          {counts('Controls', summary.controls)}
+          {counts('Assets', summary.assets)}
+          {counts('Threat actors', summary.threatActors)}
+        </div>
+        <div className="diff-legend">
+          {(Object.keys(CHANGE_CONFIGS) as ChangeKind[]).map(kind => (
+            <span key={kind} style={{ borderColor: CHANGE_CONFIGS[kind].color }}>{CHANGE_CONFIGS[kind].name}</span>
+          ))}
+        </div>
+        <label className="diff-option">
+          <input type="checkbox" checked={ignoreLayout} onChange={(e) => onIgnoreLayoutChange(e.target.checked)} />
+          Ignore layout changes
+        </label>
+      </div>
+
+      {isEmptyDiff(diff) ? (
+        <p className="diff-empty">No changes.</p>
+      ) : (
+        <ul className="diff-list">
+          {diff.elements.map(element => (
+            <li key={element.id} className="diff-item" onClick={() => onSelectElement(element.id)}>
+              <ChangeLine label={ELEMENT_CONFIGS[element.type]?.name ?? 'Element'} change={element} />
+              {element.threats.map(threat => (
+                <div key={threat.id} className="diff-nested">
+                  <ChangeLine label="Threat" change={threat} />
+                  {threat.controls.map(control => (
+                    <div key={control.id} className="diff-nested">
+                      <ChangeLine label="Control" change={control} />
+                    </div>
+                  ))}
+                </div>
+              ))}
+              {element.assets.map(asset => (
+                <div key={asset.id} className="diff-nested">
+                  <ChangeLine label="Asset" change={asset} />
+                </div>
+              ))}
+            </li>
+          ))}
+          {diff.threatActors.map(actor => (
+            <li key={actor.id} className="diff-item">
+              <ChangeLine label="Threat actor" change={actor} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
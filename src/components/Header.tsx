@@ -11,16 +11,22 @@ interface HeaderProps {
   connectionMode: boolean;
   roomId?: string;
   onAddElement: (type: STRIDEElementType, position: { x: number; y: number }) => void;
-  onExport: (format: 'png' | 'json' | 'html') => void;
+  onExport: (format: 'png' | 'json' | 'html' | 'pdf' | 'threat-dragon' | 'otm-json' | 'otm-yaml') => void;
   onImport: (file: File) => void;
   onToggleConnectionMode: () => void;
   onShowSettings: () => void;
+  onLock?: () => void;
   onShowSessionManager?: () => void;
   onGenerateInviteLink?: () => void;
   isGeneratingLink?: boolean;
+  onShowParticipants?: () => void;
+  onShowHistory?: () => void;
+  onShowBranches?: () => void;
+  onShareReadOnly?: (kind: 'live' | 'snapshot') => void;
+  readOnly?: boolean;
   // P2P-specific props
   peersConnected?: number;
-  networkType?: 'BitTorrent' | 'WebRTC' | 'Hybrid';
+  networkType?: 'BitTorrent' | 'WebRTC' | 'Hybrid' | 'Relay' | 'Local';
   latency?: number;
   quality?: 'excellent' | 'good' | 'poor' | 'unstable';
   p2pEnabled?: boolean;
@@ -38,9 +44,15 @@ export const Header: React.FC<HeaderProps> = ({
   onImport,
   onToggleConnectionMode,
   onShowSettings,
+  onLock,
   onShowSessionManager: _onShowSessionManager,
   onGenerateInviteLink,
   isGeneratingLink,
+  onShowParticipants,
+  onShowHistory,
+  onShowBranches,
+  onShareReadOnly,
+  readOnly,
   peersConnected,
   networkType,
   latency,
@@ -84,8 +96,14 @@ export const Header: React.FC<HeaderProps> = ({
           connectionMode={connectionMode}
           roomId={roomId}
           onShowSettings={onShowSettings}
+          onLock={onLock}
           onGenerateInviteLink={onGenerateInviteLink}
           isGeneratingLink={isGeneratingLink}
+          onShowParticipants={onShowParticipants}
+          onShowHistory={onShowHistory}
+          onShowBranches={onShowBranches}
+          onShareReadOnly={onShareReadOnly}
+          readOnly={readOnly}
         />
       </div>
     </header>
@@ -0,0 +1,145 @@
+import React, { useRef, useState } from 'react';
+import { TimelineEntry } from '../state/versionHistory';
+import './HistoryPanel.css';
+
+interface HistoryPanelProps {
+  timeline: TimelineEntry[];
+  selected: number | null; // index into timeline; null: the current model
+  onSelect: (index: number | null) => void;
+  onRestore: () => Promise<unknown>;
+  onFork: () => Promise<unknown>;
+  onSaveVersion: (name: string) => Promise<unknown>;
+  onCompare: () => void; // the selected version with the current model
+  onCompareFile: (file: File) => void;
+  onClose: () => void;
+  userId: string;
+  readOnly?: boolean;
+}
+
+const formatTime = (timestamp: number | null) =>
+  timestamp === null ? 'before timestamps were kept' : new Date(timestamp).toLocaleString();
+
+/**
+ * Timeline of the room's changes and snapshots. Selecting a point shows the
+ * model as it was then, read-only, until it is restored, forked or left.
+ */
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  timeline,
+  selected,
+  onSelect,
+  onRestore,
+  onFork,
+  onSaveVersion,
+  onCompare,
+  onCompareFile,
+  onClose,
+  userId,
+  readOnly = false
+}) => {
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const entry = selected !== null ? timeline[selected] : null;
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`❌ ${failure}:`, error);
+      alert(`${failure}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = () => {
+    if (!entry || !window.confirm(`Restore the model as it was ${formatTime(entry.timestamp)}? Everyone in the room gets the change, and it can be undone.`)) return;
+    run(async () => {
+      await onRestore();
+      onSelect(null);
+    }, 'Could not restore this version');
+  };
+
+  const handleSaveVersion = () => {
+    const name = window.prompt('Name this version', `Version of ${new Date().toLocaleString()}`);
+    if (name?.trim()) run(() => onSaveVersion(name.trim()), 'Could not save this version');
+  };
+
+  return (
+    <div className="history-panel">
+      <div className="panel-header">
+        <h3>🕘 History</h3>
+        <button className="close-btn" onClick={onClose} title="Back to the current model">×</button>
+      </div>
+
+      <div className="history-scrubber">
+        <input
+          type="range"
+          min={0}
+          max={timeline.length}
+          value={selected ?? timeline.length}
+          onChange={(e) => {
+            const index = Number(e.target.value);
+            onSelect(index === timeline.length ? null : index);
+          }}
+          disabled={timeline.length === 0}
+        />
+        <div className="history-position">
+          {entry ? `Viewing ${formatTime(entry.timestamp)} · read-only` : 'Current model'}
+        </div>
+        <div className="history-actions">
+          {entry && !readOnly && (
+            <button onClick={handleRestore} disabled={busy}>↩️ Restore</button>
+          )}
+          {entry && (
+            <button onClick={() => run(onFork, 'Could not fork this version')} disabled={busy}>🍴 Fork into new room</button>
+          )}
+          {entry && (
+            <button onClick={onCompare} disabled={busy}>🔍 Compare with now</button>
+          )}
+          {entry && (
+            <button onClick={() => onSelect(null)} disabled={busy}>Back to now</button>
+          )}
+          {!entry && (
+            <button onClick={handleSaveVersion} disabled={busy}>📌 Save this version</button>
+          )}
+          {!entry && (
+            <button onClick={() => fileInputRef.current?.click()} disabled={busy}>📂 Compare with file…</button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onCompareFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {timeline.length === 0 ? (
+        <p className="history-empty">No changes recorded in this room yet.</p>
+      ) : (
+        <ol className="history-list">
+          {timeline.map((item, index) => ({ item, index })).reverse().map(({ item, index }) => (
+            <li
+              key={item.kind === 'snapshot' ? item.key : `event-${item.index}`}
+              className={`history-item ${item.kind}${index === selected ? ' selected' : ''}`}
+              onClick={() => onSelect(index)}
+            >
+              <div className="history-summary">
+                {item.kind === 'snapshot' ? `📸 ${item.summary}` : item.summary}
+              </div>
+              <div className="history-meta">
+                {item.actor ? (item.actor === userId ? 'You' : item.actor) : 'Unknown'} · {formatTime(item.timestamp)}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useMemo, useState } from 'react';
+import { DiagramElement, ELEMENT_CONFIGS } from '../types/diagram';
+import { MAIN_VIEW_NAME, ViewId, appearancesOf, libraryElements } from '../utils/projectViews';
+import './LibraryPanel.css';
+
+interface LibraryPanelProps {
+  elements: DiagramElement[];
+  currentView: ViewId;
+  onPlace: (elementId: string) => void;
+  onSelect: (element: DiagramElement) => void;
+  readOnly?: boolean;
+}
+
+const TYPES: DiagramElement['type'][] = ['external-entity', 'process', 'data-store'];
+
+/**
+ * Entities, processes and stores of the whole project. Placing one in the
+ * current diagram adds another appearance of the same element: its threats,
+ * technologies and assets are shared by every diagram it is in.
+ */
+export const LibraryPanel: React.FC<LibraryPanelProps> = ({
+  elements,
+  currentView,
+  onPlace,
+  onSelect,
+  readOnly = false
+}) => {
+  const [search, setSearch] = useState('');
+  const library = useMemo(() => libraryElements(elements), [elements]);
+  const shown = library.filter(element => element.name.toLowerCase().includes(search.trim().toLowerCase()));
+
+  return (
+    <div className="library-panel">
+      <div className="panel-header">
+        <h3>Element Library</h3>
+        <div className="library-count">{library.length}</div>
+      </div>
+
+      <div className="library-search">
+        <input type="text" value={search} placeholder="Filter by name" onChange={(e) => setSearch(e.target.value)} />
+      </div>
+
+      {library.length === 0 ? (
+        <p className="library-empty">Entities, processes and data stores of every diagram in the project are listed here.</p>
+      ) : (
+        <div className="library-list">
+          {TYPES.map(type => {
+            const members = shown.filter(element => element.type === type);
+            if (members.length === 0) return null;
+            return (
+              <div key={type} className="library-group">
+                <h4>{ELEMENT_CONFIGS[type].name}</h4>
+                {members.map(element => {
+                  const views = appearancesOf(elements, element.id);
+                  return (
+                    <div key={element.id} className="library-item">
+                      <button className="library-name" onClick={() => onSelect(element)} title="Show its properties">
+                        {element.name || 'unnamed'}
+                      </button>
+                      <div className="library-meta">
+                        {views.map(view => view ?? MAIN_VIEW_NAME).join(', ')} · {element.threats.length} threats
+                      </div>
+                      {!readOnly && !views.includes(currentView) && (
+                        <button className="library-place" onClick={() => onPlace(element.id)}>➕ Place in this diagram</button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { ThemeProvider } from '../contexts/ThemeContext';
+import { encryptedStorage } from '../state/encryptedStorage';
+import '../App.css';
+import './LockScreen.css';
+
+interface LockScreenProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Asks for the unlock passphrase before anything reads encrypted storage.
+ * Renders its children once unlocked (or when storage is not encrypted).
+ */
+export const LockScreen: React.FC<LockScreenProps> = ({ children }) => {
+  const [locked, setLocked] = useState(() => encryptedStorage.isLocked());
+  const [passphrase, setPassphrase] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!locked) return <>{children}</>;
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUnlocking(true);
+    setError(null);
+    try {
+      await encryptedStorage.unlock(passphrase);
+      setLocked(false);
+    } catch (err) {
+      console.error('❌ Unlock failed:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      setUnlocking(false);
+    }
+  };
+
+  const handleForget = async () => {
+    if (!window.confirm('Delete every model, room and setting Modelka saved in this browser? Rooms stay with their other participants.')) return;
+    await encryptedStorage.forgetDevice();
+    window.location.replace(window.location.pathname);
+  };
+
+  return (
+    <ThemeProvider>
+      <div className="loading-screen">
+        <form className="loading-content lock-screen" onSubmit={handleUnlock}>
+          <h2>🔒 Modelka is locked</h2>
+          <p>Models on this device are encrypted. Enter the unlock passphrase to open them.</p>
+          <input
+            type="password"
+            className="form-input"
+            placeholder="Unlock passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoFocus
+            disabled={unlocking}
+          />
+          {error && <div className="lock-error">{error}</div>}
+          <button type="submit" className="btn btn-primary" disabled={unlocking || !passphrase}>
+            {unlocking ? 'Unlocking…' : '🔓 Unlock'}
+          </button>
+          <button type="button" className="btn btn-ghost btn-sm lock-forget" onClick={handleForget} disabled={unlocking}>
+            Forgot the passphrase? Forget this device
+          </button>
+        </form>
+      </div>
+    </ThemeProvider>
+  );
+};
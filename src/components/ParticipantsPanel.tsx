@@ -0,0 +1,160 @@
+import React from 'react';
+import { RoomParticipant } from '../state/distributedStateManager';
+import { RoomRole, AssignableRole, ROOM_ROLES } from '../state/roomRoles';
+import './ParticipantsPanel.css';
+
+interface ParticipantsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  participants: RoomParticipant[];
+  ownRole: RoomRole | null;
+  isOwner: boolean;
+  defaultRole: AssignableRole | null;
+  onSetRole: (signerKey: string, role: AssignableRole) => Promise<void>;
+  onKick: (signerKey: string) => Promise<void>;
+  onSetDefaultRole: (role: AssignableRole) => Promise<void>;
+  canRotateKey: boolean;
+  onRotateKey: () => Promise<unknown>;
+}
+
+const ASSIGNABLE_ROLES: AssignableRole[] = ['editor', 'commenter', 'viewer'];
+
+const shortKey = (signerKey: string) => `${signerKey.split(':')[0]} …${signerKey.slice(-8)}`;
+
+/**
+ * Who is in the room and what they may do. Only the owner can change roles.
+ */
+export const ParticipantsPanel: React.FC<ParticipantsPanelProps> = ({
+  isOpen,
+  onClose,
+  participants,
+  ownRole,
+  isOwner,
+  defaultRole,
+  onSetRole,
+  onKick,
+  onSetDefaultRole,
+  canRotateKey,
+  onRotateKey
+}) => {
+  if (!isOpen) return null;
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('❌ Role change failed:', error);
+      alert(`Could not change roles: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleKick = (participant: RoomParticipant) => {
+    if (window.confirm(`Remove ${participant.userId} from this room? Everyone will ignore their changes.`)) {
+      run(() => onKick(participant.signerKey));
+    }
+  };
+
+  const handleRotateKey = async () => {
+    if (!window.confirm('Rotate the room key? Everyone connected now moves to the new key; every invite and read-only link shared so far stops working.')) return;
+    try {
+      await onRotateKey();
+      onClose();
+    } catch (error) {
+      console.error('❌ Key rotation failed:', error);
+      alert(`Could not rotate the room key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="participants-overlay" onClick={onClose}>
+      <div className="participants-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="participants-header">
+          <h2>👥 Participants</h2>
+          <button className="close-btn" onClick={onClose}>×</button>
+        </div>
+
+        <div className="participants-content">
+          <p className="participants-own-role">
+            Your role: <strong>{ownRole ? ROOM_ROLES[ownRole].name : 'Removed'}</strong>
+            {ownRole && ` – ${ROOM_ROLES[ownRole].description}`}
+          </p>
+
+          {!defaultRole && (
+            <p className="participants-hint">
+              No owner has shared roles for this room yet, so everyone can edit.
+            </p>
+          )}
+
+          {isOwner && defaultRole && (
+            <label className="participants-default">
+              <span>New participants join as</span>
+              <select
+                value={defaultRole}
+                onChange={(e) => run(() => onSetDefaultRole(e.target.value as AssignableRole))}
+                className="form-select"
+              >
+                {ASSIGNABLE_ROLES.map(role => (
+                  <option key={role} value={role}>{ROOM_ROLES[role].name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <ul className="participants-list">
+            {participants.map(participant => (
+              <li key={participant.userId} className={`participant ${participant.role ? '' : 'kicked'}`}>
+                <div className="participant-info">
+                  <span className="participant-name">
+                    {participant.userId}{participant.isSelf && ' (you)'}
+                  </span>
+                  <span className="participant-key" title={participant.signerKey}>{shortKey(participant.signerKey)}</span>
+                </div>
+
+                {isOwner && !participant.isSelf && participant.role !== 'owner' ? (
+                  <div className="participant-actions">
+                    <select
+                      value={participant.role ?? ''}
+                      onChange={(e) => run(() => onSetRole(participant.signerKey, e.target.value as AssignableRole))}
+                      className="form-select"
+                    >
+                      {!participant.role && <option value="" disabled>Removed</option>}
+                      {ASSIGNABLE_ROLES.map(role => (
+                        <option key={role} value={role}>{ROOM_ROLES[role].name}</option>
+                      ))}
+                    </select>
+                    {participant.role && (
+                      <button
+                        className="btn btn-ghost btn-sm kick-btn"
+                        onClick={() => handleKick(participant)}
+                        title="Remove from the room"
+                      >
+                        🚪 Kick
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  <span className={`role-badge role-${participant.role ?? 'kicked'}`}>
+                    {participant.role ? ROOM_ROLES[participant.role].name : 'Removed'}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {participants.length <= 1 && (
+            <p className="participants-hint">Nobody else is here yet. Send an invite link to collaborate.</p>
+          )}
+
+          {canRotateKey && (
+            <div className="participants-rotate">
+              <button className="btn btn-secondary btn-sm" onClick={handleRotateKey}>
+                🔑 Rotate room key
+              </button>
+              <span className="participants-hint">If an invite link leaked: invalidates every link shared so far.</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import { DiagramElement } from '../types/diagram';
+import { DFD_RULES, LintConfig, LintFinding, RuleSetting, RULE_SETTINGS, parseLintConfig } from '../utils/modelLint';
+import { levelLabel } from '../utils/dfdLevels';
+import { MAIN_VIEW_NAME } from '../utils/projectViews';
+import './ProblemsPanel.css';
+
+interface ProblemsPanelProps {
+  findings: LintFinding[];
+  elements: DiagramElement[];
+  config: LintConfig;
+  onConfigChange: (config: LintConfig) => void;
+  onReveal: (elementId: string) => void;
+}
+
+const LINT_CONFIG_KEY = 'modelka-lint-rules';
+
+/**
+ * Rule settings saved on this device - a broken or outdated save falls back to the defaults
+ */
+export function loadLintConfig(): LintConfig {
+  const saved = localStorage.getItem(LINT_CONFIG_KEY);
+  if (!saved) return {};
+  try {
+    return parseLintConfig(JSON.parse(saved));
+  } catch (error) {
+    console.warn('⚠️ Could not load lint rule settings:', error);
+    return {};
+  }
+}
+
+export function saveLintConfig(config: LintConfig): void {
+  localStorage.setItem(LINT_CONFIG_KEY, JSON.stringify(config));
+}
+
+const SETTING_LABELS: Record<RuleSetting, string> = { error: 'Error', warning: 'Warning', off: 'Off' };
+
+/**
+ * Findings of the DFD rules over the whole project, errors first. Clicking
+ * one shows the element in its diagram and level.
+ */
+export const ProblemsPanel: React.FC<ProblemsPanelProps> = ({
+  findings,
+  elements,
+  config,
+  onConfigChange,
+  onReveal
+}) => {
+  const byId = useMemo(() => new Map(elements.map(element => [element.id, element])), [elements]);
+  const sorted = useMemo(
+    () => [...findings].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1)),
+    [findings]
+  );
+  const errors = findings.filter(finding => finding.severity === 'error').length;
+
+  const whereIs = (elementId: string) => {
+    const element = byId.get(elementId);
+    if (!element) return '';
+    return [element.view ?? MAIN_VIEW_NAME, levelLabel(elements, element)].filter(Boolean).join(' › ');
+  };
+
+  const handleSettingChange = (ruleId: string, setting: RuleSetting) => {
+    const rule = DFD_RULES.find(candidate => candidate.id === ruleId);
+    const next = { ...config };
+    if (setting === rule?.defaultSeverity) {
+      delete next[ruleId];
+    } else {
+      next[ruleId] = setting;
+    }
+    onConfigChange(next);
+  };
+
+  return (
+    <div className="problems-panel">
+      <div className="panel-header">
+        <h3>Problems</h3>
+        <div className={`problems-count${errors > 0 ? ' has-errors' : ''}`}>{findings.length}</div>
+      </div>
+
+      {sorted.length === 0 ? (
+        <p className="problems-empty">✅ No problems found by the enabled rules.</p>
+      ) : (
+        <ul className="problems-list">
+          {sorted.map((finding, index) => (
+            <li key={`${finding.rule}-${finding.elementId}-${index}`}>
+              <button className="problem-item" onClick={() => onReveal(finding.elementId)} title="Show on the canvas">
+                <span className="problem-icon">{finding.severity === 'error' ? '❌' : '⚠️'}</span>
+                <span className="problem-text">
+                  <span className="problem-message">{finding.message}</span>
+                  <span className="problem-meta">{finding.rule} · {whereIs(finding.elementId)}</span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <details className="problems-rules">
+        <summary>Rules</summary>
+        {DFD_RULES.map(rule => (
+          <div key={rule.id} className="problems-rule">
+            <div>
+              <div className="problems-rule-id">{rule.id}</div>
+              <div className="problems-rule-description">{rule.description}</div>
+            </div>
+            <select
+              value={config[rule.id] ?? rule.defaultSeverity}
+              onChange={(e) => handleSettingChange(rule.id, e.target.value as RuleSetting)}
+            >
+              {RULE_SETTINGS.map(setting => (
+                <option key={setting} value={setting}>
+                  {SETTING_LABELS[setting]}{setting === rule.defaultSeverity ? ' (default)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+        {Object.keys(config).length > 0 && (
+          <button className="problems-reset" onClick={() => onConfigChange({})}>Reset to defaults</button>
+        )}
+        <p className="problems-note">Saved on this device. <code>modelka lint --rules</code> takes the same settings as JSON.</p>
+      </details>
+    </div>
+  );
+};
@@ -1,22 +1,38 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import { DiagramElement, Threat, SecurityControl, Technology, ThreatSeverity, SEVERITY_LEVELS, STRIDE_CATEGORIES, Asset } from '../types/diagram';
+import { ThreatGenerator, ThreatSuggestion } from '../services/threatGenerator';
+import { overrideSeverity } from '../utils/riskScoring';
+import { RiskAssessmentEditor } from './RiskAssessmentEditor';
 import './PropertiesPanel.css';
 
+const threatGenerator = new ThreatGenerator();
+
 interface PropertiesPanelProps {
   element: DiagramElement;
+  elements: DiagramElement[];
   onElementUpdate: (element: DiagramElement) => void;
   onThreatUpdate: (elementId: string, threats: Threat[]) => void;
   onElementDelete?: (elementId: string) => void;
+  readOnly?: boolean;      // role may not edit
+  canEditNotes?: boolean;  // commenters may still edit notes
 }
 
 export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   element,
+  elements,
   onElementUpdate,
   onThreatUpdate,
-  onElementDelete
+  onElementDelete,
+  readOnly = false,
+  canEditNotes = !readOnly
 }) => {
   const [activeTab, setActiveTab] = useState<'basic' | 'threats' | 'technologies' | 'assets'>('basic');
 
+  const suggestions = useMemo(
+    () => threatGenerator.suggestForElement(element, elements),
+    [element, elements]
+  );
+
   const handleBasicUpdate = (field: keyof DiagramElement, value: any) => {
     const updated = { ...element, [field]: value };
     onElementUpdate(updated);
@@ -66,6 +82,18 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     onThreatUpdate(element.id, updatedThreats);
   };
 
+  const handleAcceptSuggestion = (suggestion: ThreatSuggestion) => {
+    // Accepted suggestions are appended - existing threats are never replaced
+    const updatedThreats = [...(element.threats || []), ThreatGenerator.toThreat(suggestion)];
+    const updated = { ...element, threats: updatedThreats };
+    onElementUpdate(updated);
+    onThreatUpdate(element.id, updatedThreats);
+  };
+
+  const handleRejectSuggestion = (suggestion: ThreatSuggestion) => {
+    handleBasicUpdate('dismissedSuggestions', [...(element.dismissedSuggestions || []), suggestion.key]);
+  };
+
   const handleThreatUpdate = (threatId: string, field: keyof Threat, value: any) => {
     const updatedThreats = (element.threats || []).map(threat =>
       threat.id === threatId ? { ...threat, [field]: value } : threat
@@ -76,6 +104,16 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     onThreatUpdate(element.id, updatedThreats);
   };
 
+  const handleThreatReplace = (updatedThreat: Threat) => {
+    const updatedThreats = (element.threats || []).map(threat =>
+      threat.id === updatedThreat.id ? updatedThreat : threat
+    );
+
+    const updated = { ...element, threats: updatedThreats };
+    onElementUpdate(updated);
+    onThreatUpdate(element.id, updatedThreats);
+  };
+
   const handleAddControl = (threatId: string) => {
     const newControl: SecurityControl = {
       id: `control-${Date.now()}`,
@@ -141,6 +179,7 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
 
   const renderBasicTab = () => (
     <div className="tab-content">
+      <fieldset className="panel-fieldset" disabled={readOnly}>
       <div className="form-group">
         <label>Element Name</label>
         <input
@@ -160,6 +199,7 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
           rows={3}
         />
       </div>
+      </fieldset>
 
       <div className="form-group">
         <label>Notes</label>
@@ -168,9 +208,11 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
           onChange={(e) => handleBasicUpdate('notes', e.target.value)}
           className="form-textarea"
           rows={4}
+          disabled={!canEditNotes}
         />
       </div>
 
+      <fieldset className="panel-fieldset" disabled={readOnly}>
       <div className="form-group">
         <label>Position</label>
         <div className="position-inputs">
@@ -238,6 +280,7 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
           </div>
         </>
       )}
+      </fieldset>
     </div>
   );
 
@@ -310,10 +353,10 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
             </div>
 
             <div className="form-group">
-              <label>Severity</label>
+              <label>Severity{threat.severityOverride && ' ⚑'}</label>
               <select
                 value={threat.severity}
-                onChange={(e) => handleThreatUpdate(threat.id, 'severity', e.target.value as ThreatSeverity)}
+                onChange={(e) => handleThreatReplace(overrideSeverity(threat, e.target.value as ThreatSeverity))}
                 className="form-select"
               >
                 {Object.entries(SEVERITY_LEVELS).map(([key, config]) => (
@@ -352,6 +395,8 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
             </div>
           </div>
 
+          <RiskAssessmentEditor threat={threat} onChange={handleThreatReplace} />
+
           <div className="form-group">
             <label>Description</label>
             <textarea
@@ -402,6 +447,46 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
           </div>
         </div>
       ))}
+
+      {suggestions.length > 0 && (
+        <div className="available-threats">
+          <div className="section-header">
+            <h5>Suggested Threats ({suggestions.length})</h5>
+          </div>
+
+          {suggestions.map((suggestion) => (
+            <div key={suggestion.key} className="threat-suggestion">
+              <div className="threat-info">
+                <strong>{suggestion.threat.title}</strong>
+                <span className={`severity-badge severity-${suggestion.threat.severity}`}>
+                  {SEVERITY_LEVELS[suggestion.threat.severity].name}
+                </span>
+                <span className="stride-badge">
+                  {STRIDE_CATEGORIES[suggestion.threat.strideCategory].icon} {STRIDE_CATEGORIES[suggestion.threat.strideCategory].name}
+                </span>
+              </div>
+              <p className="suggestion-description">{suggestion.threat.description}</p>
+              <div className="suggestion-footer">
+                <span className="suggestion-rule">Rule: {suggestion.ruleName}</span>
+                <div className="suggestion-actions">
+                  <button
+                    className="btn btn-primary btn-sm"
+                    onClick={() => handleAcceptSuggestion(suggestion)}
+                  >
+                    ✓ Accept
+                  </button>
+                  <button
+                    className="btn btn-secondary btn-sm"
+                    onClick={() => handleRejectSuggestion(suggestion)}
+                  >
+                    ✕ Reject
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 
@@ -489,7 +574,7 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
           <h3>{element.name}</h3>
           <span className="element-type">{element.type}</span>
         </div>
-        {onElementDelete && (
+        {onElementDelete && !readOnly && (
           <button
             className="btn btn-danger delete-element-btn"
             onClick={() => {
@@ -535,9 +620,11 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
 
       <div className="panel-content">
         {activeTab === 'basic' && renderBasicTab()}
-        {activeTab === 'technologies' && renderTechnologiesTab()}
-        {activeTab === 'threats' && renderThreatsTab()}
-        {activeTab === 'assets' && renderAssetsTab()}
+        <fieldset className="panel-fieldset" disabled={readOnly}>
+          {activeTab === 'technologies' && renderTechnologiesTab()}
+          {activeTab === 'threats' && renderThreatsTab()}
+          {activeTab === 'assets' && renderAssetsTab()}
+        </fieldset>
       </div>
     </div>
   );
@@ -2,29 +2,55 @@ import React, { useState } from 'react';
 import { PropertiesPanel } from './PropertiesPanel';
 import { ThreatActorsPanel } from './ThreatActorsPanel';
 import { ActionItemsPanel } from './ActionItemsPanel';
+import { LibraryPanel } from './LibraryPanel';
+import { ProblemsPanel } from './ProblemsPanel';
 import { DiagramElement, ThreatActor, Threat } from '../types/diagram';
+import { ViewId } from '../utils/projectViews';
+import { LintConfig, LintFinding } from '../utils/modelLint';
 import './RightSidebar.css';
 
 interface RightSidebarProps {
   selectedElement: DiagramElement | null;
+  selectionCount?: number;
   elements: DiagramElement[];
   threatActors: ThreatActor[];
   onElementUpdate: (element: DiagramElement) => void;
   onThreatUpdate: (elementId: string, threats: Threat[]) => void;
   onThreatActorsChange: (threatActors: ThreatActor[]) => void;
   onElementDelete?: (elementId: string) => void;
+  readOnly?: boolean;      // role may not edit
+  canEditNotes?: boolean;  // commenters may still edit notes
+  // Element library of a project with several diagrams
+  currentView?: ViewId;
+  onPlaceElement?: (elementId: string) => void;
+  onElementSelect?: (elementId: string) => void;
+  // Lint findings over the whole project
+  problems?: LintFinding[];
+  lintConfig?: LintConfig;
+  onLintConfigChange?: (config: LintConfig) => void;
+  onRevealElement?: (elementId: string) => void;
 }
 
-type SidebarTab = 'properties' | 'threat-actors' | 'action-items';
+type SidebarTab = 'properties' | 'threat-actors' | 'action-items' | 'library' | 'problems';
 
 export const RightSidebar: React.FC<RightSidebarProps> = ({
   selectedElement,
+  selectionCount = 0,
   elements,
   threatActors,
   onElementUpdate,
   onThreatUpdate,
   onThreatActorsChange,
-  onElementDelete
+  onElementDelete,
+  readOnly = false,
+  canEditNotes = !readOnly,
+  currentView = null,
+  onPlaceElement,
+  onElementSelect,
+  problems,
+  lintConfig = {},
+  onLintConfigChange,
+  onRevealElement
 }) => {
   const [activeTab, setActiveTab] = useState<SidebarTab>('properties');
 
@@ -38,6 +64,18 @@ export const RightSidebar: React.FC<RightSidebarProps> = ({
   const renderTabContent = () => {
     switch (activeTab) {
       case 'properties':
+        if (!selectedElement && selectionCount > 1) {
+          return (
+            <div className="no-selection">
+              <div className="no-selection-content">
+                <div className="no-selection-icon">🗂️</div>
+                <h3>{selectionCount} Elements Selected</h3>
+                <p>Use the selection toolbar on the canvas to move, align, recolor or delete them together.</p>
+                <p>Shift-click an element to add or remove it from the selection.</p>
+              </div>
+            </div>
+          );
+        }
         if (!selectedElement) {
           return (
             <div className="no-selection">
@@ -45,6 +83,7 @@ export const RightSidebar: React.FC<RightSidebarProps> = ({
                 <div className="no-selection-icon">📝</div>
                 <h3>No Element Selected</h3>
                 <p>Click on an element in the diagram to view and edit its properties.</p>
+                <p>Shift-click or shift-drag on the canvas to select several elements.</p>
                 <div className="available-elements">
                   <h4>Available Elements:</h4>
                   <ul>
@@ -62,9 +101,12 @@ export const RightSidebar: React.FC<RightSidebarProps> = ({
         return (
           <PropertiesPanel
             element={selectedElement}
+            elements={elements}
             onElementUpdate={onElementUpdate}
             onThreatUpdate={onThreatUpdate}
             onElementDelete={onElementDelete}
+            readOnly={readOnly}
+            canEditNotes={canEditNotes}
           />
         );
       
@@ -73,6 +115,7 @@ export const RightSidebar: React.FC<RightSidebarProps> = ({
           <ThreatActorsPanel
             threatActors={threatActors}
             onThreatActorsChange={onThreatActorsChange}
+            readOnly={readOnly}
           />
         );
       
@@ -81,9 +124,32 @@ export const RightSidebar: React.FC<RightSidebarProps> = ({
           <ActionItemsPanel
             elements={elements}
             onThreatUpdate={onThreatUpdate}
+            readOnly={readOnly}
           />
         );
       
+      case 'library':
+        return onPlaceElement ? (
+          <LibraryPanel
+            elements={elements}
+            currentView={currentView}
+            onPlace={onPlaceElement}
+            onSelect={(element) => onElementSelect?.(element.id)}
+            readOnly={readOnly}
+          />
+        ) : null;
+      
+      case 'problems':
+        return problems ? (
+          <ProblemsPanel
+            findings={problems}
+            elements={elements}
+            config={lintConfig}
+            onConfigChange={(config) => onLintConfigChange?.(config)}
+            onReveal={(elementId) => (onRevealElement ?? onElementSelect)?.(elementId)}
+          />
+        ) : null;
+      
       default:
         return null;
     }
@@ -125,6 +191,27 @@ export const RightSidebar: React.FC<RightSidebarProps> = ({
             ) : null;
           })()}
         </button>
+        {onPlaceElement && (
+          <button
+            className={`sidebar-tab ${activeTab === 'library' ? 'active' : ''}`}
+            onClick={() => setActiveTab('library')}
+          >
+            <span className="tab-icon">📚</span>
+            <span className="tab-label">Library</span>
+          </button>
+        )}
+        {problems && (
+          <button
+            className={`sidebar-tab ${activeTab === 'problems' ? 'active' : ''}`}
+            onClick={() => setActiveTab('problems')}
+          >
+            <span className="tab-icon">🩺</span>
+            <span className="tab-label">Problems</span>
+            {problems.length > 0 && (
+              <span className="tab-count">({problems.length})</span>
+            )}
+          </button>
+        )}
       </div>
 
       <div className="sidebar-content">
@@ -0,0 +1,175 @@
+import React from 'react';
+import { DreadScores, RiskAssessment, RiskMethod, SEVERITY_LEVELS, Threat } from '../types/diagram';
+import {
+  RISK_SCORERS,
+  DREAD_COMPONENTS,
+  applyRiskAssessment,
+  clearSeverityOverride,
+  computeAssessmentScore,
+  enteredCvss40Score,
+  parseCvssVector,
+  severityFromScore,
+} from '../utils/riskScoring';
+import './RiskAssessmentEditor.css';
+
+interface RiskAssessmentEditorProps {
+  threat: Threat;
+  onChange: (threat: Threat) => void;
+}
+
+const LIKELIHOOD_LABELS = ['Rare', 'Unlikely', 'Possible', 'Likely', 'Almost certain'];
+const IMPACT_LABELS = ['Negligible', 'Minor', 'Moderate', 'Major', 'Severe'];
+
+const DEFAULT_ASSESSMENTS: Record<RiskMethod, RiskAssessment> = {
+  'likelihood-impact': { method: 'likelihood-impact', likelihood: 3, impact: 3 },
+  'dread': {
+    method: 'dread',
+    dread: { damage: 5, reproducibility: 5, exploitability: 5, affectedUsers: 5, discoverability: 5 },
+  },
+  'cvss': { method: 'cvss', cvssVector: '' },
+};
+
+export const RiskAssessmentEditor: React.FC<RiskAssessmentEditorProps> = ({ threat, onChange }) => {
+  const risk = threat.risk;
+  const score = computeAssessmentScore(threat);
+  const derived = score !== null ? severityFromScore(score) : null;
+  const cvss = risk?.cvssVector ? parseCvssVector(risk.cvssVector) : null;
+  const entered = enteredCvss40Score(risk);
+
+  const update = (patch: Partial<RiskAssessment>) => {
+    if (!risk) return;
+    onChange(applyRiskAssessment(threat, { ...risk, ...patch }));
+  };
+
+  const handleMethodChange = (method: RiskMethod | 'none') => {
+    onChange(applyRiskAssessment(threat, method === 'none' ? undefined : DEFAULT_ASSESSMENTS[method]));
+  };
+
+  const handleDreadChange = (key: keyof DreadScores, value: number) => {
+    if (!risk?.dread) return;
+    update({ dread: { ...risk.dread, [key]: value } });
+  };
+
+  return (
+    <div className="risk-assessment">
+      <div className="form-group">
+        <label>Risk Scoring</label>
+        <select
+          value={risk?.method || 'none'}
+          onChange={(e) => handleMethodChange(e.target.value as RiskMethod | 'none')}
+          className="form-select"
+        >
+          <option value="none">None (severity set by hand)</option>
+          {Object.values(RISK_SCORERS).map(scorer => (
+            <option key={scorer.method} value={scorer.method}>{scorer.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {risk?.method === 'likelihood-impact' && (
+        <div className="risk-fields">
+          <div className="form-group">
+            <label>Likelihood</label>
+            <select
+              value={risk.likelihood ?? 3}
+              onChange={(e) => update({ likelihood: Number(e.target.value) })}
+              className="form-select"
+            >
+              {LIKELIHOOD_LABELS.map((label, index) => (
+                <option key={label} value={index + 1}>{index + 1} – {label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label>Impact</label>
+            <select
+              value={risk.impact ?? 3}
+              onChange={(e) => update({ impact: Number(e.target.value) })}
+              className="form-select"
+            >
+              {IMPACT_LABELS.map((label, index) => (
+                <option key={label} value={index + 1}>{index + 1} – {label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      {risk?.method === 'dread' && risk.dread && (
+        <div className="risk-fields dread-fields">
+          {DREAD_COMPONENTS.map(({ key, name }) => (
+            <div key={key} className="form-group">
+              <label>{name}</label>
+              <input
+                type="number"
+                min={0}
+                max={10}
+                value={risk.dread![key]}
+                onChange={(e) => handleDreadChange(key, Number(e.target.value))}
+                className="form-input"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {risk?.method === 'cvss' && (
+        <div className="risk-fields">
+          <div className="form-group cvss-vector">
+            <label>CVSS Vector</label>
+            <input
+              type="text"
+              value={risk.cvssVector || ''}
+              onChange={(e) => update({ cvssVector: e.target.value })}
+              className="form-input"
+              placeholder="CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H"
+            />
+          </div>
+          {cvss?.version === '4.0' && (
+            <div className="form-group">
+              <label>Base Score</label>
+              <input
+                type="number"
+                min={0}
+                max={10}
+                step={0.1}
+                value={risk.cvssScore ?? ''}
+                onChange={(e) => update({ cvssScore: e.target.value === '' ? undefined : Number(e.target.value) })}
+                className="form-input"
+                title="CVSS 4.0 scores are not computed locally - paste the score from the FIRST calculator. The severity it gives counts as set by hand."
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {risk && (
+        <div className="risk-result">
+          {score !== null && derived ? (
+            <span>
+              Score <strong>{score.toFixed(1)}</strong> → {SEVERITY_LEVELS[derived].name}
+            </span>
+          ) : entered !== null ? (
+            <span className="risk-manual">
+              ⚑ Score <strong>{entered.toFixed(1)}</strong> entered by hand - CVSS 4.0 scores are not computed
+              from the vector, so the severity ({SEVERITY_LEVELS[threat.severity].name}) counts as a manual override
+            </span>
+          ) : (
+            <span className="risk-incomplete">
+              {risk.method === 'cvss' && risk.cvssVector && !cvss ? 'Invalid CVSS vector' : 'Incomplete assessment'}
+            </span>
+          )}
+
+          {threat.severityOverride && derived && (
+            <span className="risk-override">
+              ⚑ Severity manually set to {SEVERITY_LEVELS[threat.severity].name}
+              <button className="btn btn-secondary btn-sm" onClick={() => onChange(clearSeverityOverride(threat))}>
+                Use {SEVERITY_LEVELS[derived].name}
+              </button>
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
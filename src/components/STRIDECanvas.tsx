@@ -1,7 +1,7 @@
 // src/components/STRIDECanvas.tsx
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
 import Konva from 'konva';
-import { Stage, Layer } from 'react-konva';
+import { Stage, Layer, Rect, Text, Circle } from 'react-konva';
 import { GridLayer } from './diagram/GridLayer';
 import { ElementNode } from './diagram/element-node/ElementNode';
 import { DataFlowArrow } from './diagram/element-node/DataFlowArrow';
@@ -10,8 +10,15 @@ import { ConnectionHandles, getClosestEdge } from './diagram/ConnectionHandles';
 import { ResizeHandles } from './diagram/ResizeHandles';
 import { ContextMenu } from './diagram/context-menu/ContextMenu';
 import { ZoomControls } from './diagram/zoom-controls/ZoomControls';
+import { SelectionToolbar } from './diagram/selection-toolbar/SelectionToolbar';
 import { DiagramElement, STRIDEElementType, ELEMENT_CONFIGS } from '../types/diagram';
 import { scaleInvariant, isPointInRect, ViewportState } from '../utils/coordinates';
+import { computeTrustBoundaryModel } from '../utils/trustBoundaries';
+import { alignElements, getElementsInMarquee, rectFromPoints, translateElements, ElementUpdate } from '../utils/selection';
+import { ChangeKind, CHANGE_CONFIGS } from '../utils/modelDiff';
+import { LevelId, elementsAtLevel, levelPath, checkInterfaces, missingInterfaces } from '../utils/dfdLevels';
+import { ViewId, elementsInView } from '../utils/projectViews';
+import { LintSeverity } from '../utils/modelLint';
 import './STRIDECanvas.css';
 
 interface STRIDECanvasProps {
@@ -20,6 +27,19 @@ interface STRIDECanvasProps {
   onElementsChange: (elements: DiagramElement[]) => void;
   onElementSelect: (el: DiagramElement | null) => void;
   onElementDelete?: (elementId: string) => void;
+  // Multi-selection (shift-click, shift-drag marquee) and group operations
+  selectedElementIds?: string[];
+  onSelectionChange?: (elementIds: string[]) => void;
+  onElementsUpdate?: (updates: ElementUpdate[]) => void;
+  onElementsDelete?: (elementIds: string[]) => void;
+  readOnly?: boolean; // role may not edit - select and pan only
+  changeHighlights?: Record<string, ChangeKind>; // element id -> how it changed, when comparing versions
+  problems?: Record<string, LintSeverity>; // element id -> most severe lint finding
+  // The canvas shows one diagram of the project, and in it one level - the
+  // top one, or a process's sub-diagram
+  view?: ViewId;
+  level?: LevelId;
+  onLevelChange?: (level: LevelId) => void;
 }
 
 type DragConn = {
@@ -31,11 +51,21 @@ type DragConn = {
 };
 
 export const STRIDECanvas: React.FC<STRIDECanvasProps> = ({
-  elements,
+  elements: allElements,
   selectedElement,
   onElementsChange,
   onElementSelect,
   onElementDelete,
+  selectedElementIds,
+  onSelectionChange,
+  onElementsUpdate,
+  onElementsDelete,
+  readOnly = false,
+  changeHighlights,
+  problems,
+  view = null,
+  level = null,
+  onLevelChange,
 }) => {
   const stageRef = useRef<Konva.Stage>(null);
   const [viewport, setViewport] = useState({ width: 0, height: 0 });
@@ -43,6 +73,7 @@ export const STRIDECanvas: React.FC<STRIDECanvasProps> = ({
   const [pos, setPos] = useState({ x: 0, y: 0 });
   const [dragConn, setDragConn] = useState<DragConn | null>(null);
   const [hoveredTarget, setHoveredTarget] = useState<string | null>(null);
+  const [marquee, setMarquee] = useState<{ start: { x: number; y: number }; current: { x: number; y: number } } | null>(null);
   const [context, setContext] = useState<{
     x: number;
     y: number;
@@ -95,34 +126,113 @@ export const STRIDECanvas: React.FC<STRIDECanvasProps> = ({
     };
   }, []);
 
+  // Everything below works on the elements of the diagram and level shown; new ones join them
+  const elements = useMemo(() => elementsAtLevel(elementsInView(allElements, view), level), [allElements, view, level]);
+  const levelFields = { ...(view ? { view } : {}), ...(level ? { parentId: level } : {}) };
+  const breadcrumbs = useMemo(() => levelPath(allElements, level), [allElements, level]);
+  const expandedIds = useMemo(
+    () => new Set(allElements.map(el => el.parentId).filter((id): id is string => !!id)),
+    [allElements]
+  );
+  const interfaceIssues = useMemo(() => (level ? checkInterfaces(allElements, level) : []), [allElements, level]);
+  const newInterfaces = useMemo(() => (level ? missingInterfaces(allElements, level) : []), [allElements, level]);
+
+  // Lint badges: top right of a shape (findings on an original show on all its
+  // appearances), between the ends of a flow - or wherever a dangling one still has an end
+  const problemBadges = useMemo(() => {
+    if (!problems) return [];
+    const byId = new Map(allElements.map(el => [el.id, el]));
+    const centerOf = (el: DiagramElement) => ({ x: el.position.x + el.size.width / 2, y: el.position.y + el.size.height / 2 });
+    return elements.flatMap(el => {
+      const found = [problems[el.id], el.refId ? problems[el.refId] : undefined];
+      const severity = found.includes('error') ? 'error' : found.includes('warning') ? 'warning' : null;
+      if (!severity) return [];
+      if (el.type !== 'data-flow') {
+        return [{ id: el.id, severity, x: el.position.x + el.size.width, y: el.position.y }];
+      }
+      const ends = [el.sourceId, el.targetId]
+        .map(id => (id ? byId.get(id) : undefined))
+        .filter((end): end is DiagramElement => !!end)
+        .map(centerOf);
+      const at = ends.length > 0
+        ? { x: ends.reduce((sum, end) => sum + end.x, 0) / ends.length, y: ends.reduce((sum, end) => sum + end.y, 0) / ends.length }
+        : el.position;
+      return [{ id: el.id, severity, ...at }];
+    });
+  }, [problems, elements, allElements]);
+
+  // Double-clicking a process opens its sub-diagram, which starts out with
+  // the process's neighbours as interfaces
+  const handleDrillDown = (el: DiagramElement) => {
+    // The sub-diagram belongs to the original of a process placed in several diagrams
+    if (!onLevelChange || el.refId) return;
+    if (!expandedIds.has(el.id)) {
+      if (readOnly) return; // nothing to show, and no sub-diagram may be started
+      const interfaces = missingInterfaces(allElements, el.id).map(proxy => ({ ...proxy, ...(view ? { view } : {}) }));
+      if (interfaces.length > 0) onElementsChange(interfaces);
+    }
+    onLevelChange(el.id);
+  };
+
+  // Current selection - falls back to the single selected element when the
+  // parent does not track multi-selection
+  const selectedIds = useMemo(
+    () => new Set(selectedElementIds ?? (selectedElement ? [selectedElement.id] : [])),
+    [selectedElementIds, selectedElement]
+  );
+  const selectedElements = useMemo(
+    () => elements.filter(el => selectedIds.has(el.id)),
+    [elements, selectedIds]
+  );
+  const isGroupSelected = (elementId: string) => selectedIds.size > 1 && selectedIds.has(elementId);
+
   // Use refs to track current state without causing effect re-runs
   const selectedElementRef = useRef<DiagramElement | null>(null);
   const onElementDeleteRef = useRef<((elementId: string) => void) | undefined>(undefined);
+  const deleteSelectionRef = useRef<() => void>(() => {});
+  const clearSelectionRef = useRef<() => void>(() => {});
   
   // Update refs when props change
   selectedElementRef.current = selectedElement;
   onElementDeleteRef.current = onElementDelete;
+  deleteSelectionRef.current = () => {
+    const ids = Array.from(selectedIds);
+    if (ids.length === 0) return;
+    if (onElementsDelete) {
+      onElementsDelete(ids);
+    } else {
+      ids.forEach(id => onElementDeleteRef.current?.(id));
+    }
+  };
+  clearSelectionRef.current = () => onElementSelect(null);
+  const readOnlyRef = useRef(readOnly);
+  readOnlyRef.current = readOnly;
+
+  // Delete removes the whole selection, Escape clears it
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) {
+        return;
+      }
+      if (e.key === 'Delete' && !readOnlyRef.current) {
+        e.preventDefault();
+        deleteSelectionRef.current();
+      } else if (e.key === 'Escape') {
+        clearSelectionRef.current();
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
 
   const viewportTransform: ViewportState = { scale, pos };
 
-  // Helper function to check if element is inside a trust boundary
-  // const getContainingTrustBoundary = (element: DiagramElement): DiagramElement | null => {
-  //   const trustBoundaries = elements.filter(el => el.type === 'trust-boundary');
-    
-  //   for (const boundary of trustBoundaries) {
-  //     const elementCenterX = element.position.x + element.size.width / 2;
-  //     const elementCenterY = element.position.y + element.size.height / 2;
-      
-  //     if (elementCenterX >= boundary.position.x && 
-  //         elementCenterX <= boundary.position.x + boundary.size.width &&
-  //         elementCenterY >= boundary.position.y && 
-  //         elementCenterY <= boundary.position.y + boundary.size.height) {
-  //       return boundary;
-  //     }
-  //   }
-    
-  //   return null;
-  // };
+  // Flows crossing trust boundaries are highlighted on the canvas
+  const crossingFlowIds = useMemo(
+    () => new Set(computeTrustBoundaryModel(elements).crossings.map(c => c.flowId)),
+    [elements]
+  );
 
   // console.log('🎯 Viewport state:', { scale, pos, viewport: { width: viewport.width, height: viewport.height } });
 
@@ -160,6 +270,7 @@ export const STRIDECanvas: React.FC<STRIDECanvasProps> = ({
 
   const handleContextMenu = (e: any) => {
     e.evt.preventDefault();
+    if (readOnly) return; // the context menu only adds elements
     const stage = stageRef.current!;
     const rect = stage.container().getBoundingClientRect();
     
@@ -205,6 +316,7 @@ export const STRIDECanvas: React.FC<STRIDECanvasProps> = ({
       notes: '',
       assets: [],
       ...(type === 'data-flow' ? { sourceId: '', targetId: '' } : {}),
+      ...levelFields,
     };
     
     console.log('🎨 Created new element:', newEl.id, 'at position:', newEl.position);
@@ -227,6 +339,11 @@ export const STRIDECanvas: React.FC<STRIDECanvasProps> = ({
   };
 
   const handleMouseMove = () => {
+    if (marquee) {
+      const relativePos = stageRef.current?.getRelativePointerPosition();
+      if (relativePos) setMarquee({ ...marquee, current: relativePos });
+      return;
+    }
     if (!dragConn) return;
     const stage = stageRef.current!;
     const pointer = stage.getPointerPosition();
@@ -259,6 +376,14 @@ export const STRIDECanvas: React.FC<STRIDECanvasProps> = ({
   };
 
   const handleMouseUp = () => {
+    if (marquee) {
+      // Marquee adds the enclosed elements to the current selection
+      const enclosed = getElementsInMarquee(elements, rectFromPoints(marquee.start, marquee.current));
+      onSelectionChange?.(Array.from(new Set([...selectedIds, ...enclosed])));
+      stageRef.current?.draggable(true);
+      setMarquee(null);
+      return;
+    }
     if (!dragConn) return;
     const stage = stageRef.current!;
     
@@ -310,6 +435,7 @@ export const STRIDECanvas: React.FC<STRIDECanvasProps> = ({
           description: '',
           notes: '',
           assets: [],
+          ...levelFields,
         };
         onElementsChange([...elements, newFlow]);
       }
@@ -346,9 +472,60 @@ export const STRIDECanvas: React.FC<STRIDECanvasProps> = ({
 
   const handleStageMouseDown = (e: any) => {
     if (e.target === e.target.getStage()) {
-      onElementSelect(null);
       setContext(null); // Close context menu when clicking on stage
+
+      // Shift-drag on empty canvas draws a selection marquee instead of panning
+      if (e.evt.shiftKey && onSelectionChange) {
+        const relativePos = e.target.getRelativePointerPosition();
+        if (relativePos) {
+          e.target.draggable(false);
+          setMarquee({ start: relativePos, current: relativePos });
+        }
+        return;
+      }
+
+      onElementSelect(null);
+    }
+  };
+
+  // Shift-click toggles an element in the selection, plain click selects only it
+  const handleElementClick = (el: DiagramElement, e: Konva.KonvaEventObject<MouseEvent>) => {
+    if (e.evt.shiftKey && onSelectionChange) {
+      const ids = selectedIds.has(el.id)
+        ? Array.from(selectedIds).filter(id => id !== el.id)
+        : [...selectedIds, el.id];
+      onSelectionChange(ids);
+      return;
     }
+    onElementSelect(el);
+  };
+
+  // While dragging one element of a group, move the other selected nodes along
+  const handleElementDragMove = (el: DiagramElement, pos: { x: number; y: number }) => {
+    if (!isGroupSelected(el.id)) return;
+    const stage = stageRef.current;
+    if (!stage) return;
+
+    const dx = pos.x - el.position.x;
+    const dy = pos.y - el.position.y;
+    for (const other of selectedElements) {
+      if (other.id === el.id || other.type === 'data-flow') continue;
+      const node = stage.findOne((n: Konva.Node) => n.getAttr('elementId') === other.id);
+      node?.position({ x: other.position.x + dx, y: other.position.y + dy });
+    }
+  };
+
+  const handleElementDragEnd = (el: DiagramElement, pos: { x: number; y: number }) => {
+    if (isGroupSelected(el.id) && onElementsUpdate) {
+      onElementsUpdate(translateElements(selectedElements, {
+        x: pos.x - el.position.x,
+        y: pos.y - el.position.y,
+      }));
+      return;
+    }
+    onElementsChange(
+      elements.map(e2 => (e2.id === el.id ? { ...e2, position: pos } : e2))
+    );
   };
 
   // Removed handleStageDragMove - let Konva handle stage dragging natively
@@ -380,21 +557,19 @@ export const STRIDECanvas: React.FC<STRIDECanvasProps> = ({
               <React.Fragment key={el.id}>
                 <ElementNode
                   element={el}
-                  selected={selectedElement?.id === el.id}
-                  onClick={() => onElementSelect(el)}
-                  onDragEnd={pos =>
-                    onElementsChange(
-                      elements.map(e2 => (e2.id === el.id ? { ...e2, position: pos } : e2))
-                    )
-                  }
+                  selected={selectedIds.has(el.id)}
+                  onClick={e => handleElementClick(el, e)}
+                  onDragMove={pos => handleElementDragMove(el, pos)}
+                  onDragEnd={pos => handleElementDragEnd(el, pos)}
+                  draggable={!readOnly}
                 />
                 {/* Connection handles - trust boundaries should not have connection handles */}
-                {el.type !== 'trust-boundary' && (
+                {el.type !== 'trust-boundary' && !readOnly && (
                   <ConnectionHandles element={el} scale={scale} onHandleDown={onHandleDown} />
                 )}
                 
                 {/* Resize handles for selected trust boundaries */}
-                {el.type === 'trust-boundary' && selectedElement?.id === el.id && (
+                {el.type === 'trust-boundary' && selectedElement?.id === el.id && !readOnly && (
                   <ResizeHandles
                     element={el}
                     scale={scale}
@@ -420,16 +595,48 @@ export const STRIDECanvas: React.FC<STRIDECanvasProps> = ({
               <React.Fragment key={el.id}>
                 <ElementNode
                   element={el}
-                  selected={selectedElement?.id === el.id}
-                  onClick={() => onElementSelect(el)}
-                  onDragEnd={pos =>
-                    onElementsChange(
-                      elements.map(e2 => (e2.id === el.id ? { ...e2, position: pos } : e2))
-                    )
-                  }
+                  selected={selectedIds.has(el.id)}
+                  onClick={e => handleElementClick(el, e)}
+                  onDragMove={pos => handleElementDragMove(el, pos)}
+                  onDragEnd={pos => handleElementDragEnd(el, pos)}
+                  draggable={!readOnly}
+                  onDblClick={el.type === 'process' && onLevelChange ? () => handleDrillDown(el) : undefined}
                 />
+                {/* Processes with a sub-diagram, elements placed from another diagram, and interfaces to the parent diagram */}
+                {expandedIds.has(el.id) && (
+                  <Text
+                    x={el.position.x + el.size.width - 14}
+                    y={el.position.y + el.size.height - 14}
+                    text="⊞"
+                    fontSize={14}
+                    fill="#7400c6"
+                    listening={false}
+                  />
+                )}
+                {el.refId && (
+                  <Text
+                    x={el.position.x + 2}
+                    y={el.position.y + el.size.height - 14}
+                    text="🔗"
+                    fontSize={11}
+                    listening={false}
+                  />
+                )}
+                {el.interfaceOf && (
+                  <Rect
+                    x={el.position.x - 4}
+                    y={el.position.y - 4}
+                    width={el.size.width + 8}
+                    height={el.size.height + 8}
+                    stroke="#9ca3af"
+                    strokeWidth={scaleInvariant(1, scale)}
+                    dash={[scaleInvariant(4, scale), scaleInvariant(3, scale)]}
+                    cornerRadius={6}
+                    listening={false}
+                  />
+                )}
                 {/* Connection handles */}
-                <ConnectionHandles element={el} scale={scale} onHandleDown={onHandleDown} />
+                {!readOnly && <ConnectionHandles element={el} scale={scale} onHandleDown={onHandleDown} />}
               </React.Fragment>
             ))}
 
@@ -441,13 +648,59 @@ export const STRIDECanvas: React.FC<STRIDECanvasProps> = ({
                 key={flow.id}
                 flow={flow}
                 elements={elements}
-                selected={selectedElement?.id === flow.id}
-                onClick={() => onElementSelect(flow)}
+                selected={selectedIds.has(flow.id)}
+                crossesBoundary={crossingFlowIds.has(flow.id)}
+                highlightColor={changeHighlights?.[flow.id] ? CHANGE_CONFIGS[changeHighlights[flow.id]].color : undefined}
+                onClick={e => handleElementClick(flow, e)}
                 onDblClick={() => onElementSelect(flow)}
-                onReattach={handleDataFlowReattach}
+                onReattach={readOnly ? undefined : handleDataFlowReattach}
               />
             ))}
 
+          {/* Changed elements when comparing versions (removed ones dashed) */}
+          {changeHighlights && elements
+            .filter(el => el.type !== 'data-flow' && changeHighlights[el.id])
+            .map(el => (
+              <Rect
+                key={`change-${el.id}`}
+                x={el.position.x - 6}
+                y={el.position.y - 6}
+                width={el.size.width + 12}
+                height={el.size.height + 12}
+                stroke={CHANGE_CONFIGS[changeHighlights[el.id]].color}
+                strokeWidth={scaleInvariant(3, scale)}
+                dash={changeHighlights[el.id] === 'removed' ? [scaleInvariant(6, scale), scaleInvariant(4, scale)] : undefined}
+                cornerRadius={8}
+                listening={false}
+              />
+            ))}
+
+          {/* Lint findings */}
+          {problemBadges.map(badge => (
+            <React.Fragment key={`problem-${badge.id}`}>
+              <Circle
+                x={badge.x}
+                y={badge.y}
+                radius={scaleInvariant(8, scale)}
+                fill={badge.severity === 'error' ? '#dc2626' : '#f59e0b'}
+                stroke="white"
+                strokeWidth={scaleInvariant(1.5, scale)}
+                listening={false}
+              />
+              <Text
+                x={badge.x - scaleInvariant(8, scale)}
+                y={badge.y - scaleInvariant(6, scale)}
+                width={scaleInvariant(16, scale)}
+                text="!"
+                align="center"
+                fontSize={scaleInvariant(12, scale)}
+                fontStyle="bold"
+                fill="white"
+                listening={false}
+              />
+            </React.Fragment>
+          ))}
+
           {/* Drag-preview arrow before being connected */}
           {dragConn && (
             <DragPreviewArrow
@@ -457,9 +710,64 @@ export const STRIDECanvas: React.FC<STRIDECanvasProps> = ({
               hoveredTarget={!!hoveredTarget}
             />
           )}
+
+          {/* Selection marquee */}
+          {marquee && (
+            <Rect
+              {...rectFromPoints(marquee.start, marquee.current)}
+              fill="rgba(116, 0, 198, 0.08)"
+              stroke="#7400c6ff"
+              strokeWidth={scaleInvariant(1, scale)}
+              dash={[scaleInvariant(4, scale), scaleInvariant(4, scale)]}
+              listening={false}
+            />
+          )}
         </Layer>
       </Stage>
 
+      {level && onLevelChange && (
+        <div className="level-bar">
+          <nav className="level-breadcrumbs" aria-label="Diagram levels">
+            <button onClick={() => onLevelChange(null)}>Level 0</button>
+            {breadcrumbs.map((process, depth) => (
+              <React.Fragment key={process.id}>
+                <span className="level-separator">›</span>
+                <button onClick={() => onLevelChange(process.id)} disabled={process.id === level}>
+                  {process.name || 'unnamed'} <small>L{depth + 1}</small>
+                </button>
+              </React.Fragment>
+            ))}
+          </nav>
+          <div className={`level-interfaces ${interfaceIssues.length > 0 ? 'problems' : 'balanced'}`}>
+            {interfaceIssues.length === 0 ? (
+              <span>✓ Interfaces balance the parent diagram</span>
+            ) : (
+              <details>
+                <summary>⚠️ {interfaceIssues.length} interface problem{interfaceIssues.length === 1 ? '' : 's'}</summary>
+                <ul>
+                  {interfaceIssues.map(issue => (
+                    <li key={`${issue.kind}-${issue.direction}-${issue.neighbourId}`}>{issue.message}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+            {newInterfaces.length > 0 && !readOnly && (
+              <button onClick={() => onElementsChange(newInterfaces.map(proxy => ({ ...proxy, ...(view ? { view } : {}) })))}>Add missing interfaces</button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {selectedElements.length > 1 && onElementsUpdate && !readOnly && (
+        <SelectionToolbar
+          count={selectedElements.length}
+          onAlign={mode => onElementsUpdate(alignElements(selectedElements, mode))}
+          onRecolor={color => onElementsUpdate(selectedElements.map(el => ({ id: el.id, patch: { color } })))}
+          onDelete={() => deleteSelectionRef.current()}
+          onClear={() => onElementSelect(null)}
+        />
+      )}
+
       {context && (
         <ContextMenu
           x={context.x}
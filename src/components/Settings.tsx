@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from 'react';
+import { TransportKind, TRANSPORT_KINDS } from '../services/transport';
+import { StorageEncryptionSettings } from './StorageEncryptionSettings';
 import './Settings.css';
 
-interface STUNTURNConfig {
+export interface NetworkSettings {
+  transport: TransportKind;
+  relayUrl: string;
   stunServers: string[];
   turnServers: Array<{
     urls: string;
@@ -14,10 +18,16 @@ interface STUNTURNConfig {
 interface SettingsProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfigChange: (config: STUNTURNConfig) => void;
+  onConfigChange: (config: NetworkSettings) => void;
+  onLock: () => void;
+  onForgetDevice: () => void;
 }
 
-const DEFAULT_CONFIG: STUNTURNConfig = {
+const SETTINGS_KEY = 'modelka-webrtc-config';
+
+const DEFAULT_CONFIG: NetworkSettings = {
+  transport: 'webrtc',
+  relayUrl: '',
   stunServers: [
     'stun:stun.l.google.com:19302',
     'stun:stun1.l.google.com:19302'
@@ -32,8 +42,22 @@ const DEFAULT_CONFIG: STUNTURNConfig = {
   useMetered: true
 };
 
-export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onConfigChange }) => {
-  const [config, setConfig] = useState<STUNTURNConfig>(DEFAULT_CONFIG);
+/**
+ * Saved settings merged over the defaults (older saves predate the transport fields)
+ */
+export function loadNetworkSettings(): NetworkSettings {
+  const savedConfig = localStorage.getItem(SETTINGS_KEY);
+  if (!savedConfig) return DEFAULT_CONFIG;
+  try {
+    return { ...DEFAULT_CONFIG, ...JSON.parse(savedConfig) };
+  } catch (error) {
+    console.error('Failed to load saved WebRTC config:', error);
+    return DEFAULT_CONFIG;
+  }
+}
+
+export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onConfigChange, onLock, onForgetDevice }) => {
+  const [config, setConfig] = useState<NetworkSettings>(loadNetworkSettings);
   const [newStunServer, setNewStunServer] = useState('');
   const [newTurnServer, setNewTurnServer] = useState({
     urls: '',
@@ -41,21 +65,9 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onConfigCha
     credential: ''
   });
 
-  // Load saved configuration
-  useEffect(() => {
-    const savedConfig = localStorage.getItem('modelka-webrtc-config');
-    if (savedConfig) {
-      try {
-        setConfig(JSON.parse(savedConfig));
-      } catch (error) {
-        console.error('Failed to load saved WebRTC config:', error);
-      }
-    }
-  }, []);
-
   // Save configuration when it changes
   useEffect(() => {
-    localStorage.setItem('modelka-webrtc-config', JSON.stringify(config));
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(config));
     onConfigChange(config);
   }, [config, onConfigChange]);
 
@@ -97,7 +109,35 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onConfigCha
     setConfig(DEFAULT_CONFIG);
   };
 
+  const handleTestRelay = async () => {
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const socket = new WebSocket(config.relayUrl);
+        const timeout = setTimeout(() => {
+          socket.close();
+          reject(new Error('Relay timeout'));
+        }, 5000);
+        socket.onopen = () => {
+          clearTimeout(timeout);
+          socket.close();
+          resolve();
+        };
+        socket.onerror = () => {
+          clearTimeout(timeout);
+          reject(new Error('Relay unreachable'));
+        };
+      });
+      alert('✅ Relay is reachable.');
+    } catch (error) {
+      console.error('Relay test failed:', error);
+      alert(`❌ Cannot reach relay at ${config.relayUrl}`);
+    }
+  };
+
   const handleTestConfiguration = async () => {
+    if (config.transport === 'relay') {
+      return handleTestRelay();
+    }
     try {
       // Create a test RTCPeerConnection with current config
       const iceServers = [
@@ -138,95 +178,135 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, onConfigCha
     <div className="settings-overlay">
       <div className="settings-modal">
         <div className="settings-header">
-          <h2>🔧 WebRTC Configuration</h2>
+          <h2>🔧 Settings</h2>
           <button className="close-btn" onClick={onClose}>×</button>
         </div>
 
         <div className="settings-content">
           <div className="setting-section">
-            <label className="setting-toggle">
-              <input
-                type="checkbox"
-                checked={config.useMetered}
-                onChange={(e) => setConfig(prev => ({ ...prev, useMetered: e.target.checked }))}
-              />
-              <span>Use Metered.live automatic TURN servers</span>
-            </label>
+            <h3>Connection</h3>
+            <div className="transport-options">
+              {(Object.keys(TRANSPORT_KINDS) as TransportKind[]).map(kind => (
+                <label key={kind} className="transport-option">
+                  <input
+                    type="radio"
+                    name="transport"
+                    checked={config.transport === kind}
+                    onChange={() => setConfig(prev => ({ ...prev, transport: kind }))}
+                  />
+                  <span>
+                    <strong>{TRANSPORT_KINDS[kind].name}</strong>
+                    <small>{TRANSPORT_KINDS[kind].description}</small>
+                  </span>
+                </label>
+              ))}
+            </div>
+            {config.transport === 'relay' && (
+              <div className="add-server">
+                <input
+                  type="text"
+                  placeholder="wss://relay.example.com"
+                  value={config.relayUrl}
+                  onChange={(e) => setConfig(prev => ({ ...prev, relayUrl: e.target.value.trim() }))}
+                />
+              </div>
+            )}
             <p className="setting-description">
-              When enabled, will fetch TURN credentials from metered.live API. Disable to use only manual configuration.
+              Room content is end-to-end encrypted with the room passphrase on every connection type.
+              Changes apply when you close this dialog and are included in invite links.
             </p>
           </div>
 
-          <div className="setting-section">
-            <h3>STUN Servers</h3>
-            <div className="server-list">
-              {config.stunServers.map((server, index) => (
-                <div key={index} className="server-item">
-                  <code>{server}</code>
-                  <button 
-                    className="remove-btn"
-                    onClick={() => handleRemoveStunServer(index)}
-                  >
-                    🗑️
-                  </button>
+          {config.transport === 'webrtc' && (
+            <>
+              <div className="setting-section">
+                <label className="setting-toggle">
+                  <input
+                    type="checkbox"
+                    checked={config.useMetered}
+                    onChange={(e) => setConfig(prev => ({ ...prev, useMetered: e.target.checked }))}
+                  />
+                  <span>Use Metered.live automatic TURN servers</span>
+                </label>
+                <p className="setting-description">
+                  When enabled, will fetch TURN credentials from metered.live API. Disable to use only manual configuration.
+                </p>
+              </div>
+
+              <div className="setting-section">
+                <h3>STUN Servers</h3>
+                <div className="server-list">
+                  {config.stunServers.map((server, index) => (
+                    <div key={index} className="server-item">
+                      <code>{server}</code>
+                      <button 
+                        className="remove-btn"
+                        onClick={() => handleRemoveStunServer(index)}
+                      >
+                        🗑️
+                      </button>
+                    </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-            <div className="add-server">
-              <input
-                type="text"
-                placeholder="stun:stun.example.com:19302"
-                value={newStunServer}
-                onChange={(e) => setNewStunServer(e.target.value)}
-                onKeyPress={(e) => e.key === 'Enter' && handleAddStunServer()}
-              />
-              <button onClick={handleAddStunServer}>Add STUN</button>
-            </div>
-          </div>
+                <div className="add-server">
+                  <input
+                    type="text"
+                    placeholder="stun:stun.example.com:19302"
+                    value={newStunServer}
+                    onChange={(e) => setNewStunServer(e.target.value)}
+                    onKeyPress={(e) => e.key === 'Enter' && handleAddStunServer()}
+                  />
+                  <button onClick={handleAddStunServer}>Add STUN</button>
+                </div>
+              </div>
 
-          <div className="setting-section">
-            <h3>TURN Servers</h3>
-            <div className="server-list">
-              {config.turnServers.map((server, index) => (
-                <div key={index} className="server-item turn-item">
-                  <div>
-                    <code>{server.urls}</code>
-                    {server.username && <small>User: {server.username}</small>}
-                  </div>
-                  <button 
-                    className="remove-btn"
-                    onClick={() => handleRemoveTurnServer(index)}
-                  >
-                    🗑️
-                  </button>
+              <div className="setting-section">
+                <h3>TURN Servers</h3>
+                <div className="server-list">
+                  {config.turnServers.map((server, index) => (
+                    <div key={index} className="server-item turn-item">
+                      <div>
+                        <code>{server.urls}</code>
+                        {server.username && <small>User: {server.username}</small>}
+                      </div>
+                      <button 
+                        className="remove-btn"
+                        onClick={() => handleRemoveTurnServer(index)}
+                      >
+                        🗑️
+                      </button>
+                    </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-            <div className="add-turn-server">
-              <input
-                type="text"
-                placeholder="turn:turn.example.com:3478"
-                value={newTurnServer.urls}
-                onChange={(e) => setNewTurnServer(prev => ({ ...prev, urls: e.target.value }))}
-              />
-              <input
-                type="text"
-                placeholder="Username (optional)"
-                value={newTurnServer.username}
-                onChange={(e) => setNewTurnServer(prev => ({ ...prev, username: e.target.value }))}
-              />
-              <input
-                type="password"
-                placeholder="Password (optional)"
-                value={newTurnServer.credential}
-                onChange={(e) => setNewTurnServer(prev => ({ ...prev, credential: e.target.value }))}
-              />
-              <button onClick={handleAddTurnServer}>Add TURN</button>
-            </div>
-          </div>
+                <div className="add-turn-server">
+                  <input
+                    type="text"
+                    placeholder="turn:turn.example.com:3478"
+                    value={newTurnServer.urls}
+                    onChange={(e) => setNewTurnServer(prev => ({ ...prev, urls: e.target.value }))}
+                  />
+                  <input
+                    type="text"
+                    placeholder="Username (optional)"
+                    value={newTurnServer.username}
+                    onChange={(e) => setNewTurnServer(prev => ({ ...prev, username: e.target.value }))}
+                  />
+                  <input
+                    type="password"
+                    placeholder="Password (optional)"
+                    value={newTurnServer.credential}
+                    onChange={(e) => setNewTurnServer(prev => ({ ...prev, credential: e.target.value }))}
+                  />
+                  <button onClick={handleAddTurnServer}>Add TURN</button>
+                </div>
+              </div>
+            </>
+          )}
+
+          <StorageEncryptionSettings onLock={onLock} onForgetDevice={onForgetDevice} />
 
           <div className="settings-actions">
-            <button className="test-btn" onClick={handleTestConfiguration}>
+            <button className="test-btn" onClick={handleTestConfiguration} disabled={config.transport === 'local'}>
               🧪 Test Configuration
             </button>
             <button className="reset-btn" onClick={handleResetToDefaults}>
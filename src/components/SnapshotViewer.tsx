@@ -0,0 +1,101 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ThemeProvider } from '../contexts/ThemeContext';
+import { STRIDECanvas } from './STRIDECanvas';
+import { RightSidebar } from './RightSidebar';
+import { FrozenSnapshot, decodeSnapshot } from '../utils/snapshotLink';
+import '../App.css';
+import './Header.css';
+import './SnapshotViewer.css';
+
+interface SnapshotViewerProps {
+  encoded: string;
+}
+
+const noop = () => {};
+
+/**
+ * Read-only view of a frozen snapshot link. Joins no room and stores nothing.
+ */
+export const SnapshotViewer: React.FC<SnapshotViewerProps> = ({ encoded }) => {
+  const [snapshot, setSnapshot] = useState<FrozenSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    decodeSnapshot(encoded)
+      .then(setSnapshot)
+      .catch((err) => {
+        console.error('❌ Failed to open snapshot link:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      });
+  }, [encoded]);
+
+  const elements = snapshot?.elements ?? [];
+  const selectedElement = useMemo(
+    () => (selectedIds.length === 1 ? elements.find(el => el.id === selectedIds[0]) ?? null : null),
+    [elements, selectedIds]
+  );
+
+  if (error) {
+    return (
+      <div className="error-screen">
+        <div className="error-content">
+          <h2>🔴 Cannot open snapshot</h2>
+          <p>The link is incomplete or damaged: {error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!snapshot) {
+    return (
+      <div className="loading-screen">
+        <div className="loading-content">
+          <div className="loading-spinner"></div>
+          <h2>Opening snapshot</h2>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <ThemeProvider>
+      <div className="app">
+        <header className="app-header">
+          <div className="header-left">
+            <h1><a className="modelka" href="/">Modelka</a></h1>
+          </div>
+          <div className="snapshot-banner">
+            🧊 Frozen snapshot · read-only · taken {new Date(snapshot.frozenAt).toLocaleString()}
+          </div>
+        </header>
+
+        <div className="app-body">
+          <STRIDECanvas
+            elements={elements}
+            selectedElement={selectedElement}
+            onElementsChange={noop}
+            onElementSelect={(element) => setSelectedIds(element ? [element.id] : [])}
+            selectedElementIds={selectedIds}
+            onSelectionChange={setSelectedIds}
+            readOnly
+          />
+
+          <div className="sidebar-container">
+            <RightSidebar
+              selectedElement={selectedElement}
+              selectionCount={selectedIds.length}
+              elements={elements}
+              threatActors={snapshot.threatActors}
+              onElementUpdate={noop}
+              onThreatUpdate={noop}
+              onThreatActorsChange={noop}
+              readOnly
+              canEditNotes={false}
+            />
+          </div>
+        </div>
+      </div>
+    </ThemeProvider>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { encryptedStorage, AtRestMode, AT_REST_MODES } from '../state/encryptedStorage';
+import { StorageUsage } from '../state/storageEngine';
+
+interface StorageEncryptionSettingsProps {
+  onLock: () => void;
+  onForgetDevice: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Settings section for encrypting saved models on this device
+ */
+export const StorageEncryptionSettings: React.FC<StorageEncryptionSettingsProps> = ({ onLock, onForgetDevice }) => {
+  const [mode, setMode] = useState<AtRestMode>(() => encryptedStorage.getMode());
+  const [selected, setSelected] = useState<AtRestMode>(mode);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+
+  useEffect(() => {
+    encryptedStorage.getUsage().then(setUsage).catch(() => setUsage(null));
+  }, []);
+
+  const passphraseProblem = selected !== 'passphrase' ? null
+    : passphrase.length < MIN_PASSPHRASE_LENGTH ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+    : passphrase !== confirmation ? 'The passphrases do not match'
+    : null;
+
+  const handleApply = async () => {
+    const unreadable = encryptedStorage.unreadableCount();
+    if (unreadable > 0 && !window.confirm(`${unreadable} saved records are encrypted with room keys that are not open now and will be deleted. Continue?`)) {
+      return;
+    }
+    setBusy(true);
+    try {
+      if (selected === 'passphrase') await encryptedStorage.enablePassphrase(passphrase);
+      else if (selected === 'room-key') await encryptedStorage.enableRoomKeys();
+      else await encryptedStorage.disable();
+      setMode(selected);
+      setPassphrase('');
+      setConfirmation('');
+    } catch (error) {
+      console.error('❌ Changing storage encryption failed:', error);
+      alert(`Could not change storage encryption: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleForget = () => {
+    if (window.confirm('Delete every model, room and setting Modelka saved in this browser, and its identity key? Rooms stay with their other participants.')) {
+      onForgetDevice();
+    }
+  };
+
+  return (
+    <div className="setting-section">
+      <h3>Storage encryption</h3>
+      <div className="transport-options">
+        {(Object.keys(AT_REST_MODES) as AtRestMode[]).map(option => (
+          <label key={option} className="transport-option">
+            <input
+              type="radio"
+              name="at-rest-mode"
+              checked={selected === option}
+              onChange={() => setSelected(option)}
+              disabled={busy}
+            />
+            <span>
+              <strong>{AT_REST_MODES[option].name}{option === mode && ' (current)'}</strong>
+              <small>{AT_REST_MODES[option].description}</small>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {selected === 'passphrase' && (
+        <div className="add-turn-server">
+          <input
+            type="password"
+            placeholder={mode === 'passphrase' ? 'New unlock passphrase' : 'Unlock passphrase'}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+          <input
+            type="password"
+            placeholder="Repeat passphrase"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+          />
+        </div>
+      )}
+
+      <div className="storage-actions">
+        {(selected !== mode || selected === 'passphrase') && (
+          <button onClick={handleApply} disabled={busy || !!passphraseProblem} title={passphraseProblem ?? undefined}>
+            {busy ? 'Encrypting…' : selected === 'passphrase' && mode === 'passphrase' ? 'Change passphrase' : 'Apply'}
+          </button>
+        )}
+        {mode === 'passphrase' && (
+          <button onClick={onLock} disabled={busy}>🔒 Lock now</button>
+        )}
+        <button className="forget-btn" onClick={handleForget} disabled={busy}>🧹 Forget this device</button>
+      </div>
+      <p className="setting-description">
+        The passphrase cannot be recovered - without it, forgetting this device is the only way back.
+        With room keys, rooms you are not in right now are encrypted the next time you open them.
+      </p>
+      <p className="setting-description">
+        Saved in {encryptedStorage.getEngineKind() === 'indexedDB' ? 'IndexedDB' : 'localStorage (about 5 MB)'}
+        {usage && ` - ${(usage.usage / 1024 / 1024).toFixed(1)} of ${Math.round(usage.quota / 1024 / 1024)} MB used`}.
+      </p>
+    </div>
+  );
+};
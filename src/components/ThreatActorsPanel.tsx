@@ -5,11 +5,13 @@ import './ThreatActorsPanel.css';
 interface ThreatActorsPanelProps {
   threatActors: ThreatActor[];
   onThreatActorsChange: (threatActors: ThreatActor[]) => void;
+  readOnly?: boolean;
 }
 
 export const ThreatActorsPanel: React.FC<ThreatActorsPanelProps> = ({
   threatActors,
-  onThreatActorsChange
+  onThreatActorsChange,
+  readOnly = false
 }) => {
   const [selectedActor, setSelectedActor] = useState<ThreatActor | null>(null);
   const [isEditing, setIsEditing] = useState(false);
@@ -97,9 +99,11 @@ export const ThreatActorsPanel: React.FC<ThreatActorsPanelProps> = ({
     <div className="threat-actors-panel">
       <div className="panel-header">
         <h3>🦹 Threat Actors ({threatActors.length})</h3>
-        <button className="btn btn-primary btn-sm" onClick={handleAddThreatActor}>
-          + Add Actor
-        </button>
+        {!readOnly && (
+          <button className="btn btn-primary btn-sm" onClick={handleAddThreatActor}>
+            + Add Actor
+          </button>
+        )}
       </div>
 
       <div className="actors-layout">
@@ -124,16 +128,18 @@ export const ThreatActorsPanel: React.FC<ThreatActorsPanelProps> = ({
                 </span>
               </div>
               <div className="actor-type">{actor.type.replace('-', ' ')}</div>
-              <button
-                className="delete-actor-btn"
-                onClick={(e) => {
-                  e.stopPropagation();
-                  handleDeleteThreatActor(actor.id);
-                }}
-                title="Delete threat actor"
-              >
-                🗑️
-              </button>
+              {!readOnly && (
+                <button
+                  className="delete-actor-btn"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDeleteThreatActor(actor.id);
+                  }}
+                  title="Delete threat actor"
+                >
+                  🗑️
+                </button>
+              )}
             </div>
           ))}
 
@@ -149,15 +155,17 @@ export const ThreatActorsPanel: React.FC<ThreatActorsPanelProps> = ({
           <div className="actor-details">
             <div className="details-header">
               <h4>{selectedActor.name}</h4>
-              <button
-                className="btn btn-ghost btn-sm"
-                onClick={() => setIsEditing(!isEditing)}
-              >
-                {isEditing ? '👁️ View' : '✏️ Edit'}
-              </button>
+              {!readOnly && (
+                <button
+                  className="btn btn-ghost btn-sm"
+                  onClick={() => setIsEditing(!isEditing)}
+                >
+                  {isEditing ? '👁️ View' : '✏️ Edit'}
+                </button>
+              )}
             </div>
 
-            {isEditing ? (
+            {isEditing && !readOnly ? (
               <div className="actor-form">
                 <div className="form-group">
                   <label>Actor Name</label>
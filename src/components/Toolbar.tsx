@@ -4,14 +4,20 @@ import './Toolbar.css';
 
 interface ToolbarProps {
   onAddElement: (type: STRIDEElementType, position: { x: number; y: number }) => void;
-  onExport: (format: 'png' | 'json' | 'html') => void;
+  onExport: (format: 'png' | 'json' | 'html' | 'pdf' | 'threat-dragon' | 'otm-json' | 'otm-yaml') => void;
   onImport: (file: File) => void;
   onToggleConnectionMode?: () => void;
   connectionMode?: boolean;
   roomId?: string;
   onShowSettings?: () => void;
+  onLock?: () => void; // storage is encrypted with a passphrase
   onGenerateInviteLink?: () => void;
   isGeneratingLink?: boolean;
+  onShowParticipants?: () => void;
+  onShowHistory?: () => void;
+  onShowBranches?: () => void;
+  onShareReadOnly?: (kind: 'live' | 'snapshot') => void;
+  readOnly?: boolean; // role may not edit - hide adding and importing
 }
 
 export const Toolbar: React.FC<ToolbarProps> = ({
@@ -21,13 +27,21 @@ export const Toolbar: React.FC<ToolbarProps> = ({
   onToggleConnectionMode: _onToggleConnectionMode,
   connectionMode: _connectionMode = false,
   roomId: _roomId,
-  onShowSettings: _onShowSettings,
+  onShowSettings,
+  onLock,
   onGenerateInviteLink,
-  isGeneratingLink = false
+  isGeneratingLink = false,
+  onShowParticipants,
+  onShowHistory,
+  onShowBranches,
+  onShareReadOnly,
+  readOnly = false
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const exportDropdownRef = useRef<HTMLDivElement>(null);
   const exportMenuRef = useRef<HTMLDivElement>(null);
+  const shareDropdownRef = useRef<HTMLDivElement>(null);
+  const shareMenuRef = useRef<HTMLDivElement>(null);
 
   const handleAddElement = (type: STRIDEElementType) => {
     // Add element at center of viewport
@@ -35,7 +49,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     onAddElement(type, position);
   };
 
-  const handleExportClick = (format: 'png' | 'json' | 'html') => {
+  const handleExportClick = (format: 'png' | 'json' | 'html' | 'pdf' | 'threat-dragon' | 'otm-json' | 'otm-yaml') => {
     onExport(format);
   };
 
@@ -51,18 +65,19 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     }
   };
 
-  const handleExportButtonMouseEnter = () => {
-    if (exportDropdownRef.current && exportMenuRef.current) {
-      const rect = exportDropdownRef.current.getBoundingClientRect();
-      const menu = exportMenuRef.current;
+  const positionMenu = (dropdown: HTMLDivElement | null, menu: HTMLDivElement | null) => {
+    if (dropdown && menu) {
+      const rect = dropdown.getBoundingClientRect();
       menu.style.left = `${rect.left}px`;
       menu.style.top = `${rect.bottom + 2}px`;
     }
   };
 
+  const handleExportButtonMouseEnter = () => positionMenu(exportDropdownRef.current, exportMenuRef.current);
+
   return (
     <div className="toolbar">
-      <div className="toolbar-section">
+      {!readOnly && <div className="toolbar-section">
         <div className="element-buttons">
           {Object.entries(ELEMENT_CONFIGS)
             .filter(([type]) => type !== 'data-flow')
@@ -80,17 +95,19 @@ export const Toolbar: React.FC<ToolbarProps> = ({
           ))}
         </div>
         
-      </div>
+      </div>}
 
       <div className="toolbar-section">
         <div className="file-buttons">
-          <button
-            className="toolbar-btn import-btn"
-            onClick={handleImportClick}
-            title="Import JSON diagram"
-          >
-            📁 Import
-          </button>
+          {!readOnly && (
+            <button
+              className="toolbar-btn import-btn"
+              onClick={handleImportClick}
+              title="Import JSON diagram"
+            >
+              📁 Import
+            </button>
+          )}
           
           <div 
             ref={exportDropdownRef}
@@ -111,6 +128,18 @@ export const Toolbar: React.FC<ToolbarProps> = ({
               <button onClick={() => handleExportClick('html')}>
                 🌐 HTML Report
               </button>
+              <button onClick={() => handleExportClick('pdf')}>
+                📕 PDF Report
+              </button>
+              <button onClick={() => handleExportClick('threat-dragon')}>
+                🐉 Threat Dragon
+              </button>
+              <button onClick={() => handleExportClick('otm-json')}>
+                📐 OTM (JSON)
+              </button>
+              <button onClick={() => handleExportClick('otm-yaml')}>
+                📐 OTM (YAML)
+              </button>
             </div>
           </div>
         </div>
@@ -118,30 +147,95 @@ export const Toolbar: React.FC<ToolbarProps> = ({
 
       <div className="toolbar-section">
         <div className="collab-buttons">
-          <button
-            className="toolbar-btn invite-btn"
-            onClick={onGenerateInviteLink}
-            disabled={isGeneratingLink}
-            title={isGeneratingLink ? "Generating invitation link..." : "Generate and copy invitation link"}
-          >
-            {isGeneratingLink ? (
-              <>
-                ⏳ Generating...
-              </>
-            ) : (
-              <>
-                Invite
-              </>
-            )}
-          </button>
-      
+          {onGenerateInviteLink && (
+            <button
+              className="toolbar-btn invite-btn"
+              onClick={onGenerateInviteLink}
+              disabled={isGeneratingLink}
+              title={isGeneratingLink ? "Generating invitation link..." : "Generate and copy invitation link"}
+            >
+              {isGeneratingLink ? (
+                <>
+                  ⏳ Generating...
+                </>
+              ) : (
+                <>
+                  Invite
+                </>
+              )}
+            </button>
+          )}
+          {onShareReadOnly && (
+            <div
+              ref={shareDropdownRef}
+              className="export-dropdown"
+              onMouseEnter={() => positionMenu(shareDropdownRef.current, shareMenuRef.current)}
+            >
+              <button className="toolbar-btn share-btn" title="Share without edit rights">
+                👁️ Share
+              </button>
+              <div ref={shareMenuRef} className="export-menu">
+                <button onClick={() => onShareReadOnly('live')}>
+                  📡 Read-only live link
+                </button>
+                <button onClick={() => onShareReadOnly('snapshot')}>
+                  🧊 Frozen snapshot link
+                </button>
+              </div>
+            </div>
+          )}
+          {onShowParticipants && (
+            <button
+              className="toolbar-btn participants-btn"
+              onClick={onShowParticipants}
+              title="Participants and roles"
+            >
+              👥
+            </button>
+          )}
+          {onShowHistory && (
+            <button
+              className="toolbar-btn history-btn"
+              onClick={onShowHistory}
+              title="Version history"
+            >
+              🕘
+            </button>
+          )}
+          {onShowBranches && (
+            <button
+              className="toolbar-btn branches-btn"
+              onClick={onShowBranches}
+              title="Branches - what-if copies of the model"
+            >
+              🌿
+            </button>
+          )}
+          {onLock && (
+            <button
+              className="toolbar-btn lock-btn"
+              onClick={onLock}
+              title="Lock - encrypted models need the passphrase again"
+            >
+              🔒
+            </button>
+          )}
+          {onShowSettings && (
+            <button
+              className="toolbar-btn settings-btn"
+              onClick={onShowSettings}
+              title="Settings"
+            >
+              ⚙️
+            </button>
+          )}
         </div>
       </div>
 
       <input
         ref={fileInputRef}
         type="file"
-        accept=".json"
+        accept=".json,.tm7,.yaml,.yml"
         style={{ display: 'none' }}
         onChange={handleFileChange}
       />
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import Konva from 'konva';
 import { Arrow, Group, Text, Circle } from 'react-konva';
 import { DiagramElement } from '../../../types/diagram';
 import { getClosestEdge } from '../ConnectionHandles';
@@ -7,7 +8,9 @@ interface DataFlowArrowProps {
   flow: DiagramElement;
   elements: DiagramElement[];
   selected: boolean;
-  onClick: () => void;
+  crossesBoundary?: boolean; // Highlight flows that cross a trust boundary
+  highlightColor?: string; // Outline color when comparing versions
+  onClick: (e: Konva.KonvaEventObject<MouseEvent>) => void;
   onDblClick: () => void;
   onReattach?: (flowId: string, newSourceId?: string, newTargetId?: string, newSourceEdge?: string, newTargetEdge?: string, newSourceOffset?: number, newTargetOffset?: number) => void;
 }
@@ -100,7 +103,7 @@ const getClosestEdgePoint = (source: DiagramElement, target: DiagramElement): {
   };
 };
 
-export const DataFlowArrow: React.FC<DataFlowArrowProps> = ({ flow, elements, selected, onClick, onDblClick, onReattach }) => {
+export const DataFlowArrow: React.FC<DataFlowArrowProps> = ({ flow, elements, selected, crossesBoundary = false, highlightColor, onClick, onDblClick, onReattach }) => {
   const [dragState, setDragState] = useState<{
     isDragging: boolean;
     endpoint: 'source' | 'target';
@@ -142,8 +145,8 @@ export const DataFlowArrow: React.FC<DataFlowArrowProps> = ({ flow, elements, se
     endY = points.end.y;
   }
 
-  const color = selected ? '#7400c6ff' : '#000000ff';
-  const strokeWidth = selected ? 2 : 1;
+  const color = selected ? '#7400c6ff' : highlightColor ?? (crossesBoundary ? '#f59e0b' : flow.color || '#000000ff');
+  const strokeWidth = highlightColor ? 3 : selected || crossesBoundary ? 2 : 1;
 
   // Handle endpoint drag start
   const handleEndpointDragStart = (endpoint: 'source' | 'target', pos: { x: number; y: number }) => {
@@ -240,6 +243,7 @@ export const DataFlowArrow: React.FC<DataFlowArrowProps> = ({ flow, elements, se
         strokeWidth={strokeWidth}
         pointerLength={10}
         pointerWidth={8}
+        dash={crossesBoundary && !selected ? [8, 4] : undefined}
         onClick={onClick}
         onDblClick={onDblClick}
       />
@@ -1,5 +1,6 @@
 // src/components/diagram/element-node/ElementNode.tsx
 import React from 'react';
+import Konva from 'konva';
 import { DiagramElement } from '../../../types/diagram';
 import { ProcessElement } from './ProcessElement';
 import { ExternalEntityElement } from './ExternalEntityElement';
@@ -9,9 +10,11 @@ import { TrustBoundaryElement } from './TrustBoundaryElement';
 interface ElementNodeProps {
   element: DiagramElement;
   selected: boolean;
-  onClick: () => void;
+  onClick: (e: Konva.KonvaEventObject<MouseEvent>) => void;
   onDragEnd: (pos: { x: number; y: number }) => void;
   onDragMove?: (pos: { x: number; y: number }) => void;
+  draggable?: boolean;
+  onDblClick?: () => void; // processes: open the sub-diagram
 }
 
 /**
@@ -23,13 +26,15 @@ export const ElementNode: React.FC<ElementNodeProps> = ({
   selected, 
   onClick, 
   onDragEnd,
-  onDragMove
+  onDragMove,
+  draggable = true,
+  onDblClick
 }) => {
-  const sharedProps = { element, selected, onClick, onDragEnd, onDragMove };
+  const sharedProps = { element, selected, onClick, onDragEnd, onDragMove, draggable };
 
   switch (element.type) {
     case 'process':
-      return <ProcessElement {...sharedProps} />;
+      return <ProcessElement {...sharedProps} onDblClick={onDblClick} />;
     
     case 'external-entity':
       return <ExternalEntityElement {...sharedProps} />;
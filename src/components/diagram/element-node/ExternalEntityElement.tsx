@@ -1,13 +1,15 @@
 import React from 'react';
+import Konva from 'konva';
 import { Rect, Text, Group } from 'react-konva';
 import { DiagramElement } from '../../../types/diagram';
 
 interface ExternalEntityElementProps {
   element: DiagramElement;
   selected: boolean;
-  onClick: () => void;
+  onClick: (e: Konva.KonvaEventObject<MouseEvent>) => void;
   onDragEnd: (pos: { x: number; y: number }) => void;
   onDragMove?: (pos: { x: number; y: number }) => void;
+  draggable?: boolean;
 }
 
 export const ExternalEntityElement: React.FC<ExternalEntityElementProps> = ({ 
@@ -15,10 +17,11 @@ export const ExternalEntityElement: React.FC<ExternalEntityElementProps> = ({
   selected, 
   onClick, 
   onDragEnd,
-  onDragMove
+  onDragMove,
+  draggable = true
 }) => {
   const fillColor = selected ? '#ffffffff' : '#ffffffff';
-  const strokeColor = selected ? '#7400c6ff' : '#000000ff';
+  const strokeColor = selected ? '#7400c6ff' : element.color || '#000000ff';
   const strokeWidth = selected ? 2 : 1;
   const textColor = '#000000ff';
 
@@ -26,7 +29,7 @@ export const ExternalEntityElement: React.FC<ExternalEntityElementProps> = ({
     <Group
       x={element.position.x}
       y={element.position.y}
-      draggable
+      draggable={draggable}
       onClick={onClick}
       onDragMove={onDragMove ? e => onDragMove({ x: e.target.x(), y: e.target.y() }) : undefined}
       onDragEnd={e => onDragEnd({ x: e.target.x(), y: e.target.y() })}
@@ -1,13 +1,16 @@
 import React from 'react';
+import Konva from 'konva';
 import { Ellipse, Text, Group } from 'react-konva';
 import { DiagramElement } from '../../../types/diagram';
 
 interface ProcessElementProps {
   element: DiagramElement;
   selected: boolean;
-  onClick: () => void;
+  onClick: (e: Konva.KonvaEventObject<MouseEvent>) => void;
   onDragEnd: (pos: { x: number; y: number }) => void;
   onDragMove?: (pos: { x: number; y: number }) => void;
+  draggable?: boolean;
+  onDblClick?: () => void;
 }
 
 export const ProcessElement: React.FC<ProcessElementProps> = ({ 
@@ -15,10 +18,12 @@ export const ProcessElement: React.FC<ProcessElementProps> = ({
   selected, 
   onClick, 
   onDragEnd,
-  onDragMove
+  onDragMove,
+  draggable = true,
+  onDblClick
 }) => {
   const fillColor = selected ? '#ffffffff' : '#ffffffff';
-  const strokeColor = selected ? '#7400c6ff' : '#000000ff';
+  const strokeColor = selected ? '#7400c6ff' : element.color || '#000000ff';
   const strokeWidth = selected ? 2 : 1;
   const textColor = '#000000ff';
 
@@ -26,8 +31,9 @@ export const ProcessElement: React.FC<ProcessElementProps> = ({
     <Group
       x={element.position.x}
       y={element.position.y}
-      draggable
+      draggable={draggable}
       onClick={onClick}
+      onDblClick={onDblClick}
       onDragMove={onDragMove ? e => onDragMove({ x: e.target.x(), y: e.target.y() }) : undefined}
       onDragEnd={e => onDragEnd({ x: e.target.x(), y: e.target.y() })}
       elementId={element.id}
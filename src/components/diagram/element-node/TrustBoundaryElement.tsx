@@ -1,13 +1,15 @@
 import React from 'react';
+import Konva from 'konva';
 import { Rect, Text, Group } from 'react-konva';
 import { DiagramElement } from '../../../types/diagram';
 
 interface TrustBoundaryElementProps {
   element: DiagramElement;
   selected: boolean;
-  onClick: () => void;
+  onClick: (e: Konva.KonvaEventObject<MouseEvent>) => void;
   onDragEnd: (pos: { x: number; y: number }) => void;
   onDragMove?: (pos: { x: number; y: number }) => void;
+  draggable?: boolean;
 }
 
 export const TrustBoundaryElement: React.FC<TrustBoundaryElementProps> = ({ 
@@ -15,9 +17,10 @@ export const TrustBoundaryElement: React.FC<TrustBoundaryElementProps> = ({
   selected, 
   onClick, 
   onDragEnd,
-  onDragMove
+  onDragMove,
+  draggable = true
 }) => {
-  const strokeColor = selected ? '#7400c6ff' : '#000000ff';
+  const strokeColor = selected ? '#7400c6ff' : element.color || '#000000ff';
   const strokeWidth = selected ? 3 : 2;
   const labelPadding = 4;
   const labelHeight = 20;
@@ -26,7 +29,7 @@ export const TrustBoundaryElement: React.FC<TrustBoundaryElementProps> = ({
     <Group
       x={element.position.x}
       y={element.position.y}
-      draggable
+      draggable={draggable}
       onClick={onClick}
       onDragMove={onDragMove ? e => onDragMove({ x: e.target.x(), y: e.target.y() }) : undefined}
       onDragEnd={e => onDragEnd({ x: e.target.x(), y: e.target.y() })}
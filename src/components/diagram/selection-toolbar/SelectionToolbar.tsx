@@ -0,0 +1,56 @@
+import React from 'react';
+import { AlignMode } from '../../../utils/selection';
+import './SelectionToolbar.css';
+
+interface SelectionToolbarProps {
+  count: number;
+  onAlign: (mode: AlignMode) => void;
+  onRecolor: (color: string | undefined) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+const ALIGN_OPTIONS: { mode: AlignMode; icon: string; title: string }[] = [
+  { mode: 'left', icon: '⇤', title: 'Align left' },
+  { mode: 'center', icon: '↔', title: 'Align centers horizontally' },
+  { mode: 'right', icon: '⇥', title: 'Align right' },
+  { mode: 'top', icon: '⤒', title: 'Align top' },
+  { mode: 'middle', icon: '↕', title: 'Align centers vertically' },
+  { mode: 'bottom', icon: '⤓', title: 'Align bottom' },
+];
+
+const COLORS = ['#ef4444', '#f59e0b', '#10b981', '#3b82f6', '#8b5cf6'];
+
+/**
+ * Floating toolbar for group operations on a multi-element selection.
+ */
+export const SelectionToolbar: React.FC<SelectionToolbarProps> = ({ count, onAlign, onRecolor, onDelete, onClear }) => {
+  return (
+    <div className="selection-toolbar">
+      <span className="selection-count">{count} selected</span>
+
+      <span className="selection-divider" />
+      {ALIGN_OPTIONS.map(({ mode, icon, title }) => (
+        <button key={mode} className="selection-btn" onClick={() => onAlign(mode)} title={title}>
+          {icon}
+        </button>
+      ))}
+
+      <span className="selection-divider" />
+      {COLORS.map(color => (
+        <button
+          key={color}
+          className="selection-swatch"
+          style={{ background: color }}
+          onClick={() => onRecolor(color)}
+          title={`Color ${color}`}
+        />
+      ))}
+      <button className="selection-btn" onClick={() => onRecolor(undefined)} title="Reset color">⊘</button>
+
+      <span className="selection-divider" />
+      <button className="selection-btn danger" onClick={onDelete} title="Delete selected (Del)">🗑️</button>
+      <button className="selection-btn" onClick={onClear} title="Clear selection (Esc)">✕</button>
+    </div>
+  );
+};
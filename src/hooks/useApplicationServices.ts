@@ -1,12 +1,19 @@
 // src/hooks/useApplicationServices.ts - React hook for StrictMode-compatible service lifecycle
 import { useEffect, useRef } from 'react';
-import { useApplicationStore, ApplicationConfig } from '../stores/useApplicationStore';
+import { useApplicationStore, ApplicationConfig, configKey as keyOf } from '../stores/useApplicationStore';
+import { TransportKind } from '../services/transport';
+import { RoomOwnerHint } from '../state/roomRoles';
 
 export interface UseApplicationServicesOptions {
   userId: string;
   roomId: string;
   passphrase?: string | null;
+  salt?: string | null;
   p2pEnabled?: boolean;
+  transport?: TransportKind;
+  relayUrl?: string;
+  owner?: RoomOwnerHint;
+  readOnlyLink?: ApplicationConfig['readOnlyLink'];
 }
 
 export function useApplicationServices(options: UseApplicationServicesOptions) {
@@ -20,12 +27,17 @@ export function useApplicationServices(options: UseApplicationServicesOptions) {
     userId: options.userId,
     roomId: options.roomId,
     passphrase: options.passphrase,
+    salt: options.salt,
     p2pEnabled: options.p2pEnabled ?? true,
+    transport: options.transport ?? 'webrtc',
+    relayUrl: options.relayUrl,
+    owner: options.owner,
+    readOnlyLink: options.readOnlyLink,
   };
 
   // Initialize services when config changes (room switching) - StrictMode safe
   useEffect(() => {
-    const configKey = `${config.userId}-${config.roomId}-${config.p2pEnabled}`;
+    const configKey = keyOf(config);
     
     // Skip if already initialized for this config or if unmounting
     if (initializationRef.current === configKey || isUnmountingRef.current) {
@@ -74,7 +86,7 @@ export function useApplicationServices(options: UseApplicationServicesOptions) {
 
     // Cleanup on unmount or config change
     return cleanupRef.current;
-  }, [config.userId, config.roomId]); // Re-initialize when room changes
+  }, [config.userId, config.roomId, config.transport, config.relayUrl, config.passphrase, config.salt, config.readOnlyLink?.transportSecret]); // Re-initialize when room, network or room key changes
 
   // Cleanup on unmount to prevent socket leaks
   useEffect(() => {
@@ -100,6 +112,7 @@ export function useApplicationServices(options: UseApplicationServicesOptions) {
     toggleP2P: store.toggleP2P,
     retry: store.retry,
     reset: store.reset,
+    dispose: store.dispose,
     
     // Computed properties
     isReady: store.isReady(),
@@ -1,7 +1,7 @@
 import { useState, useCallback } from 'react';
 import { StorageService } from '../services/storageService';
 import { DiagramElement, STRIDEElementType, ThreatActor } from '../types/diagram';
-import { ServerlessWebRTC } from '../services/serverlessWebRTC';
+import { Transport } from '../services/transport';
 
 export interface AppState {
   elements: DiagramElement[];
@@ -28,7 +28,7 @@ interface UseDiagramReturn {
   exportJSON: () => void;
 }
 
-export default function useDiagram(rtc?: ServerlessWebRTC): UseDiagramReturn {
+export default function useDiagram(rtc?: Transport): UseDiagramReturn {
   const [state, setState] = useState<AppState>({
     elements: [],
     selectedElement: null,
@@ -1,7 +1,10 @@
 // src/hooks/useDiagramFromServices.ts - Hook for accessing diagram operations from DI services
 import { useState, useEffect, useMemo } from 'react';
-import { DistributedStateManager, DistributedStateEvent } from '../state/distributedStateManager';
+import { DistributedStateManager, DistributedStateEvent, RoomParticipant } from '../state/distributedStateManager';
+import { RoomRole, AssignableRole } from '../state/roomRoles';
 import { DiagramElement, ThreatActor } from '../types/diagram';
+import { ModelState, TimelineEntry } from '../state/versionHistory';
+import { ModelBranch } from '../state/modelBranches';
 
 /**
  * Hook that provides diagram operations from the injected distributed state manager
@@ -9,8 +12,13 @@ import { DiagramElement, ThreatActor } from '../types/diagram';
 export function useDiagramFromServices(distributedState?: DistributedStateManager) {
   const [elements, setElements] = useState<DiagramElement[]>([]);
   const [threatActors, setThreatActors] = useState<ThreatActor[]>([]);
-  const [selectedElementId, setSelectedElementId] = useState<string | null>(null);
+  const [selectedElementIds, setSelectedElementIds] = useState<string[]>([]);
   const [stats, setStats] = useState<any>(null);
+  const [role, setRole] = useState<RoomRole | null>('editor');
+  const [isOwner, setIsOwner] = useState(false);
+  const [defaultRole, setDefaultRole] = useState<AssignableRole | null>(null);
+  const [participants, setParticipants] = useState<RoomParticipant[]>([]);
+  const [canRotateKey, setCanRotateKey] = useState(false);
 
   // Subscribe to state changes from the distributed state manager
   useEffect(() => {
@@ -18,8 +26,9 @@ export function useDiagramFromServices(distributedState?: DistributedStateManage
       // Clear state when distributedState becomes unavailable (room switching)
       setElements([]);
       setThreatActors([]);
-      setSelectedElementId(null);
+      setSelectedElementIds([]);
       setStats(null);
+      setParticipants([]);
       return;
     }
 
@@ -40,6 +49,19 @@ export function useDiagramFromServices(distributedState?: DistributedStateManage
             connectedPeers: event.peerCount,
           }));
           break;
+        case 'roles_changed':
+          setRole(event.ownRole);
+          setIsOwner(event.isOwner);
+          setDefaultRole(event.defaultRole);
+          setParticipants(event.participants);
+          setCanRotateKey(event.canRotateKey);
+          break;
+        case 'removed_from_room':
+          alert('🚪 The room owner removed you from this room. Peers ignore your changes from now on.');
+          break;
+        case 'peer_quarantined':
+          alert(`⚠️ Ignoring further changes from ${event.peerId}: ${event.reason}`);
+          break;
       }
     };
 
@@ -48,17 +70,25 @@ export function useDiagramFromServices(distributedState?: DistributedStateManage
     // Initialize with current state
     const currentStats = distributedState.getStats();
     setStats(currentStats);
+    setRole(distributedState.getOwnRole());
+    setIsOwner(distributedState.isRoomOwner());
+    setDefaultRole(distributedState.getDefaultRole());
+    setParticipants(distributedState.getParticipants());
+    setCanRotateKey(distributedState.canRotateKey());
 
     return () => {
       distributedState.removeEventListener(handleStateChange);
     };
   }, [distributedState]);
 
-  // Computed values
-  const selectedElement = useMemo(() => 
-    elements.find(el => el.id === selectedElementId) || null,
-    [elements, selectedElementId]
+  // Computed values - the properties panel edits a single element, so
+  // `selectedElement` is only set when exactly one element is selected
+  const selectedElements = useMemo(() =>
+    elements.filter(el => selectedElementIds.includes(el.id)),
+    [elements, selectedElementIds]
   );
+  const selectedElementId = selectedElements.length === 1 ? selectedElements[0].id : null;
+  const selectedElement = selectedElements.length === 1 ? selectedElements[0] : null;
 
   // Return null if distributed state is not available
   if (!distributedState) {
@@ -72,8 +102,36 @@ export function useDiagramFromServices(distributedState?: DistributedStateManage
     threatActors,
     selectedElement,
     selectedElementId,
+    selectedElements,
+    selectedElementIds,
     stats,
 
+    // Roles (enforced by every peer; the UI only hides what the role cannot do)
+    role,
+    isOwner,
+    defaultRole,
+    participants,
+    setParticipantRole: (signerKey: string, newRole: AssignableRole) => distributedState.setParticipantRole(signerKey, newRole),
+    kickParticipant: (signerKey: string) => distributedState.kickParticipant(signerKey),
+    setDefaultRole: (newRole: AssignableRole) => distributedState.setDefaultRole(newRole),
+    getOwnerFingerprint: () => distributedState.getOwnerFingerprint(),
+    getReadOnlyLinkParams: () => distributedState.getReadOnlyLinkParams(),
+    canRotateKey,
+    rotateRoomKey: () => distributedState.rotateRoomKey(),
+
+    // Version history
+    getVersionTimeline: () => distributedState.getVersionTimeline(),
+    getVersionAt: (entry: TimelineEntry) => distributedState.getVersionAt(entry),
+    restoreVersion: (version: ModelState) => distributedState.restoreVersion(version),
+    saveVersion: (name: string) => distributedState.createStateSnapshot(name),
+
+    // Branches
+    listBranches: () => distributedState.listBranches(),
+    createBranch: (name: string, shared: boolean) => distributedState.createBranch(name, shared),
+    readBranch: (branch: ModelBranch) => distributedState.readBranch(branch),
+    deleteBranch: (branchId: string) => distributedState.deleteBranch(branchId),
+    getOwnFingerprint: () => distributedState.getOwnFingerprint(),
+
     // Element operations
     createElement: async (element: DiagramElement) => {
       return distributedState.createElement(element);
@@ -91,28 +149,54 @@ export function useDiagramFromServices(distributedState?: DistributedStateManage
       return distributedState.moveElement(id, position);
     },
 
+    // Group operations (one atomic change for peers and undo)
+    updateElements: async (updates: Array<{ id: string; patch: Partial<DiagramElement> }>) => {
+      return distributedState.updateElements(updates);
+    },
+
+    deleteElements: async (ids: string[]) => {
+      setSelectedElementIds(prev => prev.filter(id => !ids.includes(id)));
+      return distributedState.deleteElements(ids);
+    },
+
     // Threat actor operations
     createThreatActor: async (threatActor: ThreatActor) => {
-      // For now, use local state - would be implemented in distributed manager
-      setThreatActors(prev => [...prev, threatActor]);
-      return true;
+      return distributedState.createThreatActor(threatActor);
     },
 
     updateThreatActor: async (id: string, patch: Partial<ThreatActor>) => {
-      setThreatActors(prev => prev.map(ta => 
-        ta.id === id ? { ...ta, ...patch } : ta
-      ));
-      return true;
+      return distributedState.updateThreatActor(id, patch);
     },
 
     deleteThreatActor: async (id: string) => {
-      setThreatActors(prev => prev.filter(ta => ta.id !== id));
-      return true;
+      return distributedState.deleteThreatActor(id);
     },
 
+    // History operations (local user's edits only)
+    undo: async () => {
+      return distributedState.undo();
+    },
+
+    redo: async () => {
+      return distributedState.redo();
+    },
+
+    canUndo: distributedState.canUndo(),
+    canRedo: distributedState.canRedo(),
+
     // UI operations
     selectElement: (elementId: string | null) => {
-      setSelectedElementId(elementId);
+      setSelectedElementIds(elementId ? [elementId] : []);
+    },
+
+    selectElements: (elementIds: string[]) => {
+      setSelectedElementIds(elementIds);
+    },
+
+    toggleElementSelection: (elementId: string) => {
+      setSelectedElementIds(prev => prev.includes(elementId)
+        ? prev.filter(id => id !== elementId)
+        : [...prev, elementId]);
     },
 
     // Export/Import
@@ -127,8 +211,10 @@ export function useDiagramFromServices(distributedState?: DistributedStateManage
         await distributedState.createElement(element);
       }
       
-      // Import threat actors (local for now)
-      setThreatActors(prev => [...prev, ...newThreatActors]);
+      // Import threat actors
+      for (const threatActor of newThreatActors) {
+        await distributedState.createThreatActor(threatActor);
+      }
       
       return true;
     },
@@ -3,7 +3,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { DiagramElement, ThreatActor } from '../types/diagram';
 import { ConsensusProtocol } from '../state/consensusProtocol';
 import { StorageService } from '../state/storage';
-import { ServerlessWebRTC } from '../services/serverlessWebRTC';
+import { Transport } from '../services/transport';
 
 export interface DiagramBusinessLogic {
   // State
@@ -34,7 +34,7 @@ export interface DiagramBusinessLogic {
   selectElement: (elementId: string | null) => void;
   
   // Connection management
-  connect: (rtc: ServerlessWebRTC, userId: string) => void;
+  connect: (rtc: Transport, userId: string) => void;
   disconnect: () => void;
   
   // Storage operations
@@ -62,7 +62,7 @@ export const useDistributedDiagram = (nodeId: string): DiagramBusinessLogic => {
   const [error, setError] = useState<string | null>(null);
   const [lastUpdate, setLastUpdate] = useState(0); // Force re-renders
   
-  const rtcRef = useRef<ServerlessWebRTC | null>(null);
+  const rtcRef = useRef<Transport | null>(null);
   const updateIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   // Get current state from consensus protocol
@@ -292,7 +292,7 @@ export const useDistributedDiagram = (nodeId: string): DiagramBusinessLogic => {
   }, [consensus]);
 
   // Connection management
-  const connect = useCallback((rtc: ServerlessWebRTC, _userId: string) => {
+  const connect = useCallback((rtc: Transport, _userId: string) => {
     rtcRef.current = rtc;
     consensus.initialize(rtc);
     setIsConnected(true);
@@ -1,6 +1,10 @@
 import { useCallback } from 'react';
 import { DiagramElement, ThreatActor } from '../types/diagram';
 import { HTMLReportGenerator } from '../services/htmlReportGenerator';
+import { PDFReportGenerator } from '../services/pdfReportGenerator';
+import { ThreatDragonConverter } from '../services/threatDragonConverter';
+import { TmtImporter } from '../services/tmtImporter';
+import { OtmConverter } from '../services/otmConverter';
 
 /** PNG / SVG export helpers rely on STRIDECanvas attaching `window.modelkaExport` */
 declare global {
@@ -21,7 +25,7 @@ export default function useExportImport(
 ) {
   /* ---------- export ---------- */
   const handleExport = useCallback(
-    (fmt: 'png' | 'json' | 'html') => {
+    (fmt: 'png' | 'json' | 'html' | 'pdf' | 'threat-dragon' | 'otm-json' | 'otm-yaml') => {
       if (fmt === 'json') {
         // Handle JSON export directly
         const state = getState();
@@ -45,6 +49,47 @@ export default function useExportImport(
         return;
       }
       
+      if (fmt === 'pdf') {
+        // Generate native PDF report with diagram screenshot
+        handlePDFExport();
+        return;
+      }
+      
+      if (fmt === 'threat-dragon') {
+        // OWASP Threat Dragon v2 model for teams still on that tool
+        const model = new ThreatDragonConverter().exportModel(getState().elements);
+        const blob = new Blob([JSON.stringify(model, null, 2)], { 
+          type: 'application/json' 
+        });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `threat-dragon-${new Date().toISOString().split('T')[0]}.json`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+        return;
+      }
+      
+      if (fmt === 'otm-json' || fmt === 'otm-yaml') {
+        const otmFormat = fmt === 'otm-yaml' ? 'yaml' : 'json';
+        const { elements, threatActors } = getState();
+        const model = new OtmConverter().exportModel(elements, { threatActors });
+        const blob = new Blob([OtmConverter.serialize(model, otmFormat)], { 
+          type: otmFormat === 'yaml' ? 'application/yaml' : 'application/json' 
+        });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `otm-${new Date().toISOString().split('T')[0]}.${otmFormat}`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+        return;
+      }
+      
       // For PNG, try to use the canvas export if available
       if (window.modelkaExport?.[fmt]) {
         window.modelkaExport[fmt]();
@@ -93,17 +138,79 @@ export default function useExportImport(
     }
   }, [getState, getCanvasDataURL]);
 
+  /* ---------- PDF export ---------- */
+  const handlePDFExport = useCallback(() => {
+    try {
+      const state = getState();
+      const canvasDataURL = getCanvasDataURL ? getCanvasDataURL() : null;
+      
+      const generator = new PDFReportGenerator();
+      const pdfBlob = generator.generateThreatReport(
+        state.elements,
+        state.threatActors,
+        canvasDataURL || undefined,
+        {
+          projectName: 'Security Architecture Model',
+          reportTitle: 'Threat Modeling Report',
+          includeScreenshot: !!canvasDataURL,
+          includeThreatAnalysis: true,
+          includeAssetInventory: true,
+          includeRecommendations: true
+        }
+      );
+      
+      // Download the PDF
+      const url = URL.createObjectURL(pdfBlob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `threat-model-report-${new Date().toISOString().split('T')[0]}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      
+    } catch (error) {
+      console.error('Failed to generate PDF report:', error);
+      alert('Failed to generate PDF report. Please try again.');
+    }
+  }, [getState, getCanvasDataURL]);
+
   /* ---------- import ---------- */
   const handleImport = useCallback(
     (file: File) => {
-      if (file.type !== 'application/json') return;
+      const isTmtFile = TmtImporter.isTmtModel(file.name);
+      const isYamlFile = /\.ya?ml$/i.test(file.name);
+      if (file.type !== 'application/json' && !isTmtFile && !isYamlFile) return;
       const reader = new FileReader();
       reader.onload = e => {
         try {
-          const data = JSON.parse(e.target?.result as string);
+          if (isTmtFile) {
+            const { elements, report } = new TmtImporter().importModel(e.target?.result as string);
+            console.log('📋 TMT import report:\n' + TmtImporter.describeReport(report).join('\n'));
+            onLoad(elements, []);
+            return;
+          }
+          const content = e.target?.result as string;
+          const data = isYamlFile ? OtmConverter.parse(content) : JSON.parse(content);
+          if (OtmConverter.isOtmModel(data)) {
+            const result = new OtmConverter().importModel(data);
+            if (result.warnings.length > 0) {
+              console.warn('⚠️ OTM import notes:', result.warnings);
+            }
+            onLoad(result.elements, result.threatActors);
+            return;
+          }
+          if (ThreatDragonConverter.isThreatDragonModel(data)) {
+            const result = new ThreatDragonConverter().importModel(data);
+            if (result.warnings.length > 0) {
+              console.warn('⚠️ Threat Dragon import notes:', result.warnings);
+            }
+            onLoad(result.elements, []);
+            return;
+          }
           onLoad(data.elements ?? [], data.threatActors ?? []);
         } catch {
-          alert('Invalid JSON – import aborted');
+          alert(isTmtFile ? 'Invalid .tm7 file – import aborted' : 'Invalid JSON – import aborted');
         }
       };
       reader.readAsText(file);
@@ -0,0 +1,35 @@
+import { useEffect } from 'react';
+
+/**
+ * Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes.
+ * Text fields keep their native undo behaviour.
+ */
+export default function useUndoRedo(
+  undo: (() => void) | undefined,
+  redo: (() => void) | undefined
+) {
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)
+      ) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey && undo) {
+        e.preventDefault();
+        undo();
+      } else if (((key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey)) && redo) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [undo, redo]);
+}
@@ -1,10 +1,26 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import AppBootstrap from './AppBootstrap.tsx'
+import { SnapshotViewer } from './components/SnapshotViewer'
+import { LockScreen } from './components/LockScreen'
+import { snapshotFromLocation } from './utils/snapshotLink'
+import { encryptedStorage } from './state/encryptedStorage'
 import './index.css'
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
+// Snapshot links (#s=...) open a frozen, offline view instead of a room
+const snapshot = snapshotFromLocation()
+
+const render = () => ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <AppBootstrap />
+    {snapshot ? <SnapshotViewer encoded={snapshot} /> : <LockScreen><AppBootstrap /></LockScreen>}
   </React.StrictMode>,
-)
\ No newline at end of file
+)
+
+// Saved models are loaded into memory before anything reads them
+if (snapshot) {
+  render()
+} else {
+  encryptedStorage.open()
+    .catch(error => console.error('❌ Failed to open storage - changes will not be saved:', error))
+    .then(render)
+}
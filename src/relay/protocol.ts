@@ -0,0 +1,24 @@
+// src/relay/protocol.ts - Messages between WebSocketRelayTransport and the reference relay server
+import type { WireEnvelope } from '../services/transport';
+
+/**
+ * The relay only routes opaque WireEnvelope frames between the sockets of a
+ * room. App payloads are AES-GCM encrypted by the clients before they reach
+ * the socket, so the relay never sees diagram content.
+ */
+export type RelayClientMessage =
+  | { type: 'join'; room: string }
+  | { type: 'frame'; to?: string; frame: WireEnvelope };
+
+export type RelayServerMessage =
+  /** The relay assigns each socket its peer id, so a client cannot claim another member's */
+  | { type: 'joined'; peerId: string; peers: string[] }
+  | { type: 'peer-join'; peerId: string }
+  | { type: 'peer-leave'; peerId: string }
+  | { type: 'frame'; from: string; frame: WireEnvelope }
+  | { type: 'error'; message: string };
+
+export const RELAY_DEFAULT_PORT = 8787;
+
+/** Frames above this size are dropped by the relay (matches the client send queue cap) */
+export const RELAY_MAX_FRAME_BYTES = 16 * 1024 * 1024;
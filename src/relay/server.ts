@@ -0,0 +1,216 @@
+// src/relay/server.ts - Reference WebSocket relay for networks that block trackers and STUN/TURN
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import type { WireEnvelope } from '../services/transport';
+import { RelayClientMessage, RelayServerMessage, RELAY_DEFAULT_PORT, RELAY_MAX_FRAME_BYTES } from './protocol';
+
+const USAGE = `Usage: modelka-relay [--port <port>] [--host <host>]
+
+Forwards encrypted Modelka frames between the members of a room.
+Rooms live in memory only; nothing is written to disk.
+
+Options:
+  --port <port>    Port to listen on (default: $PORT or ${RELAY_DEFAULT_PORT})
+  --host <host>    Interface to bind (default: 0.0.0.0)
+  --help           Show this help
+
+Health check: GET /health`;
+
+const HEARTBEAT_MS = 30_000;
+
+interface Member {
+  socket: WebSocket;
+  room: string;
+  peerId: string;
+  alive: boolean;
+}
+
+/**
+ * A client message, or null for anything else - clients are not authenticated,
+ * so the shape is checked before the message is routed
+ */
+function parseClientMessage(raw: RawData): RelayClientMessage | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw.toString());
+  } catch {
+    return null;
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return null;
+  const message = data as Record<string, unknown>;
+  if (message.type === 'join') {
+    return typeof message.room === 'string' && message.room ? { type: 'join', room: message.room } : null;
+  }
+  if (message.type === 'frame') {
+    if (message.frame === undefined || message.frame === null) return null;
+    if (message.to !== undefined && typeof message.to !== 'string') return null;
+    return { type: 'frame', to: message.to, frame: message.frame as WireEnvelope };
+  }
+  return null;
+}
+
+export interface RelayServerOptions {
+  port: number;
+  host: string;
+}
+
+/**
+ * Start the relay. Resolves once it is listening; call close() to stop.
+ */
+export function startRelayServer({ port, host }: RelayServerOptions): Promise<{ close: () => void }> {
+  const rooms = new Map<string, Map<string, Member>>();
+
+  const http = createServer((req: IncomingMessage, res: ServerResponse) => {
+    if (req.url === '/health') {
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', rooms: rooms.size }));
+      return;
+    }
+    res.writeHead(426, { 'content-type': 'text/plain' });
+    res.end('Modelka relay - connect with a WebSocket client\n');
+  });
+
+  const wss = new WebSocketServer({ server: http, maxPayload: RELAY_MAX_FRAME_BYTES });
+
+  const send = (socket: WebSocket, message: RelayServerMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const leave = (member: Member) => {
+    const peers = rooms.get(member.room);
+    if (!peers || peers.get(member.peerId) !== member) return;
+    peers.delete(member.peerId);
+    if (peers.size === 0) rooms.delete(member.room);
+    for (const other of peers.values()) send(other.socket, { type: 'peer-leave', peerId: member.peerId });
+    console.log(`👋 ${member.peerId} left room ${member.room} (${peers.size} remaining)`);
+  };
+
+  wss.on('connection', (socket: WebSocket) => {
+    let member: Member | null = null;
+
+    socket.on('pong', () => {
+      if (member) member.alive = true;
+    });
+
+    const handleMessage = (raw: RawData) => {
+      const message = parseClientMessage(raw);
+      if (!message) {
+        send(socket, { type: 'error', message: 'Malformed message' });
+        return;
+      }
+
+      if (message.type === 'join') {
+        if (member) {
+          send(socket, { type: 'error', message: 'Invalid join' });
+          return;
+        }
+        const peers = rooms.get(message.room) ?? new Map<string, Member>();
+        rooms.set(message.room, peers);
+        // Ids are never taken from the client: a join must not be able to replace a live member.
+        // A reconnecting client gets a fresh id; its old one leaves when the old socket closes.
+        const peerId = randomUUID();
+        send(socket, { type: 'joined', peerId, peers: Array.from(peers.keys()) });
+        for (const other of peers.values()) send(other.socket, { type: 'peer-join', peerId });
+        member = { socket, room: message.room, peerId, alive: true };
+        peers.set(peerId, member);
+        console.log(`🔗 ${peerId} joined room ${message.room} (${peers.size} members)`);
+        return;
+      }
+
+      if (message.type === 'frame') {
+        if (!member) {
+          send(socket, { type: 'error', message: 'Join a room first' });
+          return;
+        }
+        const peers = rooms.get(member.room);
+        if (!peers) return;
+        const forward: RelayServerMessage = { type: 'frame', from: member.peerId, frame: message.frame };
+        if (message.to) {
+          const target = peers.get(message.to);
+          if (target) send(target.socket, forward);
+          return;
+        }
+        for (const other of peers.values()) {
+          if (other !== member) send(other.socket, forward);
+        }
+      }
+    };
+
+    // One bad message must never take the relay, and every room on it, down
+    socket.on('message', (raw: RawData) => {
+      try {
+        handleMessage(raw);
+      } catch (error) {
+        console.error('❌ Dropped message:', error);
+        send(socket, { type: 'error', message: 'Malformed message' });
+      }
+    });
+
+    socket.on('close', () => {
+      if (member) leave(member);
+    });
+  });
+
+  // Drop sockets that stopped answering pings (laptop lid closed, network gone)
+  const heartbeat = setInterval(() => {
+    for (const peers of rooms.values()) {
+      for (const member of peers.values()) {
+        if (!member.alive) {
+          member.socket.terminate();
+          leave(member);
+          continue;
+        }
+        member.alive = false;
+        member.socket.ping();
+      }
+    }
+  }, HEARTBEAT_MS);
+
+  return new Promise((resolve, reject) => {
+    http.once('error', reject);
+    http.listen(port, host, () => {
+      console.log(`🛰️  Modelka relay listening on ws://${host}:${port}`);
+      resolve({
+        close: () => {
+          clearInterval(heartbeat);
+          wss.close();
+          http.close();
+        },
+      });
+    });
+  });
+}
+
+function parseOptions(argv: string[]): RelayServerOptions | null {
+  const options: RelayServerOptions = {
+    port: Number(process.env.PORT) || RELAY_DEFAULT_PORT,
+    host: '0.0.0.0',
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--help') return null;
+    if (arg === '--port' && argv[i + 1]) options.port = Number(argv[++i]);
+    else if (arg === '--host' && argv[i + 1]) options.host = argv[++i];
+    else throw new Error(`Unknown option "${arg}"`);
+  }
+  if (!Number.isInteger(options.port) || options.port <= 0 || options.port > 65535) {
+    throw new Error('--port must be a number between 1 and 65535');
+  }
+  return options;
+}
+
+try {
+  const options = parseOptions(process.argv.slice(2));
+  if (!options) {
+    console.log(USAGE);
+  } else {
+    startRelayServer(options).catch((error: Error) => {
+      console.error(`❌ Cannot start relay: ${error.message}`);
+      process.exitCode = 1;
+    });
+  }
+} catch (error) {
+  console.error(`❌ ${(error as Error).message}\n\n${USAGE}`);
+  process.exitCode = 2;
+}
@@ -1,5 +1,8 @@
 // src/services/htmlReportGenerator.ts - HTML threat report generation
 import { DiagramElement, ThreatActor, Threat, ThreatSeverity, Asset } from '../types/diagram';
+import { computeTrustBoundaryModel } from '../utils/trustBoundaries';
+import { compareByRisk, getRiskScore, summarizeRisk } from '../utils/riskScoring';
+import { descendantsOf, expandedProcesses, levelLabel, levelPath } from '../utils/dfdLevels';
 
 export interface ReportOptions {
   includeScreenshot?: boolean;
@@ -391,8 +394,12 @@ export class HTMLReportGenerator {
     const allThreats = this.getAllThreats(elements);
     const criticalThreats = allThreats.filter(t => t.severity === 'critical');
     const highThreats = allThreats.filter(t => t.severity === 'high');
-    const totalElements = elements.filter(e => e.type !== 'data-flow').length;
+    const totalElements = elements.filter(e => e.type !== 'data-flow' && !e.refId).length; // each element once, however many diagrams it is in
     const dataFlows = elements.filter(e => e.type === 'data-flow').length;
+    const topRisks = [...allThreats].sort(compareByRisk).slice(0, 5);
+    const averageRisk = allThreats.length > 0
+      ? allThreats.reduce((sum, t) => sum + getRiskScore(t), 0) / allThreats.length
+      : 0;
 
     return `
       <h1>Executive Summary</h1>
@@ -407,10 +414,20 @@ export class HTMLReportGenerator {
           <li><strong>${criticalThreats.length}</strong> Critical threats identified</li>
           <li><strong>${highThreats.length}</strong> High-severity threats identified</li>
           <li><strong>${allThreats.length}</strong> Total threats across all components</li>
+          <li><strong>${averageRisk.toFixed(1)}</strong> Average risk score (0-10)</li>
           <li><strong>${threatActors.length}</strong> Threat actors profiled</li>
         </ul>
       </div>
 
+      ${topRisks.length > 0 ? `
+      <h3>Highest Risks</h3>
+      <ol>
+        ${topRisks.map(threat => `
+          <li><strong>${threat.title}</strong> - risk ${getRiskScore(threat).toFixed(1)} (${threat.severity}${threat.severityOverride ? ', set manually' : ''})</li>
+        `).join('')}
+      </ol>
+      ` : ''}
+
       ${criticalThreats.length > 0 ? `
       <div class="critical-alert">
         <h3>⚠️ IMMEDIATE ATTENTION REQUIRED</h3>
@@ -421,11 +438,13 @@ export class HTMLReportGenerator {
   }
 
   private generateSystemComponents(elements: DiagramElement[]): string {
-    const processes = elements.filter(e => e.type === 'process');
-    const externalEntities = elements.filter(e => e.type === 'external-entity');
-    const dataStores = elements.filter(e => e.type === 'data-store');
+    const processes = elements.filter(e => e.type === 'process' && !e.refId);
+    const externalEntities = elements.filter(e => e.type === 'external-entity' && !e.refId);
+    const dataStores = elements.filter(e => e.type === 'data-store' && !e.refId);
     const trustBoundaries = elements.filter(e => e.type === 'trust-boundary');
     const dataFlows = elements.filter(e => e.type === 'data-flow');
+    const boundaryModel = computeTrustBoundaryModel(elements);
+    const nameOf = (id: string) => elements.find(e => e.id === id)?.name || 'Unknown';
 
     let html = '<h1>System Components</h1>';
 
@@ -519,19 +538,27 @@ export class HTMLReportGenerator {
             <tr>
               <th>Name</th>
               <th>Description</th>
+              <th>Contains</th>
               <th>Threats</th>
               <th>Assets</th>
             </tr>
           </thead>
           <tbody>
-            ${trustBoundaries.map(tb => `
+            ${trustBoundaries.map(tb => {
+              const parentId = boundaryModel.parentBoundary[tb.id];
+              const contained = Object.keys(boundaryModel.containment)
+                .filter(id => boundaryModel.containment[id].includes(tb.id))
+                .map(nameOf);
+              return `
               <tr>
-                <td><span class="component-type type-trust-boundary">TRUST BOUNDARY</span><br/><strong>${tb.name}</strong></td>
+                <td><span class="component-type type-trust-boundary">TRUST BOUNDARY</span><br/><strong>${tb.name}</strong>${parentId ? `<br/><em>inside ${nameOf(parentId)}</em>` : ''}</td>
                 <td>${tb.description || 'No description provided'}</td>
+                <td>${contained.length > 0 ? contained.join(', ') : 'No elements'}</td>
                 <td>${(tb.threats || []).length} threats</td>
                 <td>${(tb.assets || []).length} assets</td>
               </tr>
-            `).join('')}
+            `;
+            }).join('')}
           </tbody>
         </table>
       `;
@@ -546,18 +573,50 @@ export class HTMLReportGenerator {
             <tr>
               <th>Name</th>
               <th>Description</th>
+              <th>Crosses</th>
               <th>Threats</th>
               <th>Assets</th>
             </tr>
           </thead>
           <tbody>
-            ${dataFlows.map(df => `
+            ${dataFlows.map(df => {
+              const crossing = boundaryModel.crossings.find(c => c.flowId === df.id);
+              return `
               <tr>
                 <td><span class="component-type type-data-flow">DATA FLOW</span><br/><strong>${df.name}</strong></td>
                 <td>${df.description || 'No description provided'}</td>
+                <td>${crossing ? crossing.boundaryIds.map(nameOf).join(', ') : '—'}</td>
                 <td>${(df.threats || []).length} threats</td>
                 <td>${(df.assets || []).length} assets</td>
               </tr>
+            `;
+            }).join('')}
+          </tbody>
+        </table>
+      `;
+    }
+
+    // Trust Boundary Crossings
+    if (boundaryModel.crossings.length > 0) {
+      html += `
+        <h2>Trust Boundary Crossings (${boundaryModel.crossings.length})</h2>
+        <table class="component-table">
+          <thead>
+            <tr>
+              <th>Data Flow</th>
+              <th>From</th>
+              <th>To</th>
+              <th>Boundaries Crossed</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${boundaryModel.crossings.map(crossing => `
+              <tr>
+                <td><strong>${nameOf(crossing.flowId)}</strong></td>
+                <td>${nameOf(crossing.sourceId)}</td>
+                <td>${nameOf(crossing.targetId)}</td>
+                <td>${crossing.boundaryIds.map(nameOf).join(', ')}</td>
+              </tr>
             `).join('')}
           </tbody>
         </table>
@@ -586,19 +645,21 @@ export class HTMLReportGenerator {
               <th>Threat</th>
               <th>Component</th>
               <th>Severity</th>
+              <th>Risk</th>
               <th>STRIDE</th>
               <th>Description</th>
               <th>Controls</th>
             </tr>
           </thead>
           <tbody>
-            ${threats.map(threat => {
+            ${[...threats].sort(compareByRisk).map(threat => {
               const component = elements.find(e => (e.threats || []).includes(threat));
               return `
                 <tr>
                   <td><strong>${threat.title}</strong></td>
-                  <td>${component ? component.name : 'Unknown'}</td>
+                  <td>${component ? this.componentName(elements, component) : 'Unknown'}</td>
                   <td><span class="severity-${threat.severity}">${threat.severity.toUpperCase()}</span></td>
+                  <td>${getRiskScore(threat).toFixed(1)}${threat.severityOverride ? ' ⚑' : ''}</td>
                   <td>${threat.strideCategory}</td>
                   <td>${threat.description}</td>
                   <td>
@@ -617,6 +678,8 @@ export class HTMLReportGenerator {
       `;
     }
 
+    html += this.generateLevelRollUp(elements);
+
     // Threat actors
     if (threatActors.length > 0) {
       html += `
@@ -700,7 +763,8 @@ export class HTMLReportGenerator {
   }
 
   private generateRecommendations(elements: DiagramElement[]): string {
-    const allThreats = this.getAllThreats(elements);
+    // Highest risk first, so the most urgent work leads each list
+    const allThreats = this.getAllThreats(elements).sort(compareByRisk);
     const criticalThreats = allThreats.filter(t => t.severity === 'critical');
     const unmitigatedThreats = allThreats.filter(t => 
       t.controls.length === 0 || t.controls.every(c => !c.implemented)
@@ -729,7 +793,7 @@ export class HTMLReportGenerator {
           <p><strong>${unmitigatedThreats.length}</strong> threats lack adequate security controls:</p>
           <ul>
             ${unmitigatedThreats.slice(0, 15).map(threat => `
-              <li><strong>${threat.title}</strong> (${threat.severity})</li>
+              <li><strong>${threat.title}</strong> (${threat.severity}, risk ${getRiskScore(threat).toFixed(1)})</li>
             `).join('')}
             ${unmitigatedThreats.length > 15 ? `<li><em>... and ${unmitigatedThreats.length - 15} more</em></li>` : ''}
           </ul>
@@ -755,6 +819,52 @@ export class HTMLReportGenerator {
   }
 
   // Utility methods
+  /**
+   * Threats of each process with a sub-diagram, rolled up from every level below it
+   */
+  private generateLevelRollUp(elements: DiagramElement[]): string {
+    const processes = expandedProcesses(elements);
+    if (processes.length === 0) return '';
+
+    return `
+      <h2>Threats by Diagram Level</h2>
+      <table class="threat-table">
+        <thead>
+          <tr>
+            <th>Process</th>
+            <th>Level</th>
+            <th>Threats</th>
+            <th>Critical / High</th>
+            <th>Unmitigated</th>
+            <th>Residual Risk</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${processes.map(process => {
+            const risk = summarizeRisk([process, ...descendantsOf(elements, process.id)]);
+            return `
+              <tr>
+                <td><strong>${this.componentName(elements, process)}</strong></td>
+                <td>${levelPath(elements, process.id).length}</td>
+                <td>${risk.threats}</td>
+                <td>${risk.bySeverity.critical} / ${risk.bySeverity.high}</td>
+                <td>${risk.unmitigated}</td>
+                <td>${risk.residualRisk.toFixed(1)}</td>
+              </tr>
+            `;
+          }).join('')}
+        </tbody>
+      </table>
+      <p>Each row counts the process's own threats and those of everything in its sub-diagrams.</p>
+    `;
+  }
+
+  /** Element name, prefixed with the sub-diagrams it sits in */
+  private componentName(elements: DiagramElement[], element: DiagramElement): string {
+    const level = levelLabel(elements, element);
+    return level ? `${level} › ${element.name}` : element.name;
+  }
+
   private getAllThreats(elements: DiagramElement[]): Threat[] {
     return elements.flatMap(el => el.threats || []);
   }
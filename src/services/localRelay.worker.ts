@@ -0,0 +1,40 @@
+// src/services/localRelay.worker.ts — SharedWorker fallback for LocalTransport where BroadcastChannel is missing
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+type RelayCommand =
+  | { op: 'join'; room: string }
+  | { op: 'leave'; room: string }
+  | { op: 'post'; room: string; data: unknown };
+
+const rooms = new Map<string, Set<MessagePort>>();
+
+// Typed loosely: the app tsconfig has the DOM lib, not the worker lib
+const scope = self as any;
+
+scope.onconnect = (event: MessageEvent) => {
+  const port = event.ports[0];
+
+  port.onmessage = (message: MessageEvent<RelayCommand>) => {
+    const command = message.data;
+    const members = rooms.get(command.room) ?? new Set<MessagePort>();
+
+    switch (command.op) {
+      case 'join':
+        members.add(port);
+        rooms.set(command.room, members);
+        break;
+      case 'leave':
+        members.delete(port);
+        if (members.size === 0) rooms.delete(command.room);
+        break;
+      case 'post':
+        // Same semantics as BroadcastChannel: everyone but the sender
+        for (const member of members) {
+          if (member !== port) member.postMessage(command.data);
+        }
+        break;
+    }
+  };
+
+  port.start();
+};
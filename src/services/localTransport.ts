@@ -0,0 +1,288 @@
+// src/services/localTransport.ts — Same-device transport: tabs of one browser collaborate with no network at all
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { deriveRoomKey, encryptPayload, decryptPayload } from '../utils/roomCrypto';
+import type { Transport, TransportOptions, TransportStats, DiagramMessage, PeerInfo } from './transport';
+
+/* -------------------------------------------------------------------------- */
+/* Options                                                                    */
+/* -------------------------------------------------------------------------- */
+export interface LocalTransportOptions extends TransportOptions {
+  // Background tabs get their timers throttled to once a minute, so a peer is
+  // only dropped after a long silence. Closed tabs say 'bye' on pagehide.
+  peerTimeoutMs?: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Wire format                                                                */
+/* -------------------------------------------------------------------------- */
+interface LocalEnvelope {
+  kind: 'hello' | 'ping' | 'bye' | 'app';
+  from: string; // sender nodeId
+  to?: string;  // recipient nodeId (broadcast if absent)
+  ts: number;
+  // For kind === 'hello'/'ping'
+  meta?: { userId: string; capabilities: string[]; joinedAt: number };
+  // For kind === 'hello': ask the recipients to introduce themselves
+  reply?: boolean;
+  // For kind === 'app'
+  payload?: string; // base64 AES-GCM ciphertext or JSON string (if no key)
+}
+
+type Handler = (payload: any, fromUserId: string) => void;
+
+/* -------------------------------------------------------------------------- */
+/* Channels                                                                   */
+/* -------------------------------------------------------------------------- */
+interface LocalChannel {
+  post(env: LocalEnvelope): void;
+  close(): void;
+}
+
+/**
+ * BroadcastChannel where available; otherwise a SharedWorker that relays
+ * between every port that joined the same room (older Safari).
+ */
+function openChannel(name: string, onMessage: (env: LocalEnvelope) => void): LocalChannel {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (event: MessageEvent) => onMessage(event.data);
+    return {
+      post: (env) => channel.postMessage(env),
+      close: () => channel.close(),
+    };
+  }
+
+  if (typeof SharedWorker !== 'undefined') {
+    const worker = new SharedWorker(new URL('./localRelay.worker.ts', import.meta.url), {
+      type: 'module',
+      name: 'modelka-local-relay',
+    });
+    const port = worker.port;
+    port.onmessage = (event: MessageEvent) => onMessage(event.data);
+    port.start();
+    port.postMessage({ op: 'join', room: name });
+    return {
+      post: (env) => port.postMessage({ op: 'post', room: name, data: env }),
+      close: () => {
+        port.postMessage({ op: 'leave', room: name });
+        port.close();
+      },
+    };
+  }
+
+  throw new Error('This browser supports neither BroadcastChannel nor SharedWorker');
+}
+
+function now() { return Date.now(); }
+
+/* -------------------------------------------------------------------------- */
+/* Transport                                                                  */
+/* -------------------------------------------------------------------------- */
+export class LocalTransport implements Transport {
+  readonly kind = 'local' as const;
+
+  private channel!: LocalChannel;
+  private key: CryptoKey | null = null;
+
+  private handlers = new Map<DiagramMessage['type'], Handler>();
+  private peers = new Map<string, PeerInfo>(); // by nodeId
+
+  private myUserId!: string;
+  private myNodeId!: string;
+  private connectedAt = now();
+
+  private heartbeatInterval?: number;
+
+  private messageSent = 0;
+  private messageRecv = 0;
+  private networkErrors = 0;
+
+  private readonly options: Required<LocalTransportOptions>;
+
+  private constructor(opts?: LocalTransportOptions) {
+    const defaults: Required<LocalTransportOptions> = {
+      autoRequestHistory: true,
+      heartbeatMs: 1_500,
+      peerTimeoutMs: 75_000,
+    };
+    this.options = { ...defaults, ...(opts || {}) };
+  }
+
+  /* --------------------------- bootstrap --------------------------------- */
+  static async connect(
+    roomId: string,
+    userId: string,
+    pass?: string,
+    opts?: LocalTransportOptions,
+  ): Promise<LocalTransport> {
+    const self = new LocalTransport(opts);
+    self.myUserId = userId;
+    self.myNodeId = crypto.randomUUID();
+
+    if (pass) self.key = await deriveRoomKey(pass);
+
+    console.log('🖥️ Joining local room:', `modelka-${roomId}`);
+    self.channel = openChannel(`modelka-${roomId}`, (env) => self.receive(env));
+
+    self.startHeartbeats();
+    self.post({ kind: 'hello', reply: true });
+
+    window.addEventListener('pagehide', self.leave);
+
+    return self;
+  }
+
+  /* --------------------------- receiving --------------------------------- */
+  private async receive(env: LocalEnvelope) {
+    try {
+      if (!env || env.from === this.myNodeId) return;
+      if (env.to && env.to !== this.myNodeId) return;
+
+      switch (env.kind) {
+        case 'hello':
+        case 'ping':
+          this.touchPeer(env);
+          if (env.reply) this.post({ kind: 'hello' }, env.from);
+          return;
+
+        case 'bye':
+          this.dropPeer(env.from);
+          return;
+
+        case 'app': {
+          let msg: DiagramMessage;
+          if (this.key) {
+            try {
+              msg = await decryptPayload<DiagramMessage>(env.payload!, this.key);
+            } catch {
+              this.networkErrors++; // mismatched passphrase
+              return;
+            }
+          } else {
+            msg = JSON.parse(env.payload as string);
+          }
+
+          this.messageRecv++;
+          const fromUserId = this.peers.get(env.from)?.userId ?? msg.userId;
+          this.emit(msg.type, msg.data, fromUserId);
+          return;
+        }
+      }
+    } catch {
+      this.networkErrors++;
+    }
+  }
+
+  /* --------------------------- awareness & lifecycle --------------------- */
+  private touchPeer(env: LocalEnvelope) {
+    if (!env.meta) return;
+    const known = this.peers.get(env.from);
+    this.peers.set(env.from, {
+      nodeId: env.from,
+      userId: env.meta.userId,
+      connectionQuality: { latency: 0, packetLoss: 0, bandwidth: 0, reliability: 'excellent', lastUpdate: now() },
+      capabilities: env.meta.capabilities,
+      joinedAt: env.meta.joinedAt,
+      lastSeen: now(),
+    });
+    if (known) return;
+
+    console.log('👋 Local peer joined:', env.meta.userId);
+    this.emit('user_presence', { id: env.meta.userId, ts: env.ts }, env.meta.userId);
+    if (this.options.autoRequestHistory && this.peers.size === 1) {
+      this.send('request_history', { since: 0 });
+    }
+  }
+
+  private dropPeer(nodeId: string) {
+    const info = this.peers.get(nodeId);
+    if (!info) return;
+    this.peers.delete(nodeId);
+    console.log('👋 Local peer left:', info.userId);
+    this.emit('user_disconnect', { userId: info.userId }, info.userId);
+  }
+
+  private startHeartbeats() {
+    const run = () => {
+      this.post({ kind: 'ping' });
+      const cutoff = now() - this.options.peerTimeoutMs;
+      for (const [nodeId, info] of this.peers) {
+        if (info.lastSeen < cutoff) this.dropPeer(nodeId);
+      }
+      this.heartbeatInterval = window.setTimeout(run, this.options.heartbeatMs);
+    };
+    run();
+  }
+
+  private post(env: Pick<LocalEnvelope, 'kind' | 'payload' | 'reply'>, to?: string) {
+    try {
+      this.channel.post({
+        ...env,
+        from: this.myNodeId,
+        to,
+        ts: now(),
+        meta: env.kind === 'hello' || env.kind === 'ping'
+          ? { userId: this.myUserId, capabilities: ['events', 'history', 'presence'], joinedAt: this.connectedAt }
+          : undefined,
+      });
+    } catch {
+      this.networkErrors++;
+    }
+  }
+
+  private leave = () => {
+    this.post({ kind: 'bye' });
+  };
+
+  /* --------------------------- public API -------------------------------- */
+  on<T = unknown>(type: DiagramMessage['type'], handler: (payload: T, from: string) => void) {
+    this.handlers.set(type, handler as Handler);
+  }
+
+  async send(type: DiagramMessage['type'], data: unknown, peerId?: string) {
+    const msg: DiagramMessage = {
+      type,
+      data,
+      timestamp: now(),
+      userId: this.myUserId,
+    };
+    const payload = this.key ? await encryptPayload(msg, this.key) : JSON.stringify(msg);
+    this.messageSent++;
+    this.post({ kind: 'app', payload }, peerId);
+  }
+
+  /**
+   * Read-only snapshot of current peers.
+   */
+  getPeers(): PeerInfo[] {
+    return Array.from(this.peers.values());
+  }
+
+  getStats(): TransportStats {
+    return {
+      connectedPeers: this.peers.size,
+      messagesSent: this.messageSent,
+      messagesReceived: this.messageRecv,
+      networkErrors: this.networkErrors,
+    };
+  }
+
+  /**
+   * Say goodbye, close the channel and clean up timers/listeners.
+   */
+  disconnect() {
+    console.log('🔌 Disconnecting local transport...');
+    this.leave();
+    if (this.heartbeatInterval) clearTimeout(this.heartbeatInterval);
+    window.removeEventListener('pagehide', this.leave);
+    try { this.channel.close(); } catch {}
+    this.handlers.clear();
+    this.peers.clear();
+  }
+
+  /* --------------------------- helpers ----------------------------------- */
+  private emit(type: DiagramMessage['type'], data: any, from = '') {
+    this.handlers.get(type)?.(data, from);
+  }
+}
@@ -0,0 +1,816 @@
+// src/services/otmConverter.ts - Open Threat Model (OTM) JSON/YAML import/export
+import yaml from 'js-yaml';
+import { Asset, DiagramElement, SecurityControl, STRIDEElementType, Threat, ThreatActor, ThreatSeverity, Technology } from '../types/diagram';
+import { computeTrustBoundaryModel } from '../utils/trustBoundaries';
+
+/**
+ * Key under which OTM fields without a Modelka equivalent are kept
+ * in `DiagramElement.extensions` / `Threat.extensions`
+ */
+export const OTM_EXTENSION = 'otm';
+
+export const OTM_VERSION = '0.2.0';
+
+/**
+ * Attribute key for Modelka data OTM has no place for: provenance on the project,
+ * technology categories on components and dataflows, and triage fields on threats
+ */
+const MODELKA_ATTRIBUTE = 'modelka';
+
+/** Project attribute holding the model's threat actors */
+const THREAT_ACTORS_ATTRIBUTE = 'modelkaThreatActors';
+
+/** Threat fields kept under the threat definition's `modelka` attribute */
+const MODELKA_THREAT_FIELDS = ['technology', 'isActionItem', 'generatedBy', 'risk', 'severityOverride'] as const;
+
+/** Provenance format version, same convention as RoomExport */
+const PROVENANCE_VERSION = '1.0.0';
+
+export type OtmFormat = 'json' | 'yaml';
+
+/**
+ * Where an exported model came from. Stored under the project's `modelka` attribute
+ * and checked on import the same way RoomExport checksums are.
+ */
+export interface OtmProvenance {
+  roomId: string;
+  exportedAt: number;
+  exportedBy: string;
+  version: string;
+  checksum: string;
+}
+
+export interface OtmImportResult {
+  elements: DiagramElement[];
+  threatActors: ThreatActor[];
+  warnings: string[];
+  provenance?: OtmProvenance;
+  /** `modified` when the file carries Modelka provenance but its content no longer matches the checksum */
+  integrity: 'verified' | 'modified' | 'unknown';
+}
+
+export interface OtmExportOptions {
+  projectName?: string;
+  projectId?: string;
+  description?: string;
+  owner?: string;
+  roomId?: string;
+  exportedBy?: string;
+  threatActors?: ThreatActor[];
+}
+
+type ComponentType = Exclude<STRIDEElementType, 'data-flow' | 'trust-boundary'>;
+type Rect = { x: number; y: number; width: number; height: number };
+
+const COMPONENT_TYPES: Record<ComponentType, string> = {
+  'external-entity': 'external-entity',
+  'process': 'process',
+  'data-store': 'data-store',
+};
+
+const STRIDE_NAMES: Record<Threat['strideCategory'], string> = {
+  'spoofing': 'Spoofing',
+  'tampering': 'Tampering',
+  'repudiation': 'Repudiation',
+  'information-disclosure': 'Information Disclosure',
+  'denial-of-service': 'Denial of Service',
+  'elevation-of-privilege': 'Elevation of Privilege',
+};
+
+/** Severity <-> OTM impact (0-100) */
+const SEVERITY_IMPACT: Record<ThreatSeverity, number> = {
+  low: 20,
+  medium: 45,
+  high: 70,
+  critical: 90,
+};
+
+const ASSET_RISK: Record<Asset['value'], number> = {
+  low: 25,
+  medium: 50,
+  high: 75,
+  critical: 100,
+};
+
+/** Id of the zone holding components that sit outside every trust boundary (OTM requires a parent) */
+const DEFAULT_ZONE_ID = 'modelka-default-zone';
+
+const REPRESENTATION_ID = 'modelka-diagram';
+
+/* Auto layout for OTM files without diagram geometry */
+const CELL = { width: 120, height: 80 };
+const GAP = 40;
+const PADDING = 40;
+const PER_ROW = 3;
+
+const generateId = (prefix: string) =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+
+function omit(source: Record<string, any>, keys: string[]): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(source || {})) {
+    if (!keys.includes(key)) result[key] = value;
+  }
+  return result;
+}
+
+function pick<T extends object>(source: T, keys: readonly (keyof T)[]): Partial<T> {
+  const result: Partial<T> = {};
+  for (const key of keys) {
+    if (source[key] !== undefined) result[key] = source[key];
+  }
+  return result;
+}
+
+const normalize = (value: string) => String(value || '').toLowerCase().replace(/[^a-z]/g, '');
+
+/**
+ * Converts between Open Threat Model documents and Modelka elements.
+ * Trust zones map to trust boundaries, components to processes/stores/entities,
+ * dataflows to data flows, and threats/mitigations to threats/security controls.
+ */
+export class OtmConverter {
+  /**
+   * Check whether parsed data looks like an OTM document
+   */
+  static isOtmModel(data: any): boolean {
+    return !!data && typeof data === 'object' && typeof data.otmVersion === 'string';
+  }
+
+  /**
+   * Parse OTM text - JSON first, YAML otherwise (JSON is valid YAML, but the JSON parser is stricter and faster)
+   */
+  static parse(content: string): any {
+    try {
+      return JSON.parse(content);
+    } catch {
+      return yaml.load(content);
+    }
+  }
+
+  static serialize(model: Record<string, any>, format: OtmFormat): string {
+    return format === 'yaml'
+      ? yaml.dump(model, { noRefs: true, lineWidth: 120 })
+      : JSON.stringify(model, null, 2);
+  }
+
+  importModel(data: any): OtmImportResult {
+    if (!OtmConverter.isOtmModel(data)) {
+      throw new Error('Not an OTM document: missing otmVersion');
+    }
+
+    const warnings: string[] = [];
+    const zones: any[] = (data.trustZones || []).filter((zone: any) => zone.id !== DEFAULT_ZONE_ID);
+    const components: any[] = data.components || [];
+    const dataflows: any[] = data.dataflows || [];
+    const threats = new Map<string, any>((data.threats || []).map((t: any) => [t.id, t]));
+    const mitigations = new Map<string, any>((data.mitigations || []).map((m: any) => [m.id, m]));
+    const assets = new Map<string, any>((data.assets || []).map((a: any) => [a.id, a]));
+
+    const { provenance, integrity } = this.verifyProvenance(data);
+    if (integrity === 'modified') {
+      warnings.push('The model was changed after it was exported from Modelka (checksum mismatch)');
+    }
+    const threatActors = this.importThreatActors(data.project?.attributes?.[THREAT_ACTORS_ATTRIBUTE]);
+
+    const project: Record<string, any> = { ...data.project };
+    if (project.attributes) {
+      project.attributes = omit(project.attributes, [MODELKA_ATTRIBUTE, THREAT_ACTORS_ATTRIBUTE]);
+    }
+
+    const zoneIds = new Set(zones.map(zone => zone.id));
+    const componentIds = new Set(components.map(component => component.id));
+    const zoneOf = (component: any, seen = new Set<string>()): string | null => {
+      const parent = component.parent || {};
+      if (parent.trustZone && zoneIds.has(parent.trustZone)) return parent.trustZone;
+      if (parent.component && !seen.has(parent.component)) {
+        seen.add(parent.component);
+        const owner = components.find(c => c.id === parent.component);
+        return owner ? zoneOf(owner, seen) : null;
+      }
+      return null;
+    };
+
+    const rects = this.readGeometry(data, zones, components);
+    if (!rects && zones.length + components.length > 0) {
+      warnings.push('No diagram layout in the OTM file - elements were arranged automatically');
+    }
+    const layout = rects ?? this.autoLayout(zones, components, zoneOf);
+
+    const seenThreats = new Set<string>();
+    const seenControls = new Set<string>();
+    const importThreats = (owner: any) => (owner.threats || [])
+      .map((instance: any) => this.importThreat(instance, threats, mitigations, seenThreats, seenControls, warnings))
+      .filter((threat: Threat | null): threat is Threat => !!threat);
+
+    const elements: DiagramElement[] = [];
+
+    for (const zone of zones) {
+      const element = this.createElement(zone.id, 'trust-boundary', zone.name, zone.description);
+      this.applyRect(element, layout.get(zone.id));
+      element.extensions = {
+        [OTM_EXTENSION]: {
+          project,
+          item: omit(zone, ['id', 'name', 'description', 'representations']),
+        },
+      };
+      elements.push(element);
+    }
+
+    for (const component of components) {
+      const type = this.componentType(component.type);
+      const element = this.createElement(component.id, type, component.name, component.description);
+      this.applyRect(element, layout.get(component.id));
+      element.technologies = this.importTags(component.tags, 'other', component.attributes?.[MODELKA_ATTRIBUTE]);
+      element.notes = component.attributes?.notes || '';
+      if (component.attributes?.dataType) element.dataType = component.attributes.dataType;
+      if (component.attributes?.dataDescription) element.dataDescription = component.attributes.dataDescription;
+      element.assets = this.importAssets([...(component.assets?.processed || []), ...(component.assets?.stored || [])], assets);
+      element.threats = importThreats(component);
+      element.extensions = {
+        [OTM_EXTENSION]: {
+          project,
+          mappedType: COMPONENT_TYPES[type],
+          item: omit(component, ['id', 'name', 'description', 'representations', 'tags', 'assets', 'threats', 'parent']),
+        },
+      };
+      if (component.parent?.component) {
+        warnings.push(`Component "${component.name}" is nested in another component - placed in that component's trust zone`);
+      }
+      elements.push(element);
+    }
+
+    for (const dataflow of dataflows) {
+      const source = elements.find(el => el.id === dataflow.source && componentIds.has(el.id));
+      const target = elements.find(el => el.id === dataflow.destination && componentIds.has(el.id));
+      if (!source || !target) {
+        warnings.push(`Dataflow "${dataflow.name || dataflow.id}" does not connect two components and was not imported`);
+        continue;
+      }
+      if (dataflow.bidirectional) {
+        warnings.push(`Dataflow "${dataflow.name || dataflow.id}" is bidirectional - imported as a single ${source.name} → ${target.name} flow`);
+      }
+
+      const flow = this.createFlow(dataflow.id, dataflow.name, dataflow.description, source, target);
+      flow.technologies = this.importTags(dataflow.tags, 'network', dataflow.attributes?.[MODELKA_ATTRIBUTE]);
+      flow.notes = dataflow.attributes?.notes || '';
+      flow.dataType = dataflow.attributes?.dataType || '';
+      flow.dataDescription = dataflow.attributes?.dataDescription || '';
+      flow.assets = this.importAssets(dataflow.assets || [], assets);
+      flow.threats = importThreats(dataflow);
+      flow.extensions = {
+        [OTM_EXTENSION]: {
+          project,
+          item: omit(dataflow, ['id', 'name', 'description', 'source', 'destination', 'tags', 'assets', 'threats']),
+        },
+      };
+      elements.push(flow);
+    }
+
+    return { elements, threatActors, warnings, provenance, integrity };
+  }
+
+  exportModel(elements: DiagramElement[], options: OtmExportOptions = {}): Record<string, any> {
+    const boundaryModel = computeTrustBoundaryModel(elements);
+    const byId = new Map(elements.map(el => [el.id, el]));
+    const innermostZone = (element: DiagramElement) => {
+      const containing = boundaryModel.containment[element.id] || [];
+      return containing.length > 0 ? containing[containing.length - 1] : null;
+    };
+    // Positions are written relative to the parent zone, as other OTM tooling expects
+    const representation = (element: DiagramElement, parentId: string | null) => {
+      const parent = parentId ? byId.get(parentId) : undefined;
+      return [{
+        representation: REPRESENTATION_ID,
+        id: `${element.id}-representation`,
+        position: {
+          x: element.position.x - (parent?.position.x ?? 0),
+          y: element.position.y - (parent?.position.y ?? 0),
+        },
+        size: { ...element.size },
+      }];
+    };
+
+    const threats = new Map<string, any>();
+    const mitigations = new Map<string, any>();
+    const assets = new Map<string, any>();
+    const trustZones: any[] = [];
+    const components: any[] = [];
+    const dataflows: any[] = [];
+
+    for (const boundary of elements.filter(el => el.type === 'trust-boundary')) {
+      const preserved = this.extensionOf(boundary)?.item || {};
+      const parentId = boundaryModel.parentBoundary[boundary.id];
+      trustZones.push({
+        ...preserved,
+        id: boundary.id,
+        name: boundary.name,
+        description: boundary.description || '',
+        risk: { trustRating: 50, ...preserved.risk },
+        ...(parentId ? { parent: { trustZone: parentId } } : {}),
+        representations: representation(boundary, parentId),
+      });
+    }
+
+    for (const element of elements.filter(el => el.type !== 'data-flow' && el.type !== 'trust-boundary')) {
+      const ext = this.extensionOf(element);
+      const preserved = ext?.item || {};
+      const zoneId = innermostZone(element);
+      const mappedType = COMPONENT_TYPES[element.type as ComponentType];
+      const assetIds = this.exportAssets(element.assets, assets);
+
+      components.push({
+        ...omit(preserved, ['type', 'attributes']),
+        id: element.id,
+        name: element.name,
+        // Keep the original (more specific) type unless the element type was changed
+        type: ext?.mappedType === mappedType && preserved.type ? preserved.type : mappedType,
+        description: element.description || '',
+        parent: { trustZone: zoneId ?? DEFAULT_ZONE_ID },
+        representations: representation(element, zoneId),
+        assets: element.type === 'data-store'
+          ? { processed: [], stored: assetIds }
+          : { processed: assetIds, stored: [] },
+        threats: this.exportThreats(element.threats, threats, mitigations),
+        tags: element.technologies.map(tech => tech.name),
+        ...this.attributes(preserved.attributes, element, {
+          notes: element.notes,
+          dataType: element.dataType,
+          dataDescription: element.dataDescription,
+        }),
+      });
+    }
+
+    for (const flow of elements.filter(el => el.type === 'data-flow')) {
+      if (!flow.sourceId || !flow.targetId || !byId.has(flow.sourceId) || !byId.has(flow.targetId)) continue;
+      const preserved = this.extensionOf(flow)?.item || {};
+
+      dataflows.push({
+        ...omit(preserved, ['attributes']),
+        id: flow.id,
+        name: flow.name,
+        description: flow.description || '',
+        bidirectional: preserved.bidirectional ?? false,
+        source: flow.sourceId,
+        destination: flow.targetId,
+        assets: this.exportAssets(flow.assets, assets),
+        threats: this.exportThreats(flow.threats, threats, mitigations),
+        tags: flow.technologies.map(tech => tech.name),
+        ...this.attributes(preserved.attributes, flow, {
+          notes: flow.notes,
+          dataType: flow.dataType,
+          dataDescription: flow.dataDescription,
+        }),
+      });
+    }
+
+    if (components.some(component => component.parent.trustZone === DEFAULT_ZONE_ID)) {
+      trustZones.push({
+        id: DEFAULT_ZONE_ID,
+        name: 'Default',
+        description: 'Components outside every trust boundary',
+        risk: { trustRating: 0 },
+      });
+    }
+
+    const content = {
+      trustZones,
+      components,
+      dataflows,
+      threats: Array.from(threats.values()),
+      mitigations: Array.from(mitigations.values()),
+    };
+
+    const threatActors = options.threatActors || [];
+    const provenance: OtmProvenance = {
+      roomId: options.roomId || 'unknown',
+      exportedAt: Date.now(),
+      exportedBy: options.exportedBy || 'unknown',
+      version: PROVENANCE_VERSION,
+      checksum: this.computeChecksum(JSON.stringify(this.checksummed(content, threatActors))),
+    };
+
+    const project = elements.map(el => this.extensionOf(el)?.project).find(Boolean) || {};
+    const shapes = elements.filter(el => el.type !== 'data-flow');
+    const width = shapes.length > 0 ? Math.max(...shapes.map(el => el.position.x + el.size.width)) : 0;
+    const height = shapes.length > 0 ? Math.max(...shapes.map(el => el.position.y + el.size.height)) : 0;
+
+    return {
+      otmVersion: OTM_VERSION,
+      project: {
+        ...project,
+        name: options.projectName || project.name || 'Modelka threat model',
+        id: options.projectId || project.id || options.roomId || 'modelka',
+        ...(options.description || project.description ? { description: options.description || project.description } : {}),
+        ...(options.owner || project.owner ? { owner: options.owner || project.owner } : {}),
+        attributes: {
+          ...project.attributes,
+          [MODELKA_ATTRIBUTE]: provenance,
+          ...(threatActors.length > 0 ? { [THREAT_ACTORS_ATTRIBUTE]: threatActors } : {}),
+        },
+      },
+      representations: [{ name: 'Modelka diagram', id: REPRESENTATION_ID, type: 'diagram', size: { width, height } }],
+      assets: Array.from(assets.values()),
+      ...content,
+    };
+  }
+
+  /* ---------- import helpers ---------- */
+
+  private verifyProvenance(data: any): Pick<OtmImportResult, 'provenance' | 'integrity'> {
+    const provenance: OtmProvenance | undefined = data.project?.attributes?.[MODELKA_ATTRIBUTE];
+    if (!provenance?.checksum) {
+      return { integrity: 'unknown' };
+    }
+
+    const expectedChecksum = this.computeChecksum(JSON.stringify(this.checksummed({
+      trustZones: data.trustZones || [],
+      components: data.components || [],
+      dataflows: data.dataflows || [],
+      threats: data.threats || [],
+      mitigations: data.mitigations || [],
+    }, data.project?.attributes?.[THREAT_ACTORS_ATTRIBUTE] || [])));
+
+    return { provenance, integrity: provenance.checksum === expectedChecksum ? 'verified' : 'modified' };
+  }
+
+  /**
+   * Absolute rects from the first diagram representation, or null if any zone/component lacks geometry
+   */
+  private readGeometry(data: any, zones: any[], components: any[]): Map<string, Rect> | null {
+    const diagram = (data.representations || []).find((r: any) => r.type === 'diagram');
+    if (!diagram) return null;
+
+    const relative = new Map<string, Rect>();
+    for (const item of [...zones, ...components]) {
+      const rep = (item.representations || []).find((r: any) => r.representation === diagram.id && r.position);
+      if (!rep) return null;
+      relative.set(item.id, {
+        x: rep.position.x,
+        y: rep.position.y,
+        width: rep.size?.width ?? CELL.width,
+        height: rep.size?.height ?? CELL.height,
+      });
+    }
+
+    const items = new Map<string, any>([...zones, ...components].map(item => [item.id, item]));
+    const absolute = new Map<string, Rect>();
+    const resolve = (id: string, depth = 0): Rect => {
+      const cached = absolute.get(id);
+      if (cached) return cached;
+
+      const rect = relative.get(id)!;
+      const parentId = items.get(id)?.parent?.trustZone ?? items.get(id)?.parent?.component;
+      const parent = parentId && relative.has(parentId) && depth < items.size ? resolve(parentId, depth + 1) : null;
+      const result = { ...rect, x: rect.x + (parent?.x ?? 0), y: rect.y + (parent?.y ?? 0) };
+      absolute.set(id, result);
+      return result;
+    };
+
+    for (const id of relative.keys()) resolve(id);
+    return absolute;
+  }
+
+  /**
+   * Grid layout: components in rows inside their zone, nested zones below them
+   */
+  private autoLayout(zones: any[], components: any[], zoneOf: (component: any) => string | null): Map<string, Rect> {
+    const rects = new Map<string, Rect>();
+    const zoneIds = new Set(zones.map(zone => zone.id));
+    const parentZone = (zone: any) =>
+      zone.parent?.trustZone && zoneIds.has(zone.parent.trustZone) && zone.parent.trustZone !== zone.id
+        ? zone.parent.trustZone
+        : null;
+
+    const place = (zoneId: string | null, x: number, y: number, depth: number): { width: number; height: number } => {
+      const padding = zoneId ? PADDING : 0;
+      const members = components.filter(component => zoneOf(component) === zoneId);
+      const children = depth < zones.length ? zones.filter(zone => parentZone(zone) === zoneId) : [];
+
+      members.forEach((component, index) => {
+        rects.set(component.id, {
+          x: x + padding + (index % PER_ROW) * (CELL.width + GAP),
+          y: y + padding + Math.floor(index / PER_ROW) * (CELL.height + GAP),
+          ...CELL,
+        });
+      });
+
+      const columns = Math.min(members.length, PER_ROW);
+      const rows = Math.ceil(members.length / PER_ROW);
+      let width = columns > 0 ? columns * CELL.width + (columns - 1) * GAP : 0;
+      let height = rows > 0 ? rows * CELL.height + (rows - 1) * GAP : 0;
+
+      let childX = x + padding;
+      const childY = y + padding + (height > 0 ? height + GAP : 0);
+      let childHeight = 0;
+      for (const child of children) {
+        const size = place(child.id, childX, childY, depth + 1);
+        rects.set(child.id, { x: childX, y: childY, ...size });
+        childX += size.width + GAP;
+        childHeight = Math.max(childHeight, size.height);
+      }
+      if (children.length > 0) {
+        width = Math.max(width, childX - GAP - (x + padding));
+        height += (height > 0 ? GAP : 0) + childHeight;
+      }
+
+      return {
+        width: Math.max(width, CELL.width) + padding * 2,
+        height: Math.max(height, CELL.height) + padding * 2,
+      };
+    };
+
+    place(null, 0, 0, 0);
+    return rects;
+  }
+
+  private applyRect(element: DiagramElement, rect: Rect | undefined): void {
+    if (!rect) return;
+    element.position = { x: rect.x, y: rect.y };
+    element.size = { width: rect.width, height: rect.height };
+  }
+
+  private componentType(type: string): ComponentType {
+    const key = String(type || '').toLowerCase();
+    const mapped = (Object.keys(COMPONENT_TYPES) as ComponentType[]).find(t => COMPONENT_TYPES[t] === key);
+    if (mapped) return mapped;
+    if (/store|database|db|bucket|storage|cache|queue|table|file/.test(key)) return 'data-store';
+    if (/entity|actor|user|client|browser|external|third-party|mobile/.test(key)) return 'external-entity';
+    return 'process';
+  }
+
+  /**
+   * Technologies from OTM tags. Tags exported by Modelka get their saved technology back;
+   * others fall back to the default category.
+   */
+  private importTags(tags: any, category: Technology['category'], saved: any): Technology[] {
+    const savedTechnologies: Technology[] = Array.isArray(saved?.technologies) ? saved.technologies : [];
+    return (Array.isArray(tags) ? tags : []).map((tag: any) =>
+      savedTechnologies.find(tech => tech?.name === String(tag)) ?? {
+        id: generateId('tech'),
+        name: String(tag),
+        category,
+        threats: [],
+      });
+  }
+
+  private importThreatActors(actors: any): ThreatActor[] {
+    return (Array.isArray(actors) ? actors : [])
+      .filter((actor: any) => actor && typeof actor.id === 'string' && typeof actor.name === 'string');
+  }
+
+  private importAssets(ids: string[], assets: Map<string, any>): Asset[] {
+    return ids
+      .map(id => assets.get(id))
+      .filter(Boolean)
+      .map(asset => {
+        const risk = asset.risk || {};
+        const score = Math.max(risk.confidentiality ?? 0, risk.integrity ?? 0, risk.availability ?? 0);
+        const value = (Object.keys(ASSET_RISK) as Asset['value'][]).find(v => score <= ASSET_RISK[v]) || 'critical';
+        return {
+          id: asset.id,
+          name: asset.name || asset.id,
+          type: asset.attributes?.type || 'data',
+          value,
+          description: asset.description || '',
+          owner: asset.attributes?.owner || '',
+        };
+      });
+  }
+
+  private importThreat(
+    instance: any,
+    threats: Map<string, any>,
+    mitigations: Map<string, any>,
+    seenThreats: Set<string>,
+    seenControls: Set<string>,
+    warnings: string[]
+  ): Threat | null {
+    const threat = threats.get(instance.threat);
+    if (!threat) {
+      warnings.push(`Threat reference "${instance.threat}" has no matching threat definition`);
+      return null;
+    }
+
+    const categories: string[] = threat.categories || [];
+    const strideCategory = (Object.keys(STRIDE_NAMES) as Threat['strideCategory'][])
+      .find(category => categories.some(c => normalize(c) === normalize(STRIDE_NAMES[category])));
+    if (!strideCategory) {
+      warnings.push(`Threat "${threat.name}" has no STRIDE category (${categories.join(', ') || 'none'}) - filed under Information Disclosure`);
+    }
+
+    const impact = threat.risk?.impact;
+    const severity = typeof impact === 'number'
+      ? (Object.keys(SEVERITY_IMPACT) as ThreatSeverity[]).reduce((best, s) =>
+          Math.abs(SEVERITY_IMPACT[s] - impact) < Math.abs(SEVERITY_IMPACT[best] - impact) ? s : best, 'medium' as ThreatSeverity)
+      : 'medium';
+
+    // Mitigation fields without a SecurityControl equivalent, by control id
+    const preservedMitigations: Record<string, any> = {};
+    const controls: SecurityControl[] = (instance.mitigations || [])
+      .filter((ref: any) => mitigations.has(ref.mitigation))
+      .map((ref: any) => {
+        const mitigation = mitigations.get(ref.mitigation);
+        const id = seenControls.has(mitigation.id) ? generateId('control') : mitigation.id;
+        seenControls.add(mitigation.id);
+        preservedMitigations[id] = { ...omit(mitigation, ['id', 'name', 'description']), mitigationId: mitigation.id };
+        return {
+          id,
+          name: mitigation.name || 'Mitigation',
+          description: mitigation.description || '',
+          implemented: ref.state === 'implemented',
+        };
+      });
+
+    // The same OTM threat can apply to several components; Modelka threat ids are unique
+    const id = seenThreats.has(threat.id) ? generateId('threat') : threat.id;
+    seenThreats.add(threat.id);
+
+    const saved = threat.attributes?.[MODELKA_ATTRIBUTE];
+    const definition = omit(threat, ['id', 'name', 'description']);
+    if (definition.attributes) {
+      definition.attributes = omit(definition.attributes, [MODELKA_ATTRIBUTE]);
+    }
+
+    return {
+      id,
+      title: threat.name || 'Untitled threat',
+      description: threat.description || '',
+      severity,
+      strideCategory: strideCategory || 'information-disclosure',
+      controls,
+      isActionItem: false,
+      ...(saved && typeof saved === 'object' ? pick(saved as Threat, MODELKA_THREAT_FIELDS) : {}),
+      extensions: {
+        [OTM_EXTENSION]: {
+          threatId: threat.id,
+          state: instance.state,
+          definition,
+          mitigations: preservedMitigations,
+          mappedCategory: strideCategory,
+          mappedSeverity: severity,
+        },
+      },
+    };
+  }
+
+  private createElement(id: string, type: STRIDEElementType, name: string, description?: string): DiagramElement {
+    return {
+      id: id || generateId(type),
+      type,
+      name: name || '',
+      position: { x: 0, y: 0 },
+      size: { width: CELL.width, height: CELL.height },
+      threats: [],
+      technologies: [],
+      notes: '',
+      description: description || '',
+      assets: [],
+    };
+  }
+
+  private createFlow(id: string, name: string, description: string, source: DiagramElement, target: DiagramElement): DiagramElement {
+    const { sourceEdge, targetEdge } = this.facingEdges(source, target);
+    return {
+      ...this.createElement(id, 'data-flow', name, description),
+      size: { width: 0, height: 0 },
+      sourceId: source.id,
+      targetId: target.id,
+      sourceEdge,
+      targetEdge,
+      sourceEdgeOffset: 0.5,
+      targetEdgeOffset: 0.5,
+      dataType: '',
+      dataDescription: '',
+    };
+  }
+
+  private facingEdges(source: DiagramElement, target: DiagramElement) {
+    const dx = (target.position.x + target.size.width / 2) - (source.position.x + source.size.width / 2);
+    const dy = (target.position.y + target.size.height / 2) - (source.position.y + source.size.height / 2);
+
+    if (Math.abs(dx) >= Math.abs(dy)) {
+      return dx >= 0
+        ? { sourceEdge: 'right' as const, targetEdge: 'left' as const }
+        : { sourceEdge: 'left' as const, targetEdge: 'right' as const };
+    }
+    return dy >= 0
+      ? { sourceEdge: 'bottom' as const, targetEdge: 'top' as const }
+      : { sourceEdge: 'top' as const, targetEdge: 'bottom' as const };
+  }
+
+  /* ---------- export helpers ---------- */
+
+  private exportThreats(elementThreats: Threat[], threats: Map<string, any>, mitigations: Map<string, any>): any[] {
+    return (elementThreats || []).map(threat => {
+      const ext = threat.extensions?.[OTM_EXTENSION];
+      const threatId = ext?.threatId || threat.id;
+      const definition = ext?.definition || {};
+      const categoryName = STRIDE_NAMES[threat.strideCategory];
+
+      if (!threats.has(threatId)) {
+        threats.set(threatId, {
+          ...definition,
+          id: threatId,
+          name: threat.title,
+          description: threat.description || '',
+          // Unchanged categories/risk export verbatim (they may hold non-STRIDE values)
+          categories: ext?.mappedCategory === threat.strideCategory && definition.categories
+            ? definition.categories
+            : [categoryName],
+          risk: {
+            likelihood: 50,
+            ...definition.risk,
+            ...(ext?.mappedSeverity === threat.severity && typeof definition.risk?.impact === 'number'
+              ? {}
+              : { impact: SEVERITY_IMPACT[threat.severity] }),
+          },
+          attributes: { ...definition.attributes, [MODELKA_ATTRIBUTE]: pick(threat, MODELKA_THREAT_FIELDS) },
+        });
+      }
+
+      // Controls imported from a shared OTM mitigation point back at it
+      const mitigationIdOf = (control: SecurityControl): string =>
+        ext?.mitigations?.[control.id]?.mitigationId || control.id;
+
+      for (const control of threat.controls) {
+        const mitigationId = mitigationIdOf(control);
+        if (!mitigations.has(mitigationId)) {
+          mitigations.set(mitigationId, {
+            riskReduction: 50,
+            ...omit(ext?.mitigations?.[control.id] || {}, ['mitigationId']),
+            id: mitigationId,
+            name: control.name,
+            description: control.description || '',
+          });
+        }
+      }
+
+      const mitigated = threat.controls.length > 0 && threat.controls.every(control => control.implemented);
+      const derivedState = mitigated ? 'mitigated' : 'identified';
+      return {
+        threat: threatId,
+        // Keep states we don't model (e.g. "exposed") unless the analyst changed the outcome
+        state: ext?.state && !['identified', 'mitigated'].includes(ext.state) && !mitigated ? ext.state : derivedState,
+        mitigations: threat.controls.map(control => ({
+          mitigation: mitigationIdOf(control),
+          state: control.implemented ? 'implemented' : 'required',
+        })),
+      };
+    });
+  }
+
+  private exportAssets(elementAssets: Asset[] | undefined, assets: Map<string, any>): string[] {
+    return (elementAssets || []).map(asset => {
+      if (!assets.has(asset.id)) {
+        const risk = ASSET_RISK[asset.value] ?? ASSET_RISK.medium;
+        assets.set(asset.id, {
+          id: asset.id,
+          name: asset.name,
+          description: asset.description || '',
+          risk: { confidentiality: risk, integrity: risk, availability: risk },
+          attributes: { type: asset.type, owner: asset.owner },
+        });
+      }
+      return asset.id;
+    });
+  }
+
+  /**
+   * Merge Modelka-only fields into OTM `attributes`, dropping empty values.
+   * Technologies go under the `modelka` attribute, as tags only carry their names.
+   */
+  private attributes(preserved: Record<string, any> | undefined, element: DiagramElement, values: Record<string, string | undefined>) {
+    const attributes: Record<string, any> = omit(preserved || {}, [...Object.keys(values), MODELKA_ATTRIBUTE]);
+    for (const [key, value] of Object.entries(values)) {
+      if (value) attributes[key] = value;
+    }
+    if (element.technologies.length > 0) {
+      attributes[MODELKA_ATTRIBUTE] = { technologies: element.technologies };
+    }
+    return Object.keys(attributes).length > 0 ? { attributes } : {};
+  }
+
+  /** Exported content covered by the checksum - threat actors only when there are any, so older exports still verify */
+  private checksummed(content: Record<string, any>, threatActors: ThreatActor[]): Record<string, any> {
+    return threatActors.length > 0 ? { ...content, threatActors } : content;
+  }
+
+  private extensionOf(item: DiagramElement): Record<string, any> | undefined {
+    return item.extensions?.[OTM_EXTENSION];
+  }
+
+  /**
+   * Checksum of the exported content (same algorithm as room exports)
+   */
+  private computeChecksum(data: any): string {
+    const str = typeof data === 'string' ? data : JSON.stringify(data);
+    let hash = 0;
+    for (let i = 0; i < str.length; i++) {
+      const char = str.charCodeAt(i);
+      hash = ((hash << 5) - hash) + char;
+      hash = hash & hash; // Convert to 32-bit integer
+    }
+    return Math.abs(hash).toString(36);
+  }
+}
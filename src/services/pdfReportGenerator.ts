@@ -0,0 +1,711 @@
+// src/services/pdfReportGenerator.ts - Native PDF threat report generation (runs fully in the browser)
+import { jsPDF } from 'jspdf';
+import { DiagramElement, ThreatActor, Threat, ThreatSeverity, Asset, STRIDE_CATEGORIES } from '../types/diagram';
+import { computeTrustBoundaryModel } from '../utils/trustBoundaries';
+import { compareByRisk, getRiskScore, summarizeRisk } from '../utils/riskScoring';
+import { descendantsOf, expandedProcesses, levelOf, levelPath } from '../utils/dfdLevels';
+import { ReportOptions } from './htmlReportGenerator';
+
+interface TableColumn {
+  header: string;
+  width: number; // Fraction of the content width
+}
+
+type TableCell = string | { text: string; fill?: [number, number, number]; color?: [number, number, number] };
+
+const PAGE_MARGIN = 50;
+const LINE_HEIGHT = 1.35;
+const CELL_PADDING = 5;
+
+const COLORS = {
+  heading: [44, 62, 80] as [number, number, number],
+  text: [51, 51, 51] as [number, number, number],
+  muted: [127, 140, 141] as [number, number, number],
+  accent: [52, 152, 219] as [number, number, number],
+  border: [189, 195, 199] as [number, number, number],
+  headerFill: [236, 240, 241] as [number, number, number],
+  stripeFill: [248, 249, 250] as [number, number, number],
+  findings: [255, 243, 205] as [number, number, number],
+  alert: [248, 215, 218] as [number, number, number],
+};
+
+const SEVERITY_COLORS: Record<ThreatSeverity, [number, number, number]> = {
+  critical: [231, 76, 60],
+  high: [243, 156, 18],
+  medium: [241, 196, 15],
+  low: [39, 174, 96],
+};
+
+/**
+ * PDF counterpart of HTMLReportGenerator with the same sections,
+ * proper pagination, repeated table headers and a table of contents
+ */
+export class PDFReportGenerator {
+  private doc!: jsPDF;
+  private y = PAGE_MARGIN;
+  private sections: Array<{ title: string; page: number }> = [];
+
+  /**
+   * Generate comprehensive threat modeling report as a PDF blob
+   */
+  generateThreatReport(
+    elements: DiagramElement[],
+    threatActors: ThreatActor[],
+    canvasDataURL?: string,
+    options: ReportOptions = {}
+  ): Blob {
+    const {
+      includeScreenshot = true,
+      includeThreatAnalysis = true,
+      includeAssetInventory = true,
+      includeRecommendations = true,
+      projectName = 'Security Architecture',
+      reportTitle = 'Threat Modeling Report'
+    } = options;
+
+    this.doc = new jsPDF({ unit: 'pt', format: 'a4' });
+    this.sections = [];
+
+    this.doc.setProperties({
+      title: reportTitle,
+      subject: projectName,
+      creator: 'Modelka Threat Modeling Tool',
+    });
+
+    this.renderTitlePage(reportTitle, projectName);
+
+    this.startSection('Executive Summary');
+    this.renderExecutiveSummary(elements, threatActors);
+
+    if (includeScreenshot && canvasDataURL) {
+      this.startSection('System Architecture Diagram');
+      this.renderDiagram(canvasDataURL);
+    }
+
+    this.startSection('System Components');
+    this.renderSystemComponents(elements);
+
+    if (includeThreatAnalysis) {
+      this.startSection('Threat Analysis');
+      this.renderThreatAnalysis(elements, threatActors);
+    }
+
+    if (includeAssetInventory) {
+      this.startSection('Asset Inventory');
+      this.renderAssetInventory(elements);
+    }
+
+    if (includeRecommendations) {
+      this.startSection('Security Recommendations');
+      this.renderRecommendations(elements);
+    }
+
+    this.renderTableOfContents();
+    this.renderPageNumbers(reportTitle);
+
+    return this.doc.output('blob');
+  }
+
+  /* ---------- page layout ---------- */
+
+  private get pageWidth(): number {
+    return this.doc.internal.pageSize.getWidth();
+  }
+
+  private get pageHeight(): number {
+    return this.doc.internal.pageSize.getHeight();
+  }
+
+  private get contentWidth(): number {
+    return this.pageWidth - PAGE_MARGIN * 2;
+  }
+
+  private get pageBottom(): number {
+    return this.pageHeight - PAGE_MARGIN;
+  }
+
+  private addPage(): void {
+    this.doc.addPage();
+    this.y = PAGE_MARGIN;
+  }
+
+  /**
+   * Start a new page if fewer than `height` points remain
+   */
+  private ensureSpace(height: number): boolean {
+    if (this.y + height > this.pageBottom) {
+      this.addPage();
+      return true;
+    }
+    return false;
+  }
+
+  private startSection(title: string): void {
+    this.addPage();
+    this.sections.push({ title, page: this.doc.getNumberOfPages() });
+    this.heading1(title);
+  }
+
+  /* ---------- typography ---------- */
+
+  private heading1(text: string): void {
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(18);
+    this.doc.setTextColor(...COLORS.heading);
+    this.doc.text(this.sanitize(text), PAGE_MARGIN, this.y + 18);
+    this.doc.setDrawColor(...COLORS.accent);
+    this.doc.setLineWidth(2);
+    this.doc.line(PAGE_MARGIN, this.y + 26, PAGE_MARGIN + this.contentWidth, this.y + 26);
+    this.y += 42;
+  }
+
+  private heading2(text: string): void {
+    this.ensureSpace(60); // Keep headings with at least a few lines of content
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(13);
+    this.doc.setTextColor(...COLORS.heading);
+    this.doc.text(this.sanitize(text), PAGE_MARGIN, this.y + 13);
+    this.y += 24;
+  }
+
+  private paragraph(text: string, fontSize = 10, style: 'normal' | 'bold' | 'italic' = 'normal'): void {
+    this.doc.setFont('helvetica', style);
+    this.doc.setFontSize(fontSize);
+    this.doc.setTextColor(...COLORS.text);
+    const lines: string[] = this.doc.splitTextToSize(this.sanitize(text), this.contentWidth);
+    const lineHeight = fontSize * LINE_HEIGHT;
+
+    for (const line of lines) {
+      this.ensureSpace(lineHeight);
+      this.doc.text(line, PAGE_MARGIN, this.y + fontSize);
+      this.y += lineHeight;
+    }
+    this.y += 6;
+  }
+
+  private bulletList(items: string[], fontSize = 10): void {
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFontSize(fontSize);
+    this.doc.setTextColor(...COLORS.text);
+    const lineHeight = fontSize * LINE_HEIGHT;
+
+    for (const item of items) {
+      const lines: string[] = this.doc.splitTextToSize(this.sanitize(item), this.contentWidth - 14);
+      lines.forEach((line, index) => {
+        this.ensureSpace(lineHeight);
+        if (index === 0) this.doc.text('-', PAGE_MARGIN + 2, this.y + fontSize);
+        this.doc.text(line, PAGE_MARGIN + 14, this.y + fontSize);
+        this.y += lineHeight;
+      });
+    }
+    this.y += 6;
+  }
+
+  /**
+   * Shaded call-out box, matching the HTML report's summary/findings/alert boxes
+   */
+  private calloutBox(title: string | null, lines: string[], fill: [number, number, number], bar: [number, number, number]): void {
+    const fontSize = 10;
+    const lineHeight = fontSize * LINE_HEIGHT;
+    this.doc.setFontSize(fontSize);
+    const wrapped = lines.flatMap(line => this.doc.splitTextToSize(this.sanitize(line), this.contentWidth - 24) as string[]);
+    const height = (wrapped.length + (title ? 1 : 0)) * lineHeight + 20;
+
+    this.ensureSpace(height);
+    this.doc.setFillColor(...fill);
+    this.doc.rect(PAGE_MARGIN, this.y, this.contentWidth, height, 'F');
+    this.doc.setFillColor(...bar);
+    this.doc.rect(PAGE_MARGIN, this.y, 4, height, 'F');
+
+    let textY = this.y + 10 + fontSize;
+    if (title) {
+      this.doc.setFont('helvetica', 'bold');
+      this.doc.setTextColor(...COLORS.heading);
+      this.doc.text(this.sanitize(title), PAGE_MARGIN + 14, textY);
+      textY += lineHeight;
+    }
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.setTextColor(...COLORS.text);
+    for (const line of wrapped) {
+      this.doc.text(line, PAGE_MARGIN + 14, textY);
+      textY += lineHeight;
+    }
+
+    this.y += height + 12;
+  }
+
+  /**
+   * Render a table, breaking across pages and repeating the header row
+   */
+  private table(columns: TableColumn[], rows: TableCell[][]): void {
+    const fontSize = 9;
+    const lineHeight = fontSize * LINE_HEIGHT;
+    const widths = columns.map(col => col.width * this.contentWidth);
+
+    const measure = (cells: string[], bold: boolean) => {
+      this.doc.setFont('helvetica', bold ? 'bold' : 'normal');
+      this.doc.setFontSize(fontSize);
+      const wrapped = cells.map((text, i) =>
+        this.doc.splitTextToSize(this.sanitize(text), widths[i] - CELL_PADDING * 2) as string[]
+      );
+      const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight + CELL_PADDING * 2;
+      return { wrapped, height };
+    };
+
+    const drawRow = (
+      wrapped: string[][],
+      height: number,
+      bold: boolean,
+      rowFill: [number, number, number] | null,
+      cells: TableCell[] = []
+    ) => {
+      let x = PAGE_MARGIN;
+      wrapped.forEach((lines, i) => {
+        const cell = cells[i];
+        const fill = (cell && typeof cell !== 'string' && cell.fill) || rowFill;
+        if (fill) {
+          this.doc.setFillColor(...fill);
+          this.doc.rect(x, this.y, widths[i], height, 'F');
+        }
+        this.doc.setDrawColor(...COLORS.border);
+        this.doc.setLineWidth(0.5);
+        this.doc.rect(x, this.y, widths[i], height, 'S');
+
+        const color = (cell && typeof cell !== 'string' && cell.color) || (bold ? COLORS.heading : COLORS.text);
+        this.doc.setFont('helvetica', bold ? 'bold' : 'normal');
+        this.doc.setFontSize(fontSize);
+        this.doc.setTextColor(...color);
+        lines.forEach((line, lineIndex) => {
+          this.doc.text(line, x + CELL_PADDING, this.y + CELL_PADDING + fontSize + lineIndex * lineHeight);
+        });
+        x += widths[i];
+      });
+      this.y += height;
+    };
+
+    const header = measure(columns.map(col => col.header), true);
+    const drawHeader = () => drawRow(header.wrapped, header.height, true, COLORS.headerFill);
+
+    this.ensureSpace(header.height * 2);
+    drawHeader();
+
+    rows.forEach((cells, rowIndex) => {
+      const texts = cells.map(cell => (typeof cell === 'string' ? cell : cell.text));
+      const row = measure(texts, false);
+      if (this.y + row.height > this.pageBottom) {
+        this.addPage();
+        drawHeader();
+      }
+      drawRow(row.wrapped, row.height, false, rowIndex % 2 === 1 ? COLORS.stripeFill : null, cells);
+    });
+
+    this.y += 16;
+  }
+
+  /* ---------- sections ---------- */
+
+  private renderTitlePage(reportTitle: string, projectName: string): void {
+    const centerX = this.pageWidth / 2;
+
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(24);
+    this.doc.setTextColor(...COLORS.heading);
+    this.doc.text(this.sanitize(reportTitle), centerX, this.pageHeight / 2 - 40, { align: 'center' });
+
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFontSize(18);
+    this.doc.text(this.sanitize(projectName), centerX, this.pageHeight / 2, { align: 'center' });
+
+    this.doc.setFontSize(12);
+    this.doc.setTextColor(...COLORS.muted);
+    const generated = new Date().toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+    this.doc.text(`Generated: ${generated}`, centerX, this.pageHeight / 2 + 40, { align: 'center' });
+
+    this.doc.setFontSize(10);
+    this.doc.text('Generated with Modelka Threat Modeling Tool', centerX, this.pageBottom, { align: 'center' });
+  }
+
+  private renderExecutiveSummary(elements: DiagramElement[], threatActors: ThreatActor[]): void {
+    const allThreats = this.getAllThreats(elements);
+    const criticalThreats = allThreats.filter(t => t.severity === 'critical');
+    const highThreats = allThreats.filter(t => t.severity === 'high');
+    const totalElements = elements.filter(e => e.type !== 'data-flow' && !e.refId).length; // each element once, however many diagrams it is in
+    const dataFlows = elements.filter(e => e.type === 'data-flow').length;
+    const topRisks = [...allThreats].sort(compareByRisk).slice(0, 5);
+    const averageRisk = allThreats.length > 0
+      ? allThreats.reduce((sum, t) => sum + getRiskScore(t), 0) / allThreats.length
+      : 0;
+
+    this.calloutBox(null, [
+      `This report presents a comprehensive threat analysis of the ${totalElements} system components and ${dataFlows} data flows in the architecture.`
+    ], COLORS.headerFill, COLORS.accent);
+
+    this.calloutBox('KEY FINDINGS', [
+      `- ${criticalThreats.length} Critical threats identified`,
+      `- ${highThreats.length} High-severity threats identified`,
+      `- ${allThreats.length} Total threats across all components`,
+      `- ${averageRisk.toFixed(1)} Average risk score (0-10)`,
+      `- ${threatActors.length} Threat actors profiled`,
+    ], COLORS.findings, [255, 193, 7]);
+
+    if (topRisks.length > 0) {
+      this.heading2('Highest Risks');
+      this.bulletList(topRisks.map(threat =>
+        `${threat.title} - risk ${getRiskScore(threat).toFixed(1)} (${threat.severity}${threat.severityOverride ? ', set manually' : ''})`
+      ));
+    }
+
+    if (criticalThreats.length > 0) {
+      this.calloutBox('IMMEDIATE ATTENTION REQUIRED', [
+        `${criticalThreats.length} critical threats require immediate remediation.`
+      ], COLORS.alert, [220, 53, 69]);
+    }
+  }
+
+  private renderDiagram(canvasDataURL: string): void {
+    try {
+      const { width, height } = this.doc.getImageProperties(canvasDataURL);
+      const maxHeight = this.pageBottom - this.y;
+      const scale = Math.min(this.contentWidth / width, maxHeight / height, 1);
+      const renderWidth = width * scale;
+      const renderHeight = height * scale;
+      const x = PAGE_MARGIN + (this.contentWidth - renderWidth) / 2;
+
+      this.doc.addImage(canvasDataURL, 'PNG', x, this.y, renderWidth, renderHeight);
+      this.doc.setDrawColor(...COLORS.border);
+      this.doc.rect(x, this.y, renderWidth, renderHeight, 'S');
+      this.y += renderHeight + 16;
+    } catch (error) {
+      console.warn('Failed to embed diagram image in PDF:', error);
+      this.paragraph('The diagram image could not be embedded.', 10, 'italic');
+    }
+  }
+
+  private renderSystemComponents(elements: DiagramElement[]): void {
+    const boundaryModel = computeTrustBoundaryModel(elements);
+    const nameOf = (id: string) => elements.find(e => e.id === id)?.name || 'Unknown';
+
+    const groups: Array<{ title: string; type: DiagramElement['type'] }> = [
+      { title: 'Processes', type: 'process' },
+      { title: 'External Entities', type: 'external-entity' },
+      { title: 'Data Stores', type: 'data-store' },
+      { title: 'Trust Boundaries', type: 'trust-boundary' },
+      { title: 'Data Flows', type: 'data-flow' },
+    ];
+
+    for (const group of groups) {
+      const members = elements.filter(e => e.type === group.type && !e.refId);
+      if (members.length === 0) continue;
+
+      this.heading2(`${group.title} (${members.length})`);
+
+      const extraColumn =
+        group.type === 'trust-boundary' ? 'Contains' :
+        group.type === 'data-flow' ? 'Crosses' : null;
+
+      const columns: TableColumn[] = extraColumn
+        ? [
+            { header: 'Name', width: 0.22 },
+            { header: 'Description', width: 0.34 },
+            { header: extraColumn, width: 0.2 },
+            { header: 'Threats', width: 0.12 },
+            { header: 'Assets', width: 0.12 },
+          ]
+        : [
+            { header: 'Name', width: 0.26 },
+            { header: 'Description', width: 0.46 },
+            { header: 'Threats', width: 0.14 },
+            { header: 'Assets', width: 0.14 },
+          ];
+
+      this.table(columns, members.map(el => {
+        const row: TableCell[] = [el.name, el.description || 'No description provided'];
+        if (group.type === 'trust-boundary') {
+          const contained = Object.keys(boundaryModel.containment)
+            .filter(id => boundaryModel.containment[id].includes(el.id))
+            .map(nameOf);
+          row.push(contained.length > 0 ? contained.join(', ') : 'No elements');
+        } else if (group.type === 'data-flow') {
+          const crossing = boundaryModel.crossings.find(c => c.flowId === el.id);
+          row.push(crossing ? crossing.boundaryIds.map(nameOf).join(', ') : '-');
+        }
+        row.push(`${(el.threats || []).length} threats`, `${(el.assets || []).length} assets`);
+        return row;
+      }));
+    }
+
+    if (boundaryModel.crossings.length > 0) {
+      this.heading2(`Trust Boundary Crossings (${boundaryModel.crossings.length})`);
+      this.table(
+        [
+          { header: 'Data Flow', width: 0.25 },
+          { header: 'From', width: 0.2 },
+          { header: 'To', width: 0.2 },
+          { header: 'Boundaries Crossed', width: 0.35 },
+        ],
+        boundaryModel.crossings.map(crossing => [
+          nameOf(crossing.flowId),
+          nameOf(crossing.sourceId),
+          nameOf(crossing.targetId),
+          crossing.boundaryIds.map(nameOf).join(', '),
+        ])
+      );
+    }
+  }
+
+  private renderThreatAnalysis(elements: DiagramElement[], threatActors: ThreatActor[]): void {
+    const allThreats = this.getAllThreats(elements);
+
+    for (const severity of ['critical', 'high', 'medium', 'low'] as ThreatSeverity[]) {
+      const threats = allThreats.filter(t => t.severity === severity).sort(compareByRisk);
+      if (threats.length === 0) continue;
+
+      this.heading2(`${severity.toUpperCase()} Severity Threats (${threats.length})`);
+      this.table(
+        [
+          { header: 'Threat', width: 0.18 },
+          { header: 'Component', width: 0.13 },
+          { header: 'Severity', width: 0.11 },
+          { header: 'Risk', width: 0.07 },
+          { header: 'STRIDE', width: 0.13 },
+          { header: 'Description', width: 0.20 },
+          { header: 'Controls', width: 0.18 },
+        ],
+        threats.map(threat => {
+          const component = elements.find(e => (e.threats || []).includes(threat));
+          return [
+            threat.title,
+            component ? this.componentName(elements, component) : 'Unknown',
+            {
+              text: threat.severity.toUpperCase(),
+              fill: SEVERITY_COLORS[threat.severity],
+              color: threat.severity === 'medium' ? COLORS.heading : [255, 255, 255],
+            },
+            `${getRiskScore(threat).toFixed(1)}${threat.severityOverride ? ' *' : ''}`,
+            STRIDE_CATEGORIES[threat.strideCategory]?.name || threat.strideCategory,
+            threat.description,
+            threat.controls.length > 0
+              ? threat.controls.map(control => `[${control.implemented ? 'x' : ' '}] ${control.name}`).join('\n')
+              : 'No controls defined',
+          ];
+        })
+      );
+    }
+
+    if (allThreats.length === 0) {
+      this.paragraph('No threats have been identified in this model.');
+    }
+
+    this.renderLevelRollUp(elements);
+
+    if (threatActors.length > 0) {
+      this.heading2(`Threat Actor Profiles (${threatActors.length})`);
+      this.table(
+        [
+          { header: 'Name', width: 0.2 },
+          { header: 'Type', width: 0.14 },
+          { header: 'Skill Level', width: 0.12 },
+          { header: 'Motivation', width: 0.24 },
+          { header: 'Capabilities', width: 0.3 },
+        ],
+        threatActors.map(actor => [
+          actor.name,
+          actor.type,
+          actor.skill,
+          actor.motivation,
+          actor.capabilities.join(', '),
+        ])
+      );
+    }
+  }
+
+  private renderAssetInventory(elements: DiagramElement[]): void {
+    const allAssets = this.getAllAssets(elements);
+    if (allAssets.length === 0) {
+      this.paragraph('No assets have been catalogued in this model.');
+      return;
+    }
+
+    for (const value of ['critical', 'high', 'medium', 'low'] as const) {
+      const assets = allAssets.filter(a => a.value === value);
+      if (assets.length === 0) continue;
+
+      this.heading2(`${value.toUpperCase()} Value Assets (${assets.length})`);
+      this.table(
+        [
+          { header: 'Name', width: 0.2 },
+          { header: 'Type', width: 0.12 },
+          { header: 'Owner', width: 0.16 },
+          { header: 'Description', width: 0.32 },
+          { header: 'Component', width: 0.2 },
+        ],
+        assets.map(asset => {
+          const component = elements.find(e => (e.assets || []).includes(asset));
+          return [
+            asset.name,
+            asset.type,
+            asset.owner,
+            asset.description,
+            component ? component.name : 'Unknown',
+          ];
+        })
+      );
+    }
+  }
+
+  private renderRecommendations(elements: DiagramElement[]): void {
+    // Highest risk first, so the most urgent work leads each list
+    const allThreats = this.getAllThreats(elements).sort(compareByRisk);
+    const criticalThreats = allThreats.filter(t => t.severity === 'critical');
+    const unmitigatedThreats = allThreats.filter(t =>
+      t.controls.length === 0 || t.controls.every(c => !c.implemented)
+    );
+
+    if (criticalThreats.length > 0) {
+      this.heading2('Immediate Action Items');
+      this.calloutBox(
+        'The following critical threats require immediate attention:',
+        criticalThreats.map(threat =>
+          `- ${threat.title} - ${threat.description.substring(0, 100)}${threat.description.length > 100 ? '...' : ''}`
+        ),
+        COLORS.alert,
+        [220, 53, 69]
+      );
+    }
+
+    if (unmitigatedThreats.length > 0) {
+      this.heading2('Unmitigated Threats');
+      this.paragraph(`${unmitigatedThreats.length} threats lack adequate security controls:`, 10, 'bold');
+      this.bulletList([
+        ...unmitigatedThreats.slice(0, 15).map(threat => `${threat.title} (${threat.severity}, risk ${getRiskScore(threat).toFixed(1)})`),
+        ...(unmitigatedThreats.length > 15 ? [`... and ${unmitigatedThreats.length - 15} more`] : []),
+      ]);
+    }
+
+    this.heading2('General Recommendations');
+    this.bulletList([
+      'Implement security controls for all identified threats',
+      'Regular security assessments and penetration testing',
+      'Update threat model as the system evolves',
+      'Security awareness training for development teams',
+      'Implement defense-in-depth security architecture',
+      'Continuous monitoring and incident response capabilities',
+      'Security code reviews and secure development practices',
+      'Asset classification and data protection measures',
+    ]);
+  }
+
+  /**
+   * Insert the table of contents after the title page, once all
+   * section page numbers are known
+   */
+  private renderTableOfContents(): void {
+    this.doc.insertPage(2);
+    this.doc.setPage(2);
+    this.y = PAGE_MARGIN;
+    this.heading1('Table of Contents');
+
+    const fontSize = 11;
+    const rowHeight = fontSize * 2;
+    this.doc.setFontSize(fontSize);
+
+    this.sections.forEach((section, index) => {
+      // Every section moved one page down when the TOC page was inserted
+      const page = section.page + 1;
+      const label = `${index + 1}. ${section.title}`;
+      const pageLabel = String(page);
+      const textY = this.y + fontSize;
+
+      this.doc.setFont('helvetica', 'normal');
+      this.doc.setTextColor(...COLORS.text);
+      this.doc.text(this.sanitize(label), PAGE_MARGIN, textY);
+      this.doc.text(pageLabel, PAGE_MARGIN + this.contentWidth, textY, { align: 'right' });
+
+      // Dotted leader between title and page number
+      const labelEnd = PAGE_MARGIN + this.doc.getTextWidth(label) + 6;
+      const pageStart = PAGE_MARGIN + this.contentWidth - this.doc.getTextWidth(pageLabel) - 6;
+      this.doc.setDrawColor(...COLORS.border);
+      this.doc.setLineDashPattern([1, 2], 0);
+      this.doc.line(labelEnd, textY - 2, pageStart, textY - 2);
+      this.doc.setLineDashPattern([], 0);
+
+      this.doc.link(PAGE_MARGIN, this.y, this.contentWidth, rowHeight, { pageNumber: page });
+      this.y += rowHeight;
+    });
+  }
+
+  private renderPageNumbers(reportTitle: string): void {
+    const totalPages = this.doc.getNumberOfPages();
+
+    // Title page stays clean
+    for (let page = 2; page <= totalPages; page++) {
+      this.doc.setPage(page);
+      this.doc.setFont('helvetica', 'normal');
+      this.doc.setFontSize(8);
+      this.doc.setTextColor(...COLORS.muted);
+      const footerY = this.pageHeight - PAGE_MARGIN / 2;
+      this.doc.text(this.sanitize(reportTitle), PAGE_MARGIN, footerY);
+      this.doc.text(`Page ${page} of ${totalPages}`, PAGE_MARGIN + this.contentWidth, footerY, { align: 'right' });
+    }
+  }
+
+  // Utility methods
+
+  /**
+   * Standard PDF fonts only cover Latin-1 - drop emoji and other glyphs they cannot render
+   */
+  private sanitize(text: string): string {
+    return (text || '').replace(/[^\n\x20-\x7E\xA0-\xFF]/g, '');
+  }
+
+  /**
+   * Threats of each process with a sub-diagram, rolled up from every level below it
+   */
+  private renderLevelRollUp(elements: DiagramElement[]): void {
+    const processes = expandedProcesses(elements);
+    if (processes.length === 0) return;
+
+    this.heading2('Threats by Diagram Level');
+    this.table(
+      [
+        { header: 'Process', width: 0.34 },
+        { header: 'Level', width: 0.1 },
+        { header: 'Threats', width: 0.12 },
+        { header: 'Critical / High', width: 0.16 },
+        { header: 'Unmitigated', width: 0.14 },
+        { header: 'Residual Risk', width: 0.14 },
+      ],
+      processes.map(process => {
+        const risk = summarizeRisk([process, ...descendantsOf(elements, process.id)]);
+        return [
+          this.componentName(elements, process),
+          String(levelPath(elements, process.id).length),
+          String(risk.threats),
+          `${risk.bySeverity.critical} / ${risk.bySeverity.high}`,
+          String(risk.unmitigated),
+          risk.residualRisk.toFixed(1),
+        ];
+      })
+    );
+    this.paragraph("Each row counts the process's own threats and those of everything in its sub-diagrams.", 9, 'italic');
+  }
+
+  /** Element name, prefixed with the sub-diagrams it sits in (the standard fonts have no ›) */
+  private componentName(elements: DiagramElement[], element: DiagramElement): string {
+    return [...levelPath(elements, levelOf(element)), element].map(el => el.name).join(' > ');
+  }
+
+  private getAllThreats(elements: DiagramElement[]): Threat[] {
+    return elements.flatMap(el => el.threats || []);
+  }
+
+  private getAllAssets(elements: DiagramElement[]): Asset[] {
+    return elements.flatMap(el => el.assets || []);
+  }
+}
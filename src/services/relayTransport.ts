@@ -0,0 +1,354 @@
+// src/services/relayTransport.ts — Transport over a self-hosted WebSocket relay (src/relay/server.ts)
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+import { deriveRoomKey, encryptPayload, decryptPayload } from '../utils/roomCrypto';
+import type { RelayClientMessage, RelayServerMessage } from '../relay/protocol';
+import type { Transport, TransportOptions, TransportStats, DiagramMessage, PeerInfo, WireEnvelope } from './transport';
+
+/* -------------------------------------------------------------------------- */
+/* Options                                                                    */
+/* -------------------------------------------------------------------------- */
+export interface RelayTransportOptions extends TransportOptions {
+  relayUrl?: string;          // ws:// or wss:// URL of the relay
+  connectTimeoutMs?: number;  // give up on the first connection after this long
+  maxReconnectDelayMs?: number;
+}
+
+type Handler = (payload: any, fromUserId: string) => void;
+
+function now() { return Date.now(); }
+function uuid() { return crypto.randomUUID(); }
+
+/**
+ * Same WireEnvelope frames as the WebRTC transport, routed by a relay that
+ * only sees ciphertext. Reconnects with exponential backoff when the socket drops.
+ */
+export class WebSocketRelayTransport implements Transport {
+  readonly kind = 'relay' as const;
+
+  private socket: WebSocket | null = null;
+  private key: CryptoKey | null = null;
+  private roomId!: string;
+
+  private handlers = new Map<DiagramMessage['type'], Handler>();
+  private peers = new Map<string, PeerInfo>();  // by peerId (relay-level id)
+  private latency = new Map<string, number>();  // peerId -> last RTT
+
+  private myUserId!: string;
+  private myNodeId!: string;   // assigned by the relay on every join
+  private connectedAt = now();
+
+  private heartbeatInterval?: number;
+  private reconnectTimer?: number;
+  private reconnectAttempts = 0;
+  private closed = false;
+
+  private messageSent = 0;
+  private messageRecv = 0;
+  private networkErrors = 0;
+
+  private readonly options: Required<RelayTransportOptions>;
+
+  private constructor(opts?: RelayTransportOptions) {
+    const defaults: Required<RelayTransportOptions> = {
+      relayUrl: '',
+      autoRequestHistory: true,
+      heartbeatMs: 5_000,
+      connectTimeoutMs: 5_000,
+      maxReconnectDelayMs: 30_000,
+    };
+    this.options = { ...defaults, ...(opts || {}) };
+  }
+
+  /* --------------------------- bootstrap --------------------------------- */
+  static async connect(
+    roomId: string,
+    userId: string,
+    pass?: string,
+    opts?: RelayTransportOptions,
+  ): Promise<WebSocketRelayTransport> {
+    const self = new WebSocketRelayTransport(opts);
+    if (!/^wss?:\/\//.test(self.options.relayUrl)) {
+      throw new Error('Relay URL must start with ws:// or wss://');
+    }
+
+    self.roomId = roomId;
+    self.myUserId = userId;
+
+    if (pass) self.key = await deriveRoomKey(pass);
+
+    console.log('🛰️ Connecting to relay:', self.options.relayUrl);
+    await self.open();
+    self.startHeartbeats();
+
+    return self;
+  }
+
+  /**
+   * Open the socket and join the room; resolves on the relay's 'joined' reply.
+   */
+  private open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.options.relayUrl);
+      this.socket = socket;
+      let settled = false;
+
+      const timeout = window.setTimeout(() => {
+        if (settled) return;
+        settled = true;
+        socket.close();
+        reject(new Error(`Relay ${this.options.relayUrl} did not answer`));
+      }, this.options.connectTimeoutMs);
+
+      socket.onopen = () => {
+        this.write({ type: 'join', room: this.roomId });
+      };
+
+      socket.onmessage = (event: MessageEvent) => {
+        let message: RelayServerMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          this.networkErrors++;
+          return;
+        }
+        if (message.type === 'joined' && !settled) {
+          settled = true;
+          clearTimeout(timeout);
+          this.reconnectAttempts = 0;
+          this.myNodeId = message.peerId;
+          console.log(`✅ Joined relay room with ${message.peers.length} peer(s)`);
+          message.peers.forEach(peerId => this.onPeerJoin(peerId));
+          resolve();
+          return;
+        }
+        this.receive(message);
+      };
+
+      socket.onerror = () => {
+        this.networkErrors++;
+      };
+
+      socket.onclose = () => {
+        if (this.socket !== socket) return;
+        this.socket = null;
+        if (!settled) {
+          settled = true;
+          clearTimeout(timeout);
+          reject(new Error(`Cannot reach relay ${this.options.relayUrl}`));
+          return;
+        }
+        // Peers are re-announced after rejoining
+        for (const peerId of Array.from(this.peers.keys())) this.onPeerLeave(peerId);
+        this.scheduleReconnect();
+      };
+    });
+  }
+
+  private scheduleReconnect() {
+    if (this.closed) return;
+    const delay = Math.min(1_000 * 2 ** this.reconnectAttempts, this.options.maxReconnectDelayMs);
+    this.reconnectAttempts++;
+    console.warn(`⚠️ Relay connection lost, reconnecting in ${delay}ms...`);
+    this.reconnectTimer = window.setTimeout(() => {
+      this.open().catch(() => this.scheduleReconnect());
+    }, delay);
+  }
+
+  /* --------------------------- receiving --------------------------------- */
+  private async receive(message: RelayServerMessage) {
+    switch (message.type) {
+      case 'peer-join':
+        this.onPeerJoin(message.peerId);
+        return;
+      case 'peer-leave':
+        this.onPeerLeave(message.peerId);
+        return;
+      case 'error':
+        console.warn('⚠️ Relay error:', message.message);
+        this.networkErrors++;
+        return;
+      case 'frame':
+        await this.receiveFrame(message.frame, message.from);
+        return;
+    }
+  }
+
+  private async receiveFrame(env: WireEnvelope, peerId: string) {
+    try {
+      if (!env || env.v !== 1 || !env.kind) return;
+
+      if (env.kind === 'hello') {
+        const info = env.meta as PeerInfo;
+        const isNew = !this.peers.has(peerId);
+        this.peers.set(peerId, {
+          nodeId: peerId,
+          userId: info.userId,
+          connectionQuality: this.composeMetrics(peerId),
+          capabilities: info.capabilities || [],
+          joinedAt: info.joinedAt || now(),
+          lastSeen: now(),
+        });
+        this.emit('user_presence', { id: info.userId, ts: env.ts }, info.userId);
+
+        if (isNew && this.options.autoRequestHistory && this.peers.size === 1) {
+          this.send('request_history', { since: 0 });
+        }
+        return;
+      }
+
+      if (env.kind === 'ping') {
+        this.frame({ v: 1, id: uuid(), kind: 'pong', ts: now(), meta: { t: env.meta?.t } }, peerId);
+        return;
+      }
+
+      if (env.kind === 'pong') {
+        this.latency.set(peerId, now() - (env.meta?.t as number));
+        this.touchPeer(peerId);
+        return;
+      }
+
+      if (env.kind === 'app') {
+        let msg: DiagramMessage;
+        if (this.key) {
+          try {
+            msg = await decryptPayload<DiagramMessage>(env.payload!, this.key);
+          } catch {
+            this.networkErrors++; // mismatched passphrase, etc.
+            return;
+          }
+        } else {
+          msg = JSON.parse(env.payload as string);
+        }
+
+        this.messageRecv++;
+        this.touchPeer(peerId);
+        this.emit(msg.type, msg.data, this.peers.get(peerId)?.userId ?? msg.userId);
+      }
+    } catch {
+      this.networkErrors++;
+    }
+  }
+
+  /* --------------------------- awareness & lifecycle --------------------- */
+  private onPeerJoin(peerId: string) {
+    this.frame({
+      v: 1,
+      id: uuid(),
+      kind: 'hello',
+      ts: now(),
+      meta: {
+        nodeId: this.myNodeId,
+        userId: this.myUserId,
+        capabilities: ['events', 'history', 'presence'],
+        joinedAt: this.connectedAt,
+        lastSeen: now(),
+      } as PeerInfo,
+    }, peerId);
+  }
+
+  private onPeerLeave(peerId: string) {
+    const info = this.peers.get(peerId);
+    this.peers.delete(peerId);
+    this.latency.delete(peerId);
+    if (info) {
+      this.emit('user_disconnect', { userId: info.userId }, info.userId);
+    }
+  }
+
+  private touchPeer(peerId: string) {
+    const info = this.peers.get(peerId);
+    if (info) {
+      info.lastSeen = now();
+      info.connectionQuality = this.composeMetrics(peerId);
+    }
+  }
+
+  private composeMetrics(peerId: string): PeerInfo['connectionQuality'] {
+    const latency = this.latency.get(peerId) ?? 0;
+    const reliability: PeerInfo['connectionQuality']['reliability'] =
+      latency < 80 ? 'excellent'
+      : latency < 150 ? 'good'
+      : latency < 350 ? 'poor'
+      : 'unstable';
+    return { latency, packetLoss: 0, bandwidth: 0, reliability, lastUpdate: now() };
+  }
+
+  private startHeartbeats() {
+    const run = () => {
+      this.frame({ v: 1, id: uuid(), kind: 'ping', ts: now(), meta: { t: now() } });
+      this.heartbeatInterval = window.setTimeout(run, this.options.heartbeatMs);
+    };
+    run();
+  }
+
+  /* --------------------------- sending ----------------------------------- */
+  private write(message: RelayClientMessage) {
+    if (this.socket?.readyState !== WebSocket.OPEN) return false;
+    try {
+      this.socket.send(JSON.stringify(message));
+      return true;
+    } catch {
+      this.networkErrors++;
+      return false;
+    }
+  }
+
+  private frame(env: WireEnvelope, peerId?: string) {
+    return this.write({ type: 'frame', to: peerId, frame: env });
+  }
+
+  /* --------------------------- public API -------------------------------- */
+  on<T = unknown>(type: DiagramMessage['type'], handler: (payload: T, from: string) => void) {
+    this.handlers.set(type, handler as Handler);
+  }
+
+  async send(type: DiagramMessage['type'], data: unknown, peerId?: string) {
+    const msg: DiagramMessage = {
+      type,
+      data,
+      timestamp: now(),
+      userId: this.myUserId,
+    };
+    const payload = this.key ? await encryptPayload(msg, this.key) : JSON.stringify(msg);
+    const env: WireEnvelope = { v: 1, id: uuid(), kind: 'app', ts: now(), appType: type, payload };
+    if (this.frame(env, peerId)) this.messageSent++;
+  }
+
+  /**
+   * Read-only snapshot of current peers.
+   */
+  getPeers(): PeerInfo[] {
+    return Array.from(this.peers.values());
+  }
+
+  getStats(): TransportStats {
+    return {
+      connectedPeers: this.peers.size,
+      messagesSent: this.messageSent,
+      messagesReceived: this.messageRecv,
+      networkErrors: this.networkErrors,
+    };
+  }
+
+  /**
+   * Close the socket for good and clean up timers.
+   */
+  disconnect() {
+    console.log('🔌 Disconnecting from relay...');
+    this.closed = true;
+    if (this.heartbeatInterval) clearTimeout(this.heartbeatInterval);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    const socket = this.socket;
+    this.socket = null;
+    try { socket?.close(); } catch {}
+    this.handlers.clear();
+    this.peers.clear();
+    this.latency.clear();
+  }
+
+  /* --------------------------- helpers ----------------------------------- */
+  private emit(type: DiagramMessage['type'], data: any, from = '') {
+    this.handlers.get(type)?.(data, from);
+  }
+}
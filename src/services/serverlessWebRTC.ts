@@ -3,6 +3,10 @@
 
 import type { DiagramEvent } from '../state/DiagramContext';
 import { joinRoom as joinTorrentRoom } from 'trystero/torrent';
+import { deriveRoomKey, encryptPayload, decryptPayload } from '../utils/roomCrypto';
+import type { Transport, TransportOptions, DiagramMessage, ConnectionMetrics, PeerInfo, WireEnvelope } from './transport';
+
+export type { DiagramMessage, ConnectionMetrics, PeerInfo } from './transport';
 
 // Global connection manager to prevent socket exhaustion
 class WebRTCConnectionManager {
@@ -75,102 +79,6 @@ function fallbackStun(): RTCIceServer[] {
   ];
 }
 
-/* -------------------------------------------------------------------------- */
-/* Optional end-to-end AES-GCM encryption (application-level)                 */
-/* -------------------------------------------------------------------------- */
-const SALT = new TextEncoder().encode('ModelkaSalt');
-
-async function derive(pass: string) {
-  const base = await crypto.subtle.importKey(
-    'raw',
-    new TextEncoder().encode(pass),
-    'PBKDF2',
-    false,
-    ['deriveKey'],
-  );
-  return crypto.subtle.deriveKey(
-    { name: 'PBKDF2', salt: SALT, iterations: 100_000, hash: 'SHA-256' },
-    base,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['encrypt', 'decrypt'],
-  );
-}
-
-async function enc(obj: unknown, key: CryptoKey) {
-  const iv = crypto.getRandomValues(new Uint8Array(12));
-  const pt = new TextEncoder().encode(JSON.stringify(obj));
-  const ct = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, pt);
-  const blob = new Uint8Array(iv.byteLength + ct.byteLength);
-  blob.set(iv, 0);
-  blob.set(new Uint8Array(ct), iv.byteLength);
-  return btoa(String.fromCharCode(...blob));
-}
-
-async function dec<T>(b64: string, key: CryptoKey): Promise<T> {
-  const raw = Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
-  const iv = raw.slice(0, 12);
-  const ct = raw.slice(12);
-  const pt = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ct);
-  return JSON.parse(new TextDecoder().decode(pt));
-}
-
-/* -------------------------------------------------------------------------- */
-/* Message shapes                                                             */
-/* -------------------------------------------------------------------------- */
-export interface DiagramMessage {
-  type:
-    | 'events'
-    | 'request_history'
-    | 'user_presence'
-    | 'user_disconnect'
-    | 'full_history'
-    | 'raft_message'
-    | 'distributed_operation'
-    | 'conflict_resolution'
-    | 'network_partition'
-    | 'consensus_message'
-    | 'diagram_update';
-  data: unknown;
-  userId: string;
-  timestamp: number;
-}
-
-type SystemKind = 'hello' | 'ping' | 'pong' | 'app';
-
-interface WireEnvelope {
-  v: 1;
-  id: string; // message id
-  kind: SystemKind;
-  ts: number;
-  to?: string;
-  // For kind === 'app'
-  appType?: DiagramMessage['type'];
-  payload?: string; // base64 AES-GCM ciphertext or JSON string (if no key)
-  // For kind === 'hello'/'ping'/'pong'
-  meta?: any;
-}
-
-/* -------------------------------------------------------------------------- */
-/* Metrics & peer state                                                       */
-/* -------------------------------------------------------------------------- */
-export interface ConnectionMetrics {
-  latency: number;          // ms (EMA)
-  packetLoss: number;       // 0..1 (from pings over last window)
-  bandwidth: number;        // kB/s (EMA of bytes/s both directions)
-  reliability: 'excellent' | 'good' | 'poor' | 'unstable';
-  lastUpdate: number;
-}
-
-export interface PeerInfo {
-  nodeId: string;   // transport-level peer id
-  userId: string;   // app logical user id
-  connectionQuality: ConnectionMetrics;
-  capabilities: string[];
-  joinedAt: number;
-  lastSeen: number;
-}
-
 type Handler = (payload: any, fromUserId: string) => void;
 
 function now() { return Date.now(); }
@@ -226,12 +134,10 @@ class RollingCounter {
 /* -------------------------------------------------------------------------- */
 /* Options                                                                    */
 /* -------------------------------------------------------------------------- */
-export interface ServerlessWebRTCOptions {
+export interface ServerlessWebRTCOptions extends TransportOptions {
   trackers?: string[];
   iceServers?: RTCIceServer[];
   appId?: string;
-  autoRequestHistory?: boolean; // request history when first peer joins
-  heartbeatMs?: number;         // ping interval
   sendThrottleBytes?: number;   // max bytes per flush
   maxQueueSize?: number;        // backpressure guard
 }
@@ -239,7 +145,8 @@ export interface ServerlessWebRTCOptions {
 /* -------------------------------------------------------------------------- */
 /* Transport                                                                  */
 /* -------------------------------------------------------------------------- */
-export class ServerlessWebRTC {
+export class ServerlessWebRTC implements Transport {
+  readonly kind = 'webrtc' as const;
   private room!: ReturnType<typeof joinTorrentRoom>;
   private key: CryptoKey | null = null;
 
@@ -303,7 +210,7 @@ export class ServerlessWebRTC {
     // Register connection with manager (this will cleanup old ones if needed)
     manager.register(self);
 
-    if (pass) self.key = await derive(pass);
+    if (pass) self.key = await deriveRoomKey(pass);
 
     const { trackers, iceServers } = self.options;
 
@@ -415,7 +322,7 @@ export class ServerlessWebRTC {
 
         if (self.key) {
           try {
-            msg = await dec<DiagramMessage>(env.payload!, self.key);
+            msg = await decryptPayload<DiagramMessage>(env.payload!, self.key);
           } catch {
             self.networkErrors++; // mismatched passphrase, etc.
             return;
@@ -603,7 +510,7 @@ export class ServerlessWebRTC {
       userId: this.myUserId,
     };
     let payload: string;
-    if (this.key) payload = await enc(msg, this.key);
+    if (this.key) payload = await encryptPayload(msg, this.key);
     else payload = JSON.stringify(msg);
     const env: WireEnvelope = { v: 1, id: uuid(), kind: 'app', ts: now(), appType: type, payload };
     this.messageSent++;
@@ -1,4 +1,5 @@
 import { DiagramElement, ThreatActor } from '../types/diagram';
+import { encryptedStorage } from '../state/encryptedStorage';
 
 export interface SessionData {
   elements: DiagramElement[];
@@ -30,7 +31,7 @@ export class StorageService {
    */
   private static getSessionIndex(): SessionIndex {
     try {
-      const storedIndex = localStorage.getItem(this.SESSION_INDEX_KEY);
+      const storedIndex = encryptedStorage.getItem(this.SESSION_INDEX_KEY);
       if (!storedIndex) {
         return { sessions: [], currentSessionId: null };
       }
@@ -46,7 +47,7 @@ export class StorageService {
    */
   private static saveSessionIndex(index: SessionIndex): void {
     try {
-      localStorage.setItem(this.SESSION_INDEX_KEY, JSON.stringify(index));
+      encryptedStorage.setItem(this.SESSION_INDEX_KEY, JSON.stringify(index));
     } catch (error) {
       console.error('Failed to save session index:', error);
     }
@@ -98,7 +99,7 @@ export class StorageService {
       };
       
       // Save session data to localStorage
-      localStorage.setItem(`${this.SESSIONS_KEY}-${id}`, JSON.stringify(sessionData));
+      encryptedStorage.setItem(`${this.SESSIONS_KEY}-${id}`, JSON.stringify(sessionData));
       
       // Update session index
       const existingIndex = index.sessions.findIndex(s => s.id === id);
@@ -137,7 +138,7 @@ export class StorageService {
    */
   static loadSession(sessionId: string): SessionData | null {
     try {
-      const storedData = localStorage.getItem(`${this.SESSIONS_KEY}-${sessionId}`);
+      const storedData = encryptedStorage.getItem(`${this.SESSIONS_KEY}-${sessionId}`);
       if (!storedData) {
         return null;
       }
@@ -191,7 +192,7 @@ export class StorageService {
   static deleteSession(sessionId: string): void {
     try {
       // Remove session data
-      localStorage.removeItem(`${this.SESSIONS_KEY}-${sessionId}`);
+      encryptedStorage.removeItem(`${this.SESSIONS_KEY}-${sessionId}`);
       
       // Update index
       const index = this.getSessionIndex();
@@ -218,7 +219,7 @@ export class StorageService {
       if (!sessionData) return;
       
       sessionData.name = newName;
-      localStorage.setItem(`${this.SESSIONS_KEY}-${sessionId}`, JSON.stringify(sessionData));
+      encryptedStorage.setItem(`${this.SESSIONS_KEY}-${sessionId}`, JSON.stringify(sessionData));
       
       // Update index
       const index = this.getSessionIndex();
@@ -0,0 +1,816 @@
+// src/services/threatDragonConverter.ts - OWASP Threat Dragon (v1 and v2) import/export
+import { DiagramElement, STRIDEElementType, Threat, ThreatSeverity, Technology } from '../types/diagram';
+
+/**
+ * Key under which Threat Dragon fields without a Modelka equivalent are kept
+ * in `DiagramElement.extensions` / `Threat.extensions`
+ */
+export const THREAT_DRAGON_EXTENSION = 'threatDragon';
+
+/**
+ * Key under which Modelka fields with no Threat Dragon equivalent are written
+ * into exported cells (`data` in v2) and threats, and read back on import
+ */
+export const MODELKA_KEY = 'modelka';
+
+/** Element fields kept under MODELKA_KEY */
+const MODELKA_ELEMENT_FIELDS = ['dataType', 'dataDescription', 'technologies', 'assets', 'notes'] as const;
+
+/** Threat fields kept under MODELKA_KEY - `controls` in full, not folded into `mitigation` */
+const MODELKA_THREAT_FIELDS = ['controls', 'risk', 'technology', 'isActionItem', 'generatedBy', 'severityOverride'] as const;
+
+export type ThreatDragonVersion = 1 | 2;
+
+/**
+ * Model-level data (summary, contributors, diagram headers, unsupported cells).
+ * Carried on every imported element so it survives editing and replication.
+ */
+export interface ThreatDragonModelInfo {
+  schema: ThreatDragonVersion; // Cells and unmapped data are only reused when exporting to the same schema
+  version?: string;
+  summary: Record<string, any>;
+  detail: Record<string, any>; // everything except `diagrams`
+  diagrams: Array<{ id: any; header: Record<string, any>; offsetY: number; unmappedCells: any[] }>;
+}
+
+export interface ThreatDragonElementExtension {
+  model: ThreatDragonModelInfo;
+  diagramId: any;
+  /** Original cell minus the fields mapped onto DiagramElement */
+  cell: Record<string, any>;
+  /** Original boundary curve, kept when a v1/v2 boundary line is imported as a box */
+  curve?: { source: { x: number; y: number }; target: { x: number; y: number }; vertices: Array<{ x: number; y: number }>; box: { x: number; y: number; width: number; height: number } };
+}
+
+export interface ThreatDragonImportResult {
+  version: ThreatDragonVersion;
+  elements: DiagramElement[];
+  warnings: string[];
+}
+
+export interface ThreatDragonExportOptions {
+  version?: ThreatDragonVersion;
+  title?: string;
+  owner?: string;
+  description?: string;
+}
+
+const CELL_TYPE_MAP: Record<string, STRIDEElementType> = {
+  'tm.Actor': 'external-entity',
+  'tm.Process': 'process',
+  'tm.Store': 'data-store',
+  'tm.Flow': 'data-flow',
+  'tm.Boundary': 'trust-boundary',
+  'tm.BoundaryBox': 'trust-boundary',
+};
+
+const V2_SHAPES: Record<Exclude<STRIDEElementType, 'data-flow'>, { shape: string; type: string }> = {
+  'external-entity': { shape: 'actor', type: 'tm.Actor' },
+  'process': { shape: 'process', type: 'tm.Process' },
+  'data-store': { shape: 'store', type: 'tm.Store' },
+  'trust-boundary': { shape: 'trust-boundary-box', type: 'tm.BoundaryBox' },
+};
+
+const V1_TYPES: Record<STRIDEElementType, string> = {
+  'external-entity': 'tm.Actor',
+  'process': 'tm.Process',
+  'data-store': 'tm.Store',
+  'data-flow': 'tm.Flow',
+  'trust-boundary': 'tm.Boundary',
+};
+
+/** Threat Dragon threat types (STRIDE, CIA, LINDDUN) normalized to a STRIDE category */
+const THREAT_TYPE_MAP: Record<string, Threat['strideCategory']> = {
+  spoofing: 'spoofing',
+  tampering: 'tampering',
+  repudiation: 'repudiation',
+  informationdisclosure: 'information-disclosure',
+  denialofservice: 'denial-of-service',
+  elevationofprivilege: 'elevation-of-privilege',
+  // CIA
+  confidentiality: 'information-disclosure',
+  integrity: 'tampering',
+  availability: 'denial-of-service',
+  // LINDDUN
+  linkability: 'information-disclosure',
+  identifiability: 'information-disclosure',
+  nonrepudiation: 'repudiation',
+  detectability: 'information-disclosure',
+  disclosureofinformation: 'information-disclosure',
+  unawareness: 'information-disclosure',
+  noncompliance: 'repudiation',
+};
+
+const STRIDE_TYPE_NAMES: Record<Threat['strideCategory'], string> = {
+  'spoofing': 'Spoofing',
+  'tampering': 'Tampering',
+  'repudiation': 'Repudiation',
+  'information-disclosure': 'Information disclosure',
+  'denial-of-service': 'Denial of service',
+  'elevation-of-privilege': 'Elevation of privilege',
+};
+
+const SEVERITIES: ThreatSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+/** Vertical gap between diagrams when a multi-diagram model is laid out on one canvas */
+const DIAGRAM_SPACING = 200;
+
+/** Minimum thickness of a box built from a boundary line */
+const CURVE_PADDING = 20;
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const generateId = (prefix: string) =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+
+function pick(source: Record<string, any>, keys: readonly string[]): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const key of keys) {
+    if (source[key] !== undefined) result[key] = source[key];
+  }
+  return result;
+}
+
+function omit(source: Record<string, any>, keys: string[]): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [key, value] of Object.entries(source || {})) {
+    if (!keys.includes(key)) result[key] = value;
+  }
+  return result;
+}
+
+/**
+ * Converts between OWASP Threat Dragon JSON models and Modelka elements.
+ * Fields with no Modelka equivalent are preserved under `extensions.threatDragon`
+ * and written back on export; Modelka fields Threat Dragon has no place for
+ * travel under a `modelka` key in the exported cells and threats. Models
+ * round-trip either way without losing data.
+ */
+export class ThreatDragonConverter {
+  /**
+   * Check whether parsed JSON looks like a Threat Dragon model
+   */
+  static isThreatDragonModel(data: any): boolean {
+    return !!data && typeof data === 'object' &&
+      !!data.summary && !!data.detail && Array.isArray(data.detail.diagrams);
+  }
+
+  /**
+   * Detect the schema generation: v2 models carry a `version` and X6 `cells`,
+   * v1 models nest JointJS cells under `diagramJson`
+   */
+  static detectVersion(data: any): ThreatDragonVersion {
+    if (typeof data.version === 'string' && data.version.startsWith('2')) return 2;
+    const first = data.detail.diagrams[0];
+    return first && Array.isArray(first.cells) ? 2 : 1;
+  }
+
+  /**
+   * Import a Threat Dragon model. All diagrams are placed on one canvas, stacked vertically.
+   */
+  importModel(data: any): ThreatDragonImportResult {
+    if (!ThreatDragonConverter.isThreatDragonModel(data)) {
+      throw new Error('Not a Threat Dragon model: missing summary or detail.diagrams');
+    }
+
+    const version = ThreatDragonConverter.detectVersion(data);
+    const warnings: string[] = [];
+    const elements: DiagramElement[] = [];
+    const model: ThreatDragonModelInfo = {
+      schema: version,
+      version: data.version,
+      summary: data.summary,
+      detail: omit(data.detail, ['diagrams']),
+      diagrams: [],
+    };
+
+    let offsetY = 0;
+    for (const diagram of data.detail.diagrams) {
+      const cells: any[] = version === 2 ? diagram.cells || [] : diagram.diagramJson?.cells || [];
+      const header = omit(diagram, version === 2 ? ['cells'] : ['diagramJson']);
+      const diagramInfo = { id: diagram.id, header, offsetY, unmappedCells: [] as any[] };
+      model.diagrams.push(diagramInfo);
+
+      const diagramElements: DiagramElement[] = [];
+      const flows: any[] = [];
+
+      for (const cell of cells) {
+        const cellType = version === 2 ? cell.data?.type : cell.type;
+        const type = CELL_TYPE_MAP[cellType];
+
+        if (!type) {
+          diagramInfo.unmappedCells.push(cell);
+          if (cellType !== 'tm.Text') {
+            warnings.push(`Unsupported cell type "${cellType ?? cell.shape}" preserved but not shown`);
+          }
+          continue;
+        }
+        if (type === 'data-flow') {
+          flows.push(cell);
+          continue;
+        }
+
+        const element = version === 2
+          ? this.importNodeV2(cell, type, offsetY, warnings)
+          : this.importNodeV1(cell, type, offsetY, warnings);
+        element.extensions = {
+          ...element.extensions,
+          [THREAT_DRAGON_EXTENSION]: { ...element.extensions?.[THREAT_DRAGON_EXTENSION], model, diagramId: diagram.id },
+        };
+        diagramElements.push(element);
+      }
+
+      // Flows last - they need their endpoints
+      for (const cell of flows) {
+        const flow = version === 2 ? this.importFlowV2(cell, diagramElements) : this.importFlowV1(cell, diagramElements);
+        if (!flow) {
+          diagramInfo.unmappedCells.push(cell);
+          warnings.push(`Data flow "${this.cellName(cell, version) || cell.id}" is not connected at both ends and was not imported`);
+          continue;
+        }
+        flow.extensions = {
+          ...flow.extensions,
+          [THREAT_DRAGON_EXTENSION]: { ...flow.extensions?.[THREAT_DRAGON_EXTENSION], model, diagramId: diagram.id },
+        };
+        diagramElements.push(flow);
+      }
+
+      elements.push(...diagramElements);
+
+      const shapes = diagramElements.filter(el => el.type !== 'data-flow');
+      if (shapes.length > 0) {
+        offsetY = Math.max(...shapes.map(el => el.position.y + el.size.height)) + DIAGRAM_SPACING;
+      }
+    }
+
+    return { version, elements, warnings };
+  }
+
+  /**
+   * Export elements to a Threat Dragon model (v2 by default)
+   */
+  exportModel(elements: DiagramElement[], options: ThreatDragonExportOptions = {}): Record<string, any> {
+    const version = options.version ?? 2;
+    const model = this.findModelInfo(elements);
+
+    // Group elements back into their original diagrams; new elements join the first one
+    const diagramInfos = model?.diagrams.length ? model.diagrams : [{ id: 0, header: {}, offsetY: 0, unmappedCells: [] }];
+    const groups = new Map<any, DiagramElement[]>(diagramInfos.map(d => [d.id, []]));
+    for (const element of elements) {
+      const diagramId = this.extensionOf(element)?.diagramId;
+      const key = groups.has(diagramId) ? diagramId : diagramInfos[0].id;
+      groups.get(key)!.push(element);
+    }
+
+    const diagrams = diagramInfos.map((info, index) => {
+      const group = groups.get(info.id) || [];
+      const cells = version === 2
+        ? this.exportCellsV2(group, info.offsetY)
+        : this.exportCellsV1(group, info.offsetY);
+      // Cells not shown in Modelka (text blocks, dangling flows) only make sense in their own schema
+      const allCells = model?.schema === version ? [...cells, ...info.unmappedCells] : cells;
+
+      const header: Record<string, any> = {
+        id: index,
+        title: options.title || 'Modelka diagram',
+        diagramType: 'STRIDE',
+        ...info.header,
+      };
+
+      return version === 2
+        ? { ...header, version: header.version || '2.2.0', cells: allCells }
+        : { ...omit(header, ['version']), diagramJson: { cells: allCells } };
+    });
+
+    const threatCount = elements.reduce((count, el) => count + (el.threats?.length || 0), 0);
+    const summary = {
+      title: options.title || 'Modelka threat model',
+      owner: options.owner || '',
+      description: options.description || '',
+      id: 0,
+      ...model?.summary,
+      ...(options.title ? { title: options.title } : {}),
+    };
+    const detail = {
+      contributors: [],
+      reviewer: '',
+      ...model?.detail,
+      diagrams,
+      ...(version === 2 ? { diagramTop: diagrams.length, threatTop: threatCount } : {}),
+    };
+
+    return version === 2
+      ? { version: model?.version?.startsWith('2') ? model.version : '2.2.0', summary, detail }
+      : { summary, detail };
+  }
+
+  /* ---------- import helpers ---------- */
+
+  private importNodeV2(cell: any, type: STRIDEElementType, offsetY: number, warnings: string[]): DiagramElement {
+    const data = cell.data || {};
+    const name = data.name ?? cell.attrs?.text?.text ?? '';
+    const element = this.createElement(cell.id, type, name, data.description || '');
+
+    if (cell.shape === 'trust-boundary-curve' || data.type === 'tm.Boundary') {
+      this.applyCurve(element, cell.source, cell.target, cell.vertices || [], offsetY, warnings);
+    } else {
+      element.position = { x: cell.position?.x ?? 0, y: (cell.position?.y ?? 0) + offsetY };
+      element.size = { width: cell.size?.width ?? 100, height: cell.size?.height ?? 60 };
+    }
+
+    element.threats = (data.threats || []).map((threat: any) => this.importThreat(threat, 2));
+    this.restoreModelkaFields(element, data[MODELKA_KEY]);
+    element.extensions = {
+      [THREAT_DRAGON_EXTENSION]: {
+        ...this.extensionOf(element),
+        cell: {
+          ...omit(cell, ['id', 'position', 'size', 'data', 'source', 'target', 'vertices']),
+          data: omit(data, ['name', 'description', 'threats', 'hasOpenThreats', MODELKA_KEY]),
+        },
+      },
+    };
+    return element;
+  }
+
+  private importNodeV1(cell: any, type: STRIDEElementType, offsetY: number, warnings: string[]): DiagramElement {
+    // Boundaries are links in v1 and carry their name as a label, like flows
+    const name = this.cellName(cell, 1) ?? cell.name ?? '';
+    const element = this.createElement(cell.id, type, name, cell.description || '');
+
+    if (cell.type === 'tm.Boundary') {
+      this.applyCurve(element, cell.source, cell.target, cell.vertices || [], offsetY, warnings);
+    } else {
+      element.position = { x: cell.position?.x ?? 0, y: (cell.position?.y ?? 0) + offsetY };
+      element.size = { width: cell.size?.width ?? 100, height: cell.size?.height ?? 60 };
+    }
+
+    element.threats = (cell.threats || []).map((threat: any) => this.importThreat(threat, 1));
+    this.restoreModelkaFields(element, cell[MODELKA_KEY]);
+    element.extensions = {
+      [THREAT_DRAGON_EXTENSION]: {
+        ...this.extensionOf(element),
+        cell: omit(cell, ['id', 'type', 'position', 'size', 'description', 'threats', 'hasOpenThreats', 'source', 'target', 'vertices', MODELKA_KEY]),
+      },
+    };
+    return element;
+  }
+
+  private importFlowV2(cell: any, elements: DiagramElement[]): DiagramElement | null {
+    const data = cell.data || {};
+    const source = elements.find(el => el.id === cell.source?.cell);
+    const target = elements.find(el => el.id === cell.target?.cell);
+    if (!source || !target) return null;
+
+    const label = Array.isArray(cell.labels) && typeof cell.labels[0] === 'string' ? cell.labels[0] : undefined;
+    const flow = this.createFlow(cell.id, data.name ?? label ?? '', data.description || '', source, target, data.protocol);
+    flow.threats = (data.threats || []).map((threat: any) => this.importThreat(threat, 2));
+    this.restoreModelkaFields(flow, data[MODELKA_KEY], data.protocol);
+    flow.extensions = {
+      [THREAT_DRAGON_EXTENSION]: {
+        cell: {
+          ...omit(cell, ['id', 'source', 'target', 'data']),
+          data: omit(data, ['name', 'description', 'threats', 'hasOpenThreats', 'protocol', MODELKA_KEY]),
+          sourcePort: cell.source?.port,
+          targetPort: cell.target?.port,
+        },
+      },
+    };
+    return flow;
+  }
+
+  private importFlowV1(cell: any, elements: DiagramElement[]): DiagramElement | null {
+    const source = elements.find(el => el.id === cell.source?.id);
+    const target = elements.find(el => el.id === cell.target?.id);
+    if (!source || !target) return null;
+
+    const flow = this.createFlow(cell.id, this.cellName(cell, 1) || '', cell.description || '', source, target, cell.protocol);
+    flow.threats = (cell.threats || []).map((threat: any) => this.importThreat(threat, 1));
+    this.restoreModelkaFields(flow, cell[MODELKA_KEY], cell.protocol);
+    flow.extensions = {
+      [THREAT_DRAGON_EXTENSION]: {
+        cell: omit(cell, ['id', 'type', 'source', 'target', 'description', 'threats', 'hasOpenThreats', 'protocol', MODELKA_KEY]),
+      },
+    };
+    return flow;
+  }
+
+  private importThreat(threat: any, version: ThreatDragonVersion): Threat {
+    const typeKey = String(threat.type || '').toLowerCase().replace(/[^a-z]/g, '');
+    const strideCategory = THREAT_TYPE_MAP[typeKey] || 'information-disclosure';
+    const severityKey = String(threat.severity || '').toLowerCase() as ThreatSeverity;
+    const severity = SEVERITIES.includes(severityKey) ? severityKey : 'medium';
+    const status = threat.status || 'Open';
+
+    // Controls exported by Modelka come back in full, unless the mitigation was edited in Threat Dragon
+    const saved = threat[MODELKA_KEY] && typeof threat[MODELKA_KEY] === 'object' ? threat[MODELKA_KEY] : {};
+    const savedControls = Array.isArray(saved.controls) && this.mitigationOf(saved.controls) === (threat.mitigation || '')
+      ? saved.controls
+      : undefined;
+    const controls = savedControls ?? (threat.mitigation
+      ? [{
+          id: generateId('control'),
+          name: 'Mitigation',
+          description: threat.mitigation,
+          implemented: status === 'Mitigated',
+        }]
+      : []);
+
+    return {
+      id: (version === 2 ? threat.id : threat.threatId) || generateId('threat'),
+      title: threat.title || 'Untitled threat',
+      description: threat.description || '',
+      severity,
+      strideCategory,
+      isActionItem: false,
+      ...pick(saved, MODELKA_THREAT_FIELDS),
+      controls,
+      extensions: {
+        [THREAT_DRAGON_EXTENSION]: {
+          ...omit(threat, ['id', 'threatId', 'title', 'description', 'mitigation', MODELKA_KEY]),
+          // Remember what the type/severity mapped to, so unchanged values export verbatim
+          mappedCategory: strideCategory,
+          mappedSeverity: severity,
+        },
+      },
+    };
+  }
+
+  private createElement(id: string, type: STRIDEElementType, name: string, description: string): DiagramElement {
+    return {
+      id: id || generateId(type),
+      type,
+      name,
+      position: { x: 0, y: 0 },
+      size: { width: 100, height: 60 },
+      threats: [],
+      technologies: [],
+      notes: '',
+      description,
+      assets: [],
+    };
+  }
+
+  private createFlow(
+    id: string,
+    name: string,
+    description: string,
+    source: DiagramElement,
+    target: DiagramElement,
+    protocol?: string
+  ): DiagramElement {
+    const flow = this.createElement(id, 'data-flow', name, description);
+    const technologies: Technology[] = protocol
+      ? [{ id: generateId('tech'), name: protocol, category: 'network', threats: [] }]
+      : [];
+    const { sourceEdge, targetEdge } = this.facingEdges(source, target);
+
+    return {
+      ...flow,
+      size: { width: 0, height: 0 },
+      sourceId: source.id,
+      targetId: target.id,
+      sourceEdge,
+      targetEdge,
+      sourceEdgeOffset: 0.5,
+      targetEdgeOffset: 0.5,
+      dataType: '',
+      dataDescription: '',
+      technologies,
+    };
+  }
+
+  /**
+   * Put back the Modelka fields an export wrote into the cell. A protocol
+   * changed in Threat Dragon replaces the flow's network technology.
+   */
+  private restoreModelkaFields(element: DiagramElement, saved: any, protocol?: string): void {
+    if (!saved || typeof saved !== 'object') return;
+    Object.assign(element, pick(saved, MODELKA_ELEMENT_FIELDS));
+    if (element.type !== 'data-flow' || !protocol || this.protocolOf(element) === protocol) return;
+    const others = element.technologies.filter(tech => tech.category !== 'network');
+    element.technologies = [{ id: generateId('tech'), name: protocol, category: 'network', threats: [] }, ...others];
+  }
+
+  /**
+   * Threat Dragon boundaries can be open lines; Modelka boundaries are boxes.
+   * Use the line's bounding box and keep the line so export can restore it.
+   */
+  private applyCurve(
+    element: DiagramElement,
+    source: any,
+    target: any,
+    vertices: Array<{ x: number; y: number }>,
+    offsetY: number,
+    warnings: string[]
+  ): void {
+    const points = [source, target, ...vertices].filter(p => p && typeof p.x === 'number' && typeof p.y === 'number');
+    if (points.length === 0) {
+      warnings.push(`Trust boundary "${element.name || element.id}" has no geometry and was placed at the origin`);
+      element.position = { x: 0, y: offsetY };
+      return;
+    }
+
+    const minX = Math.min(...points.map(p => p.x));
+    const minY = Math.min(...points.map(p => p.y));
+    const maxX = Math.max(...points.map(p => p.x));
+    const maxY = Math.max(...points.map(p => p.y));
+
+    element.position = { x: minX, y: minY + offsetY };
+    element.size = {
+      width: Math.max(maxX - minX, CURVE_PADDING),
+      height: Math.max(maxY - minY, CURVE_PADDING),
+    };
+    element.extensions = {
+      [THREAT_DRAGON_EXTENSION]: {
+        curve: {
+          source: { x: source?.x ?? minX, y: source?.y ?? minY },
+          target: { x: target?.x ?? maxX, y: target?.y ?? maxY },
+          vertices,
+          box: { ...element.position, ...element.size },
+        },
+      },
+    };
+    warnings.push(`Trust boundary line "${element.name || element.id}" was converted to a box - review which elements it contains`);
+  }
+
+  private facingEdges(source: DiagramElement, target: DiagramElement) {
+    const dx = (target.position.x + target.size.width / 2) - (source.position.x + source.size.width / 2);
+    const dy = (target.position.y + target.size.height / 2) - (source.position.y + source.size.height / 2);
+
+    if (Math.abs(dx) >= Math.abs(dy)) {
+      return dx >= 0
+        ? { sourceEdge: 'right' as const, targetEdge: 'left' as const }
+        : { sourceEdge: 'left' as const, targetEdge: 'right' as const };
+    }
+    return dy >= 0
+      ? { sourceEdge: 'bottom' as const, targetEdge: 'top' as const }
+      : { sourceEdge: 'top' as const, targetEdge: 'bottom' as const };
+  }
+
+  private cellName(cell: any, version: ThreatDragonVersion): string | undefined {
+    if (version === 2) {
+      return cell.data?.name ?? (typeof cell.labels?.[0] === 'string' ? cell.labels[0] : undefined);
+    }
+    return cell.labels?.[0]?.attrs?.text?.text ?? cell.attrs?.text?.text;
+  }
+
+  /* ---------- export helpers ---------- */
+
+  private exportCellsV2(elements: DiagramElement[], offsetY: number): any[] {
+    const cells: any[] = [];
+
+    for (const element of elements.filter(el => el.type !== 'data-flow')) {
+      const ext = this.extensionOf(element);
+      const preserved = this.preservedCell(element, 2);
+      const { shape, type } = V2_SHAPES[element.type as Exclude<STRIDEElementType, 'data-flow'>];
+      const data = {
+        type,
+        ...preserved.data,
+        name: element.name,
+        description: element.description || '',
+        outOfScope: preserved.data?.outOfScope ?? false,
+        reasonOutOfScope: preserved.data?.reasonOutOfScope ?? '',
+        hasOpenThreats: this.hasOpenThreats(element),
+        threats: element.threats.map((threat, index) => this.exportThreat(threat, 2, index + 1)),
+        ...(element.type === 'trust-boundary' ? { isTrustBoundary: true } : {}),
+        [MODELKA_KEY]: pick(element, MODELKA_ELEMENT_FIELDS),
+      };
+
+      const curve = this.unchangedCurve(element, ext);
+      if (curve) {
+        cells.push({
+          ...preserved,
+          shape: 'trust-boundary-curve',
+          zIndex: preserved.zIndex ?? 10,
+          id: element.id,
+          source: curve.source,
+          target: curve.target,
+          vertices: curve.vertices,
+          data: { ...data, type: 'tm.Boundary' },
+        });
+        continue;
+      }
+
+      cells.push({
+        attrs: { text: { text: element.name } },
+        visible: true,
+        zIndex: element.type === 'trust-boundary' ? -1 : 1,
+        ...preserved,
+        shape: preserved.shape && preserved.shape !== 'trust-boundary-curve' ? preserved.shape : shape,
+        id: element.id,
+        position: { x: element.position.x, y: element.position.y - offsetY },
+        size: { width: element.size.width, height: element.size.height },
+        data,
+      });
+    }
+
+    for (const flow of elements.filter(el => el.type === 'data-flow')) {
+      const preserved = this.preservedCell(flow, 2);
+      const { sourcePort, targetPort, data: preservedData, ...rest } = preserved;
+      cells.push({
+        shape: 'flow',
+        attrs: { line: { stroke: '#333333', targetMarker: { name: 'classic' }, sourceMarker: { name: '' } } },
+        width: 200,
+        height: 100,
+        zIndex: 10,
+        connector: 'smooth',
+        vertices: [],
+        ...rest,
+        id: flow.id,
+        labels: [flow.name],
+        source: { cell: flow.sourceId, ...(sourcePort ? { port: sourcePort } : {}) },
+        target: { cell: flow.targetId, ...(targetPort ? { port: targetPort } : {}) },
+        data: {
+          type: 'tm.Flow',
+          outOfScope: false,
+          reasonOutOfScope: '',
+          isEncrypted: false,
+          isPublicNetwork: false,
+          ...preservedData,
+          name: flow.name,
+          description: flow.description || '',
+          protocol: this.protocolOf(flow),
+          hasOpenThreats: this.hasOpenThreats(flow),
+          threats: flow.threats.map((threat, index) => this.exportThreat(threat, 2, index + 1)),
+          [MODELKA_KEY]: pick(flow, MODELKA_ELEMENT_FIELDS),
+        },
+      });
+    }
+
+    return cells;
+  }
+
+  private exportCellsV1(elements: DiagramElement[], offsetY: number): any[] {
+    const cells: any[] = [];
+    let z = 1;
+
+    for (const element of elements.filter(el => el.type !== 'data-flow')) {
+      const ext = this.extensionOf(element);
+      const preserved = this.preservedCell(element, 1);
+      const common = {
+        ...preserved,
+        type: V1_TYPES[element.type],
+        id: element.id,
+        z: preserved.z ?? z++,
+        hasOpenThreats: this.hasOpenThreats(element),
+        description: element.description || '',
+        threats: element.threats.map((threat, index) => this.exportThreat(threat, 1, index + 1)),
+        [MODELKA_KEY]: pick(element, MODELKA_ELEMENT_FIELDS),
+      };
+
+      if (element.type === 'trust-boundary') {
+        // v1 boundaries are lines: restore the original one or trace the box outline
+        const curve = this.unchangedCurve(element, ext) || this.boxOutline(element, offsetY);
+        cells.push({
+          smooth: true,
+          attrs: {},
+          ...common,
+          source: curve.source,
+          target: curve.target,
+          vertices: curve.vertices,
+          labels: [{ position: 0.5, attrs: { text: { text: element.name, 'font-weight': '400', 'font-size': 'small' } } }],
+        });
+        continue;
+      }
+
+      cells.push({
+        angle: 0,
+        outOfScope: false,
+        reasonOutOfScope: '',
+        ...common,
+        size: { width: element.size.width, height: element.size.height },
+        position: { x: element.position.x, y: element.position.y - offsetY },
+        attrs: { ...preserved.attrs, text: { text: element.name } },
+      });
+    }
+
+    for (const flow of elements.filter(el => el.type === 'data-flow')) {
+      const preserved = this.preservedCell(flow, 1);
+      cells.push({
+        smooth: true,
+        vertices: [],
+        attrs: {},
+        isEncrypted: false,
+        isPublicNetwork: false,
+        outOfScope: false,
+        reasonOutOfScope: '',
+        ...preserved,
+        type: 'tm.Flow',
+        id: flow.id,
+        z: preserved.z ?? z++,
+        source: { id: flow.sourceId },
+        target: { id: flow.targetId },
+        labels: [{ position: 0.5, attrs: { text: { text: flow.name, 'font-weight': '400', 'font-size': 'small' } } }],
+        description: flow.description || '',
+        protocol: this.protocolOf(flow),
+        hasOpenThreats: this.hasOpenThreats(flow),
+        threats: flow.threats.map((threat, index) => this.exportThreat(threat, 1, index + 1)),
+        [MODELKA_KEY]: pick(flow, MODELKA_ELEMENT_FIELDS),
+      });
+    }
+
+    return cells;
+  }
+
+  private exportThreat(threat: Threat, version: ThreatDragonVersion, number: number): Record<string, any> {
+    const preserved = threat.extensions?.[THREAT_DRAGON_EXTENSION] || {};
+    const { mappedCategory, mappedSeverity, ...original } = preserved;
+
+    // Keep the original type/severity (e.g. LINDDUN, TBD) unless the analyst changed the mapped value
+    const type = original.type && mappedCategory === threat.strideCategory
+      ? original.type
+      : STRIDE_TYPE_NAMES[threat.strideCategory];
+    const severity = original.severity && mappedSeverity === threat.severity
+      ? original.severity
+      : capitalize(threat.severity);
+
+    const controls = threat.controls || [];
+    const mitigated = controls.length > 0 && controls.every(control => control.implemented);
+    const status = original.status && (original.status !== 'Mitigated') === !mitigated
+      ? original.status
+      : mitigated ? 'Mitigated' : 'Open';
+
+    const base = {
+      ...original,
+      title: threat.title,
+      type,
+      modelType: original.modelType || 'STRIDE',
+      status,
+      severity,
+      description: threat.description || '',
+      mitigation: this.mitigationOf(controls),
+      [MODELKA_KEY]: pick(threat, MODELKA_THREAT_FIELDS),
+    };
+
+    return version === 2
+      ? { new: false, score: '', ...base, id: threat.id, number: original.number ?? number }
+      : { ...omit(base, ['new', 'number', 'score']), threatId: threat.id };
+  }
+
+  /**
+   * Threat Dragon has a single free-text mitigation per threat
+   */
+  private mitigationOf(controls: Threat['controls']): string {
+    return controls.map(control => control.description || control.name).filter(Boolean).join('\n');
+  }
+
+  private findModelInfo(elements: DiagramElement[]): ThreatDragonModelInfo | undefined {
+    for (const element of elements) {
+      const model = this.extensionOf(element)?.model;
+      if (model) return model;
+    }
+    return undefined;
+  }
+
+  private extensionOf(element: DiagramElement): ThreatDragonElementExtension | undefined {
+    return element.extensions?.[THREAT_DRAGON_EXTENSION];
+  }
+
+  /**
+   * Preserved cell fields, if the element was imported from the schema being exported
+   */
+  private preservedCell(element: DiagramElement, version: ThreatDragonVersion): Record<string, any> {
+    const ext = this.extensionOf(element);
+    return ext?.model?.schema === version ? ext.cell || {} : {};
+  }
+
+  private hasOpenThreats(element: DiagramElement): boolean {
+    return (element.threats || []).some(threat =>
+      !(threat.controls?.length > 0 && threat.controls.every(control => control.implemented))
+    );
+  }
+
+  private protocolOf(flow: DiagramElement): string {
+    return (flow.technologies || []).find(tech => tech.category === 'network')?.name || '';
+  }
+
+  /**
+   * The original boundary line, if the box it was converted to has not been moved or resized
+   */
+  private unchangedCurve(element: DiagramElement, ext: ThreatDragonElementExtension | undefined) {
+    const curve = ext?.curve;
+    if (!curve) return null;
+
+    const { box } = curve;
+    const unchanged = box.x === element.position.x && box.y === element.position.y &&
+      box.width === element.size.width && box.height === element.size.height;
+    if (!unchanged) return null;
+
+    return { source: curve.source, target: curve.target, vertices: curve.vertices };
+  }
+
+  private boxOutline(element: DiagramElement, offsetY: number) {
+    const { x } = element.position;
+    const y = element.position.y - offsetY;
+    const { width, height } = element.size;
+    return {
+      source: { x, y },
+      target: { x, y },
+      vertices: [
+        { x: x + width, y },
+        { x: x + width, y: y + height },
+        { x, y: y + height },
+      ],
+    };
+  }
+}
@@ -0,0 +1,387 @@
+// src/services/threatGenerator.ts - Rule-based STRIDE threat suggestions
+import { DiagramElement, STRIDEElementType, Technology, Threat, ThreatSeverity } from '../types/diagram';
+import { getCrossedBoundaries } from '../utils/trustBoundaries';
+
+/**
+ * Declarative condition a rule matches against an element.
+ * Every condition that is set must hold for the rule to fire.
+ */
+export interface ThreatRuleCondition {
+  elementTypes: STRIDEElementType[];
+  technologyCategories?: Technology['category'][];
+  dataTypePattern?: RegExp;
+  crossesTrustBoundary?: boolean;
+  encrypted?: boolean;
+}
+
+export interface ThreatTemplate {
+  title: string;
+  description: string;
+  severity: ThreatSeverity;
+  strideCategory: Threat['strideCategory'];
+}
+
+export interface ThreatRule {
+  id: string;
+  name: string;
+  when: ThreatRuleCondition;
+  threats: ThreatTemplate[];
+}
+
+/**
+ * A proposed threat awaiting the analyst's accept/reject decision
+ */
+export interface ThreatSuggestion {
+  key: string; // `${ruleId}:${index}` - stable across renders
+  ruleId: string;
+  ruleName: string;
+  elementId: string;
+  threat: ThreatTemplate;
+}
+
+const ENCRYPTION_PATTERN = /\b(tls|ssl|https|mtls|ssh|sftp|vpn|ipsec|wss|encrypt(ed|ion)?)\b/i;
+
+/**
+ * Built-in rule set (STRIDE-per-element plus technology and data specific rules)
+ */
+export const DEFAULT_THREAT_RULES: ThreatRule[] = [
+  // External entities
+  {
+    id: 'external-entity-spoofing',
+    name: 'External entity identity',
+    when: { elementTypes: ['external-entity'] },
+    threats: [
+      {
+        title: 'Impersonation of external entity',
+        description: 'An attacker may pretend to be this external entity to gain access to the system. Verify the identity of the entity with strong authentication.',
+        severity: 'high',
+        strideCategory: 'spoofing',
+      },
+      {
+        title: 'External entity denies performed actions',
+        description: 'Actions initiated by this entity may later be denied without sufficient audit logging tied to an authenticated identity.',
+        severity: 'medium',
+        strideCategory: 'repudiation',
+      },
+    ],
+  },
+
+  // Processes
+  {
+    id: 'process-stride',
+    name: 'Process STRIDE baseline',
+    when: { elementTypes: ['process'] },
+    threats: [
+      {
+        title: 'Spoofing of process identity',
+        description: 'Callers or other processes may impersonate this process. Authenticate the process to its peers.',
+        severity: 'medium',
+        strideCategory: 'spoofing',
+      },
+      {
+        title: 'Tampering with process input',
+        description: 'Untrusted input may alter the behaviour of this process. Validate and sanitize all inputs.',
+        severity: 'high',
+        strideCategory: 'tampering',
+      },
+      {
+        title: 'Resource exhaustion of process',
+        description: 'The process may be overwhelmed by excessive requests. Apply rate limiting and resource quotas.',
+        severity: 'medium',
+        strideCategory: 'denial-of-service',
+      },
+      {
+        title: 'Privilege escalation through process',
+        description: 'A flaw in this process may allow an attacker to execute code or actions with elevated privileges. Run with least privilege.',
+        severity: 'high',
+        strideCategory: 'elevation-of-privilege',
+      },
+    ],
+  },
+
+  // Data stores
+  {
+    id: 'data-store-stride',
+    name: 'Data store STRIDE baseline',
+    when: { elementTypes: ['data-store'] },
+    threats: [
+      {
+        title: 'Unauthorized modification of stored data',
+        description: 'Data in this store may be altered by an attacker. Enforce access control and integrity checks.',
+        severity: 'high',
+        strideCategory: 'tampering',
+      },
+      {
+        title: 'Disclosure of stored data',
+        description: 'Data at rest may be read by unauthorized parties. Encrypt sensitive data and restrict access.',
+        severity: 'high',
+        strideCategory: 'information-disclosure',
+      },
+      {
+        title: 'Data store unavailability',
+        description: 'The store may be filled or locked, making it unavailable to dependent processes. Monitor capacity and set quotas.',
+        severity: 'medium',
+        strideCategory: 'denial-of-service',
+      },
+    ],
+  },
+
+  // Data flows
+  {
+    id: 'data-flow-unencrypted-boundary',
+    name: 'Unencrypted flow across trust boundary',
+    when: { elementTypes: ['data-flow'], crossesTrustBoundary: true, encrypted: false },
+    threats: [
+      {
+        title: 'Tampering with data crossing trust boundary',
+        description: 'This flow crosses a trust boundary without transport encryption. An attacker on the path may modify the data in transit.',
+        severity: 'high',
+        strideCategory: 'tampering',
+      },
+      {
+        title: 'Eavesdropping on data crossing trust boundary',
+        description: 'This flow crosses a trust boundary without transport encryption. Data in transit may be intercepted and read.',
+        severity: 'high',
+        strideCategory: 'information-disclosure',
+      },
+    ],
+  },
+  {
+    id: 'data-flow-boundary-dos',
+    name: 'Flow across trust boundary',
+    when: { elementTypes: ['data-flow'], crossesTrustBoundary: true },
+    threats: [
+      {
+        title: 'Flooding of boundary-crossing channel',
+        description: 'A less trusted party may flood this channel to deny service to the more trusted zone. Apply throttling at the boundary.',
+        severity: 'medium',
+        strideCategory: 'denial-of-service',
+      },
+    ],
+  },
+  {
+    id: 'data-flow-credentials',
+    name: 'Credentials in transit',
+    when: { elementTypes: ['data-flow'], dataTypePattern: /password|credential|token|secret|session|api[ -]?key/i },
+    threats: [
+      {
+        title: 'Credential theft in transit',
+        description: 'This flow carries authentication material. Leaked credentials allow an attacker to impersonate legitimate users.',
+        severity: 'critical',
+        strideCategory: 'information-disclosure',
+      },
+    ],
+  },
+  {
+    id: 'data-flow-sensitive-data',
+    name: 'Sensitive data in transit',
+    when: { elementTypes: ['data-flow'], dataTypePattern: /payment|card|pii|personal|health|medical|ssn|financial/i },
+    threats: [
+      {
+        title: 'Exposure of sensitive data in transit',
+        description: 'This flow carries regulated or personal data. Disclosure may have legal and reputational impact.',
+        severity: 'high',
+        strideCategory: 'information-disclosure',
+      },
+    ],
+  },
+
+  // Technology specific
+  {
+    id: 'technology-database-injection',
+    name: 'Database technology',
+    when: { elementTypes: ['process', 'data-store'], technologyCategories: ['database'] },
+    threats: [
+      {
+        title: 'Injection against database',
+        description: 'Queries built from untrusted input may allow SQL/NoSQL injection. Use parameterized queries.',
+        severity: 'critical',
+        strideCategory: 'tampering',
+      },
+    ],
+  },
+  {
+    id: 'technology-web-server',
+    name: 'Web server technology',
+    when: { elementTypes: ['process', 'external-entity'], technologyCategories: ['web-server'] },
+    threats: [
+      {
+        title: 'Cross-site scripting',
+        description: 'Unescaped output may allow script injection into users\' browsers. Encode output and apply a Content Security Policy.',
+        severity: 'high',
+        strideCategory: 'tampering',
+      },
+      {
+        title: 'Server misconfiguration leaks information',
+        description: 'Verbose errors, directory listings or default files may disclose internal details. Harden the server configuration.',
+        severity: 'medium',
+        strideCategory: 'information-disclosure',
+      },
+    ],
+  },
+  {
+    id: 'technology-api-auth',
+    name: 'API technology',
+    when: { elementTypes: ['process', 'external-entity'], technologyCategories: ['api'] },
+    threats: [
+      {
+        title: 'Broken API authentication',
+        description: 'Missing or weak authentication on API endpoints allows callers to act as other users.',
+        severity: 'high',
+        strideCategory: 'spoofing',
+      },
+      {
+        title: 'Broken object level authorization',
+        description: 'API objects may be accessible by changing identifiers in requests. Enforce authorization per object.',
+        severity: 'high',
+        strideCategory: 'elevation-of-privilege',
+      },
+    ],
+  },
+  {
+    id: 'technology-mobile-storage',
+    name: 'Mobile app technology',
+    when: { elementTypes: ['process', 'external-entity'], technologyCategories: ['mobile-app'] },
+    threats: [
+      {
+        title: 'Insecure local storage on device',
+        description: 'Sensitive data cached on the device may be extracted from a lost or compromised phone.',
+        severity: 'medium',
+        strideCategory: 'information-disclosure',
+      },
+    ],
+  },
+  {
+    id: 'technology-container-escape',
+    name: 'Container technology',
+    when: { elementTypes: ['process'], technologyCategories: ['container'] },
+    threats: [
+      {
+        title: 'Container escape',
+        description: 'A compromised container may break out to the host. Avoid privileged containers and keep the runtime patched.',
+        severity: 'high',
+        strideCategory: 'elevation-of-privilege',
+      },
+    ],
+  },
+  {
+    id: 'technology-network-dos',
+    name: 'Network technology',
+    when: { elementTypes: ['process', 'data-flow'], technologyCategories: ['network'] },
+    threats: [
+      {
+        title: 'Network flooding',
+        description: 'Network components are exposed to volumetric attacks. Provide DDoS protection and capacity planning.',
+        severity: 'medium',
+        strideCategory: 'denial-of-service',
+      },
+    ],
+  },
+];
+
+/**
+ * Threat generation engine - walks the model and proposes STRIDE threats
+ * from a declarative rule set. Never modifies elements itself.
+ */
+export class ThreatGenerator {
+  constructor(private rules: ThreatRule[] = DEFAULT_THREAT_RULES) {}
+
+  /**
+   * Suggest threats for a single element, excluding ones the analyst already
+   * has (accepted or written by hand) and ones they dismissed
+   */
+  suggestForElement(element: DiagramElement, elements: DiagramElement[]): ThreatSuggestion[] {
+    const suggestions: ThreatSuggestion[] = [];
+    const dismissed = new Set(element.dismissedSuggestions || []);
+
+    for (const rule of this.rules) {
+      if (!this.matches(rule.when, element, elements)) continue;
+
+      rule.threats.forEach((threat, index) => {
+        const key = `${rule.id}:${index}`;
+        if (dismissed.has(key) || this.isAlreadyPresent(element, key, threat)) return;
+
+        suggestions.push({
+          key,
+          ruleId: rule.id,
+          ruleName: rule.name,
+          elementId: element.id,
+          threat,
+        });
+      });
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Suggest threats for every element in the model, keyed by element ID
+   */
+  suggestForModel(elements: DiagramElement[]): Record<string, ThreatSuggestion[]> {
+    const result: Record<string, ThreatSuggestion[]> = {};
+    for (const element of elements) {
+      const suggestions = this.suggestForElement(element, elements);
+      if (suggestions.length > 0) {
+        result[element.id] = suggestions;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Turn an accepted suggestion into a concrete threat
+   */
+  static toThreat(suggestion: ThreatSuggestion): Threat {
+    return {
+      id: `threat-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      ...suggestion.threat,
+      controls: [],
+      isActionItem: false,
+      generatedBy: suggestion.key,
+    };
+  }
+
+  private matches(when: ThreatRuleCondition, element: DiagramElement, elements: DiagramElement[]): boolean {
+    if (!when.elementTypes.includes(element.type)) return false;
+
+    if (when.technologyCategories) {
+      const categories = (element.technologies || []).map(tech => tech.category);
+      if (!when.technologyCategories.some(category => categories.includes(category))) return false;
+    }
+
+    if (when.dataTypePattern) {
+      const data = `${element.dataType || ''} ${element.dataDescription || ''}`;
+      if (!when.dataTypePattern.test(data)) return false;
+    }
+
+    if (when.crossesTrustBoundary !== undefined) {
+      const crosses = getCrossedBoundaries(element, elements).length > 0;
+      if (crosses !== when.crossesTrustBoundary) return false;
+    }
+
+    if (when.encrypted !== undefined) {
+      if (this.isEncrypted(element) !== when.encrypted) return false;
+    }
+
+    return true;
+  }
+
+  private isAlreadyPresent(element: DiagramElement, key: string, template: ThreatTemplate): boolean {
+    return (element.threats || []).some(threat =>
+      threat.generatedBy === key ||
+      (threat.strideCategory === template.strideCategory &&
+        threat.title.trim().toLowerCase() === template.title.toLowerCase())
+    );
+  }
+
+  private isEncrypted(element: DiagramElement): boolean {
+    const text = [
+      element.name,
+      element.dataType,
+      element.dataDescription,
+      element.description,
+      ...(element.technologies || []).map(tech => tech.name),
+    ].join(' ');
+    return ENCRYPTION_PATTERN.test(text);
+  }
+}
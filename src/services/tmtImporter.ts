@@ -0,0 +1,555 @@
+// src/services/tmtImporter.ts - Microsoft Threat Modeling Tool (.tm7) import
+import { DiagramElement, STRIDEElementType, Threat, ThreatSeverity, Technology } from '../types/diagram';
+
+/**
+ * Key under which TMT data without a Modelka equivalent is kept
+ * in `DiagramElement.extensions` / `Threat.extensions`
+ */
+export const TMT_EXTENSION = 'microsoftTmt';
+
+export interface TmtReportItem {
+  kind: 'stencil' | 'connector' | 'boundary' | 'threat' | 'diagram';
+  name: string;
+  reason: string;
+}
+
+/**
+ * What was translated and everything that was not (or only approximately)
+ */
+export interface TmtImportReport {
+  diagrams: number;
+  elements: number;
+  dataFlows: number;
+  trustBoundaries: number;
+  threats: number;
+  untranslated: TmtReportItem[];
+}
+
+export interface TmtImportResult {
+  elements: DiagramElement[];
+  report: TmtImportReport;
+}
+
+type XmlParser = (xml: string) => Document;
+
+/** TMT generic stencil types */
+const GENERIC_TYPE_MAP: Record<string, STRIDEElementType> = {
+  'GE.EI': 'external-entity',
+  'GE.P': 'process',
+  'GE.DS': 'data-store',
+  'GE.DF': 'data-flow',
+  'GE.TB.B': 'trust-boundary',
+  'GE.TB.L': 'trust-boundary',
+};
+
+const PORT_EDGES: Record<string, 'top' | 'bottom' | 'left' | 'right'> = {
+  North: 'top',
+  NorthEast: 'top',
+  NorthWest: 'top',
+  South: 'bottom',
+  SouthEast: 'bottom',
+  SouthWest: 'bottom',
+  East: 'right',
+  West: 'left',
+};
+
+const THREAT_CATEGORY_MAP: Record<string, Threat['strideCategory']> = {
+  spoofing: 'spoofing',
+  tampering: 'tampering',
+  repudiation: 'repudiation',
+  informationdisclosure: 'information-disclosure',
+  denialofservice: 'denial-of-service',
+  elevationofprivilege: 'elevation-of-privilege',
+};
+
+const SEVERITIES: ThreatSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+/** Human readable TMT threat states */
+const STATE_LABELS: Record<string, string> = {
+  AutoGenerated: 'Auto Generated',
+  NotStarted: 'Not Started',
+  NeedsInvestigation: 'Needs Investigation',
+  NotApplicable: 'Not Applicable',
+  Mitigated: 'Mitigated',
+};
+
+/** Properties mapped onto DiagramElement fields - everything else goes to extensions */
+const MAPPED_PROPERTIES = ['Name', 'Out Of Scope', 'Reason For Out Of Scope'];
+
+/** Vertical gap between drawing surfaces when a multi-diagram model is laid out on one canvas */
+const DIAGRAM_SPACING = 200;
+
+/** Minimum thickness of a box built from a boundary line */
+const LINE_PADDING = 20;
+
+const generateId = (prefix: string) =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
+
+/* ---------- namespace-agnostic XML helpers (TMT prefixes vary between versions) ---------- */
+
+function childElements(parent: Element | null | undefined, localName?: string): Element[] {
+  if (!parent) return [];
+  // childNodes rather than children - also works with non-browser DOM implementations
+  return (Array.from(parent.childNodes) as Element[])
+    .filter(node => node.nodeType === 1 && (!localName || node.localName === localName));
+}
+
+function child(parent: Element | null | undefined, localName: string): Element | null {
+  return childElements(parent, localName)[0] || null;
+}
+
+function text(parent: Element | null | undefined, localName: string): string {
+  return child(parent, localName)?.textContent?.trim() || '';
+}
+
+function number(parent: Element | null | undefined, localName: string): number | undefined {
+  const value = parseFloat(text(parent, localName));
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/** Value of the xsi:type attribute without its prefix (e.g. `b:StringDisplayAttribute` -> `StringDisplayAttribute`) */
+function xsiType(el: Element): string {
+  const type = Array.from(el.attributes).find(attr => attr.localName === 'type')?.value || '';
+  return type.includes(':') ? type.split(':')[1] : type;
+}
+
+/**
+ * Imports Microsoft Threat Modeling Tool models. TMT's drawing surfaces become
+ * one canvas, generated threats are attached to the flows they were raised on,
+ * and the returned report lists everything that had no direct translation.
+ */
+export class TmtImporter {
+  constructor(
+    private parseXml: XmlParser = xml => new DOMParser().parseFromString(xml, 'application/xml')
+  ) {}
+
+  /**
+   * Check whether a file looks like a TMT model (by name or by its root element)
+   */
+  static isTmtModel(fileName: string, content?: string): boolean {
+    if (fileName.toLowerCase().endsWith('.tm7')) return true;
+    return !!content && /^\s*(<\?xml[^>]*\?>\s*)?<ThreatModel[\s>]/.test(content);
+  }
+
+  /**
+   * Format the report as lines suitable for an alert or console output
+   */
+  static describeReport(report: TmtImportReport): string[] {
+    const lines = [
+      `Imported ${report.elements} elements, ${report.dataFlows} data flows, ` +
+      `${report.trustBoundaries} trust boundaries and ${report.threats} threats ` +
+      `from ${report.diagrams} diagram${report.diagrams === 1 ? '' : 's'}`,
+    ];
+    if (report.untranslated.length > 0) {
+      lines.push(`${report.untranslated.length} item(s) could not be translated exactly:`);
+      for (const item of report.untranslated) {
+        lines.push(`- [${item.kind}] ${item.name}: ${item.reason}`);
+      }
+    }
+    return lines;
+  }
+
+  importModel(xml: string): TmtImportResult {
+    const doc = this.parseXml(xml);
+    const parseError = doc.getElementsByTagName('parsererror')[0];
+    if (parseError) {
+      throw new Error(`Invalid .tm7 file: ${parseError.textContent?.trim() || 'XML could not be parsed'}`);
+    }
+
+    const root = doc.documentElement;
+    if (!root || root.localName !== 'ThreatModel') {
+      throw new Error('Not a Threat Modeling Tool model: missing ThreatModel root element');
+    }
+
+    const report: TmtImportReport = {
+      diagrams: 0,
+      elements: 0,
+      dataFlows: 0,
+      trustBoundaries: 0,
+      threats: 0,
+      untranslated: [],
+    };
+    const elements: DiagramElement[] = [];
+    const surfaces = childElements(child(root, 'DrawingSurfaceList'), 'DrawingSurfaceModel');
+
+    let offsetY = 0;
+    for (const surface of surfaces) {
+      const surfaceGuid = text(surface, 'Guid');
+      const header = text(surface, 'Header') || `Diagram ${report.diagrams + 1}`;
+      const surfaceElements: DiagramElement[] = [];
+      report.diagrams++;
+
+      // Borders hold stencils (entities, processes, stores, boundary boxes)
+      for (const stencil of this.entries(surface, 'Borders')) {
+        const element = this.importStencil(stencil, offsetY, header, report);
+        if (element) {
+          element.extensions = {
+            [TMT_EXTENSION]: { ...element.extensions?.[TMT_EXTENSION], diagramGuid: surfaceGuid, diagram: header },
+          };
+          surfaceElements.push(element);
+        }
+      }
+
+      // Lines hold connectors and line boundaries; connectors need their endpoints first
+      for (const line of this.entries(surface, 'Lines')) {
+        const element = this.importLine(line, surfaceElements, offsetY, header, report);
+        if (element) {
+          element.extensions = {
+            [TMT_EXTENSION]: { ...element.extensions?.[TMT_EXTENSION], diagramGuid: surfaceGuid, diagram: header },
+          };
+          surfaceElements.push(element);
+        }
+      }
+
+      elements.push(...surfaceElements);
+
+      const shapes = surfaceElements.filter(el => el.type !== 'data-flow');
+      if (shapes.length > 0) {
+        offsetY = Math.max(...shapes.map(el => el.position.y + el.size.height)) + DIAGRAM_SPACING;
+      }
+    }
+
+    if (surfaces.length === 0) {
+      report.untranslated.push({ kind: 'diagram', name: 'ThreatModel', reason: 'no drawing surfaces found' });
+    }
+
+    this.importThreats(root, elements, report);
+
+    return { elements, report };
+  }
+
+  /* ---------- drawing surface ---------- */
+
+  /** Values of a serialized Dictionary<Guid, object> (`KeyValueOfguidanyType` entries) */
+  private entries(surface: Element, localName: string): Element[] {
+    return childElements(child(surface, localName))
+      .map(entry => child(entry, 'Value'))
+      .filter((value): value is Element => !!value);
+  }
+
+  /**
+   * Flatten TMT display attributes into `DisplayName -> value`.
+   * List attributes resolve to their selected option.
+   */
+  private readProperties(node: Element): { typeName: string; values: Record<string, string | boolean> } {
+    let typeName = '';
+    const values: Record<string, string | boolean> = {};
+
+    for (const attribute of childElements(child(node, 'Properties'))) {
+      const kind = xsiType(attribute);
+      const displayName = text(attribute, 'DisplayName');
+      const value = child(attribute, 'Value');
+
+      if (kind === 'HeaderDisplayAttribute') {
+        typeName = displayName;
+      } else if (kind === 'ListDisplayAttribute') {
+        const options = childElements(value).map(option => option.textContent?.trim() || '');
+        const selected = number(attribute, 'SelectedIndex') ?? 0;
+        values[displayName] = options[selected] ?? '';
+      } else if (kind === 'BooleanDisplayAttribute') {
+        values[displayName] = value?.textContent?.trim() === 'true';
+      } else if (displayName) {
+        values[displayName] = value?.textContent?.trim() || '';
+      }
+    }
+
+    return { typeName, values };
+  }
+
+  private importStencil(node: Element, offsetY: number, diagram: string, report: TmtImportReport): DiagramElement | null {
+    const genericType = text(node, 'GenericTypeId');
+    const guid = text(node, 'Guid');
+    const { typeName, values } = this.readProperties(node);
+    const name = String(values['Name'] || typeName || guid);
+    const type = GENERIC_TYPE_MAP[genericType];
+
+    if (!type || type === 'data-flow') {
+      const reason = genericType === 'GE.A'
+        ? 'free-text annotations are not supported'
+        : `unsupported stencil type "${genericType || xsiType(node)}"`;
+      report.untranslated.push({ kind: 'stencil', name: `${name} (${diagram})`, reason });
+      return null;
+    }
+
+    const element = this.createElement(guid, type, name);
+    element.position = { x: number(node, 'Left') ?? 0, y: (number(node, 'Top') ?? 0) + offsetY };
+    element.size = { width: number(node, 'Width') ?? 100, height: number(node, 'Height') ?? 60 };
+    this.applyProperties(element, node, typeName, values);
+
+    if (type === 'trust-boundary') {
+      report.trustBoundaries++;
+    } else {
+      report.elements++;
+    }
+    return element;
+  }
+
+  private importLine(
+    node: Element,
+    elements: DiagramElement[],
+    offsetY: number,
+    diagram: string,
+    report: TmtImportReport
+  ): DiagramElement | null {
+    const genericType = text(node, 'GenericTypeId');
+    const guid = text(node, 'Guid');
+    const { typeName, values } = this.readProperties(node);
+    const name = String(values['Name'] || typeName || guid);
+
+    if (genericType === 'GE.TB.L') {
+      return this.importLineBoundary(node, guid, name, typeName, values, offsetY, diagram, report);
+    }
+
+    if (GENERIC_TYPE_MAP[genericType] !== 'data-flow') {
+      report.untranslated.push({ kind: 'connector', name: `${name} (${diagram})`, reason: `unsupported line type "${genericType || xsiType(node)}"` });
+      return null;
+    }
+
+    const source = elements.find(el => el.id === text(node, 'SourceGuid'));
+    const target = elements.find(el => el.id === text(node, 'TargetGuid'));
+    if (!source || !target) {
+      report.untranslated.push({ kind: 'connector', name: `${name} (${diagram})`, reason: 'not connected at both ends' });
+      return null;
+    }
+
+    const flow = this.createElement(guid, 'data-flow', name);
+    const fallback = this.facingEdges(source, target);
+    Object.assign(flow, {
+      size: { width: 0, height: 0 },
+      sourceId: source.id,
+      targetId: target.id,
+      sourceEdge: PORT_EDGES[text(node, 'PortSource')] ?? fallback.sourceEdge,
+      targetEdge: PORT_EDGES[text(node, 'PortTarget')] ?? fallback.targetEdge,
+      sourceEdgeOffset: 0.5,
+      targetEdgeOffset: 0.5,
+      dataType: '',
+      dataDescription: '',
+    });
+    this.applyProperties(flow, node, typeName, values);
+
+    report.dataFlows++;
+    return flow;
+  }
+
+  /**
+   * TMT line boundaries are open curves; Modelka boundaries are boxes.
+   * Use the curve's bounding box and keep the original geometry in extensions.
+   */
+  private importLineBoundary(
+    node: Element,
+    guid: string,
+    name: string,
+    typeName: string,
+    values: Record<string, string | boolean>,
+    offsetY: number,
+    diagram: string,
+    report: TmtImportReport
+  ): DiagramElement {
+    const points = [
+      { x: number(node, 'SourceX'), y: number(node, 'SourceY') },
+      { x: number(node, 'TargetX'), y: number(node, 'TargetY') },
+      { x: number(node, 'HandleX'), y: number(node, 'HandleY') },
+    ].filter((p): p is { x: number; y: number } => p.x !== undefined && p.y !== undefined);
+
+    const element = this.createElement(guid, 'trust-boundary', name);
+    if (points.length > 0) {
+      const minX = Math.min(...points.map(p => p.x));
+      const minY = Math.min(...points.map(p => p.y));
+      const maxX = Math.max(...points.map(p => p.x));
+      const maxY = Math.max(...points.map(p => p.y));
+      element.position = { x: minX, y: minY + offsetY };
+      element.size = { width: Math.max(maxX - minX, LINE_PADDING), height: Math.max(maxY - minY, LINE_PADDING) };
+    } else {
+      element.position = { x: 0, y: offsetY };
+    }
+    this.applyProperties(element, node, typeName, values);
+    element.extensions = {
+      [TMT_EXTENSION]: { ...element.extensions?.[TMT_EXTENSION], line: points },
+    };
+
+    report.trustBoundaries++;
+    report.untranslated.push({
+      kind: 'boundary',
+      name: `${name} (${diagram})`,
+      reason: 'line boundary converted to a box - review which elements it contains',
+    });
+    return element;
+  }
+
+  /**
+   * Map TMT stencil properties: the stencil type becomes a technology (unless generic),
+   * out-of-scope flags become notes, and the rest is kept in extensions
+   */
+  private applyProperties(
+    element: DiagramElement,
+    node: Element,
+    typeName: string,
+    values: Record<string, string | boolean>
+  ): void {
+    if (typeName && !typeName.startsWith('Generic')) {
+      element.technologies = [{
+        id: generateId('tech'),
+        name: typeName,
+        category: this.technologyCategory(typeName, element.type),
+        threats: [],
+      }];
+    }
+
+    if (values['Out Of Scope'] === true) {
+      const reason = values['Reason For Out Of Scope'];
+      element.notes = `Out of scope${reason ? `: ${reason}` : ''}`;
+    }
+
+    const properties: Record<string, string | boolean> = {};
+    for (const [key, value] of Object.entries(values)) {
+      if (!MAPPED_PROPERTIES.includes(key)) properties[key] = value;
+    }
+
+    element.extensions = {
+      [TMT_EXTENSION]: {
+        typeId: text(node, 'TypeId'),
+        genericTypeId: text(node, 'GenericTypeId'),
+        typeName,
+        properties,
+      },
+    };
+  }
+
+  private technologyCategory(typeName: string, type: STRIDEElementType): Technology['category'] {
+    const name = typeName.toLowerCase();
+    if (type === 'data-flow' || type === 'trust-boundary') return 'network';
+    if (/sql|database|storage|cache|blob|table|queue|cosmos/.test(name)) return 'database';
+    if (/mobile|android|ios/.test(name)) return 'mobile-app';
+    if (/api|service/.test(name)) return 'api';
+    if (/web|browser|iis|application gateway/.test(name)) return 'web-server';
+    if (/container|kubernetes|docker/.test(name)) return 'container';
+    return 'other';
+  }
+
+  /* ---------- threats ---------- */
+
+  /**
+   * Attach generated threats to the flow they were raised on,
+   * falling back to the flow's target element
+   */
+  private importThreats(root: Element, elements: DiagramElement[], report: TmtImportReport): void {
+    const instances = childElements(child(root, 'ThreatInstances'))
+      .map(entry => child(entry, 'Value'))
+      .filter((value): value is Element => !!value);
+
+    for (const instance of instances) {
+      const properties: Record<string, string> = {};
+      for (const pair of childElements(child(instance, 'Properties'))) {
+        properties[text(pair, 'Key')] = text(pair, 'Value');
+      }
+
+      const title = properties['Title'] || properties['UserThreatShortDescription'] || `Threat ${text(instance, 'Id')}`;
+      const owner = elements.find(el => el.id === text(instance, 'FlowGuid'))
+        || elements.find(el => el.id === text(instance, 'TargetGuid'));
+
+      if (!owner) {
+        report.untranslated.push({ kind: 'threat', name: title, reason: 'the element it applies to was not imported' });
+        continue;
+      }
+
+      const threat = this.importThreat(instance, properties, title, report);
+      owner.threats = [...owner.threats, threat];
+      report.threats++;
+    }
+  }
+
+  private importThreat(
+    instance: Element,
+    properties: Record<string, string>,
+    title: string,
+    report: TmtImportReport
+  ): Threat {
+    const category = properties['UserThreatCategory'] || text(instance, 'UserThreatCategory');
+    let strideCategory = THREAT_CATEGORY_MAP[category.toLowerCase().replace(/[^a-z]/g, '')];
+    if (!strideCategory) {
+      strideCategory = 'information-disclosure';
+      report.untranslated.push({
+        kind: 'threat',
+        name: title,
+        reason: `category "${category || 'none'}" is not a STRIDE category - filed under Information Disclosure`,
+      });
+    }
+
+    const priority = (text(instance, 'Priority') || properties['Priority'] || '').toLowerCase() as ThreatSeverity;
+    const severity = SEVERITIES.includes(priority) ? priority : 'medium';
+    const state = text(instance, 'State') || 'AutoGenerated';
+    const justification = text(instance, 'StateInformation') || properties['StateInformation'] || '';
+
+    let description = properties['UserThreatDescription'] || properties['UserThreatShortDescription'] || '';
+    if (justification && state !== 'Mitigated') {
+      description = `${description}\n\nJustification (${STATE_LABELS[state] || state}): ${justification}`.trim();
+    }
+
+    const controls = state === 'Mitigated'
+      ? [{
+          id: generateId('control'),
+          name: 'Mitigation',
+          description: justification || 'Marked as mitigated in the Threat Modeling Tool',
+          implemented: true,
+        }]
+      : [];
+
+    const extra: Record<string, string> = {};
+    for (const [key, value] of Object.entries(properties)) {
+      if (!['Title', 'UserThreatCategory', 'UserThreatDescription', 'UserThreatShortDescription', 'Priority', 'StateInformation'].includes(key)) {
+        extra[key] = value;
+      }
+    }
+
+    return {
+      id: generateId('threat'),
+      title,
+      description,
+      severity,
+      strideCategory,
+      controls,
+      isActionItem: state === 'NeedsInvestigation',
+      extensions: {
+        [TMT_EXTENSION]: {
+          id: text(instance, 'Id'),
+          typeId: text(instance, 'TypeId'),
+          state,
+          justification,
+          interactionKey: text(instance, 'InteractionKey'),
+          properties: extra,
+        },
+      },
+    };
+  }
+
+  /* ---------- element helpers ---------- */
+
+  private createElement(id: string, type: STRIDEElementType, name: string): DiagramElement {
+    return {
+      id: id || generateId(type),
+      type,
+      name,
+      position: { x: 0, y: 0 },
+      size: { width: 100, height: 60 },
+      threats: [],
+      technologies: [],
+      notes: '',
+      description: '',
+      assets: [],
+    };
+  }
+
+  private facingEdges(source: DiagramElement, target: DiagramElement) {
+    const dx = (target.position.x + target.size.width / 2) - (source.position.x + source.size.width / 2);
+    const dy = (target.position.y + target.size.height / 2) - (source.position.y + source.size.height / 2);
+
+    if (Math.abs(dx) >= Math.abs(dy)) {
+      return dx >= 0
+        ? { sourceEdge: 'right' as const, targetEdge: 'left' as const }
+        : { sourceEdge: 'left' as const, targetEdge: 'right' as const };
+    }
+    return dy >= 0
+      ? { sourceEdge: 'bottom' as const, targetEdge: 'top' as const }
+      : { sourceEdge: 'top' as const, targetEdge: 'bottom' as const };
+  }
+}
@@ -0,0 +1,140 @@
+// src/services/transport.ts — Network-agnostic transport contract and factory
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { ServerlessWebRTC, ServerlessWebRTCOptions } from './serverlessWebRTC';
+import { LocalTransport, LocalTransportOptions } from './localTransport';
+import { WebSocketRelayTransport, RelayTransportOptions } from './relayTransport';
+
+/* -------------------------------------------------------------------------- */
+/* Message shapes                                                             */
+/* -------------------------------------------------------------------------- */
+export interface DiagramMessage {
+  type:
+    | 'events'
+    | 'request_history'
+    | 'user_presence'
+    | 'user_disconnect'
+    | 'full_history'
+    | 'raft_message'
+    | 'distributed_operation'
+    | 'conflict_resolution'
+    | 'network_partition'
+    | 'consensus_message'
+    | 'diagram_update';
+  data: unknown;
+  userId: string;
+  timestamp: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Wire format (Trystero actions and relay frames)                            */
+/* -------------------------------------------------------------------------- */
+export type SystemKind = 'hello' | 'ping' | 'pong' | 'app';
+
+export interface WireEnvelope {
+  v: 1;
+  id: string; // message id
+  kind: SystemKind;
+  ts: number;
+  to?: string;
+  // For kind === 'app'
+  appType?: DiagramMessage['type'];
+  payload?: string; // base64 AES-GCM ciphertext or JSON string (if no key)
+  // For kind === 'hello'/'ping'/'pong'
+  meta?: any;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Metrics & peer state                                                       */
+/* -------------------------------------------------------------------------- */
+export interface ConnectionMetrics {
+  latency: number;          // ms (EMA)
+  packetLoss: number;       // 0..1 (from pings over last window)
+  bandwidth: number;        // kB/s (EMA of bytes/s both directions)
+  reliability: 'excellent' | 'good' | 'poor' | 'unstable';
+  lastUpdate: number;
+}
+
+export interface PeerInfo {
+  nodeId: string;   // transport-level peer id
+  userId: string;   // app logical user id
+  connectionQuality: ConnectionMetrics;
+  capabilities: string[];
+  joinedAt: number;
+  lastSeen: number;
+}
+
+export interface TransportStats {
+  connectedPeers: number;
+  messagesSent: number;
+  messagesReceived: number;
+  networkErrors: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Transport                                                                  */
+/* -------------------------------------------------------------------------- */
+export type TransportKind = 'webrtc' | 'relay' | 'local';
+
+/**
+ * What the state layer needs from a network. Handlers receive the sender's
+ * userId; `send` without a peerId broadcasts to everyone in the room.
+ * One handler per message type - registering again replaces it.
+ */
+export interface Transport {
+  readonly kind: TransportKind;
+  on<T = unknown>(type: DiagramMessage['type'], handler: (payload: T, from: string) => void): void;
+  send(type: DiagramMessage['type'], data: unknown, peerId?: string): Promise<void>;
+  getPeers(): PeerInfo[];
+  getStats(): TransportStats;
+  disconnect(): void;
+}
+
+/**
+ * Transport-level peer id for a user, for targeted `send`. Undefined when the
+ * user is not currently connected.
+ */
+export function peerIdForUser(transport: Transport, userId: string): string | undefined {
+  return transport.getPeers().find(peer => peer.userId === userId)?.nodeId;
+}
+
+/** Options every transport understands */
+export interface TransportOptions {
+  autoRequestHistory?: boolean; // request history when first peer joins
+  heartbeatMs?: number;         // presence/ping interval
+}
+
+export const TRANSPORT_KINDS: Record<TransportKind, { name: string; description: string }> = {
+  webrtc: {
+    name: 'Peer-to-peer (WebRTC)',
+    description: 'Direct browser-to-browser connections, discovered through public BitTorrent trackers',
+  },
+  relay: {
+    name: 'WebSocket relay',
+    description: 'Through a relay server you host (npm run relay) - for networks that block trackers and STUN/TURN',
+  },
+  local: {
+    name: 'This device only',
+    description: 'Tabs of this browser share the room through BroadcastChannel - no network traffic at all',
+  },
+};
+
+/**
+ * Open a room on the requested transport.
+ */
+export async function connectTransport(
+  kind: TransportKind,
+  roomId: string,
+  userId: string,
+  pass?: string,
+  opts?: ServerlessWebRTCOptions & RelayTransportOptions & LocalTransportOptions,
+): Promise<Transport> {
+  switch (kind) {
+    case 'relay':
+      return WebSocketRelayTransport.connect(roomId, userId, pass, opts);
+    case 'local':
+      return LocalTransport.connect(roomId, userId, pass, opts);
+    case 'webrtc':
+    default:
+      return ServerlessWebRTC.connect(roomId, userId, pass, opts);
+  }
+}
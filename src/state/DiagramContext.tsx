@@ -1,7 +1,7 @@
 // src/state/DiagramContext.tsx - Enterprise-grade distributed context
 import React, { createContext, useContext, useState, useEffect, ReactNode, useRef } from 'react';
 import { DiagramElement, ThreatActor } from '../types/diagram';
-import { ServerlessWebRTC } from '../services/serverlessWebRTC';
+import { Transport } from '../services/transport';
 import { 
   DistributedStateManager, 
   DistributedStateEvent, 
@@ -9,12 +9,13 @@ import {
   StateSnapshot 
 } from './distributedStateManager';
 import { Session } from './sessionManager';
+import type { Signed } from '../utils/signing';
 
 /* ------------------------------------------------------------------------- */
 /* Types                                                                     */
 /* ------------------------------------------------------------------------- */
 
-export interface DiagramEvent {
+export interface DiagramEvent extends Signed {
   type: 'element.insert' | 'element.update' | 'element.delete' | 
         'threatActor.insert' | 'threatActor.update' | 'threatActor.delete';
   data?: DiagramElement | ThreatActor;
@@ -22,6 +23,7 @@ export interface DiagramEvent {
   patch?: Partial<DiagramElement> | Partial<ThreatActor>;
   seq: number;
   actor: string;
+  timestamp?: number; // wall-clock ms when applied here; absent on events logged before timestamps
 }
 
 export interface UserPresence {
@@ -100,7 +102,7 @@ interface DiagramContextValue {
   selectElement: (elementId: string | null) => void;
   
   // Actions - Connection operations
-  connect: (rtc: ServerlessWebRTC, userId: string) => Promise<void>;
+  connect: (rtc: Transport, userId: string) => Promise<void>;
   disconnect: () => void;
   
   // Actions - Storage operations
@@ -492,7 +494,7 @@ export const DiagramProvider: React.FC<DiagramProviderProps> = ({
     },
     
     // Connection operations
-    connect: async (rtc: ServerlessWebRTC, userId: string) => {
+    connect: async (rtc: Transport, userId: string) => {
       if (!distributedStateManager.current) return;
       
       setState(prev => ({ ...prev, isLoading: true }));
@@ -1,6 +1,6 @@
 // src/state/consensusProtocol.ts - Blockchain-like consensus protocol for P2P sync
 import { VectorClock, CRDTState, CRDTOperation } from './distributedState';
-import { ServerlessWebRTC } from '../services/serverlessWebRTC';
+import { Transport } from '../services/transport';
 
 /**
  * Consensus message types for P2P communication
@@ -36,7 +36,7 @@ interface ConsensusProposal {
  */
 export class ConsensusProtocol {
   private crdtState: CRDTState;
-  private rtc: ServerlessWebRTC | null = null;
+  private rtc: Transport | null = null;
   private nodeId: string;
   private connectedPeers: Set<string> = new Set();
   private proposals: Map<string, ConsensusProposal> = new Map();
@@ -57,7 +57,7 @@ export class ConsensusProtocol {
   /**
    * Initialize consensus protocol with WebRTC connection
    */
-  initialize(rtc: ServerlessWebRTC): void {
+  initialize(rtc: Transport): void {
     this.rtc = rtc;
     this.setupMessageHandlers();
     this.startHeartbeat();
@@ -1,7 +1,9 @@
 // src/state/diagramActions.ts - Clean action creators with no duplicates
 import { DiagramElement, ThreatActor } from '../types/diagram';
-import { ServerlessWebRTC } from '../services/serverlessWebRTC';
+import { Transport } from '../services/transport';
 import { DiagramEvent, UserPresence } from './DiagramContext';
+import { withDescendants } from '../utils/dfdLevels';
+import { withReferences } from '../utils/projectViews';
 
 /**
  * Core diagram event action creators
@@ -70,7 +72,7 @@ export const StateActions = {
   }),
 
   // Connection management
-  setConnection: (rtc: ServerlessWebRTC, userId: string): Action => ({
+  setConnection: (rtc: Transport, userId: string): Action => ({
     type: 'SET_CONNECTION',
     payload: { rtc, userId },
   }),
@@ -97,6 +99,16 @@ export const StateActions = {
     payload: { elementId },
   }),
 
+  selectElements: (elementIds: string[]): Action => ({
+    type: 'SELECT_ELEMENTS',
+    payload: { elementIds },
+  }),
+
+  toggleElementSelection: (elementId: string): Action => ({
+    type: 'TOGGLE_ELEMENT_SELECTION',
+    payload: { elementId },
+  }),
+
   // Storage operations
   loadFromStorage: (): Action => ({
     type: 'LOAD_FROM_STORAGE',
@@ -136,7 +148,7 @@ export const StateActions = {
  * These combine multiple actions for common operations
  */
 export const CompositeActions = {
-  // Batch element updates
+  // Batch element updates (group move/align/recolor) - applied as one atomic batch
   updateElements: (updates: Array<{ id: string; patch: Partial<DiagramElement> }>): Omit<DiagramEvent, 'seq' | 'actor'>[] => 
     updates.map(({ id, patch }) => DiagramEventActions.updateElement(id, patch)),
 
@@ -185,6 +197,16 @@ export const CompositeActions = {
     return actions;
   },
 
+  // Delete a group of elements, their sub-diagrams, other appearances and connected flows in one batch
+  deleteElements: (elementIds: string[], allElements: DiagramElement[]): Omit<DiagramEvent, 'seq' | 'actor'>[] => {
+    const ids = new Set<string>();
+    withReferences(allElements, withDescendants(allElements, elementIds)).forEach(elementId => {
+      CompositeActions.deleteElementWithConnections(elementId, allElements)
+        .forEach(event => ids.add(event.id!));
+    });
+    return Array.from(ids).map(id => DiagramEventActions.deleteElement(id));
+  },
+
   // Import diagram data
   importDiagram: (elements: DiagramElement[], threatActors: ThreatActor[]): Omit<DiagramEvent, 'seq' | 'actor'>[] => [
     ...elements.map(element => DiagramEventActions.createElement(element)),
@@ -200,11 +222,13 @@ export type Action =
   | { type: 'APPLY_REMOTE_EVENTS'; payload: { events: DiagramEvent[] } }
   | { type: 'INITIALIZE_FROM_HISTORY'; payload: { events: DiagramEvent[] } }
   | { type: 'REPLACE_WITH_FULL_HISTORY'; payload: { events: DiagramEvent[] } }
-  | { type: 'SET_CONNECTION'; payload: { rtc: ServerlessWebRTC; userId: string } }
+  | { type: 'SET_CONNECTION'; payload: { rtc: Transport; userId: string } }
   | { type: 'DISCONNECT'; payload: {} }
   | { type: 'UPDATE_USER_PRESENCE'; payload: { user: UserPresence } }
   | { type: 'REMOVE_USER'; payload: { userId: string } }
   | { type: 'SELECT_ELEMENT'; payload: { elementId: string | null } }
+  | { type: 'SELECT_ELEMENTS'; payload: { elementIds: string[] } }
+  | { type: 'TOGGLE_ELEMENT_SELECTION'; payload: { elementId: string } }
   | { type: 'LOAD_FROM_STORAGE'; payload: {} }
   | { type: 'SAVE_TO_STORAGE'; payload: {} }
   | { type: 'CLEAR_STORAGE'; payload: {} }
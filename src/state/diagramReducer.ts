@@ -3,6 +3,7 @@ import { DiagramElement, ThreatActor } from '../types/diagram';
 import { DiagramEvent, UserPresence } from './DiagramContext';
 import { Action } from './diagramActions';
 import { StorageService } from './storage';
+import { computeTrustBoundaryModel, TrustBoundaryModel, BoundaryCrossing } from '../utils/trustBoundaries';
 
 /**
  * Lightweight EventStore for managing diagram events
@@ -66,11 +67,12 @@ export interface DiagramState {
   eventStore: EventStore;
   
   // UI state
-  selectedElementId: string | null;
+  selectedElementId: string | null; // Primary selection (last clicked)
+  selectedElementIds: string[];
   users: Record<string, UserPresence>;
   
   // Connection state
-  rtc: any | null; // ServerlessWebRTC
+  rtc: any | null; // Transport
   userId: string;
   isConnected: boolean;
   
@@ -96,6 +98,7 @@ export const createInitialState = (): DiagramState => {
     },
     eventStore,
     selectedElementId: null,
+    selectedElementIds: [],
     users: {},
     rtc: null,
     userId: userPreferences.userId,
@@ -276,6 +279,28 @@ export const diagramReducer = (state: DiagramState, action: Action): DiagramStat
         return {
           ...state,
           selectedElementId: action.payload.elementId,
+          selectedElementIds: action.payload.elementId ? [action.payload.elementId] : [],
+        };
+      }
+
+      case 'SELECT_ELEMENTS': {
+        const { elementIds } = action.payload;
+        return {
+          ...state,
+          selectedElementId: elementIds.length > 0 ? elementIds[elementIds.length - 1] : null,
+          selectedElementIds: elementIds,
+        };
+      }
+
+      case 'TOGGLE_ELEMENT_SELECTION': {
+        const { elementId } = action.payload;
+        const selectedElementIds = state.selectedElementIds.includes(elementId)
+          ? state.selectedElementIds.filter(id => id !== elementId)
+          : [...state.selectedElementIds, elementId];
+        return {
+          ...state,
+          selectedElementId: selectedElementIds.length > 0 ? selectedElementIds[selectedElementIds.length - 1] : null,
+          selectedElementIds,
         };
       }
 
@@ -374,6 +399,11 @@ export const selectors = {
   getSelectedElement: (state: DiagramState): DiagramElement | null => 
     state.selectedElementId ? state.view.elements[state.selectedElementId] || null : null,
   
+  getSelectedElements: (state: DiagramState): DiagramElement[] =>
+    state.selectedElementIds
+      .map(id => state.view.elements[id])
+      .filter(Boolean),
+  
   getUsers: (state: DiagramState): UserPresence[] => 
     Object.values(state.users),
   
@@ -402,6 +432,21 @@ export const selectors = {
       .filter(Boolean);
   },
   
+  // Trust boundaries
+  getTrustBoundaryModel: (state: DiagramState): TrustBoundaryModel =>
+    computeTrustBoundaryModel(Object.values(state.view.elements)),
+  
+  getBoundaryCrossings: (state: DiagramState): BoundaryCrossing[] =>
+    selectors.getTrustBoundaryModel(state).crossings,
+  
+  getElementsInBoundary: (state: DiagramState, boundaryId: string): DiagramElement[] => {
+    const { containment } = selectors.getTrustBoundaryModel(state);
+    return Object.keys(containment)
+      .filter(elementId => containment[elementId].includes(boundaryId))
+      .map(elementId => state.view.elements[elementId])
+      .filter(Boolean);
+  },
+  
   // Statistics
   getStats: (state: DiagramState) => ({
     elementCount: Object.keys(state.view.elements).length,
@@ -4,8 +4,27 @@ import { RaftConsensusProtocol } from './raftConsensus';
 import { OperationalTransformEngine, OTOperation, OTOperationMeta } from './operationalTransforms';
 import { PeerLifecycleManager, LifecycleEvent } from './peerLifecycleManager';
 import { StorageService } from './storage';
-import { ServerlessWebRTC } from '../services/serverlessWebRTC';
+import { encryptedStorage } from './encryptedStorage';
+import { UndoHistory, HistoryView } from './undoHistory';
+import { DiagramEventActions, CompositeActions } from './diagramActions';
+import { DiagramEvent } from './DiagramContext';
+import {
+  SavedSnapshot, SnapshotMetadata, ModelState, TimelineEntry,
+  eventsFromOperation, buildTimeline, baseSnapshotFor, stateAfterEvent,
+} from './versionHistory';
+import { Transport, peerIdForUser } from '../services/transport';
 import { DiagramElement, ThreatActor } from '../types/diagram';
+import { loadSigningIdentity, signRecord, keyFingerprint, Signed, SignerPins, SigningIdentity } from '../utils/signing';
+import { RoomRoles, RoomRole, RoomRoster, RoomOwnerHint, AssignableRole, roleAllows, canEdit } from './roomRoles';
+import {
+  RoomAccess, RoomCredentials, EditGrants, issueEditGrant,
+  accessFromPassphrase, deriveTransportSecret, createExchangeKey, sealCredentials, openCredentials,
+} from '../utils/roomAccess';
+import { makeRoomSalt } from '../utils/roomCrypto';
+import { makePassphrase } from '../utils/passphrase';
+import { ModelBranch, loadBranches, saveBranches } from './modelBranches';
+import { hasSubDiagram } from '../utils/dfdLevels';
+import { referencesTo, splitReferencePatch } from '../utils/projectViews';
 
 /**
  * Replay options for state loading
@@ -51,8 +70,22 @@ export type DistributedStateEvent =
   | { type: 'sync_status_changed'; isSyncing: boolean; progress?: number }
   | { type: 'connection_status_changed'; isConnected: boolean; peerCount: number }
   | { type: 'conflict_resolved'; operationId: string; resolution: string }
+  | { type: 'peer_quarantined'; peerId: string; reason: string }
+  | { type: 'roles_changed'; ownRole: RoomRole | null; isOwner: boolean; defaultRole: AssignableRole | null; participants: RoomParticipant[]; canRotateKey: boolean }
+  | { type: 'removed_from_room' }
+  | { type: 'room_key_rotated'; credentials: RoomCredentials; rotatedBy: 'us' | 'peer' }
   | { type: 'error_occurred'; error: string; context?: any };
 
+/**
+ * Someone in the room, identified by their signing key
+ */
+export interface RoomParticipant {
+  userId: string;
+  signerKey: string;
+  role: RoomRole | null; // null: kicked
+  isSelf: boolean;
+}
+
 /**
  * Current state snapshot
  */
@@ -106,9 +139,19 @@ export interface DistributedStateStats {
  * Orchestrates all distributed systems components for business-critical reliability
  */
 export class DistributedStateManager {
+  private static readonly HISTORY_SNAPSHOT_INTERVAL = 100; // snapshot the model every 100 logged events
+  
   // Core components
   private sessionManager: SessionManager | null = null;
   private raftConsensus: RaftConsensusProtocol | null = null;
+  private signerPins = new SignerPins(); // signing keys seen per peer, first use wins
+  private roles: RoomRoles | null = null;
+  private participants = new Map<string, string>(); // userId → signing key, for connected peers
+  private access: RoomAccess | null = null;        // room capabilities from the invite link
+  private editGrants: EditGrants | null = null;    // keys that proved they hold an edit link
+  private ownEditGrant: string | null = null;      // null: we joined through a read-only link
+  private exchangeKey: { publicKey: string; privateKey: CryptoKey } | null = null; // receives rotated room keys
+  private peerExchangeKeys = new Map<string, string>(); // userId → exchange key from their signed identity
   private operationalTransforms: OperationalTransformEngine | null = null;
   private peerLifecycle: PeerLifecycleManager | null = null;
   private storageService: StorageService;
@@ -125,11 +168,14 @@ export class DistributedStateManager {
   // Operation queue for solo mode - "dam pattern" 
   private pendingOperations: OTOperationMeta[] = [];
   
+  // Undo/redo history of this user's own edits (remote operations are never recorded)
+  private history: UndoHistory = new UndoHistory();
+  
   // Event handling
   private eventListeners: Set<(event: DistributedStateEvent) => void> = new Set();
   
   // Network connection
-  private rtc: ServerlessWebRTC | null = null;
+  private rtc: Transport | null = null;
   private isConnected: boolean = false;
   private userId: string | null = null;
   private nodeId: string;
@@ -172,7 +218,7 @@ export class DistributedStateManager {
   /**
    * Initialize distributed system for a room
    */
-  async initializeRoom(userId: string, roomId: string): Promise<Session> {
+  async initializeRoom(userId: string, roomId: string, owner: RoomOwnerHint = {}, access: RoomAccess | null = null): Promise<Session> {
     // Clear any existing state to prevent room cross-contamination
     console.log(`🧹 Clearing state before initializing room: ${roomId} (previous room: ${this.stats.currentRoom || 'none'})`);
     
@@ -188,12 +234,49 @@ export class DistributedStateManager {
     this.userId = userId;
     console.log(`👤 Set userId: ${userId} for room: ${roomId}`);
     
+    // With room keys the saved copy is encrypted with a key from the link
+    await encryptedStorage.openRoom(roomId, access?.transportSecret ?? null);
+    
     // Load room state from localStorage immediately for solo mode
     await this.loadRoomState(roomId);
     
+    // Roles are bound to our signing key, so it is needed before the first edit
+    let identity: SigningIdentity | null = null;
+    try {
+      identity = await loadSigningIdentity();
+    } catch (error) {
+      console.error('❌ No signing identity - roles cannot be checked for our own edits:', error);
+    }
+    this.roles = await RoomRoles.open(roomId, identity, owner);
+    
+    // Only edit links can grant our key edit rights; read-only links cannot
+    this.access = access;
+    this.editGrants = access ? new EditGrants(access) : null;
+    this.ownEditGrant = access && identity ? await issueEditGrant(access, identity.publicKey) : null;
+    if (identity && this.ownEditGrant) await this.editGrants?.present(identity.publicKey, this.ownEditGrant);
+    if (access && !access.editKey) console.log('👁️ Joined through a read-only link - changes are disabled');
+    try {
+      this.exchangeKey = await createExchangeKey();
+    } catch (error) {
+      console.warn('⚠️ No key exchange support - we cannot follow room key rotations:', error);
+    }
+    this.emitRolesChanged();
+    // connect() announced us before the grant and exchange key existed
+    if (this.rtc) await this.announceIdentity();
+    
     // Initialize core components (but don't initialize Raft consensus until WebRTC is ready)
     this.sessionManager = new SessionManager();
-    this.raftConsensus = new RaftConsensusProtocol(this.nodeId, roomId);
+    // Raft ids are userIds so they match the sender ids the transport reports
+    this.raftConsensus = new RaftConsensusProtocol(userId, roomId);
+    // Raft snapshots only mark a position; the state itself comes as a signed full_history
+    this.raftConsensus.setSnapshotHandlers(
+      () => ({ version: this.currentState.version, checksum: this.currentState.checksum }),
+      () => {
+        if (Object.keys(this.currentState.elements).length === 0) {
+          this.rtc?.send('request_history', { since: 0 });
+        }
+      }
+    );
     this.operationalTransforms = new OperationalTransformEngine();
     this.peerLifecycle = new PeerLifecycleManager(
       this.sessionManager,
@@ -212,7 +295,7 @@ export class DistributedStateManager {
     } catch (error) {
       // Room doesn't exist, create it
       console.log(`🔨 Creating new room: ${roomId} for user: ${userId}`);
-      const metadata = this.sessionManager.createRoom(userId, `Room ${roomId}`, undefined, undefined, roomId);
+      const metadata = this.sessionManager.createRoom(userId, `Room ${roomId}`, undefined, roomId);
       console.log(`✅ Created room metadata:`, metadata);
       session = this.sessionManager.joinRoom(userId, roomId);
       console.log(`✅ Joined newly created room: ${roomId}`);
@@ -225,6 +308,9 @@ export class DistributedStateManager {
     this.stats.currentRoom = roomId;
     this.stats.currentSession = session.id;
     
+    // Models saved before version history was kept get a starting point
+    this.snapshotIfHistoryMissing();
+    
     this.emitEvent({ type: 'state_initialized', roomId, session });
     
     console.log(`✅ Distributed state initialized for room: "${roomId}", user: "${userId}"`);
@@ -232,22 +318,32 @@ export class DistributedStateManager {
   }
   
   /**
-   * Connect to WebRTC network - "Open the floodgates"
+   * Connect to the network (WebRTC, local tabs, ...) - "Open the floodgates"
    */
-  async connect(rtc: ServerlessWebRTC, userId: string): Promise<void> {
+  async connect(rtc: Transport, userId: string): Promise<void> {
     this.rtc = rtc;
     this.userId = userId;
     
-    // Initialize components with WebRTC
+    // Initialize components with the transport
     if (this.raftConsensus) this.raftConsensus.initialize(rtc);
     if (this.peerLifecycle) this.peerLifecycle.initialize(rtc);
     
     // Setup network event handlers
     this.setupNetworkHandlers();
     
+    // Everything we send is signed - create the identity key before the first send
+    try {
+      await loadSigningIdentity();
+    } catch (error) {
+      console.error('❌ No signing identity - peers will reject our changes:', error);
+    }
+    
     this.isConnected = true;
     this.stats.isConnected = true;
     
+    // Tell peers who we are and what the owner last said about roles
+    await this.announceIdentity();
+    
     // 🌊 "Open the floodgates" - Flush all pending operations to peers
     await this.flushPendingOperations();
     
@@ -272,20 +368,14 @@ export class DistributedStateManager {
     
     // Send current state snapshot to peers first for consistency
     if (this.rtc) {
-      const snapshot = {
-        snapshot: this.currentState,
-        version: this.stats.eventsStored,
-        pendingOperationsCount: this.pendingOperations.length
-      };
-      
       console.log('📤 Broadcasting complete state snapshot to peers');
-      this.rtc.send('full_history', snapshot);
+      await this.sendSignedState(undefined, { pendingOperationsCount: this.pendingOperations.length });
     }
     
     // Then broadcast each operation for operation-level sync
     for (const operation of this.pendingOperations) {
       console.log(`🌊 Flushing operation: ${operation.operation.type}`);
-      this.broadcastOperationToPeers(operation);
+      await this.broadcastOperationToPeers(operation);
     }
     
     // Clear the pending operations queue after flushing
@@ -326,7 +416,7 @@ export class DistributedStateManager {
     );
     
     if (!opMeta) return false;
-    return this.submitOperation(opMeta);
+    return this.submitRecorded([DiagramEventActions.createElement(element)], () => this.submitOperation(opMeta));
   }
   
   /**
@@ -345,6 +435,10 @@ export class DistributedStateManager {
       console.warn(`Element ${elementId} not found in current state`);
       return false; // Graceful failure instead of throwing
     }
+    // Edits of an element placed in several diagrams reach every appearance
+    if (currentElement.refId || ('name' in updates && referencesTo(Object.values(this.currentState.elements), elementId).length > 0)) {
+      return this.updateElements([{ id: elementId, patch: updates }]);
+    }
     
     // Increment vector clock
     this.vectorClock[this.nodeId]++;
@@ -379,7 +473,7 @@ export class DistributedStateManager {
     }
     
     // Submit all operations
-    return this.submitOperations(operations);
+    return this.submitRecorded([DiagramEventActions.updateElement(elementId, updates)], () => this.submitOperations(operations));
   }
   
   /**
@@ -397,6 +491,11 @@ export class DistributedStateManager {
     if (!element) {
       return true; // Already deleted
     }
+    // A process's sub-diagram, and an element's appearances in other diagrams, go with it
+    const allElements = Object.values(this.currentState.elements);
+    if (hasSubDiagram(allElements, elementId) || referencesTo(allElements, elementId).length > 0) {
+      return this.deleteElements([elementId]);
+    }
     
     // Increment vector clock
     this.vectorClock[this.nodeId]++;
@@ -417,7 +516,7 @@ export class DistributedStateManager {
     );
     
     if (!opMeta) return false;
-    return this.submitOperation(opMeta);
+    return this.submitRecorded([DiagramEventActions.deleteElement(elementId)], () => this.submitOperation(opMeta));
   }
   
   /**
@@ -447,15 +546,339 @@ export class DistributedStateManager {
       { ...this.vectorClock }
     );
     
+    return this.submitRecorded([DiagramEventActions.updateElement(elementId, { position: newPosition })], () => this.submitOperation(opMeta));
+  }
+  
+  /**
+   * Update several elements as one atomic change (group move, align, recolor).
+   * Peers receive a single batch operation and undo reverts the whole group.
+   */
+  async updateElements(updates: Array<{ id: string; patch: Partial<DiagramElement> }>): Promise<boolean> {
+    const existing = this.expandReferenceUpdates(updates.filter(({ id }) => this.currentState.elements[id]));
+    if (existing.length === 0) return true;
+    
+    const events = CompositeActions.updateElements(existing);
+    
+    const operations: OTOperation[] = [];
+    for (const { id, patch } of existing) {
+      const currentElement = this.currentState.elements[id];
+      for (const [property, newValue] of Object.entries(patch)) {
+        const oldValue = (currentElement as any)[property];
+        if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+          operations.push({ type: 'update_element_property', elementId: id, property, oldValue, newValue });
+        }
+      }
+    }
+    
+    return this.submitRecorded(events, () => this.submitBatch(operations));
+  }
+  
+  /**
+   * Send what a reference shares to its original, and a new name on to every
+   * other appearance, so the raw elements stay consistent
+   */
+  private expandReferenceUpdates(updates: Array<{ id: string; patch: Partial<DiagramElement> }>): Array<{ id: string; patch: Partial<DiagramElement> }> {
+    const allElements = Object.values(this.currentState.elements);
+    const expanded: Array<{ id: string; patch: Partial<DiagramElement> }> = [];
+    for (const { id, patch } of updates) {
+      const refId = this.currentState.elements[id].refId;
+      const original = refId ? this.currentState.elements[refId] : undefined;
+      if (!original) {
+        expanded.push({ id, patch });
+      } else {
+        const { shared, own } = splitReferencePatch(patch);
+        expanded.push({ id: original.id, patch: shared }, { id, patch: own });
+      }
+      const originalId = original?.id ?? id;
+      if ('name' in patch) {
+        referencesTo(allElements, originalId).forEach(ref => expanded.push({ id: ref.id, patch: { name: patch.name } }));
+      }
+    }
+    return expanded.filter(({ patch }) => Object.keys(patch).length > 0);
+  }
+  
+  /**
+   * Delete several elements (and their connected data flows) as one atomic change
+   */
+  async deleteElements(elementIds: string[]): Promise<boolean> {
+    const allElements = Object.values(this.currentState.elements);
+    const events = CompositeActions.deleteElements(
+      elementIds.filter(id => this.currentState.elements[id]),
+      allElements
+    );
+    if (events.length === 0) return true;
+    
+    const operations: OTOperation[] = events.map(({ id }) => id!).map(id => ({
+      type: 'delete_element',
+      elementId: id,
+      element: this.currentState.elements[id],
+      position: allElements.indexOf(this.currentState.elements[id]),
+    }));
+    
+    return this.submitRecorded(events, () => this.submitBatch(operations));
+  }
+  
+  /**
+   * Wrap operations in a single batch operation and submit it
+   */
+  private async submitBatch(operations: OTOperation[]): Promise<boolean> {
+    if (operations.length === 0) return true;
+    
+    // Increment vector clock
+    this.vectorClock[this.nodeId]++;
+    
+    const opMeta = this.operationalTransforms?.createOperation(
+      operations.length === 1 ? operations[0] : { type: 'batch', operations },
+      this.userId!,
+      this.stats.currentSession || '',
+      this.stats.currentRoom || '',
+      { ...this.vectorClock }
+    );
+    
     return this.submitOperation(opMeta);
   }
   
+  /**
+   * Create a new threat actor
+   */
+  async createThreatActor(actor: ThreatActor): Promise<boolean> {
+    // Increment vector clock
+    this.vectorClock[this.nodeId]++;
+    
+    const operation: OTOperation = {
+      type: 'insert_threat_actor',
+      actorId: actor.id,
+      actor,
+      position: Object.keys(this.currentState.threatActors).length,
+    };
+    
+    const opMeta = this.operationalTransforms?.createOperation(
+      operation,
+      this.userId!,
+      this.stats.currentSession || '',
+      this.stats.currentRoom || '',
+      { ...this.vectorClock }
+    );
+    
+    return this.submitRecorded([DiagramEventActions.createThreatActor(actor)], () => this.submitOperation(opMeta));
+  }
+  
+  /**
+   * Update threat actor
+   */
+  async updateThreatActor(actorId: string, updates: Partial<ThreatActor>): Promise<boolean> {
+    const currentActor = this.currentState.threatActors[actorId];
+    if (!currentActor) {
+      console.warn(`Threat actor ${actorId} not found in current state`);
+      return false;
+    }
+    
+    // Increment vector clock
+    this.vectorClock[this.nodeId]++;
+    
+    const operations: OTOperationMeta[] = [];
+    
+    for (const [property, newValue] of Object.entries(updates)) {
+      const oldValue = (currentActor as any)[property];
+      
+      if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+        const operation: OTOperation = {
+          type: 'update_threat_actor',
+          actorId,
+          property,
+          oldValue,
+          newValue,
+        };
+        
+        const opMeta = this.operationalTransforms?.createOperation(
+          operation,
+          this.userId!,
+          this.stats.currentSession || '',
+          this.stats.currentRoom || '',
+          { ...this.vectorClock }
+        );
+        
+        if (opMeta) {
+          operations.push(opMeta);
+        }
+      }
+    }
+    
+    return this.submitRecorded([DiagramEventActions.updateThreatActor(actorId, updates)], () => this.submitOperations(operations));
+  }
+  
+  /**
+   * Delete threat actor
+   */
+  async deleteThreatActor(actorId: string): Promise<boolean> {
+    const actor = this.currentState.threatActors[actorId];
+    if (!actor) {
+      return true; // Already deleted
+    }
+    
+    // Increment vector clock
+    this.vectorClock[this.nodeId]++;
+    
+    const operation: OTOperation = {
+      type: 'delete_threat_actor',
+      actorId,
+      actor,
+      position: Object.values(this.currentState.threatActors).indexOf(actor),
+    };
+    
+    const opMeta = this.operationalTransforms?.createOperation(
+      operation,
+      this.userId!,
+      this.stats.currentSession || '',
+      this.stats.currentRoom || '',
+      { ...this.vectorClock }
+    );
+    
+    return this.submitRecorded([DiagramEventActions.deleteThreatActor(actorId)], () => this.submitOperation(opMeta));
+  }
+  
+  /**
+   * Undo this user's latest edit. Edits made by peers are never reverted.
+   */
+  async undo(): Promise<boolean> {
+    const events = this.history.undo(this.currentState);
+    if (!events) return false;
+    
+    console.log(`↩️ Undo: applying ${events.length} inverse events`);
+    return this.applyHistoryEvents(events, 'undo');
+  }
+  
+  /**
+   * Re-apply this user's latest undone edit
+   */
+  async redo(): Promise<boolean> {
+    const events = this.history.redo(this.currentState);
+    if (!events) return false;
+    
+    console.log(`↪️ Redo: applying ${events.length} events`);
+    return this.applyHistoryEvents(events, 'redo');
+  }
+  
+  canUndo(): boolean {
+    return this.history.canUndo();
+  }
+  
+  canRedo(): boolean {
+    return this.history.canRedo();
+  }
+  
+  /**
+   * Submit a local edit, and add it to the undo history only once it was
+   * applied - a change refused by the user's role, or that failed to submit,
+   * is nothing to undo. The history computes inverses from the values before
+   * the change, so those are taken first.
+   */
+  private async submitRecorded(events: Omit<DiagramEvent, 'seq' | 'actor'>[], submit: () => Promise<boolean>): Promise<boolean> {
+    const before = this.historyView(events);
+    const success = await submit();
+    if (success) this.history.record(events, before);
+    return success;
+  }
+  
+  /**
+   * The model as it is now, for the undo history. Applying an operation
+   * changes element and actor records in place, so those an edit updates are copied.
+   */
+  private historyView(events: Omit<DiagramEvent, 'seq' | 'actor'>[]): HistoryView {
+    const view: HistoryView = {
+      elements: { ...this.currentState.elements },
+      threatActors: { ...this.currentState.threatActors },
+    };
+    for (const event of events) {
+      const records: Record<string, any> = event.type.startsWith('threatActor.') ? view.threatActors : view.elements;
+      if (event.type.endsWith('.update') && event.id && records[event.id]) {
+        records[event.id] = { ...records[event.id] };
+      }
+    }
+    return view;
+  }
+  
+  /**
+   * Turn history events back into operations and submit them as one batch, so
+   * undoing a group change replicates as one atomic change like the edit did.
+   * If they are refused, the entry stays where it was.
+   */
+  private async applyHistoryEvents(events: Omit<DiagramEvent, 'seq' | 'actor'>[], direction: 'undo' | 'redo'): Promise<boolean> {
+    const success = await this.submitBatch(this.operationsForEvents(events));
+    if (!success) this.history.cancel(direction);
+    
+    // Undo/redo may change the stack without touching the model
+    this.emitStateUpdate();
+    return success;
+  }
+  
+  /**
+   * Operations for a sequence of events, each against the model as the ones before it leave it
+   */
+  private operationsForEvents(events: Omit<DiagramEvent, 'seq' | 'actor'>[]): OTOperation[] {
+    const elements = { ...this.currentState.elements };
+    const threatActors = { ...this.currentState.threatActors };
+    const changed = (current: object, patch: object) => Object.entries(patch)
+      .filter(([property, newValue]) => JSON.stringify((current as any)[property]) !== JSON.stringify(newValue))
+      .map(([property, newValue]) => ({ property, oldValue: (current as any)[property], newValue }));
+    
+    return events.flatMap((event): OTOperation[] => {
+      switch (event.type) {
+        case 'element.insert': {
+          const element = event.data as DiagramElement;
+          const position = Object.keys(elements).length;
+          elements[element.id] = element;
+          return [{ type: 'insert_element', elementId: element.id, element, position }];
+        }
+        case 'element.update': {
+          const element = elements[event.id!];
+          if (!element || !event.patch) return [];
+          elements[element.id] = { ...element, ...(event.patch as Partial<DiagramElement>) };
+          return changed(element, event.patch).map(c => ({ type: 'update_element_property', elementId: element.id, ...c }));
+        }
+        case 'element.delete': {
+          const element = elements[event.id!];
+          if (!element) return [];
+          const position = Object.values(elements).indexOf(element);
+          delete elements[element.id];
+          return [{ type: 'delete_element', elementId: element.id, element, position }];
+        }
+        case 'threatActor.insert': {
+          const actor = event.data as ThreatActor;
+          const position = Object.keys(threatActors).length;
+          threatActors[actor.id] = actor;
+          return [{ type: 'insert_threat_actor', actorId: actor.id, actor, position }];
+        }
+        case 'threatActor.update': {
+          const actor = threatActors[event.id!];
+          if (!actor || !event.patch) return [];
+          threatActors[actor.id] = { ...actor, ...(event.patch as Partial<ThreatActor>) };
+          return changed(actor, event.patch).map(c => ({ type: 'update_threat_actor', actorId: actor.id, ...c }));
+        }
+        case 'threatActor.delete': {
+          const actor = threatActors[event.id!];
+          if (!actor) return [];
+          const position = Object.values(threatActors).indexOf(actor);
+          delete threatActors[actor.id];
+          return [{ type: 'delete_threat_actor', actorId: actor.id, actor, position }];
+        }
+      }
+      return [];
+    });
+  }
+  
   /**
    * Submit operation through Raft consensus or queue for solo mode
    */
   private async submitOperation(operation: OTOperationMeta | undefined): Promise<boolean> {
     if (!operation) return false;
     
+    if (!this.mayApply(operation)) {
+      console.warn(`🚫 Your role (${this.ownRole() ?? 'removed'}) does not allow ${operation.operation.type}`);
+      this.emitEvent({ type: 'error_occurred', error: 'Your role in this room does not allow this change', context: { operation: operation.id } });
+      return false;
+    }
+    
     try {
       const start = Date.now();
       
@@ -531,7 +954,7 @@ export class DistributedStateManager {
   /**
    * Broadcast operation to all connected peers for real-time synchronization
    */
-  private broadcastOperationToPeers(operation: OTOperationMeta): void {
+  private async broadcastOperationToPeers(operation: OTOperationMeta): Promise<void> {
     if (!this.rtc || !this.isConnected) {
       console.log('📡 Skipping broadcast - no P2P connection');
       return;
@@ -549,7 +972,8 @@ export class DistributedStateManager {
     try {
       this.rtc.send('events', {
         type: 'distributed_operation',
-        operation: operation,
+        operation: await signRecord(operation, await loadSigningIdentity()),
+        editGrant: this.ownEditGrant,
         timestamp: Date.now(),
         fromUserId: this.userId,
         roomId: this.stats.currentRoom
@@ -562,11 +986,91 @@ export class DistributedStateManager {
   }
 
   /**
-   * Apply operation to local state
+   * May the operation's author make this change? Remote operations are
+   * signed; unsigned ones are our own.
+   */
+  private mayApply(operation: OTOperationMeta): boolean {
+    if (!this.roles) return true;
+    const role = operation.signerKey ? this.roleOf(operation.signerKey) : this.ownRole();
+    return roleAllows(role, operation.operation);
+  }
+  
+  /**
+   * Effective role of a signing key: the owner's roster, capped at viewer for
+   * keys without an edit grant (those joined through a read-only link)
    */
-  private applyOperationToState(operation: OTOperationMeta): void {
-    const op = operation.operation;
+  private roleOf(signerKey: string | null | undefined): RoomRole | null {
+    const role = this.roles ? this.roles.roleOf(signerKey) : 'editor';
+    if (!role || !this.editGrants || this.editGrants.has(signerKey)) return role;
+    return 'viewer';
+  }
+  
+  private ownRole(): RoomRole | null {
+    return this.roleOf(this.roles?.getOwnKey());
+  }
+  
+  /**
+   * Replacing a room's state wholesale bypasses per-operation checks, so it
+   * needs an edit role in that room. Other rooms' rosters are not loaded; their
+   * state here is only this device's copy.
+   */
+  private assertMayReplaceState(roomId: string): void {
+    if (roomId === this.stats.currentRoom && !canEdit(this.getOwnRole())) {
+      throw new Error(`Your role in room ${roomId} does not allow editing`);
+    }
+  }
+  
+  /**
+   * Apply operation to local state - refused when the author's role does not allow it
+   */
+  private applyOperationToState(operation: OTOperationMeta): boolean {
+    if (!this.mayApply(operation)) {
+      console.warn(`🚫 Rejected ${operation.operation.type} from ${operation.authorId}: not allowed by their role`);
+      return false;
+    }
+    
+    this.applyOperation(operation.operation);
     
+    // Update state metadata
+    this.currentState.version++;
+    this.currentState.lastModified = Date.now();
+    this.currentState.checksum = this.computeStateChecksum();
+    this.logOperation(operation);
+    
+    // Emit state update
+    this.emitEvent({
+      type: 'state_updated',
+      elements: Object.values(this.currentState.elements),
+      threatActors: Object.values(this.currentState.threatActors),
+    });
+    return true;
+  }
+  
+  /**
+   * Add an applied operation to the room's version history. A snapshot of the
+   * whole model every HISTORY_SNAPSHOT_INTERVAL events keeps replaying any
+   * version short.
+   */
+  private logOperation(operation: OTOperationMeta): void {
+    const roomId = this.stats.currentRoom;
+    if (!this.sessionManager || !roomId) return;
+    try {
+      const events = eventsFromOperation(operation, Date.now());
+      if (events.length === 0) return;
+      const length = this.sessionManager.appendRoomEvents(roomId, events);
+      const interval = DistributedStateManager.HISTORY_SNAPSHOT_INTERVAL;
+      if (Math.floor(length / interval) > Math.floor((length - events.length) / interval)) {
+        this.createStateSnapshot('Automatic snapshot');
+      }
+    } catch (error) {
+      console.error('Failed to record version history:', error);
+    }
+  }
+  
+  /**
+   * Apply a single operation's effect on the model (no metadata or events)
+   */
+  private applyOperation(op: OTOperation): void {
     switch (op.type) {
       case 'insert_element':
         this.currentState.elements[op.elementId] = op.element;
@@ -601,19 +1105,11 @@ export class DistributedStateManager {
           (this.currentState.threatActors[op.actorId] as any)[op.property] = op.newValue;
         }
         break;
+        
+      case 'batch':
+        op.operations.forEach(inner => this.applyOperation(inner));
+        break;
     }
-    
-    // Update state metadata
-    this.currentState.version++;
-    this.currentState.lastModified = Date.now();
-    this.currentState.checksum = this.computeStateChecksum();
-    
-    // Emit state update
-    this.emitEvent({
-      type: 'state_updated',
-      elements: Object.values(this.currentState.elements),
-      threatActors: Object.values(this.currentState.threatActors),
-    });
   }
   
   /**
@@ -667,6 +1163,10 @@ export class DistributedStateManager {
         this.stats.isStable = event.stable;
         break;
         
+      case 'peer_quarantined':
+        this.emitEvent({ type: 'peer_quarantined', peerId: event.peerId, reason: event.reason });
+        break;
+        
       case 'network_partition_detected':
         this.stats.networkPartitions++;
         this.emitEvent({
@@ -691,6 +1191,8 @@ export class DistributedStateManager {
       console.log('👋 Peer joined:', userId);
       const wasAlone = this.stats.connectedPeers === 0;
       this.stats.connectedPeers = this.rtc!.getPeers().length;
+      this.raftConsensus?.addNode(userId);
+      this.announceIdentity(peerIdForUser(this.rtc!, userId));
       
       // If we were alone and this is our first peer, request state
       if (wasAlone && Object.keys(this.currentState.elements).length === 0) {
@@ -700,10 +1202,7 @@ export class DistributedStateManager {
       // Send current state to new peer if we have data
       else if (this.rtc && Object.keys(this.currentState.elements).length > 0) {
         console.log('📤 Sending current state to new peer:', userId);
-        this.rtc.send('full_history', {
-          snapshot: this.currentState,
-          version: this.stats.eventsStored
-        }, userId);
+        this.sendSignedState(peerIdForUser(this.rtc, userId));
       }
       
       this.emitEvent({ 
@@ -721,6 +1220,9 @@ export class DistributedStateManager {
     this.rtc.on('user_disconnect', (_data: any, userId: string) => {
       console.log('👋 Peer left:', userId);
       this.stats.connectedPeers = this.rtc!.getPeers().length;
+      this.raftConsensus?.removeNode(userId);
+      this.peerExchangeKeys.delete(userId);
+      if (this.participants.delete(userId)) this.emitRolesChanged();
       this.emitEvent({ 
         type: 'peer_left', 
         peerId: userId, 
@@ -734,11 +1236,19 @@ export class DistributedStateManager {
     });
     
     // Handle incoming operations from other peers
-    this.rtc.on('events', async (data: any) => {
+    this.rtc.on('events', async (data: any, fromUserId: string) => {
       console.log('📥 Received P2P event:', data.type, data);
       if (data.type === 'distributed_operation') {
+        if (!(await this.verifyFromPeer(data.operation, data.operation?.authorId, fromUserId, data.editGrant))) return;
         console.log('🔄 Processing remote operation:', data.operation.operation.type);
         await this.handleRemoteOperation(data.operation);
+      } else if (data.type === 'peer_identity') {
+        if (!(await this.verifyFromPeer(data.identity ?? {}, data.identity?.authorId, fromUserId, data.identity?.editGrant))) return;
+        if (typeof data.identity.exchangeKey === 'string') this.peerExchangeKeys.set(fromUserId, data.identity.exchangeKey);
+      } else if (data.type === 'room_roster') {
+        if (await this.roles?.accept(data.roster as RoomRoster)) this.handleRosterChanged();
+      } else if (data.type === 'room_key_rotation') {
+        await this.handleKeyRotation(data.rotation, fromUserId);
       }
     });
     
@@ -746,34 +1256,184 @@ export class DistributedStateManager {
     this.rtc.on('request_history', async (_data: any, fromUserId: string) => {
       console.log('📜 Peer requested history from:', fromUserId, 'current state has', Object.keys(this.currentState.elements).length, 'elements');
       // Send current state snapshot to the requesting peer
-      if (this.rtc) {
-        this.rtc.send('full_history', {
-          snapshot: this.currentState,
-          version: this.stats.eventsStored
-        }, fromUserId);
+      const requesterKey = this.signerPins.keyOf(fromUserId);
+      if (requesterKey && this.roleOf(requesterKey) === null) return; // kicked
+      if (!canEdit(this.ownRole())) return; // peers would not accept our state anyway
+      if (this.rtc && !this.peerLifecycle?.isQuarantined(fromUserId)) {
+        await this.sendSignedState(peerIdForUser(this.rtc, fromUserId));
       }
     });
     
     // Handle full history response
     this.rtc.on('full_history', async (data: any, fromUserId: string) => {
       console.log('📥 Received history from peer:', fromUserId, 'snapshot has', Object.keys(data.snapshot?.elements || {}).length, 'elements');
-      // If we're new and have no state, apply the history
-      if (Object.keys(this.currentState.elements).length === 0 && data.snapshot) {
-        console.log('🔄 Applying initial state from peer...');
-        this.currentState = { ...data.snapshot };
-        
-        console.log(`📦 Loaded state from peer: ${Object.keys(this.currentState.elements).length} elements, ${Object.keys(this.currentState.threatActors).length} threat actors`);
-        
-        // Use consistent state update method
-        this.emitStateUpdate();
-        
-        console.log('✅ Initial state synchronized from peer');
-      }
+      if (!(await this.verifyFromPeer(data, data.authorId, fromUserId, data.editGrant)) || !this.fromEditor(data, fromUserId)) return;
+      if (data.snapshot) this.applyPeerSnapshot(data.snapshot, 'peer');
     });
     
     console.log('✅ Network handlers setup complete');
   }
   
+  /**
+   * Send our state, signed, to one peer (or everyone)
+   */
+  private async sendSignedState(peerId?: string, extra: Record<string, unknown> = {}): Promise<void> {
+    if (!this.rtc) return;
+    try {
+      const message = await signRecord({
+        snapshot: this.currentState,
+        version: this.stats.eventsStored,
+        authorId: this.userId,
+        editGrant: this.ownEditGrant,
+        ...extra,
+      }, await loadSigningIdentity());
+      this.rtc.send('full_history', message, peerId);
+    } catch (error) {
+      console.error('❌ Failed to sign state for peers:', error);
+    }
+  }
+  
+  /**
+   * Check the signature on an operation or snapshot before applying it.
+   * Forged, tampered, unsigned or impersonating messages quarantine the sender.
+   * An edit grant sent along is checked against the sender's key.
+   */
+  private async verifyFromPeer(record: Signed & object, authorId: string | undefined, fromUserId: string, editGrant?: unknown): Promise<boolean> {
+    if (this.peerLifecycle?.isQuarantined(fromUserId)) return false;
+    
+    const result = authorId === fromUserId
+      ? await this.signerPins.verify(record, fromUserId)
+      : { valid: false as const, reason: `sent a change claiming to be from ${authorId || 'nobody'}` };
+    
+    if (!result.valid) {
+      console.warn(`🚫 Rejected change from ${fromUserId}: ${result.reason}`);
+      this.peerLifecycle?.quarantinePeer(fromUserId, result.reason);
+      return false;
+    }
+    
+    await this.editGrants?.present(record.signerKey, editGrant);
+    if (this.participants.get(fromUserId) !== record.signerKey) {
+      this.participants.set(fromUserId, record.signerKey!);
+      this.emitRolesChanged();
+    }
+    if (this.roleOf(record.signerKey) === null) {
+      console.warn(`🚫 Ignoring ${fromUserId}: removed from the room by its owner`);
+      return false;
+    }
+    return true;
+  }
+  
+  /**
+   * Whole-model snapshots replace our state, so only editors may send them
+   */
+  private fromEditor(record: Signed, fromUserId: string): boolean {
+    if (!this.roles || canEdit(this.roleOf(record.signerKey))) return true;
+    console.warn(`🚫 Ignoring state from ${fromUserId}: their role does not allow edits`);
+    return false;
+  }
+  
+  /**
+   * Send our signed identity and the roster we know to one peer (or everyone)
+   */
+  private async announceIdentity(peerId?: string): Promise<void> {
+    if (!this.rtc) return;
+    try {
+      const identity = await signRecord({
+        authorId: this.userId,
+        roomId: this.stats.currentRoom,
+        editGrant: this.ownEditGrant,
+        exchangeKey: this.exchangeKey?.publicKey,
+        timestamp: Date.now(),
+      }, await loadSigningIdentity());
+      await this.rtc.send('events', { type: 'peer_identity', identity }, peerId);
+      const roster = this.roles?.getRoster();
+      if (roster) await this.rtc.send('events', { type: 'room_roster', roster }, peerId);
+    } catch (error) {
+      console.error('❌ Failed to announce identity to peers:', error);
+    }
+  }
+  
+  /**
+   * A newer roster arrived or we changed it
+   */
+  private handleRosterChanged(): void {
+    this.emitRolesChanged();
+    if (this.ownRole() === null) {
+      console.warn('🚪 The room owner removed us from this room');
+      this.emitEvent({ type: 'removed_from_room' });
+    }
+  }
+  
+  /**
+   * A peer rotated the room key. Only someone allowed to rotate it is
+   * believed, and only the part sealed for our exchange key is readable.
+   */
+  private async handleKeyRotation(rotation: any, fromUserId: string): Promise<void> {
+    if (!rotation || !(await this.verifyFromPeer(rotation, rotation.authorId, fromUserId))) return;
+    if (rotation.roomId !== this.stats.currentRoom || !this.mayRotateKey(rotation.signerKey)) {
+      console.warn(`🚫 Ignoring room key rotation from ${fromUserId}: not allowed to rotate the key`);
+      return;
+    }
+    const sealed = rotation.recipients?.[this.userId!];
+    if (!sealed || !this.exchangeKey) {
+      console.warn('🔑 The room key was rotated without us - this link no longer reaches the room');
+      return;
+    }
+    try {
+      const credentials = await openCredentials(sealed, this.exchangeKey.privateKey, rotation.exchangeKey);
+      console.log(`🔑 Room key rotated by ${fromUserId} - moving to the new key`);
+      this.persistCurrentState();
+      await encryptedStorage.rekeyRoom(rotation.roomId, credentials.kind === 'edit'
+        ? await deriveTransportSecret(rotation.roomId, credentials.passphrase, credentials.salt)
+        : credentials.transportSecret);
+      this.emitEvent({ type: 'room_key_rotated', credentials, rotatedBy: 'peer' });
+    } catch (error) {
+      console.error('❌ Could not open the rotated room key:', error);
+    }
+  }
+  
+  /**
+   * The owner rotates the key of a room with a roster; without one, anyone
+   * holding the edit link may
+   */
+  private mayRotateKey(signerKey: string | null | undefined): boolean {
+    if (!signerKey) return false;
+    const roster = this.roles?.getRoster();
+    return roster ? roster.ownerKey === signerKey : !!this.editGrants?.has(signerKey);
+  }
+  
+  private emitRolesChanged(): void {
+    if (!this.roles) return;
+    this.emitEvent({
+      type: 'roles_changed',
+      ownRole: this.ownRole(),
+      isOwner: this.roles.isOwner(),
+      defaultRole: this.roles.getRoster()?.defaultRole ?? null,
+      participants: this.getParticipants(),
+      canRotateKey: this.canRotateKey(),
+    });
+  }
+  
+  /**
+   * Adopt a peer's state - only if we're new and have no state of our own
+   */
+  private applyPeerSnapshot(snapshot: StateSnapshot, source: string): void {
+    if (Object.keys(this.currentState.elements).length > 0 || !snapshot) return;
+    
+    console.log(`🔄 Applying initial state from ${source}...`);
+    this.currentState = { ...snapshot };
+    
+    console.log(`📦 Loaded state from ${source}: ${Object.keys(this.currentState.elements).length} elements, ${Object.keys(this.currentState.threatActors).length} threat actors`);
+    
+    // Use consistent state update method
+    this.emitStateUpdate();
+    
+    // Our history does not explain a model received whole - mark where it starts
+    if (this.stats.currentRoom) this.createStateSnapshot('Received from peers');
+    
+    console.log('✅ Initial state synchronized from peer');
+  }
+  
   /**
    * Handle operation from remote peer
    */
@@ -788,8 +1448,8 @@ export class DistributedStateManager {
     // Transform against concurrent local operations if needed
     // This would involve more sophisticated conflict resolution
     
-    // Apply to local state (this will update the UI)
-    this.applyOperationToState(operation);
+    // Apply to local state (this will update the UI) - unless the author's role forbids it
+    if (!this.applyOperationToState(operation)) return;
     
     // Emit UI update event
     this.emitStateUpdate();
@@ -838,6 +1498,9 @@ export class DistributedStateManager {
     console.log(`🚰 Clearing ${this.pendingOperations.length} pending operations`);
     this.pendingOperations = [];
     
+    // History refers to the previous room's elements
+    this.history.clear();
+    
     // Reset vector clock for new room
     this.vectorClock = { [this.nodeId]: 0 };
     
@@ -889,7 +1552,8 @@ export class DistributedStateManager {
     }, 2000); // 2 second timeout
     
     // Set up temporary listener for peer state
-    const handlePeerState = (data: any) => {
+    const handlePeerState = async (data: any, fromUserId: string) => {
+      if (!(await this.verifyFromPeer(data, data.authorId, fromUserId, data.editGrant)) || !this.fromEditor(data, fromUserId)) return;
       if (data.snapshot && Object.keys(data.snapshot.elements || {}).length > 0) {
         console.log('📥 Received state from peers - using peer data');
         receivedPeerState = true;
@@ -898,6 +1562,7 @@ export class DistributedStateManager {
         // Apply peer state
         this.currentState = { ...data.snapshot };
         this.emitStateUpdate();
+        if (this.stats.currentRoom) this.createStateSnapshot('Received from peers');
       }
     };
     
@@ -962,22 +1627,20 @@ export class DistributedStateManager {
         return;
       }
       
-      // Fallback: try loading from events if no saved state
+      // Fallback: rebuild the latest version from the room's history
       if (this.sessionManager) {
         const events = this.sessionManager.getRoomEvents(roomId);
-        
-        // Replay events to rebuild state
-        let version = 0;
-        for (const event of events) {
-          // Convert legacy events to operations and apply
-          const operation = this.convertEventToOperation(event);
-          if (operation) {
-            this.applyOperationToState(operation);
-            version++;
-          }
+        if (events.length > 0) {
+          const state = this.stateAfterEvent(events.length - 1, events);
+          this.currentState.elements = state.elements;
+          this.currentState.threatActors = state.threatActors;
+          this.currentState.version = events.length;
+          this.currentState.lastModified = events[events.length - 1].timestamp ?? Date.now();
+          this.currentState.checksum = this.computeStateChecksum();
+          this.emitStateUpdate();
         }
         
-        console.log(`Loaded ${events.length} events for room ${roomId}, state version: ${version}`);
+        console.log(`Loaded ${events.length} events for room ${roomId}, state version: ${this.currentState.version}`);
       } else {
         console.log(`No saved state or events found for room ${roomId}`);
       }
@@ -986,15 +1649,6 @@ export class DistributedStateManager {
     }
   }
   
-  /**
-   * Convert legacy event to operation (for backward compatibility)
-   */
-  private convertEventToOperation(_event: any): OTOperationMeta | null {
-    // Implementation would depend on the legacy event format
-    // This is a simplified conversion
-    return null;
-  }
-  
   /**
    * Persist current state to storage with auto-save debouncing
    */
@@ -1022,6 +1676,17 @@ export class DistributedStateManager {
     }
   }
 
+  /**
+   * Save now rather than after the autosave delay, e.g. before locking storage
+   */
+  persistNow(): void {
+    if (this.autoSaveTimeout) {
+      clearTimeout(this.autoSaveTimeout);
+      this.autoSaveTimeout = null;
+    }
+    this.persistCurrentState();
+  }
+
   /**
    * Auto-save with debouncing to prevent excessive localStorage writes
    */
@@ -1051,10 +1716,10 @@ export class DistributedStateManager {
   /**
    * Compute state checksum for integrity verification
    */
-  private computeStateChecksum(): string {
+  private computeStateChecksum(state: ModelState = this.currentState): string {
     const stateStr = JSON.stringify({
-      elements: this.currentState.elements,
-      threatActors: this.currentState.threatActors,
+      elements: state.elements,
+      threatActors: state.threatActors,
     });
     
     let hash = 0;
@@ -1154,11 +1819,142 @@ export class DistributedStateManager {
   /**
    * Dispose of all resources and clean up for room switching
    */
+  /**
+   * Our role in the current room (null: removed by the owner)
+   */
+  getOwnRole(): RoomRole | null {
+    return this.roles ? this.ownRole() : 'editor';
+  }
+  
+  isRoomOwner(): boolean {
+    return this.roles?.isOwner() ?? false;
+  }
+  
+  /** Role for participants the roster does not list (null: no roster yet) */
+  getDefaultRole(): AssignableRole | null {
+    return this.roles?.getRoster()?.defaultRole ?? null;
+  }
+  
+  /**
+   * Us plus every connected peer that has proved its signing key
+   */
+  getParticipants(): RoomParticipant[] {
+    const roles = this.roles;
+    if (!roles) return [];
+    const participants: RoomParticipant[] = [];
+    const ownKey = roles.getOwnKey();
+    if (ownKey && this.userId) {
+      participants.push({ userId: this.userId, signerKey: ownKey, role: this.ownRole(), isSelf: true });
+    }
+    this.participants.forEach((signerKey, userId) => {
+      participants.push({ userId, signerKey, role: this.roleOf(signerKey), isSelf: false });
+    });
+    return participants;
+  }
+  
+  /**
+   * Fingerprint of the owner's key for invite links, so joiners only accept
+   * rosters the real owner signed
+   */
+  async getOwnerFingerprint(): Promise<string | null> {
+    const roster = this.roles?.getRoster();
+    return roster ? keyFingerprint(roster.ownerKey) : null;
+  }
+  
+  /**
+   * `v`/`e` parameters of a read-only link to this room: enough to decrypt
+   * and follow it, not to change it
+   */
+  getReadOnlyLinkParams(): { v: string; e: string } | null {
+    return this.access ? { v: this.access.transportSecret, e: this.access.editPublicKey } : null;
+  }
+  
+  canRotateKey(): boolean {
+    return !!this.exchangeKey && this.mayRotateKey(this.roles?.getOwnKey());
+  }
+  
+  /**
+   * Replace the room key: a new passphrase and salt, handed to every connected
+   * peer that may stay (sealed to their exchange key, edit or read-only as
+   * they joined), after which the old links reach an empty room.
+   */
+  async rotateRoomKey(): Promise<RoomCredentials> {
+    if (!this.canRotateKey() || !this.exchangeKey || !this.stats.currentRoom) {
+      throw new Error('Only the room owner can rotate the room key');
+    }
+    const roomId = this.stats.currentRoom;
+    const credentials: RoomCredentials = { kind: 'edit', passphrase: makePassphrase(), salt: makeRoomSalt() };
+    const next = await accessFromPassphrase(roomId, credentials.passphrase, credentials.salt);
+    const readOnly: RoomCredentials = { kind: 'read-only', transportSecret: next.transportSecret, editPublicKey: next.editPublicKey };
+    
+    const recipients: Record<string, string> = {};
+    for (const [userId, signerKey] of this.participants) {
+      const exchangeKey = this.peerExchangeKeys.get(userId);
+      if (!exchangeKey || this.roleOf(signerKey) === null) continue;
+      const granted = this.editGrants?.has(signerKey) ? credentials : readOnly;
+      recipients[userId] = await sealCredentials(granted, this.exchangeKey.privateKey, exchangeKey);
+    }
+    
+    if (this.rtc) {
+      const rotation = await signRecord({
+        authorId: this.userId,
+        roomId,
+        exchangeKey: this.exchangeKey.publicKey,
+        recipients,
+        issuedAt: Date.now(),
+      }, await loadSigningIdentity());
+      await this.rtc.send('events', { type: 'room_key_rotation', rotation });
+    }
+    console.log(`🔑 Rotated the room key, handed to ${Object.keys(recipients).length} peer(s)`);
+    
+    this.persistCurrentState();
+    await encryptedStorage.rekeyRoom(roomId, next.transportSecret);
+    this.emitEvent({ type: 'room_key_rotated', credentials, rotatedBy: 'us' });
+    return credentials;
+  }
+  
+  /**
+   * Owner only: change a participant's role
+   */
+  async setParticipantRole(signerKey: string, role: AssignableRole): Promise<void> {
+    await this.publishRoster(roles => roles.setRole(signerKey, role));
+  }
+  
+  /**
+   * Owner only: role for participants not given one explicitly
+   */
+  async setDefaultRole(role: AssignableRole): Promise<void> {
+    await this.publishRoster(roles => roles.setDefaultRole(role));
+  }
+  
+  /**
+   * Owner only: remove a participant - every peer ignores them from now on
+   */
+  async kickParticipant(signerKey: string): Promise<void> {
+    await this.publishRoster(roles => roles.kick(signerKey));
+  }
+  
+  private async publishRoster(change: (roles: RoomRoles) => Promise<RoomRoster>): Promise<void> {
+    if (!this.roles) throw new Error('No room is open');
+    const roster = await change(this.roles);
+    console.log(`👥 Publishing room roster v${roster.version}`);
+    await this.rtc?.send('events', { type: 'room_roster', roster });
+    this.handleRosterChanged();
+  }
+  
   dispose(): void {
     console.log('🗑️ Disposing distributed state manager...');
     
     // Clear current state completely
     this.clearCurrentState();
+    this.signerPins.clear();
+    this.participants.clear();
+    this.roles = null;
+    this.access = null;
+    this.editGrants = null;
+    this.ownEditGrant = null;
+    this.exchangeKey = null;
+    this.peerExchangeKeys.clear();
     
     // Clear auto-save timeout
     if (this.autoSaveTimeout) {
@@ -1233,6 +2029,8 @@ export class DistributedStateManager {
         progress: 0 
       });
       
+      this.assertMayReplaceState(finalTargetRoomId);
+
       // Load state with intelligent replay
       const success = await this.sessionManager.loadStateFromRoom(
         sourceRoomId,
@@ -1276,6 +2074,15 @@ export class DistributedStateManager {
    * Create a state snapshot for point-in-time recovery
    */
   async createStateSnapshot(name?: string): Promise<StateSnapshot> {
+    const roomId = this.stats.currentRoom;
+    const eventIndex = roomId && this.sessionManager ? this.sessionManager.getRoomEventCount(roomId) : undefined;
+    return this.writeSnapshot(roomId, name || `Snapshot ${Date.now()}`, eventIndex).snapshot;
+  }
+  
+  /**
+   * Save the current model as a snapshot of a room's history
+   */
+  private writeSnapshot(roomId: string | null, name: string, eventIndex: number | undefined): { key: string; snapshot: StateSnapshot } {
     const snapshot: StateSnapshot = {
       ...this.currentState,
       version: this.currentState.version + 1,
@@ -1284,19 +2091,20 @@ export class DistributedStateManager {
     };
     
     // Store snapshot with metadata
-    const snapshotMetadata = {
-      name: name || `Snapshot ${Date.now()}`,
-      roomId: this.stats.currentRoom,
+    const snapshotMetadata: SnapshotMetadata = {
+      name,
+      roomId,
       createdBy: this.userId,
       createdAt: Date.now(),
       operationsCount: this.stats.operationsApplied,
       elementCount: Object.keys(snapshot.elements).length,
-      threatActorCount: Object.keys(snapshot.threatActors).length
+      threatActorCount: Object.keys(snapshot.threatActors).length,
+      eventIndex,
     };
     
+    const key = `snapshot_${roomId}_${Date.now()}`;
     try {
-      const key = `snapshot_${this.stats.currentRoom}_${Date.now()}`;
-      localStorage.setItem(key, JSON.stringify({ snapshot, metadata: snapshotMetadata }));
+      encryptedStorage.setItem(key, JSON.stringify({ snapshot, metadata: snapshotMetadata }));
       
       this.stats.snapshotsCreated++;
       console.log(`Created state snapshot: ${snapshotMetadata.name}`);
@@ -1304,6 +2112,24 @@ export class DistributedStateManager {
       console.error('Failed to save state snapshot:', error);
     }
     
+    return { key, snapshot };
+  }
+  
+  /**
+   * Read a saved snapshot, checking its integrity
+   */
+  private readSnapshot(snapshotKey: string): StateSnapshot {
+    const snapshotData = encryptedStorage.getItem(snapshotKey);
+    if (!snapshotData) {
+      throw new Error('Snapshot not found');
+    }
+    
+    const { snapshot } = JSON.parse(snapshotData);
+    
+    // Validate snapshot integrity
+    if (snapshot.checksum !== this.computeStateChecksum(snapshot)) {
+      throw new Error('Snapshot integrity check failed');
+    }
     return snapshot;
   }
   
@@ -1312,28 +2138,8 @@ export class DistributedStateManager {
    */
   async loadStateFromSnapshot(snapshotKey: string): Promise<boolean> {
     try {
-      const snapshotData = localStorage.getItem(snapshotKey);
-      if (!snapshotData) {
-        throw new Error('Snapshot not found');
-      }
-      
-      const { snapshot } = JSON.parse(snapshotData);
-      
-      // Validate snapshot integrity
-      const stateStr = JSON.stringify({
-        elements: snapshot.elements,
-        threatActors: snapshot.threatActors,
-      });
-      let expectedChecksum = 0;
-      for (let i = 0; i < stateStr.length; i++) {
-        expectedChecksum = ((expectedChecksum << 5) - expectedChecksum + stateStr.charCodeAt(i)) & 0xffffffff;
-      }
-      if (snapshot.checksum !== expectedChecksum.toString()) {
-        throw new Error('Snapshot integrity check failed');
-      }
-      
       // Apply snapshot to current state
-      this.currentState = { ...snapshot };
+      this.currentState = { ...this.readSnapshot(snapshotKey) };
       
       // Emit state update
       this.emitEvent({
@@ -1353,17 +2159,16 @@ export class DistributedStateManager {
   /**
    * List available snapshots for current room
    */
-  listAvailableSnapshots(): Array<{ key: string; metadata: any }> {
-    const snapshots: Array<{ key: string; metadata: any }> = [];
+  listAvailableSnapshots(): SavedSnapshot[] {
+    const snapshots: SavedSnapshot[] = [];
     const roomId = this.stats.currentRoom;
     
     if (!roomId) return snapshots;
     
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith(`snapshot_${roomId}_`)) {
+    for (const key of encryptedStorage.keys()) {
+      if (key.startsWith(`snapshot_${roomId}_`)) {
         try {
-          const data = localStorage.getItem(key);
+          const data = encryptedStorage.getItem(key);
           if (data) {
             const { metadata } = JSON.parse(data);
             snapshots.push({ key, metadata });
@@ -1378,7 +2183,205 @@ export class DistributedStateManager {
   }
   
   /**
-   * Replay operations from a specific point in time
+   * Snapshot a model that has no history yet - one saved before history was
+   * kept, or received whole from a peer - so its timeline has a starting point
+   */
+  private snapshotIfHistoryMissing(): void {
+    const roomId = this.stats.currentRoom;
+    if (!roomId || !this.sessionManager || Object.keys(this.currentState.elements).length === 0) return;
+    if (this.sessionManager.getRoomEventCount(roomId) > 0 || this.listAvailableSnapshots().length > 0) return;
+    this.createStateSnapshot('Before version history');
+  }
+  
+  /**
+   * The room's changes and snapshots, oldest first
+   */
+  getVersionTimeline(): TimelineEntry[] {
+    if (!this.sessionManager || !this.stats.currentRoom) return [];
+    const events = this.sessionManager.getRoomEvents(this.stats.currentRoom);
+    const knownNames = new Map<string, string>([
+      ...Object.values(this.currentState.elements).map(element => [element.id, element.name] as [string, string]),
+      ...Object.values(this.currentState.threatActors).map(actor => [actor.id, actor.name] as [string, string]),
+    ]);
+    return buildTimeline(events, this.listAvailableSnapshots(), knownNames);
+  }
+  
+  /**
+   * The model as it was at a point of the timeline, without changing the
+   * current one. Null when the snapshot it needs is unreadable.
+   */
+  getVersionAt(entry: TimelineEntry): ModelState | null {
+    try {
+      if (entry.kind === 'snapshot') return this.readSnapshot(entry.key);
+      if (!this.sessionManager || !this.stats.currentRoom) return null;
+      return this.stateAfterEvent(entry.index, this.sessionManager.getRoomEvents(this.stats.currentRoom));
+    } catch (error) {
+      console.error('Failed to rebuild version:', error);
+      return null;
+    }
+  }
+  
+  private stateAfterEvent(index: number, events: DiagramEvent[]): ModelState {
+    const base = baseSnapshotFor(index, this.listAvailableSnapshots(), events);
+    return stateAfterEvent(index, events, base, base ? this.readSnapshot(base.key) : null);
+  }
+  
+  /**
+   * Make an earlier version current again, as one change that replicates to
+   * peers and can be undone
+   */
+  async restoreVersion(version: ModelState): Promise<boolean> {
+    const { elements, threatActors } = this.currentState;
+    const events: Omit<DiagramEvent, 'seq' | 'actor'>[] = [];
+    const operations: OTOperation[] = [];
+    const changes = (current: object, target: object) => [...new Set([...Object.keys(current), ...Object.keys(target)])]
+      .filter(property => JSON.stringify((current as any)[property]) !== JSON.stringify((target as any)[property]))
+      .map(property => ({ property, oldValue: (current as any)[property], newValue: (target as any)[property] }));
+    
+    Object.values(elements).forEach((element, position) => {
+      const target = version.elements[element.id];
+      if (!target) {
+        events.push(DiagramEventActions.deleteElement(element.id));
+        operations.push({ type: 'delete_element', elementId: element.id, element, position });
+        return;
+      }
+      const changed = changes(element, target);
+      if (changed.length === 0) return;
+      events.push(DiagramEventActions.updateElement(element.id, Object.fromEntries(changed.map(c => [c.property, c.newValue]))));
+      changed.forEach(c => operations.push({ type: 'update_element_property', elementId: element.id, ...c }));
+    });
+    Object.values(version.elements).filter(element => !elements[element.id]).forEach((element, i) => {
+      events.push(DiagramEventActions.createElement(element));
+      operations.push({ type: 'insert_element', elementId: element.id, element, position: Object.keys(elements).length + i });
+    });
+    
+    Object.values(threatActors).forEach((actor, position) => {
+      const target = version.threatActors[actor.id];
+      if (!target) {
+        events.push(DiagramEventActions.deleteThreatActor(actor.id));
+        operations.push({ type: 'delete_threat_actor', actorId: actor.id, actor, position });
+        return;
+      }
+      const changed = changes(actor, target);
+      if (changed.length === 0) return;
+      events.push(DiagramEventActions.updateThreatActor(actor.id, Object.fromEntries(changed.map(c => [c.property, c.newValue]))));
+      changed.forEach(c => operations.push({ type: 'update_threat_actor', actorId: actor.id, ...c }));
+    });
+    Object.values(version.threatActors).filter(actor => !threatActors[actor.id]).forEach((actor, i) => {
+      events.push(DiagramEventActions.createThreatActor(actor));
+      operations.push({ type: 'insert_threat_actor', actorId: actor.id, actor, position: Object.keys(threatActors).length + i });
+    });
+    
+    if (operations.length === 0) return true;
+    return this.submitRecorded(events, () => this.submitBatch(operations));
+  }
+  
+  /**
+   * Branches of this room made on this device, oldest first
+   */
+  listBranches(): ModelBranch[] {
+    return this.stats.currentRoom ? loadBranches(this.stats.currentRoom) : [];
+  }
+  
+  /**
+   * Branch the current model: snapshot it as the branch point, then seed a
+   * new room - owned by us - with it and the room's history so far, replayed
+   * into the branch's own log
+   */
+  async createBranch(name: string, shared: boolean): Promise<ModelBranch> {
+    const roomId = this.stats.currentRoom;
+    if (!roomId || !this.sessionManager) {
+      throw new Error('No room is open');
+    }
+    
+    const events = this.sessionManager.getRoomEvents(roomId);
+    const { key: baseSnapshotKey } = this.writeSnapshot(roomId, `Branched “${name}”`, events.length);
+    
+    const branch: ModelBranch = {
+      id: crypto.randomUUID(),
+      name,
+      parentRoomId: roomId,
+      baseSnapshotKey,
+      createdAt: Date.now(),
+      createdBy: this.userId,
+      shared,
+      passphrase: makePassphrase(),
+      salt: makeRoomSalt(),
+    };
+    const access = await accessFromPassphrase(branch.id, branch.passphrase, branch.salt);
+    await encryptedStorage.openRoom(branch.id, access.transportSecret);
+    
+    this.sessionManager.appendRoomEvents(branch.id, events.map(({ seq, ...event }) => event));
+    this.writeSnapshot(branch.id, `Branch “${name}” of room ${roomId}`, events.length);
+    this.storageService.saveState(branch.id, {
+      elements: Object.values(this.currentState.elements),
+      threatActors: Object.values(this.currentState.threatActors),
+      timestamp: Date.now(),
+      version: this.currentState.version,
+      roomId: branch.id,
+    });
+    try {
+      await RoomRoles.open(branch.id, await loadSigningIdentity(), { createdHere: true });
+    } catch (error) {
+      console.warn('⚠️ No signing identity - the branch has no owner and everyone in it edits:', error);
+    }
+    
+    saveBranches(roomId, [...loadBranches(roomId), branch]);
+    // The branch opens in another tab, which reads storage when it starts
+    await encryptedStorage.flush();
+    console.log(`🌿 Created branch “${name}” (${shared ? 'shared' : 'local'}) as room ${branch.id}`);
+    return branch;
+  }
+  
+  /**
+   * A branch's model as last saved on this device, and the parent's model at
+   * the branch point (null when that snapshot is gone)
+   */
+  async readBranch(branch: ModelBranch): Promise<{ base: ModelState | null; model: ModelState | null }> {
+    const access = await accessFromPassphrase(branch.id, branch.passphrase, branch.salt);
+    await encryptedStorage.openRoom(branch.id, access.transportSecret);
+    // Another tab may have edited it since this one started
+    await encryptedStorage.reloadRoom(branch.id);
+    
+    const saved = this.storageService.loadState(branch.id);
+    const model: ModelState | null = saved?.elements ? {
+      // Saved as arrays, or by id in older saves
+      elements: Object.fromEntries((Object.values(saved.elements) as DiagramElement[]).map(element => [element.id, element])),
+      threatActors: Object.fromEntries((Object.values(saved.threatActors ?? {}) as ThreatActor[]).map(actor => [actor.id, actor])),
+    } : null;
+    
+    let base: ModelState | null = null;
+    try {
+      base = this.readSnapshot(branch.baseSnapshotKey);
+    } catch (error) {
+      console.warn(`⚠️ Branch point of “${branch.name}” is unreadable:`, error);
+    }
+    return { base, model };
+  }
+  
+  /**
+   * Forget a branch and this device's copy of it. Others in a shared branch keep theirs.
+   */
+  deleteBranch(branchId: string): void {
+    const roomId = this.stats.currentRoom;
+    if (!roomId) return;
+    saveBranches(roomId, loadBranches(roomId).filter(branch => branch.id !== branchId));
+    encryptedStorage.keys().filter(key => key.includes(branchId)).forEach(key => encryptedStorage.removeItem(key));
+    encryptedStorage.removeLog(`diagram_room_${branchId}`);
+  }
+  
+  /**
+   * `o` parameter for links to rooms we own, such as our branches
+   */
+  async getOwnFingerprint(): Promise<string | null> {
+    const ownKey = this.roles?.getOwnKey();
+    return ownKey ? keyFingerprint(ownKey) : null;
+  }
+  
+  /**
+   * Replay operations from a specific point in time: start from the latest
+   * snapshot taken before `timestamp` and apply the events logged after it,
+   * up to `targetTimestamp` (or all of them)
    */
   async replayFromTimestamp(
     timestamp: number,
@@ -1391,35 +2394,26 @@ export class DistributedStateManager {
     try {
       const events = this.sessionManager.getRoomEvents(this.stats.currentRoom);
       
-      // Filter events by timestamp range
-      const filteredEvents = events.filter(event => {
-        const eventTime = event.seq; // Assuming seq represents timestamp
-        return eventTime >= timestamp && 
-               (!targetTimestamp || eventTime <= targetTimestamp);
-      });
-      
       // Reset state to snapshot before replay timestamp
       const snapshotBefore = this.findSnapshotBeforeTimestamp(timestamp);
-      if (snapshotBefore) {
-        await this.loadStateFromSnapshot(snapshotBefore.key);
-      } else {
-        // Reset to empty state
-        this.currentState = {
-          elements: {},
-          threatActors: {},
-          version: 0,
-          lastModified: timestamp,
-          checksum: ''
-        };
-      }
+      const base = snapshotBefore ? this.readSnapshot(snapshotBefore.key) : null;
+      // Older snapshots do not record their place in the log - replay what was logged after them
+      const from = snapshotBefore?.metadata.eventIndex
+        ?? (snapshotBefore ? events.findIndex(event => (event.timestamp ?? 0) > snapshotBefore.metadata.createdAt) : 0);
       
-      // Replay filtered events
-      for (const event of filteredEvents) {
-        const operation = this.convertEventToOperation(event);
-        if (operation) {
-          this.applyOperationToState(operation);
-        }
-      }
+      // Events logged before timestamps were recorded have none; they count as early
+      const filteredEvents = (from === -1 ? [] : events.slice(from))
+        .filter(event => !targetTimestamp || (event.timestamp ?? 0) <= targetTimestamp);
+      
+      const state = stateAfterEvent(filteredEvents.length - 1, filteredEvents, null, base);
+      this.currentState = {
+        elements: state.elements,
+        threatActors: state.threatActors,
+        version: (base?.version ?? 0) + filteredEvents.length,
+        lastModified: targetTimestamp ?? Date.now(),
+        checksum: '',
+      };
+      this.currentState.checksum = this.computeStateChecksum();
       
       this.emitEvent({
         type: 'state_updated',
@@ -1438,7 +2432,7 @@ export class DistributedStateManager {
   /**
    * Find the most recent snapshot before a given timestamp
    */
-  private findSnapshotBeforeTimestamp(timestamp: number): { key: string; metadata: any } | null {
+  private findSnapshotBeforeTimestamp(timestamp: number): SavedSnapshot | null {
     const snapshots = this.listAvailableSnapshots();
     
     for (const snapshot of snapshots) {
@@ -1511,6 +2505,7 @@ export class DistributedStateManager {
       if (!finalTargetRoomId) {
         throw new Error('No target room specified');
       }
+      this.assertMayReplaceState(finalTargetRoomId);
       
       if (importOptions.preserveExisting) {
         // Merge with existing state
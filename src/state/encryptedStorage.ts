@@ -0,0 +1,588 @@
+// src/state/encryptedStorage.ts - The app's persistent storage, optionally encrypted at rest
+import { PASSPHRASE_ITERATIONS } from '../utils/roomCrypto';
+import { forgetSigningIdentity } from '../utils/signing';
+import { StorageEngine, StorageEngineKind, StorageUsage, openStorageEngine } from './storageEngine';
+
+/**
+ * Threat models are sensitive, so what Modelka persists can be encrypted on
+ * this device - with an unlock passphrase, or with each room's own key so
+ * only the room link opens its saved copy.
+ *
+ * Callers keep synchronous, localStorage-style access: open() loads every
+ * record from the storage engine into memory, protected records are
+ * decrypted there when the vault is unlocked (or a room is opened), and
+ * writes go back to the engine - encrypted - in the background. Theme and
+ * network settings are not stored here; they stay in localStorage.
+ */
+
+export type AtRestMode = 'off' | 'passphrase' | 'room-key';
+
+export const AT_REST_MODES: Record<AtRestMode, { name: string; description: string }> = {
+  off: {
+    name: 'Not encrypted',
+    description: 'Models are saved in plaintext in this browser',
+  },
+  passphrase: {
+    name: 'Unlock passphrase',
+    description: 'Everything is encrypted with a passphrase you enter when Modelka starts',
+  },
+  'room-key': {
+    name: 'Room keys',
+    description: 'Each room is encrypted with its own key, so only its link opens the saved copy. Lists spanning rooms are not saved',
+  },
+};
+
+/** The storage surface persistence code uses - a subset of localStorage */
+export interface KeyValueStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+}
+
+/** Storage is getting full (`nearlyFull`) or a write was refused (`full`) */
+export interface QuotaWarning {
+  level: 'nearlyFull' | 'full';
+  engine: StorageEngineKind;
+  usage: StorageUsage | null;
+}
+
+interface VaultHeader {
+  version: 1;
+  mode: Exclude<AtRestMode, 'off'>;
+  salt?: string;        // passphrase mode only
+  iterations?: number;
+  check?: string;       // VAULT_CHECK encrypted with the passphrase key, to tell a wrong passphrase
+}
+
+const VAULT_KEY = 'modelka_vault';
+const VAULT_CHECK = 'modelka-vault';
+const ENCRYPTED_PREFIX = 'modelka-enc:1:';
+
+// Everything holding model content or room state: events, snapshots, session index, Raft state
+const PROTECTED_PREFIXES = [
+  'modelka_room_', 'snapshot_', 'diagram_room_', 'raft_state_', 'room_roster_',
+  'room_metadata', 'active_sessions', 'modelka-sessions', 'modelka-session-index', 'diagram_events', 'diagram_metadata',
+];
+// ...of which these span rooms, so no room key can protect them
+const DEVICE_WIDE_PREFIXES = [
+  'room_metadata', 'active_sessions', 'modelka-sessions', 'modelka-session-index', 'diagram_events', 'diagram_metadata',
+];
+
+const NEARLY_FULL = 0.8;
+const USAGE_CHECK_INTERVAL = 30_000;
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked - spreading a large model into String.fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+
+const isEncrypted = (value: string) => value.startsWith(ENCRYPTED_PREFIX);
+
+const isProtected = (key: string) => PROTECTED_PREFIXES.some(prefix => key.startsWith(prefix));
+// Everything else (user preferences) stays in localStorage, unencrypted
+const isManaged = (key: string) => key === VAULT_KEY || isProtected(key);
+const isDeviceWide = (key: string) => DEVICE_WIDE_PREFIXES.some(prefix => key.startsWith(prefix));
+
+async function encryptValue(value: string, key: CryptoKey): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(value));
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+async function decryptValue(stored: string, key: CryptoKey): Promise<string> {
+  const [iv, ciphertext] = stored.slice(ENCRYPTED_PREFIX.length).split('.');
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(ciphertext));
+  return new TextDecoder().decode(plaintext);
+}
+
+async function passphraseKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const base = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    base,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+// Separate from the traffic key derived from the same secret (roomCrypto.deriveRoomKey)
+async function roomKey(roomId: string, transportSecret: string): Promise<CryptoKey> {
+  const base = await crypto.subtle.importKey('raw', new TextEncoder().encode(transportSecret), 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new TextEncoder().encode(roomId), info: new TextEncoder().encode('modelka-at-rest') },
+    base,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+export class EncryptedStorage implements KeyValueStore {
+  private engine: StorageEngine | null = null;      // null until open(): records live in memory only
+  private readonly preferences = typeof localStorage !== 'undefined' ? localStorage : null;
+  private header: VaultHeader | null = null;
+  private deviceKey: CryptoKey | null = null;       // passphrase mode, once unlocked
+  private roomKeys = new Map<string, CryptoKey | null>(); // rooms opened this session
+
+  // What the engine holds (ciphertext for protected records when encrypting)...
+  private stored = new Map<string, string>();
+  private storedLogs = new Map<string, string[]>();
+  // ...and the protected records we could decrypt
+  private plain = new Map<string, string>();
+  private plainLogs = new Map<string, string[]>();
+
+  private writes: Promise<void> = Promise.resolve();
+  private quotaListeners = new Set<(warning: QuotaWarning) => void>();
+  private lastUsageCheck = 0;
+
+  /**
+   * Pick the storage engine and load everything. Call once before rendering.
+   */
+  async open(): Promise<void> {
+    const engine = await openStorageEngine(isManaged);
+    const { values, logs } = await engine.load();
+    this.engine = engine;
+    this.stored = values;
+    this.storedLogs = logs;
+    this.header = this.readHeader();
+    console.log(`💾 Storage: ${engine.kind}, ${values.size} records, ${logs.size} logs${this.header ? `, encrypted (${this.header.mode})` : ''}`);
+    this.checkUsage(true);
+  }
+
+  getEngineKind(): StorageEngineKind | null {
+    return this.engine?.kind ?? null;
+  }
+
+  getMode(): AtRestMode {
+    return this.header?.mode ?? 'off';
+  }
+
+  /** Passphrase mode until unlocked: protected data reads as absent */
+  isLocked(): boolean {
+    return this.header?.mode === 'passphrase' && !this.deviceKey;
+  }
+
+  getItem(key: string): string | null {
+    if (!isManaged(key)) return this.preferences ? this.preferences.getItem(key) : this.stored.get(key) ?? null;
+    if (!this.header || !isProtected(key)) return this.stored.get(key) ?? null;
+    return this.plain.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    if (!isManaged(key) && this.preferences) {
+      this.preferences.setItem(key, value);
+      return;
+    }
+    if (!this.header || !isProtected(key)) {
+      this.stored.set(key, value);
+      this.enqueue(engine => engine.put(key, value));
+      return;
+    }
+    this.plain.set(key, value);
+    const cryptoKey = this.keyFor(key);
+    if (!cryptoKey) {
+      if (!isDeviceWide(key)) console.warn(`🔒 No key to encrypt ${key} with - keeping it in memory only`);
+      return;
+    }
+    this.enqueue(async engine => {
+      const encrypted = await encryptValue(value, cryptoKey);
+      this.stored.set(key, encrypted);
+      await engine.put(key, encrypted);
+    });
+  }
+
+  removeItem(key: string): void {
+    if (!isManaged(key) && this.preferences) {
+      this.preferences.removeItem(key);
+      return;
+    }
+    this.plain.delete(key);
+    this.stored.delete(key);
+    this.enqueue(engine => engine.remove(key));
+  }
+
+  keys(): string[] {
+    const stored = [...this.stored.keys()].filter(key => key !== VAULT_KEY);
+    const preferences = this.preferences ? Object.keys(this.preferences).filter(key => !isManaged(key)) : [];
+    if (!this.header) return [...stored, ...preferences];
+    return [...stored.filter(key => !isProtected(key)), ...this.plain.keys(), ...preferences];
+  }
+
+  /* --------------------------------- logs --------------------------------- */
+
+  readLog(log: string): string[] {
+    const entries = this.header && isProtected(log) ? this.plainLogs.get(log) : this.storedLogs.get(log);
+    return entries ? [...entries] : [];
+  }
+
+  logLength(log: string): number {
+    const entries = this.header && isProtected(log) ? this.plainLogs.get(log) : this.storedLogs.get(log);
+    return entries?.length ?? 0;
+  }
+
+  /**
+   * Add entries to the end of a log, writing only the new entries.
+   */
+  appendToLog(log: string, entries: string[]): void {
+    if (entries.length === 0) return;
+    if (!this.header || !isProtected(log)) {
+      const current = this.storedLogs.get(log) ?? [];
+      const from = current.length;
+      this.storedLogs.set(log, [...current, ...entries]);
+      this.enqueue(engine => engine.append(log, entries, from));
+      return;
+    }
+    const current = this.plainLogs.get(log) ?? [];
+    const from = current.length;
+    this.plainLogs.set(log, [...current, ...entries]);
+    const cryptoKey = this.keyFor(log);
+    if (!cryptoKey) return; // memory only, as for values
+    this.enqueue(async engine => {
+      const encrypted = await Promise.all(entries.map(entry => encryptValue(entry, cryptoKey)));
+      this.storedLogs.set(log, [...(this.storedLogs.get(log) ?? []).slice(0, from), ...encrypted]);
+      await engine.append(log, encrypted, from);
+    });
+  }
+
+  replaceLog(log: string, entries: string[]): void {
+    if (!this.header || !isProtected(log)) {
+      this.storedLogs.set(log, [...entries]);
+      this.enqueue(engine => engine.replaceLog(log, entries));
+      return;
+    }
+    this.plainLogs.set(log, [...entries]);
+    const cryptoKey = this.keyFor(log);
+    if (!cryptoKey) return;
+    this.enqueue(async engine => {
+      const encrypted = await Promise.all(entries.map(entry => encryptValue(entry, cryptoKey)));
+      this.storedLogs.set(log, encrypted);
+      await engine.replaceLog(log, encrypted);
+    });
+  }
+
+  removeLog(log: string): void {
+    this.plainLogs.delete(log);
+    this.storedLogs.delete(log);
+    this.enqueue(engine => engine.removeLog(log));
+  }
+
+  /** Resolves once every pending write has reached the engine */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  /* ------------------------------ quota ------------------------------ */
+
+  onQuotaWarning(listener: (warning: QuotaWarning) => void): () => void {
+    this.quotaListeners.add(listener);
+    return () => this.quotaListeners.delete(listener);
+  }
+
+  /** Bytes used and available, as far as the browser tells */
+  async getUsage(): Promise<StorageUsage | null> {
+    return this.engine?.usage() ?? null;
+  }
+
+  /* ------------------------------ encryption ------------------------------ */
+
+  /**
+   * Unlock passphrase mode. Throws on a wrong passphrase.
+   */
+  async unlock(passphrase: string): Promise<void> {
+    const header = this.header;
+    if (header?.mode !== 'passphrase' || !header.salt || !header.check) return;
+    const key = await passphraseKey(passphrase, header.salt, header.iterations ?? PASSPHRASE_ITERATIONS);
+    try {
+      if (await decryptValue(header.check, key) !== VAULT_CHECK) throw new Error();
+    } catch {
+      throw new Error('Wrong passphrase');
+    }
+    this.deviceKey = key;
+    await this.loadProtected(() => true, key);
+    console.log(`🔓 Unlocked ${this.plain.size} encrypted records and ${this.plainLogs.size} logs`);
+  }
+
+  /**
+   * Forget the passphrase key and everything decrypted with it. Reload the
+   * page afterwards - models already loaded are still in memory.
+   */
+  lock(): void {
+    if (this.header?.mode !== 'passphrase') return;
+    this.deviceKey = null;
+    this.plain.clear();
+    this.plainLogs.clear();
+    console.log('🔒 Locked local storage');
+  }
+
+  /**
+   * Remember a room's key (derived from its link) and, with room keys, decrypt
+   * its saved copy. A null secret leaves the room's data in memory only.
+   */
+  async openRoom(roomId: string, transportSecret: string | null): Promise<void> {
+    const key = transportSecret ? await roomKey(roomId, transportSecret) : null;
+    this.roomKeys.set(roomId, key);
+    if (this.header?.mode === 'room-key' && key) {
+      await this.loadProtected(storageKey => !isDeviceWide(storageKey) && storageKey.includes(roomId), key);
+    }
+  }
+
+  /**
+   * Re-read a room's saved copy, which a tab that has the room open may have
+   * changed since open(). Decrypted with the key we hold for it, if any.
+   */
+  async reloadRoom(roomId: string): Promise<void> {
+    if (!this.engine) return;
+    await this.flush();
+    const { values, logs } = await this.engine.load();
+    const inRoom = (storageKey: string) => !isDeviceWide(storageKey) && storageKey.includes(roomId);
+
+    for (const storageKey of [...this.stored.keys()].filter(inRoom)) {
+      this.stored.delete(storageKey);
+      this.plain.delete(storageKey);
+    }
+    for (const log of [...this.storedLogs.keys()].filter(inRoom)) {
+      this.storedLogs.delete(log);
+      this.plainLogs.delete(log);
+    }
+    values.forEach((value, storageKey) => inRoom(storageKey) && this.stored.set(storageKey, value));
+    logs.forEach((entries, log) => inRoom(log) && this.storedLogs.set(log, entries));
+
+    const key = this.header ? this.keyFor(roomId) : null;
+    if (key) await this.loadProtected(inRoom, key);
+  }
+
+  /**
+   * The room key was rotated: re-encrypt the room's saved copy with the new one,
+   * so the old link no longer opens it.
+   */
+  async rekeyRoom(roomId: string, transportSecret: string): Promise<void> {
+    const key = await roomKey(roomId, transportSecret);
+    this.roomKeys.set(roomId, key);
+    if (this.header?.mode !== 'room-key') return;
+    const inRoom = (storageKey: string) => !isDeviceWide(storageKey) && storageKey.includes(roomId);
+    this.plain.forEach((value, storageKey) => {
+      if (inRoom(storageKey)) this.setItem(storageKey, value);
+    });
+    this.plainLogs.forEach((entries, log) => {
+      if (inRoom(log)) this.replaceLog(log, entries);
+    });
+    await this.flush();
+    console.log(`🔑 Re-encrypted saved copy of room ${roomId} with the rotated key`);
+  }
+
+  /**
+   * Encrypted records no key we hold can open; changing the mode deletes them.
+   */
+  unreadableCount(): number {
+    const values = [...this.stored].filter(([key, value]) => isProtected(key) && !this.plain.has(key) && isEncrypted(value));
+    const logs = [...this.storedLogs].filter(([log, entries]) => isProtected(log) && !this.plainLogs.has(log) && entries.some(isEncrypted));
+    return values.length + logs.length;
+  }
+
+  async enablePassphrase(passphrase: string): Promise<void> {
+    await this.flush();
+    const readable = this.readableRecords();
+    const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+    const key = await passphraseKey(passphrase, salt, PASSPHRASE_ITERATIONS);
+    this.writeHeader({ version: 1, mode: 'passphrase', salt, iterations: PASSPHRASE_ITERATIONS, check: await encryptValue(VAULT_CHECK, key) });
+    this.deviceKey = key;
+    await this.rewrite(readable);
+    console.log(`🔒 Encrypted ${readable.values.size} records and ${readable.logs.size} logs with the unlock passphrase`);
+  }
+
+  async enableRoomKeys(): Promise<void> {
+    await this.flush();
+    const readable = this.readableRecords();
+    this.writeHeader({ version: 1, mode: 'room-key' });
+    this.deviceKey = null;
+    await this.rewrite(readable);
+    console.log(`🔒 Encrypting saved rooms with their room keys (${this.roomKeys.size} open now, others when next opened)`);
+  }
+
+  async disable(): Promise<void> {
+    await this.flush();
+    const readable = this.readableRecords();
+    this.writeHeader(null);
+    this.deviceKey = null;
+    await this.rewrite(readable);
+    console.log(`🔓 Stored ${readable.values.size} records and ${readable.logs.size} logs without encryption`);
+  }
+
+  /**
+   * Wipe everything Modelka keeps in this browser: models, rooms, settings and
+   * the identity key. Navigate away afterwards.
+   */
+  async forgetDevice(): Promise<void> {
+    await this.flush();
+    try {
+      await this.engine?.clear();
+    } catch (error) {
+      console.warn('⚠️ Could not delete stored models:', error);
+    }
+    if (typeof localStorage !== 'undefined') localStorage.clear();
+    this.engine = null;
+    this.header = null;
+    this.deviceKey = null;
+    this.roomKeys.clear();
+    this.stored.clear();
+    this.storedLogs.clear();
+    this.plain.clear();
+    this.plainLogs.clear();
+    try {
+      await forgetSigningIdentity();
+    } catch (error) {
+      console.warn('⚠️ Could not delete the identity key:', error);
+    }
+    console.log('🧹 Forgot this device');
+  }
+
+  /* ------------------------------- internals ------------------------------ */
+
+  private readHeader(): VaultHeader | null {
+    try {
+      const saved = this.stored.get(VAULT_KEY);
+      return saved ? JSON.parse(saved) : null;
+    } catch (error) {
+      console.error('❌ Unreadable vault header - treating storage as unencrypted:', error);
+      return null;
+    }
+  }
+
+  private writeHeader(header: VaultHeader | null): void {
+    this.header = header;
+    if (header) {
+      const serialized = JSON.stringify(header);
+      this.stored.set(VAULT_KEY, serialized);
+      this.enqueue(engine => engine.put(VAULT_KEY, serialized));
+    } else {
+      this.stored.delete(VAULT_KEY);
+      this.enqueue(engine => engine.remove(VAULT_KEY));
+    }
+  }
+
+  private keyFor(key: string): CryptoKey | null {
+    if (this.header?.mode === 'passphrase') return this.deviceKey;
+    if (isDeviceWide(key)) return null;
+    for (const [roomId, cryptoKey] of this.roomKeys) {
+      if (key.includes(roomId)) return cryptoKey;
+    }
+    return null;
+  }
+
+  private enqueue(write: (engine: StorageEngine) => Promise<void>): void {
+    this.writes = this.writes
+      .then(() => (this.engine ? write(this.engine) : undefined))
+      .catch(error => {
+        console.error('❌ Failed to save to storage:', error);
+        if (error instanceof DOMException && error.name === 'QuotaExceededError') this.warnQuota('full', null);
+      });
+    this.checkUsage();
+  }
+
+  /**
+   * Warn once storage is nearly full - at most every USAGE_CHECK_INTERVAL,
+   * as estimating can be slow
+   */
+  private checkUsage(force = false): void {
+    const now = Date.now();
+    if (!this.engine || (!force && now - this.lastUsageCheck < USAGE_CHECK_INTERVAL)) return;
+    this.lastUsageCheck = now;
+    this.engine.usage().then(usage => {
+      if (usage && usage.usage / usage.quota >= NEARLY_FULL) this.warnQuota('nearlyFull', usage);
+    }).catch(error => console.warn('⚠️ Could not estimate storage usage:', error));
+  }
+
+  private warnQuota(level: QuotaWarning['level'], usage: StorageUsage | null): void {
+    if (!this.engine) return;
+    console.warn(`⚠️ Storage ${level === 'full' ? 'is full' : 'is nearly full'} (${this.engine.kind})`, usage);
+    const warning: QuotaWarning = { level, engine: this.engine.kind, usage };
+    this.quotaListeners.forEach(listener => listener(warning));
+  }
+
+  /**
+   * Decrypt matching records into memory. Records still in plaintext (saved
+   * before encryption was turned on) are read as they are and encrypted now.
+   */
+  private async loadProtected(matches: (key: string) => boolean, key: CryptoKey): Promise<void> {
+    for (const [storageKey, stored] of [...this.stored]) {
+      if (!isProtected(storageKey) || !matches(storageKey)) continue;
+      if (!isEncrypted(stored)) {
+        this.setItem(storageKey, stored);
+        continue;
+      }
+      try {
+        this.plain.set(storageKey, await decryptValue(stored, key));
+      } catch {
+        console.warn(`🔒 Cannot decrypt ${storageKey} with this key - treating it as absent`);
+      }
+    }
+    for (const [log, entries] of [...this.storedLogs]) {
+      if (!isProtected(log) || !matches(log)) continue;
+      try {
+        const decrypted = await Promise.all(entries.map(entry => (isEncrypted(entry) ? decryptValue(entry, key) : entry)));
+        this.plainLogs.set(log, decrypted);
+        if (entries.some(entry => !isEncrypted(entry))) this.replaceLog(log, decrypted);
+      } catch {
+        console.warn(`🔒 Cannot decrypt log ${log} with this key - treating it as absent`);
+      }
+    }
+  }
+
+  /** Every protected record we can read: decrypted, or still in plaintext */
+  private readableRecords(): { values: Map<string, string>; logs: Map<string, string[]> } {
+    const values = new Map(this.plain);
+    this.stored.forEach((stored, key) => {
+      if (isProtected(key) && !values.has(key) && !isEncrypted(stored)) values.set(key, stored);
+    });
+    const logs = new Map(this.plainLogs);
+    this.storedLogs.forEach((entries, log) => {
+      if (isProtected(log) && !logs.has(log) && !entries.some(isEncrypted)) logs.set(log, entries);
+    });
+    return { values, logs };
+  }
+
+  /**
+   * Store the records under the current mode. Records we cannot read are
+   * deleted; with room keys, rooms not open now stay as they are until next
+   * opened, and records spanning rooms are kept in memory only.
+   */
+  private async rewrite(readable: { values: Map<string, string>; logs: Map<string, string[]> }): Promise<void> {
+    this.plain.clear();
+    this.plainLogs.clear();
+    [...this.stored.keys()].forEach(key => {
+      if (isProtected(key) && !readable.values.has(key)) this.removeItem(key);
+    });
+    [...this.storedLogs.keys()].forEach(log => {
+      if (isProtected(log) && !readable.logs.has(log)) this.removeLog(log);
+    });
+
+    const keep = (key: string) => !this.header || !!this.keyFor(key) || isDeviceWide(key);
+    readable.values.forEach((value, key) => {
+      if (!keep(key)) return; // a room not open now - left in plaintext, encrypted by openRoom
+      this.setItem(key, value);
+      if (this.header && !this.keyFor(key)) {
+        this.stored.delete(key);
+        this.enqueue(engine => engine.remove(key));
+      }
+    });
+    readable.logs.forEach((entries, log) => {
+      if (!keep(log)) return;
+      this.replaceLog(log, entries);
+      if (this.header && !this.keyFor(log)) {
+        this.storedLogs.delete(log);
+        this.enqueue(engine => engine.removeLog(log));
+      }
+    });
+    await this.flush();
+  }
+}
+
+/** The app's storage. Records live in memory until open() picks an engine */
+export const encryptedStorage = new EncryptedStorage();
@@ -2,7 +2,9 @@
 import { DiagramState } from './diagramReducer';
 import { Action, StateActions } from './diagramActions';
 import { StorageService } from './storage';
-import { ServerlessWebRTC } from '../services/serverlessWebRTC';
+import { Transport } from '../services/transport';
+import { DiagramEvent } from './DiagramContext';
+import { loadSigningIdentity, signRecord, SignerPins } from '../utils/signing';
 
 /**
  * Middleware function type
@@ -46,7 +48,7 @@ export const storageMiddleware: Middleware = (state, action, dispatch) => {
 
 /**
  * WebRTC sync middleware
- * Handles P2P synchronization automatically
+ * Handles P2P synchronization automatically over whichever Transport is connected
  */
 export const webrtcMiddleware: Middleware = (state, action, dispatch) => {
   if (!state.rtc || !state.isConnected) return;
@@ -58,7 +60,13 @@ export const webrtcMiddleware: Middleware = (state, action, dispatch) => {
         const events = Array.from(state.eventStore.getAllEvents());
         const unsent = events.slice(-action.payload.events.length); // Get the newly added events
         if (unsent.length > 0) {
-          state.rtc.send('events', unsent);
+          const rtc = state.rtc;
+          signOwnEvents(unsent, state.userId)
+            .then(signed => rtc.send('events', signed))
+            .catch(error => {
+              console.error('Failed to sign events for peers:', error);
+              dispatch(StateActions.setError('Failed to sync with peers', 'WEBRTC_SYNC'));
+            });
         }
       } catch (error) {
         console.error('Failed to send events to peers:', error);
@@ -68,9 +76,9 @@ export const webrtcMiddleware: Middleware = (state, action, dispatch) => {
     }
 
     case 'SET_CONNECTION': {
-      // Set up WebRTC event handlers
+      // Set up transport event handlers
       const { rtc, userId } = action.payload;
-      setupWebRTCHandlers(rtc, userId, dispatch, state);
+      setupTransportHandlers(rtc, userId, dispatch, state);
       break;
     }
   }
@@ -139,17 +147,52 @@ export const performanceMiddleware: Middleware = (_state, action, _dispatch) =>
 };
 
 /**
- * Setup WebRTC event handlers
+ * Sign our own events in place, so the copies kept in the event store can be
+ * relayed to later peers as part of the full history
  */
-const setupWebRTCHandlers = (
-  rtc: ServerlessWebRTC,
+const signOwnEvents = async (events: DiagramEvent[], userId: string): Promise<DiagramEvent[]> => {
+  const identity = await loadSigningIdentity();
+  for (const event of events) {
+    if (event.actor === userId && !event.signature) {
+      Object.assign(event, await signRecord(event, identity));
+    }
+  }
+  return events;
+};
+
+/**
+ * Setup transport event handlers
+ */
+const setupTransportHandlers = (
+  rtc: Transport,
   userId: string,
   dispatch: (action: Action) => void,
   state: DiagramState
 ) => {
+  const pins = new SignerPins();
+  const quarantined = new Set<string>();
+
+  // Every event must be signed by its actor; one bad event rejects the batch and its sender
+  const verifyEvents = async (events: DiagramEvent[], from: string, ownOnly: boolean): Promise<boolean> => {
+    if (quarantined.has(from)) return false;
+    for (const event of events) {
+      const result = ownOnly && event.actor !== from
+        ? { valid: false as const, reason: `sent an event claiming to be from ${event.actor}` }
+        : await pins.verify(event, event.actor);
+      if (!result.valid) {
+        quarantined.add(from);
+        console.warn(`🚫 Rejected events from ${from}: ${result.reason}`);
+        dispatch(StateActions.setError(`Ignoring changes from ${from}: ${result.reason}`, 'WEBRTC_SIGNATURE'));
+        return false;
+      }
+    }
+    return true;
+  };
+
   // Handle incoming events
-  rtc.on('events', (events: any, from: string) => {
-    if (from === userId) return;
+  rtc.on('events', async (events: any, from: string) => {
+    if (from === userId || !Array.isArray(events)) return;
+    if (!(await verifyEvents(events, from, true))) return;
     
     try {
       dispatch(StateActions.applyRemoteEvents(events));
@@ -172,8 +215,9 @@ const setupWebRTCHandlers = (
   });
 
   // Handle full history reception
-  rtc.on('full_history', (events: any, from: string) => {
-    if (from === userId) return;
+  rtc.on('full_history', async (events: any, from: string) => {
+    if (from === userId || !Array.isArray(events)) return;
+    if (!(await verifyEvents(events, from, false))) return;
     
     try {
       dispatch(StateActions.replaceWithFullHistory(events));
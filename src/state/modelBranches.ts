@@ -0,0 +1,44 @@
+// src/state/modelBranches.ts - Named "what-if" branches of a room's model
+import { encryptedStorage } from './encryptedStorage';
+
+/**
+ * A branch is a room of its own, seeded with the parent room's model and
+ * history when it was made. It is edited like any room - shared over the
+ * network, or kept to this browser's tabs - and can later be compared with,
+ * and merged back into, the parent. The parent remembers its branches on
+ * this device, with the snapshot taken at the branch point as merge base.
+ */
+export interface ModelBranch {
+  id: string; // the branch's room id
+  name: string;
+  parentRoomId: string;
+  baseSnapshotKey: string; // parent's snapshot at the branch point
+  createdAt: number;
+  createdBy: string | null;
+  shared: boolean; // false: local transport only, between tabs of this browser
+  passphrase: string; // the branch room's link credentials
+  salt: string;
+}
+
+const registryKey = (roomId: string) => `modelka_room_${roomId}_branches`;
+
+/**
+ * Branches made from a room on this device, oldest first
+ */
+export function loadBranches(roomId: string): ModelBranch[] {
+  try {
+    const saved = encryptedStorage.getItem(registryKey(roomId));
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.warn('⚠️ Could not load branches:', error);
+    return [];
+  }
+}
+
+export function saveBranches(roomId: string, branches: ModelBranch[]): void {
+  if (branches.length === 0) {
+    encryptedStorage.removeItem(registryKey(roomId));
+  } else {
+    encryptedStorage.setItem(registryKey(roomId), JSON.stringify(branches));
+  }
+}
@@ -0,0 +1,355 @@
+// src/state/modelMerge.ts - Three-way merge of two models that share a common ancestor
+import { Asset, DiagramElement, SecurityControl, Technology, Threat, ThreatActor, ELEMENT_CONFIGS } from '../types/diagram';
+import { DiffableModel } from '../utils/modelDiff';
+import { OperationalTransformEngine, OTOperation, OTOperationMeta } from './operationalTransforms';
+import { ModelState } from './versionHistory';
+
+/**
+ * Both sides' changes since the base become operations, as if two peers had
+ * made them at the same time, and are transformed against each other by the
+ * OperationalTransformEngine - so a merge resolves conflicts exactly the way
+ * live collaboration does: a delete beats an edit, concurrent moves meet
+ * halfway, resizes keep the larger size and the same property edited on both
+ * sides goes to the preferred side. Threats, assets and technologies are
+ * merged item by item first, so edits to different threats of one element
+ * do not conflict.
+ */
+
+export type MergeSide = 'ours' | 'theirs';
+
+export interface MergeConflict {
+  /** Element or threat actor the conflict is in */
+  itemId: string;
+  /** e.g. `Process “API” › threat “SQL injection” › severity` */
+  path: string;
+  detail: string;
+  ours: unknown;
+  theirs: unknown;
+  resolution: MergeSide | 'merged';
+}
+
+export interface MergeResult extends DiffableModel {
+  conflicts: MergeConflict[];
+}
+
+/** Element properties holding lists of items with ids */
+const LIST_PROPERTIES = ['threats', 'assets', 'technologies'];
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const toState = (model: DiffableModel): ModelState => ({
+  elements: Object.fromEntries(model.elements.map(element => [element.id, element])),
+  threatActors: Object.fromEntries(model.threatActors.map(actor => [actor.id, actor])),
+});
+
+const other = (side: MergeSide): MergeSide => (side === 'ours' ? 'theirs' : 'ours');
+
+/**
+ * The operations that turn `from` into `to`
+ */
+function operationsBetween(from: ModelState, to: ModelState): OTOperation[] {
+  const operations: OTOperation[] = [];
+  const changed = (a: object, b: object) => [...new Set([...Object.keys(a), ...Object.keys(b)])]
+    .filter(property => !same((a as any)[property], (b as any)[property]));
+
+  Object.values(from.elements).forEach((element, position) => {
+    const target = to.elements[element.id];
+    if (!target) {
+      operations.push({ type: 'delete_element', elementId: element.id, element, position });
+      return;
+    }
+    for (const property of changed(element, target)) {
+      if (property === 'position') {
+        operations.push({ type: 'move_element', elementId: element.id, oldPos: element.position, newPos: target.position });
+      } else if (property === 'size') {
+        operations.push({ type: 'resize_element', elementId: element.id, oldSize: element.size, newSize: target.size });
+      } else {
+        operations.push({ type: 'update_element_property', elementId: element.id, property, oldValue: (element as any)[property], newValue: (target as any)[property] });
+      }
+    }
+  });
+  Object.values(to.elements).filter(element => !from.elements[element.id]).forEach((element, i) => {
+    operations.push({ type: 'insert_element', elementId: element.id, element, position: Object.keys(from.elements).length + i });
+  });
+
+  Object.values(from.threatActors).forEach((actor, position) => {
+    const target = to.threatActors[actor.id];
+    if (!target) {
+      operations.push({ type: 'delete_threat_actor', actorId: actor.id, actor, position });
+      return;
+    }
+    for (const property of changed(actor, target)) {
+      operations.push({ type: 'update_threat_actor', actorId: actor.id, property, oldValue: (actor as any)[property], newValue: (target as any)[property] });
+    }
+  });
+  Object.values(to.threatActors).filter(actor => !from.threatActors[actor.id]).forEach((actor, i) => {
+    operations.push({ type: 'insert_threat_actor', actorId: actor.id, actor, position: Object.keys(from.threatActors).length + i });
+  });
+
+  return operations;
+}
+
+function applyOperation(state: ModelState, op: OTOperation): void {
+  switch (op.type) {
+    case 'insert_element':
+      state.elements[op.elementId] = op.element;
+      break;
+    case 'delete_element':
+      delete state.elements[op.elementId];
+      break;
+    case 'move_element':
+      if (state.elements[op.elementId]) state.elements[op.elementId] = { ...state.elements[op.elementId], position: op.newPos };
+      break;
+    case 'resize_element':
+      if (state.elements[op.elementId]) state.elements[op.elementId] = { ...state.elements[op.elementId], size: op.newSize };
+      break;
+    case 'update_element_property':
+      if (state.elements[op.elementId]) state.elements[op.elementId] = { ...state.elements[op.elementId], [op.property]: op.newValue };
+      break;
+    case 'insert_threat_actor':
+      state.threatActors[op.actorId] = op.actor;
+      break;
+    case 'delete_threat_actor':
+      delete state.threatActors[op.actorId];
+      break;
+    case 'update_threat_actor':
+      if (state.threatActors[op.actorId]) state.threatActors[op.actorId] = { ...state.threatActors[op.actorId], [op.property]: op.newValue };
+      break;
+  }
+}
+
+/**
+ * Collects conflicts while merging, resolved in favour of `prefer`
+ */
+class ConflictLog {
+  conflicts: MergeConflict[] = [];
+
+  constructor(readonly prefer: MergeSide) {}
+
+  add(conflict: MergeConflict): void {
+    if (!this.conflicts.some(c => c.itemId === conflict.itemId && c.path === conflict.path && c.detail === conflict.detail)) {
+      this.conflicts.push(conflict);
+    }
+  }
+}
+
+/**
+ * Three-way merge of one object's fields; `nested` merges list fields item by item
+ */
+function mergeFields<T extends object>(
+  base: T | undefined,
+  ours: T,
+  theirs: T,
+  path: string,
+  itemId: string,
+  log: ConflictLog,
+  nested: Record<string, (b: any, o: any, t: any, path: string) => unknown> = {}
+): T {
+  const merged: Record<string, unknown> = {};
+  for (const field of new Set([...Object.keys(ours), ...Object.keys(theirs)])) {
+    const b = (base as any)?.[field];
+    const o = (ours as any)[field];
+    const t = (theirs as any)[field];
+    if (same(o, t) || same(t, b)) merged[field] = o;
+    else if (same(o, b)) merged[field] = t;
+    else if (nested[field]) merged[field] = nested[field](b, o, t, path);
+    else {
+      merged[field] = log.prefer === 'ours' ? o : t;
+      log.add({ itemId, path: `${path} › ${field}`, detail: 'changed on both sides', ours: o, theirs: t, resolution: log.prefer });
+    }
+  }
+  for (const field of Object.keys(merged)) {
+    if (merged[field] === undefined) delete merged[field];
+  }
+  return merged as T;
+}
+
+/**
+ * Three-way merge of a list of items by id. An item removed on one side and
+ * changed on the other stays removed, as a delete beats an edit.
+ */
+function mergeItems<T extends { id: string }>(
+  base: T[] | undefined,
+  ours: T[] | undefined,
+  theirs: T[] | undefined,
+  path: string,
+  itemId: string,
+  log: ConflictLog,
+  label: (item: T) => string,
+  nested: Record<string, (b: any, o: any, t: any, path: string) => unknown> = {}
+): T[] {
+  const baseItems = new Map((base ?? []).map(item => [item.id, item]));
+  const oursItems = new Map((ours ?? []).map(item => [item.id, item]));
+  const theirsItems = new Map((theirs ?? []).map(item => [item.id, item]));
+  const ids = [...new Set([...oursItems.keys(), ...theirsItems.keys()])];
+  const merged: T[] = [];
+
+  for (const id of ids) {
+    const b = baseItems.get(id);
+    const o = oursItems.get(id);
+    const t = theirsItems.get(id);
+    const itemPath = `${path} › ${label((o ?? t)!)}`;
+
+    if (o && t) {
+      merged.push(same(o, t) || same(t, b) ? o : same(o, b) ? t : mergeFields(b, o, t, itemPath, itemId, log, nested));
+      continue;
+    }
+    const kept = (o ?? t)!;
+    const keptSide: MergeSide = o ? 'ours' : 'theirs';
+    if (!b) {
+      merged.push(kept); // added on one side
+    } else if (!same(kept, b)) {
+      log.add({
+        itemId,
+        path: itemPath,
+        detail: `removed in ${other(keptSide)}, changed in ${keptSide}`,
+        ours: o,
+        theirs: t,
+        resolution: other(keptSide),
+      });
+    }
+  }
+  return merged;
+}
+
+function mergeElementList(property: string, base: unknown, ours: unknown, theirs: unknown, path: string, itemId: string, log: ConflictLog): unknown {
+  switch (property) {
+    case 'threats':
+      return mergeItems(base as Threat[], ours as Threat[], theirs as Threat[], path, itemId, log, threat => `threat “${threat.title}”`, {
+        controls: (b, o, t, threatPath) => mergeItems<SecurityControl>(b, o, t, threatPath, itemId, log, control => `control “${control.name}”`),
+      });
+    case 'assets':
+      return mergeItems(base as Asset[], ours as Asset[], theirs as Asset[], path, itemId, log, asset => `asset “${asset.name}”`);
+    default:
+      return mergeItems(base as Technology[], ours as Technology[], theirs as Technology[], path, itemId, log, technology => `technology “${technology.name}”`);
+  }
+}
+
+const elementLabel = (element: DiagramElement) => `${ELEMENT_CONFIGS[element.type]?.name ?? 'Element'} “${element.name}”`;
+const actorLabel = (actor: ThreatActor) => `Threat actor “${actor.name}”`;
+
+const targetId = (op: OTOperation): string | null =>
+  'elementId' in op ? op.elementId : 'actorId' in op ? op.actorId : null;
+
+const isNoOp = (op: OTOperationMeta) => (op.operation.type as string) === 'no_op';
+
+function describeOperation(op: OTOperation): { field: string | null; value: unknown } {
+  switch (op.type) {
+    case 'move_element': return { field: 'position', value: op.newPos };
+    case 'resize_element': return { field: 'size', value: op.newSize };
+    case 'update_element_property':
+    case 'update_threat_actor': return { field: op.property, value: op.newValue };
+    case 'insert_element': return { field: null, value: op.element };
+    case 'insert_threat_actor': return { field: null, value: op.actor };
+    default: return { field: null, value: undefined };
+  }
+}
+
+/**
+ * Merge the changes `ours` and `theirs` each made to `base`. Conflicting
+ * edits go to `prefer`; every conflict is reported with both sides' values.
+ */
+export function mergeModels(base: DiffableModel, ours: DiffableModel, theirs: DiffableModel, prefer: MergeSide = 'ours'): MergeResult {
+  const baseState = toState(base);
+  const oursState = toState(ours);
+  const theirsState = toState(theirs);
+  const log = new ConflictLog(prefer);
+
+  const labelOf = (id: string) => {
+    const element = oursState.elements[id] ?? theirsState.elements[id] ?? baseState.elements[id];
+    if (element) return elementLabel(element);
+    const actor = oursState.threatActors[id] ?? theirsState.threatActors[id] ?? baseState.threatActors[id];
+    return actor ? actorLabel(actor) : id;
+  };
+
+  const oursOps = operationsBetween(baseState, oursState);
+  let theirsOps = operationsBetween(baseState, theirsState);
+
+  // Lists edited on both sides are merged item by item, and both sides then set the merged list
+  for (const op of oursOps) {
+    if (op.type !== 'update_element_property' || !LIST_PROPERTIES.includes(op.property)) continue;
+    const counterpart = theirsOps.find(t => t.type === 'update_element_property' && t.elementId === op.elementId && t.property === op.property);
+    if (!counterpart || counterpart.type !== 'update_element_property') continue;
+    const merged = mergeElementList(op.property, op.oldValue, op.newValue, counterpart.newValue, labelOf(op.elementId), op.elementId, log);
+    op.newValue = merged;
+    counterpart.newValue = merged;
+  }
+
+  // The same change made on both sides is no conflict
+  theirsOps = theirsOps.filter(t => !oursOps.some(o => same(o, t)));
+
+  // Both sides as concurrent peers; the preferred side wins last-writer-wins and author priority
+  const engine = new OperationalTransformEngine();
+  engine.setAuthorPriority(prefer, 1);
+  const now = Date.now();
+  const wrap = (side: MergeSide) => (operation: OTOperation): OTOperationMeta => ({
+    ...engine.createOperation(operation, side, 'merge', 'merge', { [side]: 1 }),
+    timestamp: side === prefer ? now + 1 : now,
+  });
+  const oursMeta = oursOps.map(wrap('ours'));
+  const theirsMeta = theirsOps.map(wrap('theirs'));
+
+  for (let i = 0; i < oursMeta.length; i++) {
+    for (let j = 0; j < theirsMeta.length; j++) {
+      const before = { ours: oursMeta[i].operation, theirs: theirsMeta[j].operation };
+      const result = engine.transform(oursMeta[i], theirsMeta[j]);
+      oursMeta[i] = result.op1;
+      theirsMeta[j] = result.op2;
+      if (!result.conflictResolved || result.transformationType === 'position') continue;
+
+      const id = targetId(before.ours) ?? targetId(before.theirs)!;
+      const oursChange = describeOperation(before.ours);
+      const theirsChange = describeOperation(before.theirs);
+      const deleted = before.ours.type.startsWith('delete') ? 'ours' : before.theirs.type.startsWith('delete') ? 'theirs' : null;
+      const field = oursChange.field ?? theirsChange.field;
+      log.add({
+        itemId: id,
+        path: field && !deleted && oursChange.field === theirsChange.field ? `${labelOf(id)} › ${field}` : labelOf(id),
+        detail: deleted ? `removed in ${deleted}, changed in ${other(deleted)}`
+          : before.ours.type.startsWith('insert') ? 'added on both sides'
+          : 'changed on both sides',
+        ours: oursChange.value,
+        theirs: theirsChange.value,
+        resolution: result.transformationType === 'merge' ? 'merged'
+          : isNoOp(result.op1) ? 'theirs'
+          : isNoOp(result.op2) ? 'ours'
+          : 'merged',
+      });
+    }
+  }
+
+  const merged: ModelState = { elements: { ...baseState.elements }, threatActors: { ...baseState.threatActors } };
+  [...oursMeta, ...theirsMeta].forEach(op => applyOperation(merged, op.operation));
+
+  return {
+    elements: Object.values(merged.elements),
+    threatActors: Object.values(merged.threatActors),
+    conflicts: log.conflicts,
+  };
+}
+
+/**
+ * Merge with each conflicting element or threat actor resolved the way the
+ * user chose, item by item; items not chosen go to `ours`
+ */
+export function resolveMerge(base: DiffableModel, ours: DiffableModel, theirs: DiffableModel, choices: Record<string, MergeSide>): MergeResult {
+  const results: Record<MergeSide, MergeResult> = {
+    ours: mergeModels(base, ours, theirs, 'ours'),
+    theirs: mergeModels(base, ours, theirs, 'theirs'),
+  };
+  const pick = <T extends { id: string }>(list: (result: MergeResult) => T[]): T[] => {
+    const ids = [...new Set([...list(results.ours), ...list(results.theirs)].map(item => item.id))];
+    return ids
+      .map(id => list(results[choices[id] ?? 'ours']).find(item => item.id === id))
+      .filter((item): item is T => item !== undefined);
+  };
+  return {
+    elements: pick(result => result.elements),
+    threatActors: pick(result => result.threatActors),
+    conflicts: results.ours.conflicts.map(conflict =>
+      choices[conflict.itemId] === 'theirs'
+        ? results.theirs.conflicts.find(c => c.itemId === conflict.itemId && c.path === conflict.path) ?? conflict
+        : conflict
+    ),
+  };
+}
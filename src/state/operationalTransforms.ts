@@ -1,5 +1,6 @@
 // src/state/operationalTransforms.ts - Google Docs style Operational Transforms
 import { DiagramElement, ThreatActor } from '../types/diagram';
+import type { Signed } from '../utils/signing';
 
 /**
  * Operation types for Operational Transforms
@@ -22,12 +23,15 @@ export type OTOperation =
   // Connection operations
   | { type: 'create_connection'; elementId: string; sourceId: string; targetId: string; connectionData: any }
   | { type: 'delete_connection'; elementId: string; sourceId: string; targetId: string; connectionData: any }
-  | { type: 'update_connection'; elementId: string; property: string; oldValue: any; newValue: any };
+  | { type: 'update_connection'; elementId: string; property: string; oldValue: any; newValue: any }
+  
+  // Batched operations - applied atomically as a single change (group edits)
+  | { type: 'batch'; operations: OTOperation[] };
 
 /**
  * Operation metadata for conflict resolution
  */
-export interface OTOperationMeta {
+export interface OTOperationMeta extends Signed {
   id: string; // Unique operation ID
   operation: OTOperation;
   timestamp: number;
@@ -37,7 +41,7 @@ export interface OTOperationMeta {
   vectorClock: Record<string, number>; // Causal ordering
   dependencies: string[]; // Operations this depends on
   transformedAgainst: string[]; // Operations this was transformed against
-  checksum: string; // Integrity verification
+  checksum: string; // Change detection only - integrity comes from the signature
 }
 
 /**
@@ -150,7 +154,7 @@ export class OperationalTransformEngine {
   private transformSameElementOperations(op1: OTOperationMeta, op2: OTOperationMeta): TransformResult {
     
     // Delete vs Update conflict - delete wins
-    if (op1.operation.type === 'delete_element' && this.isUpdateOperation(op2.operation)) {
+    if (this.isDeleteOperation(op1.operation) && this.isUpdateOperation(op2.operation)) {
       return {
         op1,
         op2: this.createNoOpOperation(op2), // Convert update to no-op
@@ -158,7 +162,7 @@ export class OperationalTransformEngine {
         transformationType: 'priority'
       };
     }
-    if (op2.operation.type === 'delete_element' && this.isUpdateOperation(op1.operation)) {
+    if (this.isDeleteOperation(op2.operation) && this.isUpdateOperation(op1.operation)) {
       return {
         op1: this.createNoOpOperation(op1), // Convert update to no-op
         op2,
@@ -172,8 +176,9 @@ export class OperationalTransformEngine {
       return this.transformConcurrentMoves(op1, op2);
     }
 
-    // Two property updates on same element
-    if (op1.operation.type === 'update_element_property' && op2.operation.type === 'update_element_property') {
+    // Two property updates on same element (or threat actor)
+    if ((op1.operation.type === 'update_element_property' && op2.operation.type === 'update_element_property')
+      || (op1.operation.type === 'update_threat_actor' && op2.operation.type === 'update_threat_actor')) {
       return this.transformPropertyUpdates(op1, op2);
     }
 
@@ -182,6 +187,16 @@ export class OperationalTransformEngine {
       return this.transformConcurrentResize(op1, op2);
     }
 
+    // A move, a resize and a property update change different things - both apply
+    if (this.isUpdateOperation(op1.operation) && this.isUpdateOperation(op2.operation) && op1.operation.type !== op2.operation.type) {
+      return {
+        op1,
+        op2,
+        conflictResolved: false,
+        transformationType: 'none'
+      };
+    }
+
     // Default: apply both with author priority
     return this.applyAuthorPriority(op1, op2);
   }
@@ -250,8 +265,8 @@ export class OperationalTransformEngine {
    * Transform property updates with semantic merging
    */
   private transformPropertyUpdates(op1: OTOperationMeta, op2: OTOperationMeta): TransformResult {
-    const prop1 = op1.operation as Extract<OTOperation, { type: 'update_element_property' }>;
-    const prop2 = op2.operation as Extract<OTOperation, { type: 'update_element_property' }>;
+    const prop1 = op1.operation as Extract<OTOperation, { type: 'update_element_property' | 'update_threat_actor' }>;
+    const prop2 = op2.operation as Extract<OTOperation, { type: 'update_element_property' | 'update_threat_actor' }>;
 
     // Same property - use 3-way merge or last-writer-wins
     if (prop1.property === prop2.property) {
@@ -426,7 +441,11 @@ export class OperationalTransformEngine {
   }
 
   private isUpdateOperation(op: OTOperation): boolean {
-    return ['move_element', 'resize_element', 'update_element_property', 'update_element_threats'].includes(op.type);
+    return ['move_element', 'resize_element', 'update_element_property', 'update_element_threats', 'update_threat_actor'].includes(op.type);
+  }
+
+  private isDeleteOperation(op: OTOperation): boolean {
+    return op.type === 'delete_element' || op.type === 'delete_threat_actor';
   }
 
   private createNoOpOperation(op: OTOperationMeta): OTOperationMeta {
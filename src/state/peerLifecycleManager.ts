@@ -2,7 +2,7 @@
 import { SessionManager, Session } from './sessionManager';
 import { RaftConsensusProtocol } from './raftConsensus';
 import { OTOperationMeta } from './operationalTransforms';
-import { ServerlessWebRTC } from '../services/serverlessWebRTC';
+import { Transport } from '../services/transport';
 
 /**
  * Peer state tracking
@@ -18,7 +18,6 @@ export interface PeerInfo {
   capabilities: PeerCapabilities;
   version: string; // Protocol version
   syncState: SyncState;
-  permissions: PeerPermissions;
 }
 
 export type PeerState = 
@@ -50,14 +49,6 @@ export interface SyncState {
   estimatedCompletionTime?: number;
 }
 
-export interface PeerPermissions {
-  canRead: boolean;
-  canWrite: boolean;
-  canInvite: boolean;
-  canModifyPermissions: boolean;
-  maxConcurrentOperations: number;
-}
-
 /**
  * Lifecycle events
  */
@@ -88,7 +79,7 @@ export class PeerLifecycleManager {
   // Dependencies
   private sessionManager: SessionManager;
   private raftConsensus: RaftConsensusProtocol;
-  private rtc: ServerlessWebRTC | null = null;
+  private rtc: Transport | null = null;
 
   // Configuration
   private readonly PEER_TIMEOUT = 30000; // 30 seconds
@@ -101,6 +92,7 @@ export class PeerLifecycleManager {
   private isStable: boolean = true;
   private partitionDetected: boolean = false;
   private reconnectAttempts: Map<string, number> = new Map();
+  private quarantined: Map<string, string> = new Map(); // peerId -> reason, for the rest of the session
 
   // Timers
   private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
@@ -134,7 +126,7 @@ export class PeerLifecycleManager {
   /**
    * Initialize with WebRTC connection
    */
-  initialize(rtc: ServerlessWebRTC): void {
+  initialize(rtc: Transport): void {
     this.rtc = rtc;
     this.setupNetworkHandlers();
   }
@@ -175,7 +167,6 @@ export class PeerLifecycleManager {
           syncProgress: 0,
           syncStartedAt: Date.now(),
         },
-        permissions: this.mapSessionPermissions(session.permissions),
       };
 
       this.peers.set(peerId, peerInfo);
@@ -379,13 +370,15 @@ export class PeerLifecycleManager {
   }
 
   /**
-   * Quarantine problematic peer
+   * Quarantine problematic peer (failed sync, forged or tampered operations).
+   * Anything further from the peer is ignored until the session ends.
    */
-  private quarantinePeer(peerId: string, reason: string): void {
-    const peer = this.peers.get(peerId);
-    if (!peer) return;
+  quarantinePeer(peerId: string, reason: string): void {
+    if (this.quarantined.has(peerId)) return;
+    this.quarantined.set(peerId, reason);
 
-    peer.state = 'quarantined';
+    const peer = this.peers.get(peerId);
+    if (peer) peer.state = 'quarantined';
     
     this.emitEvent({ type: 'peer_quarantined', peerId, reason });
     
@@ -466,19 +459,6 @@ export class PeerLifecycleManager {
     };
   }
 
-  /**
-   * Map session permissions to peer permissions
-   */
-  private mapSessionPermissions(sessionPermissions: any): PeerPermissions {
-    return {
-      canRead: sessionPermissions.canView,
-      canWrite: sessionPermissions.canEdit,
-      canInvite: sessionPermissions.canInvite,
-      canModifyPermissions: sessionPermissions.canAdmin,
-      maxConcurrentOperations: sessionPermissions.canEdit ? 50 : 0,
-    };
-  }
-
   /**
    * Setup network event handlers
    */
@@ -657,6 +637,10 @@ export class PeerLifecycleManager {
     return this.getAllPeers().filter(peer => peer.state === 'active');
   }
 
+  isQuarantined(peerId: string): boolean {
+    return this.quarantined.has(peerId);
+  }
+
   isClusterStable(): boolean {
     return this.isStable;
   }
@@ -666,6 +650,7 @@ export class PeerLifecycleManager {
       ...this.stats,
       activePeers: this.getActivePeers().length,
       totalPeers: this.peers.size,
+      quarantinedPeers: this.quarantined.size,
       isStable: this.isStable,
       partitionDetected: this.partitionDetected,
       queuedOperations: Array.from(this.pendingOperations.values())
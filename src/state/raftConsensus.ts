@@ -1,6 +1,7 @@
 // src/state/raftConsensus.ts - Enterprise-grade Raft consensus protocol
 import { OTOperationMeta } from './operationalTransforms';
-import { ServerlessWebRTC } from '../services/serverlessWebRTC';
+import { Transport, peerIdForUser } from '../services/transport';
+import { encryptedStorage } from './encryptedStorage';
 
 /**
  * Raft node states
@@ -8,38 +9,104 @@ import { ServerlessWebRTC } from '../services/serverlessWebRTC';
 export type RaftNodeState = 'follower' | 'candidate' | 'leader';
 
 /**
- * Raft log entry
+ * Cluster membership. While `next` is set the cluster is in joint consensus
+ * (C_old,new): elections and commits need a majority of both `voters` and `next`.
+ */
+export interface RaftMembership {
+  voters: string[];
+  next?: string[];
+}
+
+/**
+ * Raft log entry. Indices start at 1; an entry carries an operation, a
+ * membership change, or neither (the no-op a new leader appends).
  */
 export interface RaftLogEntry {
   term: number; // Leader term when entry was created
-  index: number; // Position in log
-  operation: OTOperationMeta; // The actual operation
+  index: number; // Position in log (1-based, continues across snapshots)
+  operation?: OTOperationMeta; // The actual operation
+  membership?: RaftMembership; // Configuration change
   committed: boolean; // Whether entry is committed
   timestamp: number;
   checksum: string; // For integrity verification
 }
 
+/**
+ * Compacted log prefix
+ */
+export interface RaftSnapshot {
+  lastIncludedIndex: number;
+  lastIncludedTerm: number;
+  membership: RaftMembership;
+  data: unknown; // Application state supplied by the snapshot provider
+}
+
 /**
  * Raft message types
  */
-export type RaftMessage = 
+export type RaftMessage =
   | { type: 'request_vote'; term: number; candidateId: string; lastLogIndex: number; lastLogTerm: number; roomId: string }
   | { type: 'vote_response'; term: number; voteGranted: boolean; voterId: string; roomId: string }
   | { type: 'append_entries'; term: number; leaderId: string; prevLogIndex: number; prevLogTerm: number; entries: RaftLogEntry[]; leaderCommit: number; roomId: string }
+  // On failure matchIndex is a hint: the follower's log is known to match up to there at most
   | { type: 'append_response'; term: number; success: boolean; matchIndex: number; followerId: string; roomId: string }
-  | { type: 'heartbeat'; term: number; leaderId: string; roomId: string }
-  | { type: 'install_snapshot'; term: number; leaderId: string; lastIncludedIndex: number; lastIncludedTerm: number; data: any; roomId: string };
+  | { type: 'install_snapshot'; term: number; leaderId: string; lastIncludedIndex: number; lastIncludedTerm: number; membership: RaftMembership; data: unknown; roomId: string }
+  // Followers forward operations to the leader instead of rejecting them
+  | { type: 'client_request'; term: number; operation: OTOperationMeta; roomId: string };
 
 /**
- * Raft cluster configuration
+ * Clock, randomness, timers and storage - injected so the simulator can run
+ * a cluster deterministically in memory
  */
-interface ClusterConfig {
-  nodeId: string;
-  nodes: Set<string>; // All node IDs in cluster
-  roomId: string;
-  quorumSize: number; // Majority size for decisions
+export interface RaftEnvironment {
+  now(): number;
+  random(): number;
+  setTimer(callback: () => void, ms: number): unknown;
+  clearTimer(handle: unknown): void;
+  storage: Pick<Storage, 'getItem' | 'setItem'> | null;
+  log(message: string): void;
+}
+
+export interface RaftOptions {
+  electionTimeoutMin: number;
+  electionTimeoutMax: number;
+  heartbeatInterval: number;
+  snapshotThreshold: number; // compact once this many committed entries pile up
+  maxEntriesPerMessage: number;
+  // A node with no transport peers collapses the cluster to itself so edits
+  // keep committing offline. Trades Raft safety across partitions for
+  // availability: logs of clusters that ran apart are not reconciled here,
+  // the state layer's full_history sync and OT merge them. The simulator
+  // turns it off to check the pure protocol.
+  soloWhenAlone: boolean;
+  // Start outside the cluster and wait for a leader to add us, instead of
+  // bootstrapping a single-node cluster of our own
+  joining: boolean;
+  environment: RaftEnvironment;
 }
 
+const browserEnvironment: RaftEnvironment = {
+  now: () => Date.now(),
+  random: () => Math.random(),
+  setTimer: (callback, ms) => setTimeout(callback, ms),
+  clearTimer: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+  storage: encryptedStorage,
+  log: (message) => console.log(message),
+};
+
+const DEFAULT_OPTIONS: RaftOptions = {
+  electionTimeoutMin: 150,
+  electionTimeoutMax: 300,
+  heartbeatInterval: 50,
+  snapshotThreshold: 500,
+  maxEntriesPerMessage: 100,
+  soloWhenAlone: true,
+  joining: false,
+  environment: browserEnvironment,
+};
+
+type MembershipChange = { action: 'add' | 'remove'; nodeId: string };
+
 /**
  * Raft consensus implementation
  * Based on the original Raft paper with optimizations for P2P networks
@@ -48,180 +115,121 @@ export class RaftConsensusProtocol {
   // Persistent state (survives restarts)
   private currentTerm: number = 0;
   private votedFor: string | null = null;
-  private log: RaftLogEntry[] = [];
+  private log: RaftLogEntry[] = []; // entries after the snapshot
+  private snapshot: RaftSnapshot | null = null;
 
   // Volatile state
   private commitIndex: number = 0;
   private lastApplied: number = 0;
   private state: RaftNodeState = 'follower';
   private leaderId: string | null = null;
+  private votesGranted: Set<string> = new Set();
+  private lastLeaderContact: number = -Infinity;
 
   // Leader state (reset after election)
   private nextIndex: Map<string, number> = new Map(); // Next log index to send to each follower
   private matchIndex: Map<string, number> = new Map(); // Highest log index replicated on each follower
+  private membershipQueue: MembershipChange[] = [];
 
-  // Timers and intervals
-  private electionTimer: NodeJS.Timeout | null = null;
-  private heartbeatTimer: NodeJS.Timeout | null = null;
+  // Operations submitted while no leader is known
+  private pendingRequests: OTOperationMeta[] = [];
 
-  // Configuration
-  private readonly ELECTION_TIMEOUT_MIN = 150; // 150ms minimum
-  private readonly ELECTION_TIMEOUT_MAX = 300; // 300ms maximum  
-  private readonly HEARTBEAT_INTERVAL = 50; // 50ms heartbeat
+  // Timers
+  private electionTimer: unknown = null;
+  private heartbeatTimer: unknown = null;
+  private stopped = false;
 
   // Network and cluster
-  private rtc: ServerlessWebRTC | null = null;
-  private config: ClusterConfig;
-  private pendingHeartbeatStart: boolean = false; // Flag to start heartbeats when RTC becomes available
+  private rtc: Transport | null = null;
+  private readonly nodeId: string;
+  private readonly roomId: string;
+  private readonly options: RaftOptions;
+  private readonly env: RaftEnvironment;
+
+  // Snapshot hooks (application state machine)
+  private snapshotProvider: () => unknown = () => null;
+  private snapshotInstaller: (data: unknown) => void = () => {};
 
   // Statistics and monitoring
   private stats = {
     messagesReceived: 0,
     messagesSent: 0,
+    messagesDropped: 0,
     electionsStarted: 0,
     electionTimeouts: 0,
     heartbeatsSent: 0,
     entriesReplicated: 0,
-    conflictsResolved: 0,
+    snapshotsTaken: 0,
+    snapshotsInstalled: 0,
+    membershipChanges: 0,
   };
 
-  constructor(nodeId: string, roomId: string) {
-    this.config = {
-      nodeId,
-      nodes: new Set([nodeId]),
-      roomId,
-      quorumSize: 1,
-    };
+  constructor(nodeId: string, roomId: string, options: Partial<RaftOptions> = {}) {
+    this.nodeId = nodeId;
+    this.roomId = roomId;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.env = this.options.environment;
 
-    this.startElectionTimer();
     this.loadPersistedState();
+    this.startElectionTimer();
   }
 
   /**
-   * Initialize with WebRTC connection
+   * Initialize with transport connection
    */
-  initialize(rtc: ServerlessWebRTC): void {
+  initialize(rtc: Transport): void {
     this.rtc = rtc;
     this.setupMessageHandlers();
-    
-    // Start heartbeats if we were waiting for RTC connection
-    if (this.pendingHeartbeatStart && this.state === 'leader') {
-      this.pendingHeartbeatStart = false;
-      this.startHeartbeat();
-      this.sendHeartbeats();
-      console.log('🔄 RTC connection ready - starting pending heartbeats for peer discovery');
-    }
   }
 
   /**
-   * Add node to cluster
+   * Application state captured when the log is compacted, and applied when a
+   * follower is too far behind and receives the leader's snapshot instead
    */
-  addNode(nodeId: string): void {
-    if (!this.config.nodes.has(nodeId)) {
-      const wasEarlierSingleUser = this.config.nodes.size <= 1;
-      
-      this.config.nodes.add(nodeId);
-      this.config.quorumSize = Math.floor(this.config.nodes.size / 2) + 1;
-      
-      console.log(`Added node ${nodeId} to cluster. Quorum size: ${this.config.quorumSize}`);
-      
-      // Initialize leader state for new node
-      if (this.state === 'leader') {
-        this.nextIndex.set(nodeId, this.log.length);
-        this.matchIndex.set(nodeId, 0);
-        
-        // Transition from single-user to multi-user mode
-        if (wasEarlierSingleUser) {
-          console.log('🌐 Transitioning from single-user to multi-user mode');
-          // Start heartbeats now that we have other nodes
-          this.startHeartbeat();
-          // Send initial heartbeat to new node
-          this.sendHeartbeats();
-        }
-      }
-    }
+  setSnapshotHandlers(provider: () => unknown, installer: (data: unknown) => void): void {
+    this.snapshotProvider = provider;
+    this.snapshotInstaller = installer;
   }
 
   /**
-   * Remove node from cluster  
+   * Add node to cluster (leader proposes a joint-consensus change; others ignore)
    */
-  removeNode(nodeId: string): void {
-    if (this.config.nodes.has(nodeId) && this.config.nodes.size > 1) {
-      this.config.nodes.delete(nodeId);
-      this.config.quorumSize = Math.floor(this.config.nodes.size / 2) + 1;
-      
-      // Clean up leader state
-      this.nextIndex.delete(nodeId);
-      this.matchIndex.delete(nodeId);
-
-      console.log(`Removed node ${nodeId} from cluster. Quorum size: ${this.config.quorumSize}`);
-
-      // Handle transition back to single-user mode
-      if (this.config.nodes.size <= 1) {
-        console.log('🏠 Transitioning back to single-user mode');
-        if (this.state === 'leader') {
-          // Stop heartbeats since we're back to single-user
-          this.stopHeartbeat();
-        } else {
-          // Become leader in single-user mode
-          this.becomeLeader();
-        }
-      } else if (this.state === 'leader' && this.config.nodes.size < this.config.quorumSize) {
-        // If we lost quorum but still have multiple nodes, step down
-        this.stepDown();
-      }
+  addNode(nodeId: string): void {
+    if (nodeId === this.nodeId) return;
+    if (!this.membershipQueue.some(change => change.action === 'add' && change.nodeId === nodeId)) {
+      this.membershipQueue.push({ action: 'add', nodeId });
     }
+    this.processMembershipQueue();
   }
 
   /**
-   * Get current peer count for single-user mode detection
+   * Remove node from cluster (leader proposes a joint-consensus change; others ignore)
    */
-  private getPeerCount(): number {
-    return this.rtc?.getStats?.()?.connectedPeers || 0;
+  removeNode(nodeId: string): void {
+    if (nodeId === this.nodeId) return;
+    if (!this.membershipQueue.some(change => change.action === 'remove' && change.nodeId === nodeId)) {
+      this.membershipQueue.push({ action: 'remove', nodeId });
+    }
+    this.processMembershipQueue();
   }
 
   /**
-   * Submit operation to Raft (only leader can do this)
+   * Submit operation to Raft. The leader appends it; followers forward it to
+   * the leader, or hold it until one is known.
    */
   async submitOperation(operation: OTOperationMeta): Promise<boolean> {
-    console.log(`🔍 submitOperation called - nodeId: ${this.config.nodeId}, state: ${this.state}, leaderId: ${this.leaderId}, term: ${this.currentTerm}`);
-    
-    // Auto-elect self as leader if no leader exists and elections are failing
-    if (this.state !== 'leader') {
-      if (!this.rtc || this.getPeerCount() === 0 || (this.leaderId === null && this.currentTerm > 5)) {
-        console.log('👑 Auto-electing self as leader (offline mode or failed elections)');
-        this.state = 'leader';
-        this.leaderId = this.config.nodeId;
-        this.votedFor = this.config.nodeId;
-        this.currentTerm++;
-        console.log(`✅ Self-elected as leader - nodeId: ${this.config.nodeId}, leaderId: ${this.leaderId}`);
-      } else {
-        console.error(`❌ Leadership check failed - state: ${this.state}, leaderId: ${this.leaderId}, nodeId: ${this.config.nodeId}`);
-        throw new Error(`Only leader can submit operations. Current leader: ${this.leaderId}`);
-      }
+    if (this.state === 'leader') {
+      this.appendEntry({ operation });
+      this.replicateToFollowers();
+      this.advanceCommitIndex();
+      return true;
     }
 
-    // Create log entry
-    const entry: RaftLogEntry = {
-      term: this.currentTerm,
-      index: this.log.length,
-      operation,
-      committed: false,
-      timestamp: Date.now(),
-      checksum: this.computeEntryChecksum(operation),
-    };
-
-    // Add to local log
-    this.log.push(entry);
-    this.stats.entriesReplicated++;
-
-    // Immediately replicate to followers
-    await this.replicateToFollowers();
-
-    // Check if we can commit this entry
-    this.tryCommitEntries();
+    if (this.leaderId && this.sendMessage({ type: 'client_request', term: this.currentTerm, operation, roomId: this.roomId }, this.leaderId)) {
+      return true;
+    }
 
-    this.persistState();
+    this.pendingRequests.push(operation);
     return true;
   }
 
@@ -230,11 +238,12 @@ export class RaftConsensusProtocol {
    */
   getCommittedOperations(): OTOperationMeta[] {
     const operations: OTOperationMeta[] = [];
-    
-    for (let i = this.lastApplied; i < this.commitIndex; i++) {
-      if (this.log[i] && this.log[i].committed) {
-        operations.push(this.log[i].operation);
-      }
+
+    // Entries folded into a snapshot are only available as snapshot data
+    const from = Math.max(this.lastApplied, this.snapshotIndex()) + 1;
+    for (let index = from; index <= this.commitIndex; index++) {
+      const operation = this.entryAt(index)?.operation;
+      if (operation) operations.push(operation);
     }
 
     this.lastApplied = this.commitIndex;
@@ -242,7 +251,8 @@ export class RaftConsensusProtocol {
   }
 
   /**
-   * Setup WebRTC message handlers
+   * Setup transport message handlers. DistributedStateManager replaces the
+   * presence handlers with its own and forwards to addNode/removeNode.
    */
   private setupMessageHandlers(): void {
     if (!this.rtc) return;
@@ -251,11 +261,11 @@ export class RaftConsensusProtocol {
       this.handleMessage(message, fromNodeId);
     });
 
-    this.rtc.on('user_presence', (_data: any, fromNodeId: string) => {
+    this.rtc.on('user_presence', (_data: unknown, fromNodeId: string) => {
       this.addNode(fromNodeId);
     });
 
-    this.rtc.on('user_disconnect', (_data: any, fromNodeId: string) => {
+    this.rtc.on('user_disconnect', (_data: unknown, fromNodeId: string) => {
       this.removeNode(fromNodeId);
     });
   }
@@ -263,23 +273,22 @@ export class RaftConsensusProtocol {
   /**
    * Handle incoming Raft messages
    */
-  private handleMessage(message: RaftMessage, fromNodeId: string): void {
-    // Ignore messages from other rooms
-    if (message.roomId !== this.config.roomId) return;
-    
-    // Ignore messages from ourselves
-    if (fromNodeId === this.config.nodeId) {
-      console.log(`🔇 Ignoring message from self: ${fromNodeId}`);
-      return;
-    }
+  handleMessage(message: RaftMessage, fromNodeId: string): void {
+    // Ignore messages from other rooms, from ourselves, and after shutdown
+    if (this.stopped || message.roomId !== this.roomId || fromNodeId === this.nodeId) return;
 
     this.stats.messagesReceived++;
 
-    // Update term if we see a higher term
+    // While we hear from a leader, ignore candidates - a removed node that
+    // never learned it was removed would otherwise keep disrupting the cluster
+    if (message.type === 'request_vote' && this.hasCurrentLeader()) return;
+
+    // Any newer term makes us a follower of that term
     if (message.term > this.currentTerm) {
       this.currentTerm = message.term;
       this.votedFor = null;
-      this.stepDown();
+      this.becomeFollower(null);
+      this.persistState();
     }
 
     switch (message.type) {
@@ -295,12 +304,12 @@ export class RaftConsensusProtocol {
       case 'append_response':
         this.handleAppendResponse(message, fromNodeId);
         break;
-      case 'heartbeat':
-        this.handleHeartbeat(message, fromNodeId);
-        break;
       case 'install_snapshot':
         this.handleInstallSnapshot(message, fromNodeId);
         break;
+      case 'client_request':
+        this.handleClientRequest(message);
+        break;
     }
   }
 
@@ -308,356 +317,542 @@ export class RaftConsensusProtocol {
    * Handle vote request from candidate
    */
   private handleVoteRequest(message: Extract<RaftMessage, { type: 'request_vote' }>, fromNodeId: string): void {
-    let voteGranted = false;
-
     // Grant vote if:
-    // 1. Haven't voted in this term OR already voted for this candidate
-    // 2. Candidate's log is at least as up-to-date as ours
-    if ((this.votedFor === null || this.votedFor === fromNodeId) &&
-        this.isLogUpToDate(message.lastLogIndex, message.lastLogTerm)) {
-      voteGranted = true;
+    // 1. The request is for our current term
+    // 2. Haven't voted in this term OR already voted for this candidate
+    // 3. Candidate's log is at least as up-to-date as ours
+    const voteGranted = message.term === this.currentTerm &&
+      (this.votedFor === null || this.votedFor === fromNodeId) &&
+      this.isLogUpToDate(message.lastLogIndex, message.lastLogTerm);
+
+    if (voteGranted) {
       this.votedFor = fromNodeId;
+      this.persistState();
       this.resetElectionTimer();
     }
 
-    // Send vote response
     this.sendMessage({
       type: 'vote_response',
       term: this.currentTerm,
       voteGranted,
-      voterId: this.config.nodeId,
-      roomId: this.config.roomId,
+      voterId: this.nodeId,
+      roomId: this.roomId,
     }, fromNodeId);
-
-    this.persistState();
   }
 
   /**
-   * Handle vote response from follower
+   * Handle vote response - count it and win with a (joint) majority
    */
-  private handleVoteResponse(message: Extract<RaftMessage, { type: 'vote_response' }>, _fromNodeId: string): void {
-    // Only candidates care about votes
-    if (this.state !== 'candidate') return;
+  private handleVoteResponse(message: Extract<RaftMessage, { type: 'vote_response' }>, fromNodeId: string): void {
+    if (this.state !== 'candidate' || message.term !== this.currentTerm || !message.voteGranted) return;
 
-    if (message.voteGranted) {
-      // Count votes (including our own)
-      const votes = Array.from(this.config.nodes).filter(nodeId => {
-        return nodeId === this.config.nodeId || this.hasVoteFrom(nodeId);
-      }).length;
-
-      // Become leader if we have majority
-      if (votes >= this.config.quorumSize) {
-        this.becomeLeader();
-      }
+    this.votesGranted.add(fromNodeId);
+    if (this.hasQuorum(this.currentMembership(), nodeId => this.votesGranted.has(nodeId))) {
+      this.becomeLeader();
     }
   }
 
   /**
-   * Handle append entries from leader
+   * Handle append entries (also the leader heartbeat) from leader
    */
   private handleAppendEntries(message: Extract<RaftMessage, { type: 'append_entries' }>, fromNodeId: string): void {
-    let success = false;
-    let matchIndex = 0;
-
-    // Reset election timer since we heard from leader
-    this.resetElectionTimer();
-    this.leaderId = fromNodeId;
-
-    // Step down to follower if we were candidate/leader
-    if (this.state !== 'follower') {
-      this.stepDown();
+    if (message.term < this.currentTerm) {
+      this.sendMessage({ type: 'append_response', term: this.currentTerm, success: false, matchIndex: 0, followerId: this.nodeId, roomId: this.roomId }, fromNodeId);
+      return;
     }
 
-    // Check if our log matches leader's
-    if (this.isLogConsistent(message.prevLogIndex, message.prevLogTerm)) {
-      // Remove conflicting entries and append new ones
-      this.log = this.log.slice(0, message.prevLogIndex + 1);
-      this.log.push(...message.entries);
-
-      matchIndex = this.log.length - 1;
-      success = true;
+    this.becomeFollower(fromNodeId);
+    this.lastLeaderContact = this.env.now();
+
+    // Entries up to the snapshot are committed, so they match the leader's
+    let prevLogIndex = message.prevLogIndex;
+    let entries = message.entries;
+    if (prevLogIndex < this.snapshotIndex()) {
+      entries = entries.filter(entry => entry.index > this.snapshotIndex());
+      prevLogIndex = this.snapshotIndex();
+    } else if (this.termAt(prevLogIndex) !== message.prevLogTerm) {
+      this.sendMessage({
+        type: 'append_response',
+        term: this.currentTerm,
+        success: false,
+        matchIndex: Math.min(this.lastLogIndex(), prevLogIndex - 1),
+        followerId: this.nodeId,
+        roomId: this.roomId,
+      }, fromNodeId);
+      return;
+    }
 
-      // Update commit index
-      if (message.leaderCommit > this.commitIndex) {
-        this.commitIndex = Math.min(message.leaderCommit, this.log.length - 1);
+    // Append new entries; only truncate on a real conflict, so a stale or
+    // reordered message never erases entries we already accepted
+    let changed = false;
+    for (const entry of entries) {
+      const existingTerm = this.termAt(entry.index);
+      if (existingTerm === entry.term) continue;
+      if (existingTerm !== undefined) {
+        this.log = this.log.slice(0, entry.index - this.snapshotIndex() - 1);
       }
+      this.log.push({ ...entry, committed: false });
+      changed = true;
+    }
 
-      this.persistState();
+    const lastNewIndex = prevLogIndex + entries.length;
+    if (message.leaderCommit > this.commitIndex) {
+      this.setCommitIndex(Math.min(message.leaderCommit, lastNewIndex));
     }
+    if (changed) this.persistState();
 
-    // Send response to leader
     this.sendMessage({
       type: 'append_response',
       term: this.currentTerm,
-      success,
-      matchIndex,
-      followerId: this.config.nodeId,
-      roomId: this.config.roomId,
+      success: true,
+      matchIndex: lastNewIndex,
+      followerId: this.nodeId,
+      roomId: this.roomId,
     }, fromNodeId);
   }
 
   /**
-   * Handle append response from follower
+   * Handle append (or snapshot) response from follower
    */
   private handleAppendResponse(message: Extract<RaftMessage, { type: 'append_response' }>, fromNodeId: string): void {
-    // Only leader cares about append responses
-    if (this.state !== 'leader') return;
+    if (this.state !== 'leader' || message.term !== this.currentTerm) return;
 
     if (message.success) {
-      // Update follower's match index
-      this.matchIndex.set(fromNodeId, message.matchIndex);
-      this.nextIndex.set(fromNodeId, message.matchIndex + 1);
-
-      // Try to commit more entries
-      this.tryCommitEntries();
+      // Responses may arrive out of order - never move matchIndex backwards
+      const matched = Math.max(this.matchIndex.get(fromNodeId) ?? 0, message.matchIndex);
+      this.matchIndex.set(fromNodeId, matched);
+      this.nextIndex.set(fromNodeId, Math.max(this.nextIndex.get(fromNodeId) ?? 1, matched + 1));
+      this.advanceCommitIndex();
     } else {
-      // Decrement nextIndex and retry
-      const currentNext = this.nextIndex.get(fromNodeId) || 0;
-      this.nextIndex.set(fromNodeId, Math.max(0, currentNext - 1));
-      
-      // Send entries again with lower nextIndex
+      // Back off to the follower's hint and retry
+      const currentNext = this.nextIndex.get(fromNodeId) ?? this.lastLogIndex() + 1;
+      this.nextIndex.set(fromNodeId, Math.max(1, Math.min(currentNext - 1, message.matchIndex + 1)));
       this.sendAppendEntriesToFollower(fromNodeId);
     }
   }
 
   /**
-   * Handle heartbeat from leader
+   * Handle snapshot installation
    */
-  private handleHeartbeat(_message: Extract<RaftMessage, { type: 'heartbeat' }>, fromNodeId: string): void {
-    // Reset election timer
-    this.resetElectionTimer();
-    this.leaderId = fromNodeId;
+  private handleInstallSnapshot(message: Extract<RaftMessage, { type: 'install_snapshot' }>, fromNodeId: string): void {
+    if (message.term < this.currentTerm) {
+      this.sendMessage({ type: 'append_response', term: this.currentTerm, success: false, matchIndex: 0, followerId: this.nodeId, roomId: this.roomId }, fromNodeId);
+      return;
+    }
 
-    // Step down if we were candidate/leader
-    if (this.state !== 'follower') {
-      this.stepDown();
+    this.becomeFollower(fromNodeId);
+    this.lastLeaderContact = this.env.now();
+
+    if (message.lastIncludedIndex > this.snapshotIndex() && message.lastIncludedIndex > this.commitIndex) {
+      // Keep our suffix if it continues the snapshot, otherwise drop the whole log
+      const continues = this.termAt(message.lastIncludedIndex) === message.lastIncludedTerm;
+      this.log = continues ? this.log.filter(entry => entry.index > message.lastIncludedIndex) : [];
+      this.snapshot = {
+        lastIncludedIndex: message.lastIncludedIndex,
+        lastIncludedTerm: message.lastIncludedTerm,
+        membership: message.membership,
+        data: message.data,
+      };
+      this.commitIndex = message.lastIncludedIndex;
+      this.lastApplied = message.lastIncludedIndex;
+      this.stats.snapshotsInstalled++;
+      this.snapshotInstaller(message.data);
+      this.persistState();
+      this.env.log(`📦 Installed snapshot up to index ${message.lastIncludedIndex}`);
     }
+
+    this.sendMessage({
+      type: 'append_response',
+      term: this.currentTerm,
+      success: true,
+      matchIndex: message.lastIncludedIndex,
+      followerId: this.nodeId,
+      roomId: this.roomId,
+    }, fromNodeId);
   }
 
   /**
-   * Handle snapshot installation
+   * Handle an operation forwarded by a follower
    */
-  private handleInstallSnapshot(message: Extract<RaftMessage, { type: 'install_snapshot' }>, fromNodeId: string): void {
-    // Reset election timer
-    this.resetElectionTimer();
-    this.leaderId = fromNodeId;
-
-    // Install snapshot
-    this.log = [];
-    this.commitIndex = message.lastIncludedIndex;
-    this.lastApplied = message.lastIncludedIndex;
-
-    // Apply snapshot data would go here
-    console.log(`Installed snapshot up to index ${message.lastIncludedIndex}`);
-
-    this.persistState();
+  private handleClientRequest(message: Extract<RaftMessage, { type: 'client_request' }>): void {
+    void this.submitOperation(message.operation);
   }
 
   /**
    * Start election process
    */
   private startElection(): void {
+    const membership = this.currentMembership();
+    // Removed nodes stay quiet instead of disrupting the cluster
+    if (!this.members(membership).includes(this.nodeId)) {
+      this.resetElectionTimer();
+      return;
+    }
+
     this.state = 'candidate';
     this.currentTerm++;
-    this.votedFor = this.config.nodeId;
+    this.votedFor = this.nodeId;
+    this.leaderId = null;
+    this.votesGranted = new Set([this.nodeId]);
     this.stats.electionsStarted++;
+    this.persistState();
 
-    console.log(`Node ${this.config.nodeId} starting election for term ${this.currentTerm}`);
-
-    // Auto-win if we're the only node (single-user mode)
-    if (this.config.nodes.size <= 1 || (!this.rtc || this.getPeerCount() === 0)) {
-      console.log('👑 Auto-winning election - single node mode');
+    // Single-node cluster: our own vote is a majority
+    if (this.hasQuorum(membership, nodeId => this.votesGranted.has(nodeId))) {
       this.becomeLeader();
       return;
     }
 
-    // Reset election timer
     this.resetElectionTimer();
 
-    // Request votes from all other nodes
-    const lastLogIndex = this.log.length - 1;
-    const lastLogTerm = this.log.length > 0 ? this.log[lastLogIndex].term : 0;
-
-    this.broadcastMessage({
-      type: 'request_vote',
-      term: this.currentTerm,
-      candidateId: this.config.nodeId,
-      lastLogIndex,
-      lastLogTerm,
-      roomId: this.config.roomId,
-    });
-
-    this.persistState();
+    for (const nodeId of this.members(membership)) {
+      if (nodeId === this.nodeId) continue;
+      this.sendMessage({
+        type: 'request_vote',
+        term: this.currentTerm,
+        candidateId: this.nodeId,
+        lastLogIndex: this.lastLogIndex(),
+        lastLogTerm: this.termAt(this.lastLogIndex()) ?? 0,
+        roomId: this.roomId,
+      }, nodeId);
+    }
   }
 
   /**
    * Become leader after winning election
    */
   private becomeLeader(): void {
-    console.log(`Node ${this.config.nodeId} became leader for term ${this.currentTerm}`);
-    
+    this.env.log(`👑 Node ${this.nodeId} became leader for term ${this.currentTerm}`);
+
     this.state = 'leader';
-    this.leaderId = this.config.nodeId;
+    this.leaderId = this.nodeId;
+    this.stopElectionTimer();
 
-    // Initialize leader state
     this.nextIndex.clear();
     this.matchIndex.clear();
-
-    for (const nodeId of this.config.nodes) {
-      if (nodeId !== this.config.nodeId) {
-        this.nextIndex.set(nodeId, this.log.length);
-        this.matchIndex.set(nodeId, 0);
-      }
+    for (const nodeId of this.members(this.currentMembership())) {
+      if (nodeId === this.nodeId) continue;
+      this.nextIndex.set(nodeId, this.lastLogIndex() + 1);
+      this.matchIndex.set(nodeId, 0);
     }
 
-    // Stop election timer
-    this.stopElectionTimer();
-    
-    // Only start heartbeats if there are other nodes to communicate with
-    // Always start heartbeats to enable peer discovery - don't skip in single-user mode!
-    if (this.rtc) {
-      this.startHeartbeat();
-      // Send initial heartbeats for peer discovery
-      this.sendHeartbeats();
-      console.log('🔄 Starting heartbeats for peer discovery (peer count:', this.getPeerCount(), ')');
-    } else {
-      // Store that we need to start heartbeats when RTC becomes available
-      this.pendingHeartbeatStart = true;
-      console.log('📋 RTC not ready - will start heartbeats when connection is available');
+    // A no-op from our term lets earlier entries commit
+    this.appendEntry({});
+    for (const operation of this.pendingRequests.splice(0)) {
+      this.appendEntry({ operation });
     }
+
+    this.advanceCommitIndex();
+    this.startHeartbeat();
   }
 
   /**
-   * Step down from leader/candidate to follower
+   * Follow a leader (or nobody, after seeing a newer term)
    */
-  private stepDown(): void {
+  private becomeFollower(leaderId: string | null): void {
     if (this.state === 'leader') {
-      console.log(`Node ${this.config.nodeId} stepping down as leader`);
-      console.trace('📋 Step down stack trace:');
+      this.env.log(`Node ${this.nodeId} stepping down as leader`);
       this.stopHeartbeat();
-      
-      // In single-user mode, don't step down - stay as leader
-      // But allow step-down if we've detected other active nodes
-      const activePeerCount = this.getPeerCount();
-      const totalNodes = this.config.nodes.size;
-      
-      if (totalNodes <= 1 && activePeerCount === 0) {
-        console.log('🛡️ Staying as leader in single-user mode');
-        return;
-      } else if (totalNodes > 1 && activePeerCount === 0) {
-        console.log('🔄 Other nodes detected but no active peers - staying leader for now');
-        return;
-      } else {
-        console.log(`🌐 Multi-user mode: ${totalNodes} total nodes, ${activePeerCount} active peers - stepping down`);
-      }
     }
-
     this.state = 'follower';
-    this.leaderId = null;
+    this.votesGranted.clear();
     this.resetElectionTimer();
+
+    if (leaderId && leaderId !== this.leaderId) {
+      this.leaderId = leaderId;
+      // Hand over anything submitted while we had no leader
+      for (const operation of this.pendingRequests.splice(0)) {
+        this.sendMessage({ type: 'client_request', term: this.currentTerm, operation, roomId: this.roomId }, leaderId);
+      }
+    } else if (!leaderId) {
+      this.leaderId = null;
+    }
   }
 
   /**
    * Replicate log entries to followers
    */
-  private async replicateToFollowers(): Promise<void> {
+  private replicateToFollowers(): void {
     if (this.state !== 'leader') return;
 
-    for (const nodeId of this.config.nodes) {
-      if (nodeId !== this.config.nodeId) {
+    for (const nodeId of this.members(this.currentMembership())) {
+      if (nodeId !== this.nodeId) {
         this.sendAppendEntriesToFollower(nodeId);
       }
     }
   }
 
   /**
-   * Send append entries to specific follower
+   * Send append entries (or the snapshot, when it needs compacted entries) to a follower
    */
   private sendAppendEntriesToFollower(followerId: string): void {
-    const nextIndex = this.nextIndex.get(followerId) || 0;
+    if (!this.nextIndex.has(followerId)) {
+      this.nextIndex.set(followerId, this.lastLogIndex() + 1);
+      this.matchIndex.set(followerId, 0);
+    }
+    const nextIndex = this.nextIndex.get(followerId)!;
+
+    if (this.snapshot && nextIndex <= this.snapshot.lastIncludedIndex) {
+      this.sendMessage({
+        type: 'install_snapshot',
+        term: this.currentTerm,
+        leaderId: this.nodeId,
+        lastIncludedIndex: this.snapshot.lastIncludedIndex,
+        lastIncludedTerm: this.snapshot.lastIncludedTerm,
+        membership: this.snapshot.membership,
+        data: this.snapshot.data,
+        roomId: this.roomId,
+      }, followerId);
+      return;
+    }
+
     const prevLogIndex = nextIndex - 1;
-    const prevLogTerm = prevLogIndex >= 0 ? (this.log[prevLogIndex]?.term || 0) : 0;
-    
-    const entries = this.log.slice(nextIndex);
+    const entries = this.log
+      .slice(nextIndex - this.snapshotIndex() - 1, nextIndex - this.snapshotIndex() - 1 + this.options.maxEntriesPerMessage)
+      .map(entry => ({ ...entry, committed: false }));
 
     this.sendMessage({
       type: 'append_entries',
       term: this.currentTerm,
-      leaderId: this.config.nodeId,
+      leaderId: this.nodeId,
       prevLogIndex,
-      prevLogTerm,
+      prevLogTerm: this.termAt(prevLogIndex) ?? 0,
       entries,
       leaderCommit: this.commitIndex,
-      roomId: this.config.roomId,
+      roomId: this.roomId,
     }, followerId);
   }
 
   /**
-   * Try to commit entries if majority have replicated them
+   * Commit the highest entry of our term that a (joint) majority has replicated
    */
-  private tryCommitEntries(): void {
+  private advanceCommitIndex(): void {
     if (this.state !== 'leader') return;
 
-    // Find highest index that majority have replicated
-    for (let index = this.commitIndex + 1; index < this.log.length; index++) {
-      if (this.log[index].term !== this.currentTerm) continue;
-
-      // Count nodes that have this entry
-      let replicatedCount = 1; // Leader always has the entry
-      for (const matchIndex of this.matchIndex.values()) {
-        if (matchIndex >= index) {
-          replicatedCount++;
-        }
+    const membership = this.currentMembership();
+    for (let index = this.lastLogIndex(); index > this.commitIndex; index--) {
+      if (this.termAt(index) !== this.currentTerm) break;
+      const replicated = (nodeId: string) => nodeId === this.nodeId || (this.matchIndex.get(nodeId) ?? 0) >= index;
+      if (this.hasQuorum(membership, replicated)) {
+        this.setCommitIndex(index);
+        break;
       }
+    }
+  }
 
-      // Commit if majority have it
-      if (replicatedCount >= this.config.quorumSize) {
-        this.commitIndex = index;
-        this.log[index].committed = true;
-      }
+  private setCommitIndex(index: number): void {
+    if (index <= this.commitIndex) return;
+
+    for (let i = this.commitIndex + 1; i <= index; i++) {
+      const entry = this.entryAt(i);
+      if (entry) entry.committed = true;
     }
+    this.commitIndex = index;
+
+    if (this.state === 'leader') this.onLeaderCommit();
+    this.maybeCompact();
+    this.persistState();
   }
 
   /**
-   * Send heartbeats to all followers
+   * Joint consensus bookkeeping on the leader: finish C_old,new with C_new,
+   * step down if C_new left us out, then start the next queued change
    */
-  private sendHeartbeats(): void {
-    if (this.state !== 'leader') return;
+  private onLeaderCommit(): void {
+    const membership = this.currentMembership();
+    const latest = this.latestMembershipIndex();
+    if (latest > this.commitIndex) return;
+
+    if (membership.next) {
+      this.appendEntry({ membership: { voters: membership.next } });
+      this.replicateToFollowers();
+      this.advanceCommitIndex();
+      return;
+    }
+
+    if (!membership.voters.includes(this.nodeId)) {
+      this.env.log(`Node ${this.nodeId} left the cluster - stepping down`);
+      this.becomeFollower(null);
+      return;
+    }
+
+    this.processMembershipQueue();
+  }
+
+  private processMembershipQueue(): void {
+    if (this.state !== 'leader') {
+      // Only the leader changes membership; followers learn it from the log
+      this.membershipQueue = [];
+      return;
+    }
+
+    // One change at a time: wait until the last configuration entry is committed
+    if (this.latestMembershipIndex() > this.commitIndex || this.currentMembership().next) return;
+
+    while (this.membershipQueue.length > 0) {
+      const { action, nodeId } = this.membershipQueue.shift()!;
+      const voters = this.currentMembership().voters;
+      const next = action === 'add'
+        ? (voters.includes(nodeId) ? voters : [...voters, nodeId])
+        : voters.filter(voter => voter !== nodeId);
+      if (next.length === voters.length) continue;
+
+      this.env.log(`🔁 Membership change: ${action} ${nodeId} (${voters.length} → ${next.length} voters)`);
+      this.stats.membershipChanges++;
+      this.appendEntry({ membership: { voters, next } });
+      this.replicateToFollowers();
+      this.advanceCommitIndex();
+      return;
+    }
+  }
+
+  /**
+   * Offline fallback (soloWhenAlone): with no transport peers, shrink the
+   * cluster to ourselves so entries keep committing
+   */
+  private collapseToSolo(): void {
+    const wasLeader = this.state === 'leader';
+    if (!wasLeader) {
+      this.currentTerm++;
+      this.votedFor = this.nodeId;
+      this.state = 'leader';
+      this.leaderId = this.nodeId;
+      this.stopElectionTimer();
+    }
+    this.env.log(`🏠 No peers reachable - continuing as a single-node cluster (term ${this.currentTerm})`);
+    this.membershipQueue = [];
+    this.nextIndex.clear();
+    this.matchIndex.clear();
+    this.appendEntry({ membership: { voters: [this.nodeId] } });
+    for (const operation of this.pendingRequests.splice(0)) {
+      this.appendEntry({ operation });
+    }
+    this.advanceCommitIndex();
+    if (!wasLeader) this.startHeartbeat();
+  }
+
+  private shouldCollapseToSolo(): boolean {
+    if (!this.options.soloWhenAlone) return false;
+    const alone = !this.rtc || this.rtc.getPeers().length === 0;
+    const membership = this.currentMembership();
+    return alone && (this.members(membership).length > 1 || !membership.voters.includes(this.nodeId));
+  }
+
+  /**
+   * Log compaction: fold committed entries into a snapshot
+   */
+  private maybeCompact(): void {
+    if (this.commitIndex - this.snapshotIndex() < this.options.snapshotThreshold) return;
+
+    const lastIncludedIndex = this.commitIndex;
+    this.snapshot = {
+      lastIncludedIndex,
+      lastIncludedTerm: this.termAt(lastIncludedIndex) ?? 0,
+      membership: this.membershipAt(lastIncludedIndex),
+      data: this.snapshotProvider(),
+    };
+    this.log = this.log.filter(entry => entry.index > lastIncludedIndex);
+    this.stats.snapshotsTaken++;
+    this.env.log(`📦 Compacted log up to index ${lastIncludedIndex}`);
+  }
+
+  /**
+   * Log helpers (1-based indices across the snapshot boundary)
+   */
+  private snapshotIndex(): number {
+    return this.snapshot?.lastIncludedIndex ?? 0;
+  }
+
+  private lastLogIndex(): number {
+    return this.snapshotIndex() + this.log.length;
+  }
+
+  private entryAt(index: number): RaftLogEntry | undefined {
+    return this.log[index - this.snapshotIndex() - 1];
+  }
+
+  /** Term of the entry at index; undefined if missing or compacted away */
+  private termAt(index: number): number | undefined {
+    if (index === 0) return 0;
+    if (index === this.snapshotIndex()) return this.snapshot!.lastIncludedTerm;
+    return this.entryAt(index)?.term;
+  }
 
-    this.stats.heartbeatsSent++;
-    this.broadcastMessage({
-      type: 'heartbeat',
+  private appendEntry(content: Pick<RaftLogEntry, 'operation' | 'membership'>): RaftLogEntry {
+    const entry: RaftLogEntry = {
       term: this.currentTerm,
-      leaderId: this.config.nodeId,
-      roomId: this.config.roomId,
-    });
+      index: this.lastLogIndex() + 1,
+      ...content,
+      committed: false,
+      timestamp: this.env.now(),
+      checksum: this.computeEntryChecksum(content),
+    };
+    this.log.push(entry);
+    this.stats.entriesReplicated++;
+    this.persistState();
+
+    // New members need replication state as soon as the joint entry exists
+    if (content.membership && this.state === 'leader') {
+      for (const nodeId of this.members(content.membership)) {
+        if (nodeId !== this.nodeId && !this.nextIndex.has(nodeId)) {
+          this.nextIndex.set(nodeId, this.snapshotIndex() + 1);
+          this.matchIndex.set(nodeId, 0);
+        }
+      }
+    }
+    return entry;
   }
 
   /**
-   * Utility methods
+   * Membership helpers - a node always uses the latest configuration in its
+   * log, committed or not
    */
-  private isLogUpToDate(lastLogIndex: number, lastLogTerm: number): boolean {
-    const ourLastIndex = this.log.length - 1;
-    const ourLastTerm = this.log.length > 0 ? this.log[ourLastIndex].term : 0;
+  private currentMembership(): RaftMembership {
+    return this.membershipAt(this.lastLogIndex());
+  }
 
-    return lastLogTerm > ourLastTerm || 
-           (lastLogTerm === ourLastTerm && lastLogIndex >= ourLastIndex);
+  private membershipAt(index: number): RaftMembership {
+    for (let i = Math.min(index, this.lastLogIndex()); i > this.snapshotIndex(); i--) {
+      const membership = this.entryAt(i)?.membership;
+      if (membership) return membership;
+    }
+    return this.snapshot?.membership ?? { voters: this.options.joining ? [] : [this.nodeId] };
+  }
+
+  private latestMembershipIndex(): number {
+    for (let i = this.log.length - 1; i >= 0; i--) {
+      if (this.log[i].membership) return this.log[i].index;
+    }
+    return this.snapshotIndex();
+  }
+
+  private members(membership: RaftMembership): string[] {
+    return Array.from(new Set([...membership.voters, ...(membership.next ?? [])]));
   }
 
-  private isLogConsistent(prevLogIndex: number, prevLogTerm: number): boolean {
-    if (prevLogIndex < 0) return true;
-    if (prevLogIndex >= this.log.length) return false;
-    return this.log[prevLogIndex].term === prevLogTerm;
+  private hasQuorum(membership: RaftMembership, agrees: (nodeId: string) => boolean): boolean {
+    const majority = (voters: string[]) => voters.filter(agrees).length > voters.length / 2;
+    return majority(membership.voters) && (!membership.next || majority(membership.next));
   }
 
-  private hasVoteFrom(_nodeId: string): boolean {
-    // In a real implementation, you'd track votes received
-    // For now, assume we get votes from nodes that respond positively
-    return true; // Simplified
+  private hasCurrentLeader(): boolean {
+    return this.state === 'leader' ||
+      (this.leaderId !== null && this.env.now() - this.lastLeaderContact < this.options.electionTimeoutMin);
   }
 
-  private computeEntryChecksum(operation: OTOperationMeta): string {
-    const str = JSON.stringify(operation);
+  /**
+   * Utility methods
+   */
+  private isLogUpToDate(lastLogIndex: number, lastLogTerm: number): boolean {
+    const ourLastIndex = this.lastLogIndex();
+    const ourLastTerm = this.termAt(ourLastIndex) ?? 0;
+
+    return lastLogTerm > ourLastTerm ||
+           (lastLogTerm === ourLastTerm && lastLogIndex >= ourLastIndex);
+  }
+
+  private computeEntryChecksum(content: Pick<RaftLogEntry, 'operation' | 'membership'>): string {
+    const str = JSON.stringify(content);
     let hash = 0;
     for (let i = 0; i < str.length; i++) {
       const char = str.charCodeAt(i);
@@ -676,95 +871,102 @@ export class RaftConsensusProtocol {
   }
 
   private startElectionTimer(): void {
-    const peerCount = this.getPeerCount();
-    
-    // If there are already peers, wait longer before starting election
-    // This gives existing leader time to send heartbeats
-    const baseTimeout = peerCount > 0 ? 
-      this.ELECTION_TIMEOUT_MAX * 2 : // Wait longer if peers exist
-      this.ELECTION_TIMEOUT_MIN;
-      
-    const timeout = baseTimeout + 
-      Math.random() * (this.ELECTION_TIMEOUT_MAX - this.ELECTION_TIMEOUT_MIN);
-    
-    console.log(`⏰ Election timer set for ${timeout}ms (${peerCount} peers)`);
-    
-    this.electionTimer = setTimeout(() => {
+    if (this.stopped) return;
+    const { electionTimeoutMin, electionTimeoutMax } = this.options;
+    const timeout = electionTimeoutMin + this.env.random() * (electionTimeoutMax - electionTimeoutMin);
+
+    this.electionTimer = this.env.setTimer(() => {
+      this.electionTimer = null;
+      if (this.state === 'leader') return;
       this.stats.electionTimeouts++;
-      if (this.state !== 'leader') {
+      if (this.shouldCollapseToSolo()) {
+        this.collapseToSolo();
+      } else {
         this.startElection();
-      } else if (this.state === 'leader' && (this.config.nodes.size <= 1 || (!this.rtc || this.getPeerCount() === 0))) {
-        // Already leader in single-user mode, don't need elections
-        console.log('🎯 Already leader in single-user mode, skipping election');
       }
     }, timeout);
   }
 
   private stopElectionTimer(): void {
-    if (this.electionTimer) {
-      clearTimeout(this.electionTimer);
+    if (this.electionTimer !== null) {
+      this.env.clearTimer(this.electionTimer);
       this.electionTimer = null;
     }
   }
 
   private startHeartbeat(): void {
-    this.heartbeatTimer = setInterval(() => {
-      this.sendHeartbeats();
-    }, this.HEARTBEAT_INTERVAL);
+    this.stopHeartbeat();
+    const beat = () => {
+      if (this.state !== 'leader' || this.stopped) return;
+      if (this.shouldCollapseToSolo()) {
+        this.collapseToSolo();
+      }
+      this.stats.heartbeatsSent++;
+      this.replicateToFollowers();
+      this.heartbeatTimer = this.env.setTimer(beat, this.options.heartbeatInterval);
+    };
+    beat();
   }
 
   private stopHeartbeat(): void {
-    if (this.heartbeatTimer) {
-      clearInterval(this.heartbeatTimer);
+    if (this.heartbeatTimer !== null) {
+      this.env.clearTimer(this.heartbeatTimer);
       this.heartbeatTimer = null;
     }
   }
 
   /**
-   * Message sending
+   * Point-to-point delivery through the transport's peer targeting.
+   * Returns false when the target is not reachable right now.
    */
-  private sendMessage(message: RaftMessage, _targetNodeId: string): void {
-    if (!this.rtc) return;
-
-    this.stats.messagesSent++;
-    this.rtc.send('raft_message', message);
-  }
+  private sendMessage(message: RaftMessage, targetNodeId: string): boolean {
+    if (!this.rtc) return false;
 
-  private broadcastMessage(message: RaftMessage): void {
-    if (!this.rtc) return;
+    const peerId = peerIdForUser(this.rtc, targetNodeId);
+    if (!peerId) {
+      this.stats.messagesDropped++;
+      return false;
+    }
 
     this.stats.messagesSent++;
-    this.rtc.send('raft_message', message);
+    void this.rtc.send('raft_message', message, peerId);
+    return true;
   }
 
   /**
    * State persistence
    */
   private persistState(): void {
+    if (!this.env.storage) return;
     const state = {
       currentTerm: this.currentTerm,
       votedFor: this.votedFor,
       log: this.log,
-      roomId: this.config.roomId,
+      snapshot: this.snapshot,
+      roomId: this.roomId,
     };
 
-    const key = `raft_state_${this.config.roomId}_${this.config.nodeId}`;
-    localStorage.setItem(key, JSON.stringify(state));
+    try {
+      this.env.storage.setItem(`raft_state_${this.roomId}_${this.nodeId}`, JSON.stringify(state));
+    } catch (error) {
+      console.error('Failed to persist Raft state:', error);
+    }
   }
 
   private loadPersistedState(): void {
-    const key = `raft_state_${this.config.roomId}_${this.config.nodeId}`;
-    const stateStr = localStorage.getItem(key);
-    
-    if (stateStr) {
-      try {
-        const state = JSON.parse(stateStr);
-        this.currentTerm = state.currentTerm || 0;
-        this.votedFor = state.votedFor || null;
-        this.log = state.log || [];
-      } catch (error) {
-        console.error('Failed to load persisted Raft state:', error);
-      }
+    const stateStr = this.env.storage?.getItem(`raft_state_${this.roomId}_${this.nodeId}`);
+    if (!stateStr) return;
+
+    try {
+      const state = JSON.parse(stateStr);
+      this.currentTerm = state.currentTerm || 0;
+      this.votedFor = state.votedFor || null;
+      this.snapshot = state.snapshot || null;
+      this.log = state.log || [];
+      this.commitIndex = this.snapshotIndex();
+      this.lastApplied = this.snapshotIndex();
+    } catch (error) {
+      console.error('Failed to load persisted Raft state:', error);
     }
   }
 
@@ -787,18 +989,40 @@ export class RaftConsensusProtocol {
     return this.state;
   }
 
+  getMembership(): RaftMembership {
+    return this.currentMembership();
+  }
+
+  getCommitIndex(): number {
+    return this.commitIndex;
+  }
+
+  /**
+   * Entries after the snapshot, for inspection (see getCommitIndex for which are committed)
+   */
+  getLog(): readonly RaftLogEntry[] {
+    return this.log;
+  }
+
+  getSnapshot(): RaftSnapshot | null {
+    return this.snapshot;
+  }
+
   getStats() {
+    const membership = this.currentMembership();
     return {
       ...this.stats,
-      nodeId: this.config.nodeId,
-      roomId: this.config.roomId,
+      nodeId: this.nodeId,
+      roomId: this.roomId,
       state: this.state,
       currentTerm: this.currentTerm,
       leaderId: this.leaderId,
-      logLength: this.log.length,
+      logLength: this.lastLogIndex(),
       commitIndex: this.commitIndex,
-      clusterSize: this.config.nodes.size,
-      quorumSize: this.config.quorumSize,
+      snapshotIndex: this.snapshotIndex(),
+      clusterSize: this.members(membership).length,
+      quorumSize: Math.floor(membership.voters.length / 2) + 1,
+      jointConsensus: !!membership.next,
     };
   }
 
@@ -806,8 +1030,9 @@ export class RaftConsensusProtocol {
    * Cleanup
    */
   shutdown(): void {
+    this.stopped = true;
     this.stopElectionTimer();
     this.stopHeartbeat();
     this.persistState();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,514 @@
+// src/state/raftSimulator.ts - Deterministic in-memory cluster for checking Raft safety
+import { RaftConsensusProtocol, RaftEnvironment } from './raftConsensus';
+import { OTOperationMeta } from './operationalTransforms';
+import type { Transport, TransportStats, DiagramMessage, PeerInfo } from '../services/transport';
+
+export interface SimulationOptions {
+  seed: number;
+  nodes: number;
+  duration: number; // virtual ms of faults before the cluster is healed
+  settle: number; // virtual ms without faults at the end
+  maxDelay: number; // per-message delay is uniform in [1, maxDelay] - reorders freely
+  dropRate: number;
+  duplicateRate: number;
+  faultInterval: number; // mean virtual ms between injected faults
+  proposalInterval: number; // mean virtual ms between client proposals
+  snapshotThreshold: number;
+  verbose: boolean;
+}
+
+export const DEFAULT_SIMULATION: SimulationOptions = {
+  seed: 1,
+  nodes: 5,
+  duration: 20_000,
+  settle: 5_000,
+  maxDelay: 40,
+  dropRate: 0.05,
+  duplicateRate: 0.02,
+  faultInterval: 600,
+  proposalInterval: 40,
+  snapshotThreshold: 25,
+  verbose: false,
+};
+
+export interface SimulationReport {
+  seed: number;
+  violations: string[];
+  converged: boolean;
+  stats: {
+    messagesDelivered: number;
+    messagesDropped: number;
+    messagesDuplicated: number;
+    partitions: number;
+    crashes: number;
+    membershipChanges: number;
+    proposals: number;
+    committedIndex: number;
+    leaderTerms: number;
+    snapshotsTaken: number;
+    snapshotsInstalled: number;
+  };
+}
+
+/**
+ * Small seeded PRNG (mulberry32) - every run with the same seed is identical
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Virtual clock: timers and message deliveries run in (time, insertion) order
+ */
+class VirtualClock {
+  private time = 0;
+  private sequence = 0;
+  private queue: { at: number; seq: number; run: () => void; cancelled: boolean }[] = [];
+
+  now(): number {
+    return this.time;
+  }
+
+  schedule(run: () => void, delay: number) {
+    const event = { at: this.time + Math.max(0, delay), seq: this.sequence++, run, cancelled: false };
+    // Binary insert keeps the queue sorted
+    let low = 0;
+    let high = this.queue.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      const other = this.queue[mid];
+      if (other.at < event.at || (other.at === event.at && other.seq < event.seq)) low = mid + 1;
+      else high = mid;
+    }
+    this.queue.splice(low, 0, event);
+    return event;
+  }
+
+  cancel(handle: unknown): void {
+    if (handle) (handle as { cancelled: boolean }).cancelled = true;
+  }
+
+  /** Run events up to the given time; afterEach runs after every event */
+  runUntil(time: number, afterEach: () => void): void {
+    while (this.queue.length > 0 && this.queue[0].at <= time) {
+      const event = this.queue.shift()!;
+      if (event.cancelled) continue;
+      this.time = event.at;
+      event.run();
+      afterEach();
+    }
+    this.time = time;
+  }
+}
+
+type Handler = (payload: unknown, from: string) => void;
+
+/**
+ * In-memory network: delays, drops, duplicates and partitions
+ */
+class SimNetwork {
+  private transports = new Map<string, SimTransport>();
+  private group = new Map<string, number>(); // partition group per node
+  stats = { delivered: 0, dropped: 0, duplicated: 0 };
+
+  constructor(
+    private clock: VirtualClock,
+    private random: () => number,
+    private options: SimulationOptions,
+  ) {}
+
+  attach(transport: SimTransport): void {
+    this.transports.set(transport.userId, transport);
+  }
+
+  detach(userId: string): void {
+    this.transports.delete(userId);
+  }
+
+  partition(groups: string[][]): void {
+    this.group.clear();
+    groups.forEach((members, index) => members.forEach(id => this.group.set(id, index)));
+  }
+
+  heal(): void {
+    this.group.clear();
+  }
+
+  canReach(from: string, to: string): boolean {
+    return (this.group.get(from) ?? 0) === (this.group.get(to) ?? 0);
+  }
+
+  reachablePeers(userId: string): string[] {
+    return Array.from(this.transports.keys()).filter(id => id !== userId && this.canReach(userId, id));
+  }
+
+  send(from: string, to: string, type: DiagramMessage['type'], data: unknown): void {
+    if (!this.canReach(from, to) || this.random() < this.options.dropRate) {
+      this.stats.dropped++;
+      return;
+    }
+    // Serialize like a real wire so nodes never share objects
+    const payload = JSON.stringify(data);
+    const copies = this.random() < this.options.duplicateRate ? 2 : 1;
+    if (copies === 2) this.stats.duplicated++;
+
+    for (let i = 0; i < copies; i++) {
+      const delay = 1 + Math.floor(this.random() * this.options.maxDelay);
+      this.clock.schedule(() => {
+        // The partition may have changed while the message was in flight
+        const target = this.transports.get(to);
+        if (!target || !this.canReach(from, to)) {
+          this.stats.dropped++;
+          return;
+        }
+        this.stats.delivered++;
+        target.receive(type, JSON.parse(payload), from);
+      }, delay);
+    }
+  }
+}
+
+/**
+ * Transport for one simulated node. Peer ids are the userIds themselves.
+ */
+class SimTransport implements Transport {
+  readonly kind = 'local' as const;
+  private handlers = new Map<DiagramMessage['type'], Handler>();
+  private sent = 0;
+  private received = 0;
+
+  constructor(readonly userId: string, private network: SimNetwork) {}
+
+  on<T = unknown>(type: DiagramMessage['type'], handler: (payload: T, from: string) => void): void {
+    this.handlers.set(type, handler as Handler);
+  }
+
+  async send(type: DiagramMessage['type'], data: unknown, peerId?: string): Promise<void> {
+    const targets = peerId ? [peerId] : this.network.reachablePeers(this.userId);
+    for (const target of targets) {
+      this.sent++;
+      this.network.send(this.userId, target, type, data);
+    }
+  }
+
+  receive(type: DiagramMessage['type'], data: unknown, from: string): void {
+    this.received++;
+    this.handlers.get(type)?.(data, from);
+  }
+
+  getPeers(): PeerInfo[] {
+    return this.network.reachablePeers(this.userId).map(userId => ({
+      nodeId: userId,
+      userId,
+      connectionQuality: { latency: 0, packetLoss: 0, bandwidth: 0, reliability: 'excellent', lastUpdate: 0 },
+      capabilities: ['raft'],
+      joinedAt: 0,
+      lastSeen: 0,
+    }));
+  }
+
+  getStats(): TransportStats {
+    return { connectedPeers: this.getPeers().length, messagesSent: this.sent, messagesReceived: this.received, networkErrors: 0 };
+  }
+
+  disconnect(): void {
+    this.handlers.clear();
+  }
+}
+
+interface SimNode {
+  id: string;
+  raft: RaftConsensusProtocol | null; // null while crashed
+  storage: Map<string, string>; // survives crashes, like localStorage
+  lastCommitIndex: number;
+}
+
+/**
+ * Run one seeded scenario: a cluster bootstrapped by node 0, then random
+ * partitions, crashes, restarts, membership changes and proposals over a
+ * lossy, reordering network. Safety is checked after every event:
+ *  - election safety: at most one leader per term
+ *  - log matching: same index and term means identical entries
+ *  - state machine safety: nodes never commit different entries at an index
+ *  - commit indices never move backwards while a node is up
+ * After healing, the cluster must converge on one leader and commit index.
+ */
+export function runRaftSimulation(overrides: Partial<SimulationOptions> = {}): SimulationReport {
+  const options = { ...DEFAULT_SIMULATION, ...overrides };
+  const random = createRandom(options.seed);
+  const clock = new VirtualClock();
+  const network = new SimNetwork(clock, random, options);
+  const roomId = `sim-${options.seed}`;
+
+  const violations: string[] = [];
+  const leaders = new Map<number, string>(); // term -> leader
+  const committed = new Map<number, string>(); // index -> entry identity
+  const counters = { partitions: 0, crashes: 0, membershipChanges: 0, proposals: 0 };
+  let snapshotsTaken = 0;
+  let snapshotsInstalled = 0;
+
+  const log = options.verbose
+    ? (message: string) => console.log(`[${String(Math.round(clock.now())).padStart(6)}ms] ${message}`)
+    : () => {};
+
+  const seen = new Set<string>();
+  const violation = (message: string) => {
+    if (seen.has(message) || violations.length >= 20) return;
+    seen.add(message);
+    violations.push(`t=${Math.round(clock.now())}ms: ${message}`);
+  };
+
+  const nodes: SimNode[] = Array.from({ length: options.nodes }, (_, i) => ({
+    id: `n${i}`,
+    raft: null,
+    storage: new Map<string, string>(),
+    lastCommitIndex: 0,
+  }));
+
+  const start = (node: SimNode) => {
+    const environment: RaftEnvironment = {
+      now: () => clock.now(),
+      random,
+      setTimer: (callback, ms) => clock.schedule(callback, ms),
+      clearTimer: handle => clock.cancel(handle),
+      storage: {
+        getItem: key => node.storage.get(key) ?? null,
+        setItem: (key, value) => void node.storage.set(key, value),
+      },
+      log: message => log(`${node.id}: ${message}`),
+    };
+    const raft = new RaftConsensusProtocol(node.id, roomId, {
+      snapshotThreshold: options.snapshotThreshold,
+      soloWhenAlone: false,
+      joining: node.id !== 'n0',
+      environment,
+    });
+    raft.setSnapshotHandlers(() => ({ takenAt: clock.now() }), () => {});
+    const transport = new SimTransport(node.id, network);
+    network.attach(transport);
+    raft.initialize(transport);
+    node.raft = raft;
+    node.lastCommitIndex = raft.getCommitIndex();
+  };
+
+  const crash = (node: SimNode) => {
+    if (!node.raft) return;
+    const stats = node.raft.getStats();
+    snapshotsTaken += stats.snapshotsTaken;
+    snapshotsInstalled += stats.snapshotsInstalled;
+    node.raft.shutdown();
+    node.raft = null;
+    network.detach(node.id);
+    counters.crashes++;
+    log(`💥 crash ${node.id}`);
+  };
+
+  const up = () => nodes.filter(node => node.raft);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+  // Membership changes are announced to everyone, like presence events; only the leader acts
+  const announce = (action: 'add' | 'remove', nodeId: string) => {
+    counters.membershipChanges++;
+    log(`🔁 ${action} ${nodeId}`);
+    for (const node of up()) {
+      if (action === 'add') node.raft!.addNode(nodeId);
+      else node.raft!.removeNode(nodeId);
+    }
+  };
+
+  const propose = (node: SimNode, label: string) => {
+    counters.proposals++;
+    const operation: OTOperationMeta = {
+      id: `${label}-${counters.proposals}`,
+      operation: { type: 'move_element', elementId: 'e1', oldPos: { x: 0, y: 0 }, newPos: { x: counters.proposals, y: 0 } },
+      timestamp: clock.now(),
+      authorId: node.id,
+      sessionId: roomId,
+      roomId,
+      vectorClock: {},
+      dependencies: [],
+      transformedAgainst: [],
+      checksum: '',
+    };
+    void node.raft!.submitOperation(operation);
+  };
+
+  const identity = (entry: { term: number; operation?: OTOperationMeta; membership?: unknown }) =>
+    `${entry.term}:${entry.operation?.id ?? (entry.membership ? JSON.stringify(entry.membership) : 'noop')}`;
+
+  const checkSafety = () => {
+    const running = up();
+    for (const node of running) {
+      const raft = node.raft!;
+      const term = raft.getCurrentTerm();
+
+      if (raft.isLeader()) {
+        const leader = leaders.get(term);
+        if (leader && leader !== node.id) violation(`two leaders in term ${term}: ${leader} and ${node.id}`);
+        leaders.set(term, node.id);
+      }
+
+      const commitIndex = raft.getCommitIndex();
+      if (commitIndex < node.lastCommitIndex) {
+        violation(`${node.id} commit index went back from ${node.lastCommitIndex} to ${commitIndex}`);
+      }
+      node.lastCommitIndex = commitIndex;
+
+      for (const entry of raft.getLog()) {
+        if (entry.index > commitIndex) break;
+        const known = committed.get(entry.index);
+        const mine = identity(entry);
+        if (known === undefined) committed.set(entry.index, mine);
+        else if (known !== mine) violation(`${node.id} committed ${mine} at ${entry.index}, others committed ${known}`);
+      }
+
+      const snapshot = raft.getSnapshot();
+      const known = snapshot && committed.get(snapshot.lastIncludedIndex);
+      if (snapshot && known && !known.startsWith(`${snapshot.lastIncludedTerm}:`)) {
+        violation(`${node.id} snapshot at ${snapshot.lastIncludedIndex} has term ${snapshot.lastIncludedTerm}, committed entry is ${known}`);
+      }
+    }
+
+    // Log matching, pairwise over the entries both nodes still hold
+    for (let a = 0; a < running.length; a++) {
+      for (let b = a + 1; b < running.length; b++) {
+        const logA = running[a].raft!.getLog();
+        const logB = new Map(running[b].raft!.getLog().map(entry => [entry.index, entry]));
+        let matched = false;
+        for (let i = logA.length - 1; i >= 0; i--) {
+          const other = logB.get(logA[i].index);
+          if (!other) continue;
+          if (matched && identity(other) !== identity(logA[i])) {
+            violation(`logs of ${running[a].id} and ${running[b].id} match at a later index but differ at ${logA[i].index}`);
+            return;
+          }
+          if (other.term === logA[i].term) {
+            if (identity(other) !== identity(logA[i])) {
+              violation(`${running[a].id} and ${running[b].id} hold different entries with term ${other.term} at ${other.index}`);
+              return;
+            }
+            matched = true;
+          }
+        }
+      }
+    }
+  };
+
+  // Bootstrap: n0 starts a one-node cluster, the others join through membership changes
+  nodes.forEach(start);
+  clock.runUntil(400, checkSafety);
+  nodes.slice(1).forEach(node => announce('add', node.id));
+
+  // Fault phase
+  const removed = new Set<string>();
+  let nextFault = clock.now() + options.faultInterval;
+  let nextProposal = clock.now();
+  const end = clock.now() + options.duration;
+
+  while (clock.now() < end) {
+    const step = Math.min(nextFault, nextProposal, end);
+    clock.runUntil(step, checkSafety);
+
+    if (clock.now() >= nextProposal) {
+      const running = up();
+      if (running.length > 0) propose(pick(running), 'op');
+      nextProposal = clock.now() + 1 + Math.floor(random() * options.proposalInterval * 2);
+    }
+
+    if (clock.now() >= nextFault) {
+      const roll = random();
+      const ids = nodes.map(node => node.id);
+      if (roll < 0.3) {
+        // Random split into two sides
+        const side = ids.filter(() => random() < 0.5);
+        network.partition([side, ids.filter(id => !side.includes(id))]);
+        counters.partitions++;
+        log(`✂️ partition [${side.join(',')}] | [${ids.filter(id => !side.includes(id)).join(',')}]`);
+      } else if (roll < 0.5) {
+        network.heal();
+        log('🩹 heal');
+      } else if (roll < 0.65) {
+        // Keep a majority of nodes running
+        const running = up();
+        if (running.length > Math.ceil(options.nodes / 2)) crash(pick(running));
+      } else if (roll < 0.8) {
+        const crashed = nodes.filter(node => !node.raft);
+        if (crashed.length > 0) {
+          const node = pick(crashed);
+          start(node);
+          log(`🔌 restart ${node.id}`);
+        }
+      } else if (roll < 0.9) {
+        const candidates = ids.filter(id => !removed.has(id));
+        if (removed.size < Math.floor((options.nodes - 1) / 2) && candidates.length > 0) {
+          const id = pick(candidates);
+          removed.add(id);
+          announce('remove', id);
+        }
+      } else if (removed.size > 0) {
+        const id = pick(Array.from(removed));
+        removed.delete(id);
+        announce('add', id);
+      }
+      nextFault = clock.now() + 1 + Math.floor(random() * options.faultInterval * 2);
+    }
+  }
+
+  // Heal everything, bring every node back, and let the cluster settle
+  network.heal();
+  nodes.filter(node => !node.raft).forEach(node => start(node));
+  log('🩹 final heal');
+  const settleEnd = clock.now() + options.settle;
+  let nextAnnounce = clock.now();
+  while (clock.now() < settleEnd) {
+    clock.runUntil(Math.min(nextAnnounce, settleEnd), checkSafety);
+    if (clock.now() >= nextAnnounce) {
+      // Membership announcements are fire-and-forget; repeat them like presence heartbeats
+      nodes.forEach(node => announce('add', node.id));
+      const leader = up().find(node => node.raft!.isLeader());
+      if (leader) propose(leader, 'final');
+      nextAnnounce = clock.now() + 1_000;
+    }
+  }
+
+  const running = up();
+  const leader = running.find(node => node.raft!.isLeader());
+  const commitIndex = leader?.raft!.getCommitIndex() ?? 0;
+  const members = leader?.raft!.getMembership();
+  const converged = !!leader && !members?.next &&
+    members!.voters.length === options.nodes &&
+    running.every(node => node.raft!.getCommitIndex() === commitIndex && node.raft!.getLeaderId() === leader.id);
+
+  for (const node of running) {
+    const stats = node.raft!.getStats();
+    snapshotsTaken += stats.snapshotsTaken;
+    snapshotsInstalled += stats.snapshotsInstalled;
+    node.raft!.shutdown();
+  }
+
+  return {
+    seed: options.seed,
+    violations,
+    converged,
+    stats: {
+      messagesDelivered: network.stats.delivered,
+      messagesDropped: network.stats.dropped,
+      messagesDuplicated: network.stats.duplicated,
+      partitions: counters.partitions,
+      crashes: counters.crashes,
+      membershipChanges: counters.membershipChanges,
+      proposals: counters.proposals,
+      committedIndex: commitIndex,
+      leaderTerms: leaders.size,
+      snapshotsTaken,
+      snapshotsInstalled,
+    },
+  };
+}
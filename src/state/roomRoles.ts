@@ -0,0 +1,205 @@
+// src/state/roomRoles.ts - Owner-signed room roster: who may edit, comment or only view
+/**
+ * Roles belong to signing keys, not user ids (user ids change with every tab).
+ * The roster is signed by the room owner's identity key, so any peer can pass
+ * it on but only the owner can change it. Every peer checks incoming
+ * operations against its copy, so a tampered client cannot grant itself rights.
+ *
+ * Kicking someone makes every peer ignore them; keeping them from reading
+ * future changes also needs a new room passphrase.
+ */
+import { OTOperation } from './operationalTransforms';
+import { encryptedStorage } from './encryptedStorage';
+import { Signed, SigningIdentity, keyFingerprint, signRecord, verifyRecord } from '../utils/signing';
+
+export type RoomRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+export type AssignableRole = Exclude<RoomRole, 'owner'>;
+
+export const ROOM_ROLES: Record<RoomRole, { name: string; description: string }> = {
+  owner: { name: 'Owner', description: 'Edits the model and manages who may do what' },
+  editor: { name: 'Editor', description: 'Edits the model' },
+  commenter: { name: 'Commenter', description: 'Views the model and edits element notes' },
+  viewer: { name: 'Viewer', description: 'Views the model only' },
+};
+
+/**
+ * The owner's signed statement of everyone's role. Keys not listed get
+ * `defaultRole`; kicked keys get nothing.
+ */
+export interface RoomRoster extends Signed {
+  roomId: string;
+  ownerKey: string;
+  version: number;
+  defaultRole: AssignableRole;
+  roles: Record<string, AssignableRole>;
+  kicked: string[];
+}
+
+/** What the invite link says about the room owner */
+export interface RoomOwnerHint {
+  createdHere?: boolean;       // this browser generated the room id - we own it
+  fingerprint?: string | null; // `o=` from the invite link: fingerprint of the owner's key
+}
+
+export const canEdit = (role: RoomRole | null) => role === 'owner' || role === 'editor';
+export const canComment = (role: RoomRole | null) => canEdit(role) || role === 'commenter';
+
+/**
+ * Commenters may only change element notes.
+ */
+function isCommentOnly(op: OTOperation): boolean {
+  if (op.type === 'batch') return op.operations.every(isCommentOnly);
+  return op.type === 'update_element_property' && op.property === 'notes';
+}
+
+/**
+ * May someone with this role apply this operation?
+ */
+export function roleAllows(role: RoomRole | null, op: OTOperation): boolean {
+  if (canEdit(role)) return true;
+  return role === 'commenter' && isCommentOnly(op);
+}
+
+const storageKey = (roomId: string) => `room_roster_${roomId}`;
+
+export class RoomRoles {
+  private roster: RoomRoster | null = null;
+
+  private constructor(
+    private readonly roomId: string,
+    private readonly identity: SigningIdentity | null,
+    private readonly hint: RoomOwnerHint,
+  ) {}
+
+  /**
+   * Load the roster we know for a room, creating it if we just created the room.
+   */
+  static async open(roomId: string, identity: SigningIdentity | null, hint: RoomOwnerHint = {}): Promise<RoomRoles> {
+    const roles = new RoomRoles(roomId, identity, hint);
+    try {
+      const saved = encryptedStorage.getItem(storageKey(roomId));
+      if (saved) roles.roster = JSON.parse(saved);
+    } catch (error) {
+      console.warn('⚠️ Could not load room roster:', error);
+    }
+
+    if (!roles.roster && hint.createdHere && identity) {
+      roles.roster = await signRecord<RoomRoster>({
+        roomId,
+        ownerKey: identity.publicKey,
+        version: 1,
+        defaultRole: 'editor',
+        roles: {},
+        kicked: [],
+      }, identity);
+      roles.persist();
+      console.log(`👑 Created roster for room ${roomId} - this browser owns it`);
+    }
+    return roles;
+  }
+
+  getRoster(): RoomRoster | null {
+    return this.roster;
+  }
+
+  getOwnKey(): string | null {
+    return this.identity?.publicKey ?? null;
+  }
+
+  isOwner(): boolean {
+    return !!this.roster && this.roster.ownerKey === this.identity?.publicKey;
+  }
+
+  /**
+   * Role of a signing key; null when it was kicked. Rooms without a known
+   * roster behave as before roles existed: everyone edits.
+   */
+  roleOf(signerKey: string | null | undefined): RoomRole | null {
+    if (!this.roster) return 'editor';
+    if (!signerKey) return this.roster.defaultRole;
+    if (this.roster.kicked.includes(signerKey)) return null;
+    if (signerKey === this.roster.ownerKey) return 'owner';
+    return this.roster.roles[signerKey] ?? this.roster.defaultRole;
+  }
+
+  ownRole(): RoomRole | null {
+    return this.roleOf(this.identity?.publicKey);
+  }
+
+  /**
+   * Adopt a roster a peer sent if the owner signed it and it is newer than
+   * ours. The first roster is checked against the invite link's owner
+   * fingerprint, or trusted on first use for links without one.
+   */
+  async accept(roster: RoomRoster): Promise<boolean> {
+    if (!roster || roster.roomId !== this.roomId || roster.signerKey !== roster.ownerKey) return false;
+
+    if (this.roster) {
+      if (roster.ownerKey !== this.roster.ownerKey || roster.version <= this.roster.version) return false;
+    } else if (this.hint.fingerprint && await keyFingerprint(roster.ownerKey) !== this.hint.fingerprint) {
+      console.warn('🚫 Ignoring roster signed by someone other than the owner named in the invite link');
+      return false;
+    }
+
+    if (!(await verifyRecord(roster))) {
+      console.warn('🚫 Ignoring roster with an invalid signature');
+      return false;
+    }
+    // Another roster may have been accepted while we were verifying
+    if (this.roster && roster.version <= this.roster.version) return false;
+
+    this.roster = roster;
+    this.persist();
+    console.log(`👥 Accepted room roster v${roster.version}`);
+    return true;
+  }
+
+  /**
+   * Owner only: give a key a role
+   */
+  setRole(signerKey: string, role: AssignableRole): Promise<RoomRoster> {
+    return this.update(roster => ({
+      ...roster,
+      roles: { ...roster.roles, [signerKey]: role },
+      kicked: roster.kicked.filter(key => key !== signerKey),
+    }));
+  }
+
+  /**
+   * Owner only: role for keys the roster does not list
+   */
+  setDefaultRole(role: AssignableRole): Promise<RoomRoster> {
+    return this.update(roster => ({ ...roster, defaultRole: role }));
+  }
+
+  /**
+   * Owner only: remove a key from the room
+   */
+  kick(signerKey: string): Promise<RoomRoster> {
+    return this.update(roster => {
+      const { [signerKey]: _removed, ...roles } = roster.roles;
+      return { ...roster, roles, kicked: [...new Set([...roster.kicked, signerKey])] };
+    });
+  }
+
+  private async update(change: (roster: RoomRoster) => RoomRoster): Promise<RoomRoster> {
+    if (!this.roster || !this.identity || !this.isOwner()) {
+      throw new Error('Only the room owner can change roles');
+    }
+    const next = change(this.roster);
+    if (next.roles[this.roster.ownerKey] || next.kicked.includes(this.roster.ownerKey)) {
+      throw new Error('The owner cannot change their own role');
+    }
+    this.roster = await signRecord<RoomRoster>({ ...next, version: this.roster.version + 1 }, this.identity);
+    this.persist();
+    return this.roster;
+  }
+
+  private persist(): void {
+    try {
+      encryptedStorage.setItem(storageKey(this.roomId), JSON.stringify(this.roster));
+    } catch (error) {
+      console.warn('⚠️ Could not save room roster:', error);
+    }
+  }
+}
@@ -1,5 +1,6 @@
 // src/state/sessionManager.ts - Enterprise-grade session and room management
 import { DiagramEvent } from './DiagramContext';
+import { encryptedStorage } from './encryptedStorage';
 // Storage service import removed (unused)
 
 /**
@@ -19,22 +20,9 @@ export interface RoomMetadata {
   eventCount: number;
   checksum: string; // Integrity verification
   maxParticipants?: number;
-  permissions: RoomPermissions;
   tags: string[];
 }
 
-/**
- * Room permissions for access control
- */
-export interface RoomPermissions {
-  canEdit: string[]; // User IDs who can edit
-  canView: string[]; // User IDs who can view
-  canInvite: string[]; // User IDs who can invite others
-  canAdmin: string[]; // User IDs who can modify room settings
-  isPublic: boolean; // Whether room is publicly accessible
-  requiresApproval: boolean; // Whether joining requires approval
-}
-
 /**
  * Session information for each participant
  */
@@ -46,20 +34,10 @@ export interface Session {
   lastActive: number;
   userAgent: string;
   ipAddress?: string; // For audit purposes
-  permissions: SessionPermissions;
   state: SessionState;
   reconnectionToken: string; // For seamless reconnection
 }
 
-export interface SessionPermissions {
-  canEdit: boolean;
-  canView: boolean;
-  canInvite: boolean;
-  canAdmin: boolean;
-  canExport: boolean;
-  canImport: boolean;
-}
-
 export type SessionState = 'active' | 'idle' | 'disconnected' | 'expired' | 'banned';
 
 /**
@@ -79,7 +57,8 @@ interface RoomSnapshot {
 
 /**
  * Enterprise-grade Session Manager
- * Handles room isolation, session management, and state persistence
+ * Handles room isolation, session management, and state persistence.
+ * Who may edit a room is not decided here - see the signed roster in roomRoles.
  */
 export class SessionManager {
   private static readonly STORAGE_PREFIX = 'diagram_room_';
@@ -107,21 +86,10 @@ export class SessionManager {
     userId: string,
     roomName: string,
     description?: string,
-    permissions?: Partial<RoomPermissions>,
     specificRoomId?: string
   ): RoomMetadata {
     const roomId = specificRoomId || `room_${Date.now()}_${Math.random().toString(36).substr(2, 12)}`;
     console.log(`🔨 Creating room with ID: ${roomId} (specified: ${specificRoomId})`);
-    
-    const defaultPermissions: RoomPermissions = {
-      canEdit: [userId],
-      canView: [userId],
-      canInvite: [userId],
-      canAdmin: [userId],
-      isPublic: false,
-      requiresApproval: false,
-      ...permissions,
-    };
 
     const metadata: RoomMetadata = {
       id: roomId,
@@ -135,7 +103,6 @@ export class SessionManager {
       version: '1.0.0',
       eventCount: 0,
       checksum: '',
-      permissions: defaultPermissions,
       tags: [],
     };
 
@@ -148,8 +115,8 @@ export class SessionManager {
     this.roomMetadata.set(roomId, metadata);
     this.saveRoomMetadata();
 
-    // Initialize empty state for the room
-    this.saveRoomEvents(roomId, []);
+    // Initialize empty state for the room - keeping its history if this device has one
+    if (this.getRoomEventCount(roomId) === 0) this.saveRoomEvents(roomId, []);
     this.createSnapshot(roomId, [], { elements: {}, threatActors: {} });
 
     console.log(`Created room ${roomId} by user ${userId}`);
@@ -186,7 +153,6 @@ export class SessionManager {
       startedAt: Date.now(),
       lastActive: Date.now(),
       userAgent,
-      permissions: this.getSessionPermissions(userId, roomId),
       state: 'active',
       reconnectionToken,
     };
@@ -271,8 +237,8 @@ export class SessionManager {
 
     const storageKey = SessionManager.STORAGE_PREFIX + roomId;
     try {
-      const eventsStr = localStorage.getItem(storageKey);
-      return eventsStr ? JSON.parse(eventsStr) : [];
+      this.migrateEventArray(storageKey);
+      return encryptedStorage.readLog(storageKey).map(entry => JSON.parse(entry));
     } catch (error) {
       console.error(`Failed to load events for room ${roomId}:`, error);
       return [];
@@ -280,14 +246,33 @@ export class SessionManager {
   }
 
   /**
-   * Save events to specific room with proper isolation
+   * Earlier versions saved a room's events as one JSON array; move it into the room's log
+   */
+  private migrateEventArray(storageKey: string): void {
+    const legacy = encryptedStorage.getItem(storageKey);
+    if (legacy === null) return;
+    const events: DiagramEvent[] = JSON.parse(legacy);
+    encryptedStorage.replaceLog(storageKey, events.map(event => JSON.stringify(event)));
+    encryptedStorage.removeItem(storageKey);
+  }
+
+  /**
+   * Save events to specific room with proper isolation. Events already saved
+   * are not written again when `events` extends them.
    */
   saveRoomEvents(roomId: string, events: DiagramEvent[]): boolean {
     // Skip permission check - AES-GCM encryption provides security
 
     const storageKey = SessionManager.STORAGE_PREFIX + roomId;
     try {
-      localStorage.setItem(storageKey, JSON.stringify(events));
+      this.migrateEventArray(storageKey);
+      const entries = events.map(event => JSON.stringify(event));
+      const saved = encryptedStorage.readLog(storageKey);
+      if (saved.length > 0 && saved.length <= entries.length && saved.every((entry, i) => entry === entries[i])) {
+        encryptedStorage.appendToLog(storageKey, entries.slice(saved.length));
+      } else {
+        encryptedStorage.replaceLog(storageKey, entries);
+      }
       
       // Update metadata
       const metadata = this.roomMetadata.get(roomId);
@@ -312,7 +297,35 @@ export class SessionManager {
   }
 
   /**
-   * Load state from a different room (replay mechanism)
+   * Add events to the end of a room's log without rewriting what is there,
+   * numbering them by their place in the log. Returns the log's new length.
+   */
+  appendRoomEvents(roomId: string, events: Omit<DiagramEvent, 'seq'>[]): number {
+    const storageKey = SessionManager.STORAGE_PREFIX + roomId;
+    this.migrateEventArray(storageKey);
+    const from = encryptedStorage.logLength(storageKey);
+    encryptedStorage.appendToLog(storageKey, events.map((event, i) => JSON.stringify({ ...event, seq: from + i })));
+    const length = from + events.length;
+
+    // The checksum covers whole logs and is refreshed by saveRoomEvents
+    const metadata = this.roomMetadata.get(roomId);
+    if (metadata) {
+      metadata.eventCount = length;
+      metadata.lastModified = Date.now();
+      this.saveRoomMetadata();
+    }
+    return length;
+  }
+
+  getRoomEventCount(roomId: string): number {
+    const storageKey = SessionManager.STORAGE_PREFIX + roomId;
+    this.migrateEventArray(storageKey);
+    return encryptedStorage.logLength(storageKey);
+  }
+
+  /**
+   * Load state from a different room (replay mechanism).
+   * Callers check the target room's roster first.
    */
   loadStateFromRoom(
     sourceRoomId: string, 
@@ -320,14 +333,6 @@ export class SessionManager {
     userId: string,
     mergeStrategy: 'replace' | 'merge' = 'replace'
   ): boolean {
-    // Check permissions
-    if (!this.hasPermission(userId, sourceRoomId, 'canView')) {
-      throw new Error(`No permission to view source room ${sourceRoomId}`);
-    }
-    if (!this.hasPermission(userId, targetRoomId, 'canEdit')) {
-      throw new Error(`No permission to edit target room ${targetRoomId}`);
-    }
-
     try {
       const sourceEvents = this.getRoomEvents(sourceRoomId);
       const targetEvents = mergeStrategy === 'replace' ? [] : this.getRoomEvents(targetRoomId);
@@ -368,7 +373,7 @@ export class SessionManager {
 
     const snapshotKey = `${SessionManager.STORAGE_PREFIX}${roomId}_snapshot`;
     try {
-      localStorage.setItem(snapshotKey, JSON.stringify(snapshot));
+      encryptedStorage.setItem(snapshotKey, JSON.stringify(snapshot));
     } catch (error) {
       console.error(`Failed to create snapshot for room ${roomId}:`, error);
     }
@@ -448,50 +453,13 @@ export class SessionManager {
     });
   }
 
-  /**
-   * Check user permissions for room operations
-   */
-  private hasPermission(
-    userId: string, 
-    roomId: string, 
-    permission: keyof SessionPermissions
-  ): boolean {
-    if (userId === 'current' && this.currentSessionId) {
-      const session = this.activeSessions.get(this.currentSessionId);
-      return session ? session.permissions[permission] : false;
-    }
-
-    const metadata = this.roomMetadata.get(roomId);
-    if (!metadata) return false;
-
-
-    // Always allow access - AES-GCM encryption provides security
-    return true;
-  }
-
-  /**
-   * Get session permissions for user in room
-   */
-  private getSessionPermissions(userId: string, roomId: string): SessionPermissions {
-    return {
-      canEdit: this.hasPermission(userId, roomId, 'canEdit'),
-      canView: this.hasPermission(userId, roomId, 'canView'),
-      canInvite: this.hasPermission(userId, roomId, 'canInvite'),
-      canAdmin: this.hasPermission(userId, roomId, 'canAdmin'),
-      canExport: this.hasPermission(userId, roomId, 'canView'),
-      canImport: this.hasPermission(userId, roomId, 'canEdit'),
-    };
-  }
-
   /**
    * Get all rooms for a user
    */
   getUserRooms(userId: string): RoomMetadata[] {
     return Array.from(this.roomMetadata.values()).filter(room =>
       room.createdBy === userId ||
-      room.permissions.canView.includes(userId) ||
-      room.permissions.canEdit.includes(userId) ||
-      room.permissions.isPublic
+      room.participants.includes(userId)
     );
   }
 
@@ -548,14 +516,14 @@ export class SessionManager {
   private loadStoredData(): void {
     try {
       // Load room metadata
-      const metadataStr = localStorage.getItem(SessionManager.ROOM_METADATA_KEY);
+      const metadataStr = encryptedStorage.getItem(SessionManager.ROOM_METADATA_KEY);
       if (metadataStr) {
         const metadata = JSON.parse(metadataStr);
         this.roomMetadata = new Map(Object.entries(metadata));
       }
 
       // Load active sessions
-      const sessionsStr = localStorage.getItem(SessionManager.SESSION_STORAGE_KEY);
+      const sessionsStr = encryptedStorage.getItem(SessionManager.SESSION_STORAGE_KEY);
       if (sessionsStr) {
         const sessions = JSON.parse(sessionsStr);
         this.activeSessions = new Map(Object.entries(sessions));
@@ -571,7 +539,7 @@ export class SessionManager {
   private saveRoomMetadata(): void {
     try {
       const metadata = Object.fromEntries(this.roomMetadata);
-      localStorage.setItem(SessionManager.ROOM_METADATA_KEY, JSON.stringify(metadata));
+      encryptedStorage.setItem(SessionManager.ROOM_METADATA_KEY, JSON.stringify(metadata));
     } catch (error) {
       console.error('Failed to save room metadata:', error);
     }
@@ -583,7 +551,7 @@ export class SessionManager {
   private saveActiveSessions(): void {
     try {
       const sessions = Object.fromEntries(this.activeSessions);
-      localStorage.setItem(SessionManager.SESSION_STORAGE_KEY, JSON.stringify(sessions));
+      encryptedStorage.setItem(SessionManager.SESSION_STORAGE_KEY, JSON.stringify(sessions));
     } catch (error) {
       console.error('Failed to save active sessions:', error);
     }
@@ -1,5 +1,6 @@
-// src/state/storage.ts - Robust LocalStorage service
+// src/state/storage.ts - Robust storage service for the event log and room state
 import { DiagramEvent } from './DiagramContext';
+import { encryptedStorage } from './encryptedStorage';
 
 const STORAGE_KEYS = {
   EVENTS: 'diagram_events',
@@ -26,20 +27,24 @@ export interface UserPreferences {
  */
 export class StorageService {
   private static readonly VERSION = '1.0.0';
-  private static readonly MAX_EVENTS = 10000; // Prevent memory issues
 
   /**
-   * Save events to LocalStorage with metadata and checksum validation
+   * Save events with metadata and checksum validation. The log is append-only:
+   * when the saved events are a prefix of `events`, only the new ones are written.
    */
   static saveEvents(events: DiagramEvent[]): boolean {
     try {
-      if (events.length > this.MAX_EVENTS) {
-        console.warn(`Event limit exceeded (${events.length}/${this.MAX_EVENTS}). Truncating oldest events.`);
-        events = events.slice(-this.MAX_EVENTS);
+      this.migrateEventArray();
+      const entries = events.map(event => JSON.stringify(event));
+      const saved = encryptedStorage.readLog(STORAGE_KEYS.EVENTS);
+      const extendsSaved = saved.length <= entries.length && saved.every((entry, i) => entry === entries[i]);
+      if (extendsSaved) {
+        encryptedStorage.appendToLog(STORAGE_KEYS.EVENTS, entries.slice(saved.length));
+      } else {
+        encryptedStorage.replaceLog(STORAGE_KEYS.EVENTS, entries);
       }
 
-      const serialized = JSON.stringify(events);
-      const checksum = this.generateChecksum(serialized);
+      const checksum = this.generateChecksum(`[${entries.join(',')}]`);
       
       const metadata: StorageMetadata = {
         version: this.VERSION,
@@ -48,8 +53,7 @@ export class StorageService {
         checksum,
       };
 
-      localStorage.setItem(STORAGE_KEYS.EVENTS, serialized);
-      localStorage.setItem(STORAGE_KEYS.METADATA, JSON.stringify(metadata));
+      encryptedStorage.setItem(STORAGE_KEYS.METADATA, JSON.stringify(metadata));
       
       return true;
     } catch (error) {
@@ -59,16 +63,18 @@ export class StorageService {
   }
 
   /**
-   * Load events from LocalStorage with validation
+   * Load events with validation
    */
   static loadEvents(): DiagramEvent[] {
     try {
-      const metadataStr = localStorage.getItem(STORAGE_KEYS.METADATA);
-      const eventsStr = localStorage.getItem(STORAGE_KEYS.EVENTS);
+      this.migrateEventArray();
+      const metadataStr = encryptedStorage.getItem(STORAGE_KEYS.METADATA);
+      const entries = encryptedStorage.readLog(STORAGE_KEYS.EVENTS);
 
-      if (!metadataStr || !eventsStr) {
+      if (!metadataStr || entries.length === 0) {
         return [];
       }
+      const eventsStr = `[${entries.join(',')}]`;
 
       const metadata: StorageMetadata = JSON.parse(metadataStr);
       
@@ -104,12 +110,23 @@ export class StorageService {
     }
   }
 
+  /**
+   * Earlier versions saved the events as one JSON array; turn it into a log.
+   */
+  private static migrateEventArray(): void {
+    const legacy = encryptedStorage.getItem(STORAGE_KEYS.EVENTS);
+    if (legacy === null) return;
+    const events: DiagramEvent[] = JSON.parse(legacy);
+    encryptedStorage.replaceLog(STORAGE_KEYS.EVENTS, events.map(event => JSON.stringify(event)));
+    encryptedStorage.removeItem(STORAGE_KEYS.EVENTS);
+  }
+
   /**
    * Save user preferences
    */
   static saveUserPreferences(preferences: UserPreferences): boolean {
     try {
-      localStorage.setItem(STORAGE_KEYS.USER_PREFERENCES, JSON.stringify(preferences));
+      encryptedStorage.setItem(STORAGE_KEYS.USER_PREFERENCES, JSON.stringify(preferences));
       return true;
     } catch (error) {
       console.error('Failed to save user preferences:', error);
@@ -122,7 +139,7 @@ export class StorageService {
    */
   static loadUserPreferences(): UserPreferences {
     try {
-      const str = localStorage.getItem(STORAGE_KEYS.USER_PREFERENCES);
+      const str = encryptedStorage.getItem(STORAGE_KEYS.USER_PREFERENCES);
       if (!str) {
         return this.getDefaultPreferences();
       }
@@ -140,7 +157,7 @@ export class StorageService {
    */
   static getMetadata(): StorageMetadata | null {
     try {
-      const str = localStorage.getItem(STORAGE_KEYS.METADATA);
+      const str = encryptedStorage.getItem(STORAGE_KEYS.METADATA);
       return str ? JSON.parse(str) : null;
     } catch (error) {
       console.error('Failed to get storage metadata:', error);
@@ -154,8 +171,9 @@ export class StorageService {
   static clearStorage(): void {
     try {
       Object.values(STORAGE_KEYS).forEach(key => {
-        localStorage.removeItem(key);
+        encryptedStorage.removeItem(key);
       });
+      encryptedStorage.removeLog(STORAGE_KEYS.EVENTS);
     } catch (error) {
       console.error('Failed to clear storage:', error);
     }
@@ -167,9 +185,9 @@ export class StorageService {
   static getStorageStats() {
     try {
       const metadata = this.getMetadata();
-      const eventsSize = localStorage.getItem(STORAGE_KEYS.EVENTS)?.length || 0;
-      const metadataSize = localStorage.getItem(STORAGE_KEYS.METADATA)?.length || 0;
-      const preferencesSize = localStorage.getItem(STORAGE_KEYS.USER_PREFERENCES)?.length || 0;
+      const eventsSize = encryptedStorage.readLog(STORAGE_KEYS.EVENTS).reduce((size, entry) => size + entry.length, 0);
+      const metadataSize = encryptedStorage.getItem(STORAGE_KEYS.METADATA)?.length || 0;
+      const preferencesSize = encryptedStorage.getItem(STORAGE_KEYS.USER_PREFERENCES)?.length || 0;
       
       return {
         totalSize: eventsSize + metadataSize + preferencesSize,
@@ -241,7 +259,7 @@ export class StorageService {
       };
       
       const serialized = JSON.stringify(enhancedState);
-      localStorage.setItem(key, serialized);
+      encryptedStorage.setItem(key, serialized);
       console.log(`💾 Saved state for room ${roomId}:`, Object.keys(state), `(${state.elements?.length || 0} elements)`);
       return true;
     } catch (error) {
@@ -256,7 +274,7 @@ export class StorageService {
   loadState(roomId: string): any {
     try {
       const key = `modelka_room_${roomId}_state`;
-      const serialized = localStorage.getItem(key);
+      const serialized = encryptedStorage.getItem(key);
       if (!serialized) {
         return null;
       }
@@ -0,0 +1,245 @@
+// src/state/storageEngine.ts - Where persisted records live: IndexedDB, or localStorage as a fallback
+/**
+ * Engines store two kinds of records:
+ *
+ * - values: one string per key, replaced whole (room state, rosters, Raft state)
+ * - logs: append-only lists of strings (event logs), so saving one more event
+ *   writes one record instead of rewriting the whole history
+ *
+ * Everything is loaded into memory once at startup (see encryptedStorage.ts),
+ * so engines only need to be fast at writing.
+ */
+
+export type StorageEngineKind = 'indexedDB' | 'localStorage';
+
+export interface StorageUsage {
+  usage: number;  // bytes
+  quota: number;  // bytes
+}
+
+export interface StoredRecords {
+  values: Map<string, string>;
+  logs: Map<string, string[]>;
+}
+
+export interface StorageEngine {
+  readonly kind: StorageEngineKind;
+  load(): Promise<StoredRecords>;
+  put(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+  /** Add entries to the end of a log that currently holds `from` entries */
+  append(log: string, entries: string[], from: number): Promise<void>;
+  replaceLog(log: string, entries: string[]): Promise<void>;
+  removeLog(log: string): Promise<void>;
+  clear(): Promise<void>;
+  usage(): Promise<StorageUsage | null>;
+}
+
+/** Which localStorage keys belong to the engine (the rest are UI preferences) */
+export type ManagedKeys = (key: string) => boolean;
+
+const LOG_PREFIX = 'modelka_log:';
+const MIGRATED_KEY = 'modelka_storage_migrated';
+// Browsers allow about 5 MB per origin; strings count two bytes per character
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+/**
+ * The original storage: simple, synchronous, and limited to a few megabytes.
+ * Logs are JSON arrays, so an append rewrites the whole log.
+ */
+export class LocalStorageEngine implements StorageEngine {
+  readonly kind = 'localStorage';
+
+  constructor(private readonly isManaged: ManagedKeys) {}
+
+  async load(): Promise<StoredRecords> {
+    const records: StoredRecords = { values: new Map(), logs: new Map() };
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      const value = key ? localStorage.getItem(key) : null;
+      if (key === null || value === null) continue;
+      if (key.startsWith(LOG_PREFIX)) {
+        try {
+          records.logs.set(key.slice(LOG_PREFIX.length), JSON.parse(value));
+        } catch (error) {
+          console.error(`❌ Unreadable log ${key}:`, error);
+        }
+      } else if (this.isManaged(key)) {
+        records.values.set(key, value);
+      }
+    }
+    return records;
+  }
+
+  async put(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+
+  async append(log: string, entries: string[], from: number): Promise<void> {
+    const saved = localStorage.getItem(LOG_PREFIX + log);
+    const current: string[] = saved ? JSON.parse(saved) : [];
+    await this.replaceLog(log, [...current.slice(0, from), ...entries]);
+  }
+
+  async replaceLog(log: string, entries: string[]): Promise<void> {
+    localStorage.setItem(LOG_PREFIX + log, JSON.stringify(entries));
+  }
+
+  async removeLog(log: string): Promise<void> {
+    localStorage.removeItem(LOG_PREFIX + log);
+  }
+
+  async clear(): Promise<void> {
+    localStorage.clear();
+  }
+
+  async usage(): Promise<StorageUsage | null> {
+    let characters = 0;
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i) ?? '';
+      characters += key.length + (localStorage.getItem(key)?.length ?? 0);
+    }
+    return { usage: characters * 2, quota: LOCAL_STORAGE_QUOTA };
+  }
+}
+
+const DB_NAME = 'modelka-storage';
+const VALUES = 'values';
+const LOGS = 'logs';
+
+interface LogRecord {
+  log: string;
+  index: number;
+  entry: string;
+}
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const logRange = (log: string) => IDBKeyRange.bound([log, 0], [log, Infinity]);
+
+/**
+ * IndexedDB: no practical size limit beyond the browser's disk quota, and
+ * each log entry is its own record.
+ */
+export class IndexedDbEngine implements StorageEngine {
+  readonly kind = 'indexedDB';
+
+  private constructor(private readonly db: IDBDatabase) {}
+
+  static async open(): Promise<IndexedDbEngine> {
+    const open = indexedDB.open(DB_NAME, 1);
+    open.onupgradeneeded = () => {
+      open.result.createObjectStore(VALUES);
+      open.result.createObjectStore(LOGS, { keyPath: ['log', 'index'] });
+    };
+    return new IndexedDbEngine(await request(open));
+  }
+
+  async load(): Promise<StoredRecords> {
+    const tx = this.db.transaction([VALUES, LOGS], 'readonly');
+    const [keys, values, entries] = await Promise.all([
+      request(tx.objectStore(VALUES).getAllKeys()),
+      request(tx.objectStore(VALUES).getAll()),
+      request(tx.objectStore(LOGS).getAll()) as Promise<LogRecord[]>,
+    ]);
+    const records: StoredRecords = { values: new Map(), logs: new Map() };
+    keys.forEach((key, i) => records.values.set(String(key), values[i]));
+    // getAll returns records in key order, so each log comes out in index order
+    entries.forEach(({ log, entry }) => {
+      const list = records.logs.get(log) ?? [];
+      list.push(entry);
+      records.logs.set(log, list);
+    });
+    return records;
+  }
+
+  async put(key: string, value: string): Promise<void> {
+    await this.write(VALUES, store => store.put(value, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.write(VALUES, store => store.delete(key));
+  }
+
+  async append(log: string, entries: string[], from: number): Promise<void> {
+    await this.write(LOGS, store => {
+      entries.forEach((entry, i) => store.put({ log, index: from + i, entry } satisfies LogRecord));
+    });
+  }
+
+  async replaceLog(log: string, entries: string[]): Promise<void> {
+    await this.write(LOGS, store => {
+      store.delete(logRange(log));
+      entries.forEach((entry, index) => store.put({ log, index, entry } satisfies LogRecord));
+    });
+  }
+
+  async removeLog(log: string): Promise<void> {
+    await this.write(LOGS, store => store.delete(logRange(log)));
+  }
+
+  async clear(): Promise<void> {
+    this.db.close();
+    await request(indexedDB.deleteDatabase(DB_NAME));
+  }
+
+  async usage(): Promise<StorageUsage | null> {
+    if (!navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota ? { usage, quota } : null;
+  }
+
+  private write(storeName: string, change: (store: IDBObjectStore) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const tx = this.db.transaction(storeName, 'readwrite');
+      change(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+}
+
+/**
+ * Copy what earlier versions kept in localStorage into IndexedDB, once.
+ * Old event arrays stay values here; their owners turn them into logs when
+ * they first read them.
+ */
+async function migrateFromLocalStorage(engine: IndexedDbEngine, isManaged: ManagedKeys): Promise<void> {
+  const legacy = await new LocalStorageEngine(isManaged).load();
+  if (legacy.values.size === 0 && legacy.logs.size === 0) return;
+
+  for (const [key, value] of legacy.values) await engine.put(key, value);
+  for (const [log, entries] of legacy.logs) await engine.replaceLog(log, entries);
+
+  legacy.values.forEach((_value, key) => localStorage.removeItem(key));
+  legacy.logs.forEach((_entries, log) => localStorage.removeItem(LOG_PREFIX + log));
+  console.log(`📦 Moved ${legacy.values.size} records and ${legacy.logs.size} logs from localStorage to IndexedDB`);
+}
+
+/**
+ * IndexedDB where the browser offers it (private windows in some browsers do
+ * not), localStorage otherwise.
+ */
+export async function openStorageEngine(isManaged: ManagedKeys): Promise<StorageEngine> {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      const engine = await IndexedDbEngine.open();
+      if (!localStorage.getItem(MIGRATED_KEY)) {
+        await migrateFromLocalStorage(engine, isManaged);
+        localStorage.setItem(MIGRATED_KEY, String(Date.now()));
+      }
+      return engine;
+    } catch (error) {
+      console.warn('⚠️ IndexedDB unavailable, falling back to localStorage:', error);
+    }
+  }
+  return new LocalStorageEngine(isManaged);
+}
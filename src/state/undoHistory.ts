@@ -0,0 +1,300 @@
+// src/state/undoHistory.ts - Per-user undo/redo stack built from inverse diagram events
+import { DiagramElement, ThreatActor } from '../types/diagram';
+import { DiagramEvent } from './DiagramContext';
+import { DiagramEventActions } from './diagramActions';
+
+type RawEvent = Omit<DiagramEvent, 'seq' | 'actor'>;
+
+/**
+ * Materialized diagram view the history computes inverses against
+ */
+export interface HistoryView {
+  elements: Record<string, DiagramElement>;
+  threatActors: Record<string, ThreatActor>;
+}
+
+/**
+ * A forward event paired with the event that reverts it
+ */
+interface HistoryStep {
+  forward: RawEvent;
+  inverse: RawEvent;
+  /** Data flows removed together with a deleted element */
+  restoredFlows?: DiagramElement[];
+}
+
+interface RebaseStep {
+  event: RawEvent;
+  expected: RawEvent;
+  restoredFlows?: DiagramElement[];
+}
+
+interface HistoryEntry {
+  steps: HistoryStep[];
+  timestamp: number;
+}
+
+const clone = <T>(value: T): T =>
+  value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+const isEqual = (a: any, b: any): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const collectionOf = (event: RawEvent): 'elements' | 'threatActors' =>
+  event.type.startsWith('threatActor.') ? 'threatActors' : 'elements';
+
+/**
+ * Apply a single event to a view copy (mirrors the reducer's replay semantics,
+ * including removal of data flows attached to a deleted element)
+ */
+function applyToView(view: HistoryView, event: RawEvent): HistoryView {
+  const key = collectionOf(event);
+  const records: Record<string, any> = { ...view[key] };
+
+  if (event.type.endsWith('.insert') && event.data) {
+    records[event.data.id] = event.data;
+  } else if (event.type.endsWith('.update') && event.id && records[event.id] && event.patch) {
+    records[event.id] = { ...records[event.id], ...event.patch };
+  } else if (event.type.endsWith('.delete') && event.id) {
+    delete records[event.id];
+    if (key === 'elements') {
+      for (const element of Object.values(records) as DiagramElement[]) {
+        if (element.type === 'data-flow' && (element.sourceId === event.id || element.targetId === event.id)) {
+          delete records[element.id];
+        }
+      }
+    }
+  }
+
+  return { ...view, [key]: records };
+}
+
+/**
+ * Undo/redo history for the local user's own edits.
+ *
+ * Every recorded change is stored as forward events plus inverse events computed
+ * against the view at the time of the change. Undo and redo never rewrite the
+ * log - they produce new events to be appended like any other local edit, so
+ * peers simply see another operation. Properties another user has changed since
+ * are left alone.
+ */
+export class UndoHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+
+  constructor(
+    private limit: number = 100,
+    private coalesceWindowMs: number = 1000
+  ) {}
+
+  /**
+   * Record local events that are about to be applied on top of `before`
+   */
+  record(events: RawEvent[], before: HistoryView): void {
+    const steps: HistoryStep[] = [];
+    let view = before;
+
+    for (const event of events) {
+      const step = this.createStep(event, view);
+      if (step) {
+        steps.push(step);
+        view = applyToView(view, event);
+      }
+    }
+
+    if (steps.length === 0) return;
+    this.redoStack = [];
+
+    const now = Date.now();
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (last && now - last.timestamp < this.coalesceWindowMs && this.canCoalesce(last, steps)) {
+      // Continuous edit (drag, resize, typing) - keep the original inverse, refresh the forward values
+      for (const step of steps) {
+        const existing = last.steps.find(s => s.forward.type === step.forward.type && s.forward.id === step.forward.id)!;
+        existing.forward = { ...existing.forward, patch: { ...existing.forward.patch, ...step.forward.patch } };
+      }
+      last.timestamp = now;
+      return;
+    }
+
+    this.undoStack.push({ steps, timestamp: now });
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+  }
+
+  /**
+   * Pop the latest entry and return the events reverting it against `current`
+   */
+  undo(current: HistoryView): RawEvent[] | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+
+    this.redoStack.push(entry);
+    const steps = [...entry.steps].reverse();
+    return this.rebase(steps.map(step => ({
+      event: step.inverse,
+      expected: step.forward,
+      restoredFlows: step.restoredFlows,
+    })), current);
+  }
+
+  /**
+   * Re-apply the latest undone entry against `current`
+   */
+  redo(current: HistoryView): RawEvent[] | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+
+    this.undoStack.push(entry);
+    return this.rebase(entry.steps.map(step => ({ event: step.forward, expected: step.inverse })), current);
+  }
+
+  /**
+   * Put back the entry the last undo (or redo) moved, when its events could not be applied
+   */
+  cancel(last: 'undo' | 'redo'): void {
+    const [from, to] = last === 'undo' ? [this.redoStack, this.undoStack] : [this.undoStack, this.redoStack];
+    const entry = from.pop();
+    if (entry) to.push(entry);
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  /**
+   * Build the forward/inverse pair for an event, or null if it changes nothing
+   */
+  private createStep(event: RawEvent, view: HistoryView): HistoryStep | null {
+    const isActor = event.type.startsWith('threatActor.');
+    const records: Record<string, any> = view[collectionOf(event)];
+    const actions = {
+      insert: isActor ? DiagramEventActions.createThreatActor : DiagramEventActions.createElement,
+      update: isActor ? DiagramEventActions.updateThreatActor : DiagramEventActions.updateElement,
+      delete: isActor ? DiagramEventActions.deleteThreatActor : DiagramEventActions.deleteElement,
+    } as Record<'insert' | 'update' | 'delete', (...args: any[]) => RawEvent>;
+
+    switch (event.type) {
+      case 'element.insert':
+      case 'threatActor.insert': {
+        if (!event.data) return null;
+        return {
+          forward: actions.insert(clone(event.data)),
+          inverse: actions.delete(event.data.id),
+        };
+      }
+
+      case 'element.update':
+      case 'threatActor.update': {
+        const previous = event.id ? records[event.id] : undefined;
+        if (!previous || !event.patch) return null;
+
+        const forwardPatch: Record<string, any> = {};
+        const inversePatch: Record<string, any> = {};
+        for (const [property, value] of Object.entries(event.patch)) {
+          if (isEqual(previous[property], value)) continue;
+          forwardPatch[property] = clone(value);
+          inversePatch[property] = clone(previous[property]);
+        }
+        if (Object.keys(forwardPatch).length === 0) return null;
+
+        return {
+          forward: actions.update(event.id, forwardPatch),
+          inverse: actions.update(event.id, inversePatch),
+        };
+      }
+
+      case 'element.delete':
+      case 'threatActor.delete': {
+        const previous = event.id ? records[event.id] : undefined;
+        if (!previous) return null;
+
+        // Restoring an element also restores the flows that were removed with it
+        const restoredFlows = isActor ? [] : (Object.values(records) as DiagramElement[])
+          .filter(el => el.type === 'data-flow' && (el.sourceId === event.id || el.targetId === event.id));
+
+        return {
+          forward: actions.delete(event.id),
+          inverse: actions.insert(clone(previous)),
+          restoredFlows: restoredFlows.length > 0 ? clone(restoredFlows) : undefined,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Updates coalesce when they touch the same targets and properties as the previous entry
+   */
+  private canCoalesce(last: HistoryEntry, steps: HistoryStep[]): boolean {
+    if (last.steps.length !== steps.length) return false;
+
+    return steps.every(step => {
+      if (!step.forward.type.endsWith('.update')) return false;
+      const existing = last.steps.find(s => s.forward.type === step.forward.type && s.forward.id === step.forward.id);
+      if (!existing || !existing.forward.patch) return false;
+      return Object.keys(step.forward.patch!).every(property => property in existing.forward.patch!);
+    });
+  }
+
+  /**
+   * Turn stored events into events that are safe to apply to the current view.
+   * `expected` is what the targeted properties should look like if nobody else
+   * touched them; anything that diverged belongs to someone else and is skipped.
+   */
+  private rebase(steps: RebaseStep[], current: HistoryView): RawEvent[] {
+    const result: RawEvent[] = [];
+    let view = current;
+
+    const emit = (event: RawEvent) => {
+      result.push(event);
+      view = applyToView(view, event);
+    };
+
+    for (const { event, expected, restoredFlows = [] } of steps) {
+      const records: Record<string, any> = view[collectionOf(event)];
+
+      if (event.type.endsWith('.insert') && event.data) {
+        if (!records[event.data.id]) {
+          emit({ ...event, data: clone(event.data) });
+        }
+        // Flows removed together with the element come back once both ends exist again
+        for (const flow of restoredFlows) {
+          const elements = view.elements;
+          if (!elements[flow.id] && elements[flow.sourceId!] && elements[flow.targetId!]) {
+            emit(DiagramEventActions.createElement(clone(flow)));
+          }
+        }
+      } else if (event.type.endsWith('.delete') && event.id) {
+        if (records[event.id]) {
+          emit(event);
+        }
+      } else if (event.type.endsWith('.update') && event.id && event.patch) {
+        const target = records[event.id];
+        if (!target) continue;
+
+        const patch: Record<string, any> = {};
+        for (const [property, value] of Object.entries(event.patch)) {
+          if (isEqual(target[property], (expected.patch as any)?.[property])) {
+            patch[property] = clone(value);
+          }
+        }
+        if (Object.keys(patch).length > 0) {
+          emit({ ...event, patch });
+        }
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,196 @@
+// src/state/versionHistory.ts - A room's timeline of changes, and the model at any point on it
+import { DiagramEvent } from './DiagramContext';
+import { OTOperation, OTOperationMeta } from './operationalTransforms';
+import { DiagramElement, ThreatActor, ELEMENT_CONFIGS } from '../types/diagram';
+
+/**
+ * Every change applied to a room is logged as DiagramEvents stamped with the
+ * wall-clock time this browser applied it. Snapshots of the whole model are
+ * taken now and then and remember how much of the log they include
+ * (`eventIndex`), so the model after any event is a snapshot plus the events
+ * logged since.
+ */
+
+export interface SnapshotMetadata {
+  name: string;
+  roomId: string | null;
+  createdBy: string | null;
+  createdAt: number;
+  operationsCount: number;
+  elementCount: number;
+  threatActorCount: number;
+  eventIndex?: number; // events in the room log when taken; absent on older snapshots
+}
+
+export interface SavedSnapshot {
+  key: string;
+  metadata: SnapshotMetadata;
+}
+
+export interface ModelState {
+  elements: Record<string, DiagramElement>;
+  threatActors: Record<string, ThreatActor>;
+}
+
+export type TimelineEntry =
+  | { kind: 'event'; index: number; timestamp: number | null; actor: string; summary: string }
+  | { kind: 'snapshot'; key: string; timestamp: number; actor: string | null; summary: string };
+
+/**
+ * The log events for an applied operation (a batch becomes several)
+ */
+export function eventsFromOperation(operation: OTOperationMeta, timestamp: number): Omit<DiagramEvent, 'seq'>[] {
+  const base = { actor: operation.authorId, timestamp };
+  const convert = (op: OTOperation): Omit<DiagramEvent, 'seq'>[] => {
+    switch (op.type) {
+      case 'insert_element':
+        return [{ ...base, type: 'element.insert', data: op.element }];
+      case 'delete_element':
+        return [{ ...base, type: 'element.delete', id: op.elementId, data: op.element }];
+      case 'move_element':
+        return [{ ...base, type: 'element.update', id: op.elementId, patch: { position: op.newPos } }];
+      case 'update_element_property':
+        return [{ ...base, type: 'element.update', id: op.elementId, patch: { [op.property]: op.newValue } }];
+      case 'insert_threat_actor':
+        return [{ ...base, type: 'threatActor.insert', data: op.actor }];
+      case 'delete_threat_actor':
+        return [{ ...base, type: 'threatActor.delete', id: op.actorId, data: op.actor }];
+      case 'update_threat_actor':
+        return [{ ...base, type: 'threatActor.update', id: op.actorId, patch: { [op.property]: op.newValue } }];
+      case 'batch':
+        return op.operations.flatMap(convert);
+      default:
+        return []; // not produced by the live model
+    }
+  };
+  return convert(operation.operation);
+}
+
+/**
+ * Apply one logged event to a model, in place
+ */
+export function applyEvent(state: ModelState, event: DiagramEvent): void {
+  switch (event.type) {
+    case 'element.insert':
+      if (event.data) state.elements[event.data.id] = event.data as DiagramElement;
+      break;
+    case 'element.update':
+      if (event.id && state.elements[event.id]) {
+        state.elements[event.id] = { ...state.elements[event.id], ...(event.patch as Partial<DiagramElement>) };
+      }
+      break;
+    case 'element.delete':
+      if (event.id) delete state.elements[event.id];
+      break;
+    case 'threatActor.insert':
+      if (event.data) state.threatActors[event.data.id] = event.data as ThreatActor;
+      break;
+    case 'threatActor.update':
+      if (event.id && state.threatActors[event.id]) {
+        state.threatActors[event.id] = { ...state.threatActors[event.id], ...(event.patch as Partial<ThreatActor>) };
+      }
+      break;
+    case 'threatActor.delete':
+      if (event.id) delete state.threatActors[event.id];
+      break;
+  }
+}
+
+/**
+ * Where a snapshot sits in the log: before event `position`. Older snapshots
+ * without an event index are placed by time.
+ */
+function snapshotPosition(snapshot: SavedSnapshot, events: DiagramEvent[]): number {
+  if (snapshot.metadata.eventIndex !== undefined) return Math.min(snapshot.metadata.eventIndex, events.length);
+  const after = events.findIndex(event => (event.timestamp ?? 0) > snapshot.metadata.createdAt);
+  return after === -1 ? events.length : after;
+}
+
+/**
+ * The snapshot to replay from to reach the model after event `index`: the
+ * latest one taken at or before that point
+ */
+export function baseSnapshotFor(index: number, snapshots: SavedSnapshot[], events: DiagramEvent[]): SavedSnapshot | null {
+  let best: SavedSnapshot | null = null;
+  for (const snapshot of snapshots) {
+    if (snapshot.metadata.eventIndex === undefined) continue; // cannot tell which events it includes
+    if (snapshotPosition(snapshot, events) > index + 1) continue;
+    if (!best || snapshot.metadata.eventIndex > best.metadata.eventIndex!
+      || (snapshot.metadata.eventIndex === best.metadata.eventIndex && snapshot.metadata.createdAt > best.metadata.createdAt)) {
+      best = snapshot;
+    }
+  }
+  return best;
+}
+
+/**
+ * The model right after event `index`, replayed from `base` (the state of
+ * `baseSnapshot`, or empty)
+ */
+export function stateAfterEvent(index: number, events: DiagramEvent[], baseSnapshot: SavedSnapshot | null, base: ModelState | null): ModelState {
+  const state: ModelState = {
+    elements: { ...(base?.elements ?? {}) },
+    threatActors: { ...(base?.threatActors ?? {}) },
+  };
+  const from = baseSnapshot?.metadata.eventIndex ?? 0;
+  for (let i = from; i <= index && i < events.length; i++) applyEvent(state, events[i]);
+  return state;
+}
+
+const quoted = (name: string | undefined) => (name ? `“${name}”` : 'an unnamed item');
+
+function describeEvent(event: DiagramEvent, names: Map<string, string>): string {
+  // names holds what each item was called before this event
+  switch (event.type) {
+    case 'element.insert': {
+      const element = event.data as DiagramElement;
+      return `added ${ELEMENT_CONFIGS[element.type]?.name ?? 'element'} ${quoted(element.name)}`;
+    }
+    case 'element.delete':
+      return `deleted ${quoted(names.get(event.id!) ?? (event.data as DiagramElement | undefined)?.name)}`;
+    case 'element.update': {
+      const fields = Object.keys(event.patch ?? {});
+      const name = quoted(names.get(event.id!));
+      if (fields.length === 1 && fields[0] === 'position') return `moved ${name}`;
+      if (fields.includes('name')) return `renamed ${name} to ${quoted((event.patch as Partial<DiagramElement>).name)}`;
+      return `changed ${fields.join(', ')} of ${name}`;
+    }
+    case 'threatActor.insert':
+      return `added threat actor ${quoted((event.data as ThreatActor).name)}`;
+    case 'threatActor.delete':
+      return `deleted threat actor ${quoted(names.get(event.id!) ?? (event.data as ThreatActor | undefined)?.name)}`;
+    case 'threatActor.update':
+      return `changed ${Object.keys(event.patch ?? {}).join(', ')} of threat actor ${quoted(names.get(event.id!))}`;
+  }
+}
+
+/**
+ * Events and snapshots in the order they happened, each with a one-line
+ * summary. `knownNames` names items created before the log began.
+ */
+export function buildTimeline(events: DiagramEvent[], snapshots: SavedSnapshot[], knownNames: Map<string, string> = new Map()): TimelineEntry[] {
+  const positioned = snapshots
+    .map(snapshot => ({ snapshot, position: snapshotPosition(snapshot, events) }))
+    .sort((a, b) => a.position - b.position || a.snapshot.metadata.createdAt - b.snapshot.metadata.createdAt);
+
+  const names = new Map(knownNames);
+  const timeline: TimelineEntry[] = [];
+  let next = 0;
+  events.forEach((event, index) => {
+    while (next < positioned.length && positioned[next].position <= index) {
+      const { snapshot } = positioned[next++];
+      timeline.push({ kind: 'snapshot', key: snapshot.key, timestamp: snapshot.metadata.createdAt, actor: snapshot.metadata.createdBy, summary: snapshot.metadata.name });
+    }
+
+    // Described with the names as they were before this event
+    timeline.push({ kind: 'event', index, timestamp: event.timestamp ?? null, actor: event.actor, summary: describeEvent(event, names) });
+
+    if ((event.type === 'element.insert' || event.type === 'threatActor.insert') && event.data) names.set(event.data.id, event.data.name);
+    const renamed = (event.patch as { name?: string } | undefined)?.name;
+    if (renamed !== undefined && event.id) names.set(event.id, renamed);
+  });
+  positioned.slice(next).forEach(({ snapshot }) => {
+    timeline.push({ kind: 'snapshot', key: snapshot.key, timestamp: snapshot.metadata.createdAt, actor: snapshot.metadata.createdBy, summary: snapshot.metadata.name });
+  });
+  return timeline;
+}
@@ -3,22 +3,57 @@ import { create } from 'zustand';
 import { ApplicationStateMachine, ApplicationState } from '../state/ApplicationStateMachine';
 import { StorageService } from '../services/storageService';
 import { DistributedStateManager } from '../state/distributedStateManager';
-import { ServerlessWebRTC } from '../services/serverlessWebRTC';
+import { Transport, TransportKind, connectTransport } from '../services/transport';
+import { RoomOwnerHint } from '../state/roomRoles';
+import { RoomAccess, accessFromPassphrase, accessFromReadOnlyLink, deriveTransportSecret } from '../utils/roomAccess';
 
 export interface ApplicationConfig {
   userId: string;
   roomId: string;
   passphrase?: string | null;
+  salt?: string | null;      // per-room passphrase salt (`n` in invite links)
   p2pEnabled: boolean;
+  transport?: TransportKind; // default: 'webrtc'
+  relayUrl?: string;         // for transport 'relay'
+  owner?: RoomOwnerHint;     // who owns the room, from the invite link
+  readOnlyLink?: { transportSecret: string; editPublicKey: string } | null; // `v`/`e` of a read-only link
 }
 
 export interface Services {
   stateMachine: ApplicationStateMachine;
   storage: StorageService;
   distributedState: DistributedStateManager;
-  webrtc?: ServerlessWebRTC;
+  transport?: Transport;
 }
 
+const roomPassphrase = (config: ApplicationConfig) => config.passphrase || `modelka_${config.roomId.slice(0, 8)}`;
+
+/**
+ * Room capabilities: a read-only link carries them, an edit link's passphrase derives them
+ */
+async function resolveRoomAccess(config: ApplicationConfig): Promise<RoomAccess | null> {
+  if (config.readOnlyLink) {
+    return accessFromReadOnlyLink(config.roomId, config.readOnlyLink.transportSecret, config.readOnlyLink.editPublicKey);
+  }
+  try {
+    return await accessFromPassphrase(config.roomId, roomPassphrase(config), config.salt ?? null);
+  } catch (error) {
+    console.warn('⚠️ Cannot derive the room edit key (no Ed25519 support?) - read-only links are unavailable:', error);
+    return null;
+  }
+}
+
+/**
+ * Everything that needs a fresh transport and room state when it changes
+ */
+export const configKey = (config: ApplicationConfig) => [
+  config.userId, config.roomId, config.p2pEnabled, config.transport, config.relayUrl,
+  config.passphrase, config.salt, config.readOnlyLink?.transportSecret,
+].join('-');
+
+// A config change disposes the old services without waiting; the next initialize must
+let pendingDispose: Promise<void> | null = null;
+
 export interface ApplicationStore {
   // State
   state: ApplicationState;
@@ -55,10 +90,11 @@ export const useApplicationStore = create<ApplicationStore>((set, get) => ({
 
   // Initialize application with proper cleanup on React remounts
   initialize: async (config: ApplicationConfig) => {
+    if (pendingDispose) await pendingDispose;
     const store = get();
     
     // Create a unique initialization key
-    const initKey = `${config.userId}-${config.roomId}-${config.p2pEnabled}`;
+    const initKey = configKey(config);
     
     // More aggressive check to prevent hanging and double initialization
     if (store.isInitializing) {
@@ -68,10 +104,7 @@ export const useApplicationStore = create<ApplicationStore>((set, get) => ({
     
     if (store.state === 'ready' || store.state === 'private_mode') {
       // Check if it's the same config
-      if (store.config && 
-          store.config.userId === config.userId &&
-          store.config.roomId === config.roomId &&
-          store.config.p2pEnabled === config.p2pEnabled) {
+      if (store.config && configKey(store.config) === configKey(config)) {
         console.log('⚡ Already initialized with same config, skipping...');
         return;
       }
@@ -148,7 +181,7 @@ export const useApplicationStore = create<ApplicationStore>((set, get) => ({
         // CRITICAL FIX: Initialize distributed state for private mode
         if (distributedState) {
           console.log('🏠 Initializing distributed state for solo mode...');
-          await distributedState.initializeRoom(config.userId, config.roomId);
+          await distributedState.initializeRoom(config.userId, config.roomId, config.owner, await resolveRoomAccess(config));
           console.log('✅ Distributed state ready for solo mode');
         }
         
@@ -173,40 +206,46 @@ export const useApplicationStore = create<ApplicationStore>((set, get) => ({
     const { services } = get();
     
     try {
-      console.log('🌐 Initializing P2P networking...');
+      const transportKind = config.transport ?? 'webrtc';
+      console.log(`🌐 Initializing P2P networking (${transportKind})...`);
 
-      const roomPassphrase = config.passphrase || `modelka_${config.roomId.slice(0, 8)}`;
+      // Traffic is encrypted with a secret both edit and read-only links can derive
+      const transportSecret = config.readOnlyLink?.transportSecret
+        ?? await deriveTransportSecret(config.roomId, roomPassphrase(config), config.salt ?? null);
 
       // Race P2P connection against timeout
-      const connectionPromise = ServerlessWebRTC.connect(
+      const connectionPromise = connectTransport(
+        transportKind,
         config.roomId,
         config.userId,
-        roomPassphrase,
+        transportSecret,
         {
           autoRequestHistory: true,
           heartbeatMs: 1000,
+          ...(config.relayUrl ? { relayUrl: config.relayUrl } : {}),
         }
       );
 
-      const webrtc = await Promise.race([
+      const transport = await Promise.race([
         connectionPromise,
         new Promise<never>((_, reject) =>
-          setTimeout(() => reject(new Error('P2P connection timeout')), 2000) // Reduced to 2s for faster bootstrap
+          // Reduced to 2s for faster bootstrap; a relay behind a corporate proxy gets its own connect timeout
+          setTimeout(() => reject(new Error('P2P connection timeout')), transportKind === 'relay' ? 6000 : 2000)
         ),
       ]);
 
-      // Update services with WebRTC
+      // Update services with the transport
       set({
-        services: { ...services, webrtc },
+        services: { ...services, transport },
       });
 
       await stateMachine.transition('P2P_READY');
       
       // Connect to room
       if (services.distributedState) {
-        console.log('🔗 Connecting distributed state to WebRTC...');
-        await services.distributedState.connect(webrtc, config.userId);
-        await services.distributedState.initializeRoom(config.userId, config.roomId);
+        console.log(`🔗 Connecting distributed state to ${transport.kind} transport...`);
+        await services.distributedState.connect(transport, config.userId);
+        await services.distributedState.initializeRoom(config.userId, config.roomId, config.owner, await resolveRoomAccess(config));
         
         await stateMachine.transition('ROOM_CONNECTED');
         await new Promise(resolve => setTimeout(resolve, 500)); // Reduced wait time
@@ -261,12 +300,12 @@ export const useApplicationStore = create<ApplicationStore>((set, get) => ({
         if (stateMachine.can('P2P_DISABLED')) {
           await stateMachine.transition('P2P_DISABLED');
           
-          // Disconnect WebRTC
-          const webrtc = services.webrtc;
-          if (webrtc) {
-            console.log('🔌 Disconnecting WebRTC...');
-            webrtc.disconnect();
-            set({ services: { ...services, webrtc: undefined } });
+          // Disconnect transport
+          const transport = services.transport;
+          if (transport) {
+            console.log(`🔌 Disconnecting ${transport.kind} transport...`);
+            transport.disconnect();
+            set({ services: { ...services, transport: undefined } });
           }
         }
       }
@@ -298,8 +337,8 @@ export const useApplicationStore = create<ApplicationStore>((set, get) => ({
     const { services } = get();
     
     // Cleanup services
-    if (services.webrtc) {
-      services.webrtc.disconnect();
+    if (services.transport) {
+      services.transport.disconnect();
     }
     if (services.distributedState) {
       services.distributedState.dispose();
@@ -322,41 +361,47 @@ export const useApplicationStore = create<ApplicationStore>((set, get) => ({
   },
 
   // Dispose all services
-  dispose: async () => {
-    console.log('🗑️ Disposing application (socket-safe cleanup)...');
+  dispose: () => {
+    const disposing = (async () => {
+      console.log('🗑️ Disposing application (socket-safe cleanup)...');
     
-    const { services } = get();
+      const { services } = get();
     
-    // CRITICAL: Cleanup WebRTC first to prevent socket exhaustion
-    if (services.webrtc) {
-      console.log('🔌 Disconnecting WebRTC to free sockets...');
-      services.webrtc.disconnect();
-    }
+      // CRITICAL: Cleanup transport first to prevent socket exhaustion
+      if (services.transport) {
+        console.log('🔌 Disconnecting transport to free sockets...');
+        services.transport.disconnect();
+      }
     
-    // Cleanup other services
-    if (services.distributedState) {
-      services.distributedState.dispose();
-    }
-    // Using DistributedStateManager directly for all functionality
-    if (services.stateMachine) {
-      try {
-        await services.stateMachine.transition('DISPOSE');
-      } catch (error) {
-        console.warn('⚠️ State machine disposal error:', error);
+      // Cleanup other services
+      if (services.distributedState) {
+        services.distributedState.dispose();
+      }
+      // Using DistributedStateManager directly for all functionality
+      if (services.stateMachine) {
+        try {
+          await services.stateMachine.transition('DISPOSE');
+        } catch (error) {
+          console.warn('⚠️ State machine disposal error:', error);
+        }
       }
-    }
     
-    // Reset state
-    set({
-      state: 'uninitialized',
-      error: null,
-      retryCount: 0,
-      services: {},
-      config: null,
-      isInitializing: false,
-    });
+      // Reset state
+      set({
+        state: 'uninitialized',
+        error: null,
+        retryCount: 0,
+        services: {},
+        config: null,
+        isInitializing: false,
+      });
     
-    console.log('✅ Application disposed - sockets freed');
+      console.log('✅ Application disposed - sockets freed');
+    })();
+    pendingDispose = disposing.finally(() => {
+      pendingDispose = null;
+    });
+    return pendingDispose;
   },
 
   // Computed getters
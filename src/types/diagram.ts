@@ -7,6 +7,25 @@ export type STRIDEElementType =
 
 export type ThreatSeverity = 'low' | 'medium' | 'high' | 'critical';
 
+export type RiskMethod = 'likelihood-impact' | 'dread' | 'cvss';
+
+export interface DreadScores {
+  damage: number; // 0-10
+  reproducibility: number;
+  exploitability: number;
+  affectedUsers: number;
+  discoverability: number;
+}
+
+export interface RiskAssessment {
+  method: RiskMethod;
+  likelihood?: number; // 1-5
+  impact?: number; // 1-5
+  dread?: DreadScores;
+  cvssVector?: string; // CVSS:3.1/... or CVSS:4.0/...
+  cvssScore?: number; // Base score for CVSS 4.0 vectors (from the FIRST calculator) - sets the severity as a manual override
+}
+
 export interface Threat {
   id: string;
   title: string;
@@ -16,6 +35,10 @@ export interface Threat {
   technology?: string;
   controls: SecurityControl[];
   isActionItem?: boolean;
+  generatedBy?: string; // Suggestion key of the rule that proposed this threat
+  risk?: RiskAssessment; // When set, severity is derived from the risk score
+  severityOverride?: boolean; // Severity was picked by hand and differs from the derived one
+  extensions?: Record<string, any>; // Fields from imported formats with no Modelka equivalent, keyed by format
 }
 
 export interface SecurityControl {
@@ -80,8 +103,23 @@ export interface DiagramElement {
   dataDescription?: string; // Detailed description of the data
   points?: number[]; // For curved data flows
   
+  // Hierarchical DFDs (see utils/dfdLevels)
+  parentId?: string; // Process whose sub-diagram this element is in; unset on the top level
+  interfaceOf?: string; // In a sub-diagram: the parent-level element this one stands in for
+  
+  // Projects with several diagrams (see utils/projectViews)
+  view?: string; // Named diagram the element is drawn in; unset on the main diagram
+  refId?: string; // Another appearance of this element, which holds its name, threats and the like
+  
   // Assets
   assets?: Asset[];
+  
+  // Threat suggestions the analyst rejected (see services/threatGenerator)
+  dismissedSuggestions?: string[];
+  
+  // Fields from imported formats with no Modelka equivalent, keyed by format
+  // (e.g. `threatDragon`) - written back when exporting to that format
+  extensions?: Record<string, any>;
 }
 
 export interface DiagramState {
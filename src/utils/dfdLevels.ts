@@ -0,0 +1,209 @@
+/**
+ * Hierarchical data flow diagrams: any process can be expanded into a
+ * sub-diagram (level 1, level 2, ...) of its own.
+ *
+ * The model stays one flat list of elements - an element's `parentId` names
+ * the process whose sub-diagram it is drawn in, so levels sync, merge and
+ * diff like everything else. A sub-diagram shows the process's neighbours
+ * in the parent diagram as interface elements (`interfaceOf`), and its flows
+ * to and from them must balance the parent's flows into and out of the process.
+ */
+import { DiagramElement, Threat } from '../types/diagram';
+
+/** A diagram level: the process it expands, or null for the top level (level 0) */
+export type LevelId = string | null;
+
+export const levelOf = (element: DiagramElement): LevelId => element.parentId ?? null;
+
+export function elementsAtLevel(elements: DiagramElement[], level: LevelId): DiagramElement[] {
+  return elements.filter(element => levelOf(element) === level);
+}
+
+export function hasSubDiagram(elements: DiagramElement[], processId: string): boolean {
+  return elements.some(element => element.parentId === processId);
+}
+
+/**
+ * Processes from the top level down to `level` - the breadcrumb trail
+ */
+export function levelPath(elements: DiagramElement[], level: LevelId): DiagramElement[] {
+  const byId = new Map(elements.map(element => [element.id, element]));
+  const path: DiagramElement[] = [];
+  for (let process = level ? byId.get(level) : undefined; process && !path.includes(process); process = process.parentId ? byId.get(process.parentId) : undefined) {
+    path.unshift(process);
+  }
+  return path;
+}
+
+/**
+ * Everything in a process's sub-diagram, and in theirs, recursively
+ */
+export function descendantsOf(elements: DiagramElement[], processId: string): DiagramElement[] {
+  const found = new Set<string>([processId]);
+  const descendants: DiagramElement[] = [];
+  for (let added = true; added;) {
+    added = false;
+    for (const element of elements) {
+      if (element.parentId && found.has(element.parentId) && !found.has(element.id)) {
+        found.add(element.id);
+        descendants.push(element);
+        added = true;
+      }
+    }
+  }
+  return descendants;
+}
+
+/**
+ * The given element ids plus their sub-diagrams, so deleting a process leaves nothing behind
+ */
+export function withDescendants(elements: DiagramElement[], ids: string[]): string[] {
+  return [...new Set([...ids, ...ids.flatMap(id => descendantsOf(elements, id).map(element => element.id))])];
+}
+
+/**
+ * Where an element sits, e.g. `Order service › Payment` - empty on the top level
+ */
+export function levelLabel(elements: DiagramElement[], element: DiagramElement): string {
+  return levelPath(elements, levelOf(element)).map(process => process.name).join(' › ');
+}
+
+/* ---------- interfaces ---------- */
+
+export interface InterfaceIssue {
+  /** missing: a parent flow has no counterpart below; unexpected: a flow below has none above */
+  kind: 'missing' | 'unexpected';
+  direction: 'in' | 'out';
+  /** The parent-level neighbour the flow goes to or comes from */
+  neighbourId: string;
+  message: string;
+}
+
+const isFlow = (element: DiagramElement) => element.type === 'data-flow';
+
+/**
+ * Check a process's sub-diagram against the parent diagram: every flow into
+ * (out of) the process needs a flow from (to) the same neighbour's interface
+ * element into (out of) the sub-diagram, and the other way round.
+ */
+export function checkInterfaces(elements: DiagramElement[], processId: string): InterfaceIssue[] {
+  const byId = new Map(elements.map(element => [element.id, element]));
+  const process = byId.get(processId);
+  if (!process || !hasSubDiagram(elements, processId)) return [];
+
+  const nameOf = (id: string | undefined) => (id && byId.get(id)?.name) || 'unnamed';
+  const parentFlows = elementsAtLevel(elements, levelOf(process)).filter(isFlow);
+  const children = elementsAtLevel(elements, processId);
+  const childFlows = children.filter(isFlow);
+  const interfaceFor = new Map(children.filter(child => child.interfaceOf).map(child => [child.id, child.interfaceOf!]));
+  const issues: InterfaceIssue[] = [];
+
+  for (const direction of ['in', 'out'] as const) {
+    // Parent flows into the process come from a neighbour, flows out go to one
+    const outside = direction === 'in' ? 'sourceId' : 'targetId';
+    const inside = direction === 'in' ? 'targetId' : 'sourceId';
+    const neighbours = new Map<string, DiagramElement[]>();
+    for (const flow of parentFlows.filter(flow => flow[inside] === processId && flow[outside])) {
+      neighbours.set(flow[outside]!, [...(neighbours.get(flow[outside]!) ?? []), flow]);
+    }
+    // Flows across the sub-diagram's edge, by the neighbour they stand for
+    const crossing = new Map<string, DiagramElement[]>();
+    for (const flow of childFlows) {
+      const neighbourId = interfaceFor.get(flow[outside] ?? '');
+      if (neighbourId && flow[inside] && !interfaceFor.has(flow[inside]!)) {
+        crossing.set(neighbourId, [...(crossing.get(neighbourId) ?? []), flow]);
+      }
+    }
+
+    const toFrom = direction === 'in' ? 'from' : 'to';
+    for (const [neighbourId, flows] of neighbours) {
+      if (crossing.has(neighbourId)) continue;
+      const hasInterface = [...interfaceFor.values()].includes(neighbourId);
+      issues.push({
+        kind: 'missing',
+        direction,
+        neighbourId,
+        message: hasInterface
+          ? `No flow ${toFrom} “${nameOf(neighbourId)}” ${direction === 'in' ? 'into' : 'out of'} the sub-diagram, though the parent has “${flows.map(flow => flow.name).join('”, “')}”`
+          : `“${nameOf(neighbourId)}” is missing from the sub-diagram (parent flow “${flows.map(flow => flow.name).join('”, “')}”)`,
+      });
+    }
+    for (const [neighbourId, flows] of crossing) {
+      if (neighbours.has(neighbourId)) continue;
+      issues.push({
+        kind: 'unexpected',
+        direction,
+        neighbourId,
+        message: `“${flows.map(flow => flow.name).join('”, “')}” ${toFrom} “${nameOf(neighbourId)}” has no matching flow ${direction === 'in' ? 'into' : 'out of'} “${process.name}” in the parent diagram`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Interface elements for the process's parent-level neighbours that its
+ * sub-diagram does not show yet: senders on the left, receivers on the right
+ */
+export function missingInterfaces(elements: DiagramElement[], processId: string): DiagramElement[] {
+  const byId = new Map(elements.map(element => [element.id, element]));
+  const process = byId.get(processId);
+  if (!process) return [];
+
+  const shown = new Set(elementsAtLevel(elements, processId).map(child => child.interfaceOf).filter(Boolean));
+  const parentFlows = elementsAtLevel(elements, levelOf(process)).filter(isFlow);
+  const senders = parentFlows.filter(flow => flow.targetId === processId).map(flow => flow.sourceId);
+  const receivers = parentFlows.filter(flow => flow.sourceId === processId).map(flow => flow.targetId);
+  const placed = new Set<string>();
+  const proxies: DiagramElement[] = [];
+
+  [senders, receivers].forEach((ids, column) => {
+    let row = 0;
+    for (const id of ids) {
+      const neighbour = id ? byId.get(id) : undefined;
+      if (!neighbour || shown.has(neighbour.id) || placed.has(neighbour.id)) continue;
+      placed.add(neighbour.id);
+      proxies.push({
+        id: `${neighbour.type}-${crypto.randomUUID()}`,
+        type: neighbour.type,
+        name: neighbour.name,
+        position: { x: column === 0 ? 50 : 650, y: 50 + row++ * 120 },
+        size: { ...neighbour.size },
+        threats: [],
+        technologies: [],
+        description: `Interface to “${neighbour.name}” in the parent diagram`,
+        notes: '',
+        assets: [],
+        parentId: processId,
+        interfaceOf: neighbour.id,
+      });
+    }
+  });
+  return proxies;
+}
+
+/* ---------- threat roll-up ---------- */
+
+export interface RolledUpThreat {
+  threat: Threat;
+  element: DiagramElement;
+}
+
+/**
+ * A process's own threats and those of everything in its sub-diagrams
+ */
+export function rollUpThreats(elements: DiagramElement[], processId: string): RolledUpThreat[] {
+  const process = elements.find(element => element.id === processId);
+  return [...(process ? [process] : []), ...descendantsOf(elements, processId)]
+    .flatMap(element => element.threats.map(threat => ({ threat, element })));
+}
+
+/**
+ * Processes with sub-diagrams, outermost first - the rows of a roll-up table
+ */
+export function expandedProcesses(elements: DiagramElement[]): DiagramElement[] {
+  const depth = (element: DiagramElement) => levelPath(elements, levelOf(element)).length;
+  return elements
+    .filter(element => element.type === 'process' && hasSubDiagram(elements, element.id))
+    .sort((a, b) => depth(a) - depth(b));
+}
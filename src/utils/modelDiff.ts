@@ -0,0 +1,228 @@
+/**
+ * Semantic diff between two versions of a model: which elements, threats,
+ * controls, assets and threat actors were added, removed or changed
+ */
+import { Asset, DiagramElement, SecurityControl, STRIDEElementType, Threat, ThreatActor, ELEMENT_CONFIGS } from '../types/diagram';
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export const CHANGE_CONFIGS: Record<ChangeKind, { color: string; name: string }> = {
+  added: { color: '#16a34a', name: 'Added' },
+  removed: { color: '#dc2626', name: 'Removed' },
+  changed: { color: '#2563eb', name: 'Changed' },
+};
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ItemChange {
+  kind: ChangeKind;
+  id: string;
+  name: string;
+  /** Changed fields; empty for added and removed items */
+  fields: FieldChange[];
+}
+
+export interface ThreatChange extends ItemChange {
+  controls: ItemChange[];
+}
+
+export interface ElementChange extends ItemChange {
+  type: STRIDEElementType;
+  threats: ThreatChange[];
+  assets: ItemChange[];
+}
+
+export interface ModelDiff {
+  elements: ElementChange[];
+  threatActors: ItemChange[];
+}
+
+export interface DiffableModel {
+  elements: DiagramElement[];
+  threatActors: ThreatActor[];
+}
+
+export interface DiffOptions {
+  /** Ignore moves, resizes and re-routed flows */
+  ignoreLayout?: boolean;
+}
+
+/** Where an element is drawn, as opposed to what it means */
+export const LAYOUT_FIELDS = [
+  'position', 'size', 'rotation', 'points', 'targetPoint',
+  'sourceEdge', 'sourceEdgeOffset', 'targetEdge', 'targetEdgeOffset',
+];
+
+/** Element fields diffed item by item rather than as a whole */
+const NESTED_FIELDS = ['threats', 'assets'];
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+function fieldChanges(before: object, after: object, skip: string[] = []): FieldChange[] {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(field => !skip.includes(field));
+  return fields
+    .filter(field => !same((before as any)[field], (after as any)[field]))
+    .map(field => ({ field, before: (before as any)[field], after: (after as any)[field] }));
+}
+
+/**
+ * Pair up items by id. `change` describes an added, removed or (given its
+ * previous version) changed item, or returns null when nothing changed.
+ */
+function diffById<T extends { id: string }, C extends ItemChange>(
+  before: T[],
+  after: T[],
+  change: (kind: ChangeKind, item: T, previous?: T) => C | null
+): C[] {
+  const previous = new Map(before.map(item => [item.id, item]));
+  const current = new Set(after.map(item => item.id));
+  const changes: C[] = [];
+
+  for (const item of after) {
+    const old = previous.get(item.id);
+    const result = old ? change('changed', item, old) : change('added', item);
+    if (result) changes.push(result);
+  }
+  for (const item of before) {
+    if (current.has(item.id)) continue;
+    const result = change('removed', item);
+    if (result) changes.push(result);
+  }
+  return changes;
+}
+
+function diffControls(before: SecurityControl[], after: SecurityControl[]): ItemChange[] {
+  return diffById(before ?? [], after ?? [], (kind, control, previous) => {
+    const fields = previous ? fieldChanges(previous, control) : [];
+    return kind === 'changed' && fields.length === 0 ? null : { kind, id: control.id, name: control.name, fields };
+  });
+}
+
+function diffThreats(before: Threat[], after: Threat[]): ThreatChange[] {
+  return diffById(before ?? [], after ?? [], (kind, threat, previous) => {
+    const fields = previous ? fieldChanges(previous, threat, ['controls']) : [];
+    const controls = previous ? diffControls(previous.controls, threat.controls) : [];
+    return kind === 'changed' && fields.length === 0 && controls.length === 0
+      ? null
+      : { kind, id: threat.id, name: threat.title, fields, controls };
+  });
+}
+
+function diffAssets(before: Asset[] | undefined, after: Asset[] | undefined): ItemChange[] {
+  return diffById(before ?? [], after ?? [], (kind, asset, previous) => {
+    const fields = previous ? fieldChanges(previous, asset) : [];
+    return kind === 'changed' && fields.length === 0 ? null : { kind, id: asset.id, name: asset.name, fields };
+  });
+}
+
+/**
+ * What changed from `before` to `after`. Items are matched by id, so a
+ * renamed element is a change, not a removal and an addition.
+ */
+export function diffModels(before: DiffableModel, after: DiffableModel, options: DiffOptions = {}): ModelDiff {
+  const skip = [...NESTED_FIELDS, ...(options.ignoreLayout ? LAYOUT_FIELDS : [])];
+
+  const elements = diffById(before.elements, after.elements, (kind, element, previous) => {
+    if (!previous) return { kind, id: element.id, name: element.name, type: element.type, fields: [], threats: [], assets: [] };
+    const change: ElementChange = {
+      kind,
+      id: element.id,
+      name: element.name,
+      type: element.type,
+      fields: fieldChanges(previous, element, skip),
+      threats: diffThreats(previous.threats, element.threats),
+      assets: diffAssets(previous.assets, element.assets),
+    };
+    return change.fields.length || change.threats.length || change.assets.length ? change : null;
+  });
+
+  const threatActors = diffById(before.threatActors, after.threatActors, (kind, actor, previous) => {
+    const fields = previous ? fieldChanges(previous, actor) : [];
+    return kind === 'changed' && fields.length === 0 ? null : { kind, id: actor.id, name: actor.name, fields };
+  });
+
+  return { elements, threatActors };
+}
+
+export type ChangeCounts = Record<ChangeKind, number>;
+
+export interface DiffSummary {
+  elements: ChangeCounts;
+  threats: ChangeCounts;
+  controls: ChangeCounts;
+  assets: ChangeCounts;
+  threatActors: ChangeCounts;
+}
+
+/**
+ * Counts of added, removed and changed items at each level. Threats of added
+ * or removed elements are not counted separately.
+ */
+export function summarizeDiff(diff: ModelDiff): DiffSummary {
+  const counts = (): ChangeCounts => ({ added: 0, removed: 0, changed: 0 });
+  const summary: DiffSummary = { elements: counts(), threats: counts(), controls: counts(), assets: counts(), threatActors: counts() };
+  for (const element of diff.elements) {
+    summary.elements[element.kind]++;
+    for (const threat of element.threats) {
+      summary.threats[threat.kind]++;
+      threat.controls.forEach(control => summary.controls[control.kind]++);
+    }
+    element.assets.forEach(asset => summary.assets[asset.kind]++);
+  }
+  diff.threatActors.forEach(actor => summary.threatActors[actor.kind]++);
+  return summary;
+}
+
+export const isEmptyDiff = (diff: ModelDiff) => diff.elements.length === 0 && diff.threatActors.length === 0;
+
+const quoted = (name: string) => (name ? `“${name}”` : 'unnamed');
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(none)';
+  const text = typeof value === 'string' ? `“${value}”` : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}…` : text;
+}
+
+/**
+ * One-line description of a field change
+ */
+export function describeFieldChange(change: FieldChange): string {
+  if (change.field === 'position') return 'moved';
+  if (change.field === 'size') return 'resized';
+  if (change.field === 'implemented') return change.after ? 'now implemented' : 'no longer implemented';
+  if (change.field === 'technologies') {
+    const names = (value: unknown) => ((value as { name: string }[] | undefined) ?? []).map(t => t.name).join(', ') || '(none)';
+    return `technologies ${names(change.before)} → ${names(change.after)}`;
+  }
+  return `${change.field} ${formatValue(change.before)} → ${formatValue(change.after)}`;
+}
+
+const MARKS: Record<ChangeKind, string> = { added: '+', removed: '-', changed: '~' };
+
+function formatItem(label: string, change: ItemChange, indent: string): string {
+  const fields = change.fields.length ? `: ${change.fields.map(describeFieldChange).join(', ')}` : '';
+  return `${indent}${MARKS[change.kind]} ${label} ${quoted(change.name)}${change.kind === 'changed' ? fields : ` ${change.kind}`}`;
+}
+
+/**
+ * The diff as indented text, one line per change
+ */
+export function formatDiff(diff: ModelDiff): string {
+  if (isEmptyDiff(diff)) return 'No changes';
+
+  const lines: string[] = [];
+  for (const element of diff.elements) {
+    lines.push(formatItem(ELEMENT_CONFIGS[element.type]?.name ?? 'Element', element, ''));
+    for (const threat of element.threats) {
+      lines.push(formatItem('threat', threat, '    '));
+      threat.controls.forEach(control => lines.push(formatItem('control', control, '        ')));
+    }
+    element.assets.forEach(asset => lines.push(formatItem('asset', asset, '    ')));
+  }
+  diff.threatActors.forEach(actor => lines.push(formatItem('Threat actor', actor, '')));
+  return lines.join('\n');
+}
@@ -0,0 +1,177 @@
+/**
+ * Model linting: rules that catch a model that is not a well-formed data
+ * flow diagram. The same engine runs in the app (canvas badges and the
+ * Problems tab) and headlessly (`modelka lint`).
+ *
+ * Every rule has a default severity, which can be changed - or the rule
+ * turned off - per rule id.
+ */
+import { DiagramElement } from '../types/diagram';
+import { checkInterfaces, expandedProcesses } from './dfdLevels';
+import { resolveReferences } from './projectViews';
+
+export type LintSeverity = 'error' | 'warning';
+
+/** A rule's severity, or off */
+export type RuleSetting = LintSeverity | 'off';
+
+/** Settings by rule id; rules left out run with their default severity */
+export type LintConfig = Record<string, RuleSetting>;
+
+export const RULE_SETTINGS: RuleSetting[] = ['error', 'warning', 'off'];
+
+export interface LintFinding {
+  rule: string;
+  severity: LintSeverity;
+  elementId: string;
+  message: string;
+}
+
+export interface LintContext {
+  /** The whole model, references resolved to their original's name and threats */
+  elements: DiagramElement[];
+  byId: Map<string, DiagramElement>;
+  /** Each element once: no references, which would repeat their original's findings */
+  originals: DiagramElement[];
+}
+
+export interface LintRule {
+  id: string;
+  description: string;
+  defaultSeverity: LintSeverity;
+  check: (context: LintContext) => Array<{ elementId: string; message: string }>;
+}
+
+export const elementLabel = (element: DiagramElement) => `"${element.name || element.id}"`;
+
+/**
+ * The element a reference or sub-diagram interface stands for, however deep
+ */
+function originalOf(element: DiagramElement, byId: Map<string, DiagramElement>): DiagramElement {
+  const seen = new Set<string>();
+  let current = element;
+  while (!seen.has(current.id)) {
+    seen.add(current.id);
+    const next = byId.get(current.refId ?? current.interfaceOf ?? '');
+    if (!next) break;
+    current = next;
+  }
+  return current;
+}
+
+const isFlow = (element: DiagramElement) => element.type === 'data-flow';
+
+/**
+ * Built-in data flow diagram rules
+ */
+export const DFD_RULES: LintRule[] = [
+  {
+    id: 'dangling-flow',
+    description: 'Data flows must start and end at an element that exists',
+    defaultSeverity: 'error',
+    check: ({ elements, byId }) => elements.filter(isFlow).flatMap(flow =>
+      (['sourceId', 'targetId'] as const)
+        .filter(end => !flow[end] || !byId.has(flow[end]!))
+        .map(end => ({
+          elementId: flow.id,
+          message: `Data flow ${elementLabel(flow)} ${flow[end]
+            ? `${end === 'sourceId' ? 'comes from' : 'goes to'} an element that no longer exists`
+            : `is not connected at its ${end === 'sourceId' ? 'source' : 'target'}`}`,
+        }))
+    ),
+  },
+  {
+    id: 'unnamed-process',
+    description: 'Processes must be named',
+    defaultSeverity: 'warning',
+    check: ({ originals }) => originals
+      .filter(element => element.type === 'process' && !element.interfaceOf && !element.name?.trim())
+      .map(element => ({ elementId: element.id, message: `Process ${element.id} has no name` })),
+  },
+  {
+    id: 'data-store-without-inflow',
+    description: 'Data stores need an incoming data flow - something must write what is read from them',
+    defaultSeverity: 'warning',
+    check: ({ elements, byId, originals }) => {
+      // Flows into any appearance of a store, in any diagram or level, count for it
+      const written = new Set(elements
+        .filter(flow => isFlow(flow) && flow.targetId && byId.has(flow.targetId))
+        .map(flow => originalOf(byId.get(flow.targetId!)!, byId).id));
+      return originals
+        .filter(element => element.type === 'data-store' && !element.interfaceOf && !written.has(element.id))
+        .map(element => ({ elementId: element.id, message: `Data store ${elementLabel(element)} has no incoming data flow` }));
+    },
+  },
+  {
+    id: 'entity-to-entity-flow',
+    description: 'Data flows between two external entities are outside the system - route them through a process',
+    defaultSeverity: 'error',
+    check: ({ elements, byId }) => elements
+      .filter(flow => isFlow(flow)
+        && byId.get(flow.sourceId ?? '')?.type === 'external-entity'
+        && byId.get(flow.targetId ?? '')?.type === 'external-entity')
+      .map(flow => ({
+        elementId: flow.id,
+        message: `Data flow ${elementLabel(flow)} goes from external entity ${elementLabel(byId.get(flow.sourceId!)!)} straight to ${elementLabel(byId.get(flow.targetId!)!)}`,
+      })),
+  },
+  {
+    id: 'unbalanced-sub-diagram',
+    description: "A sub-diagram's flows across its edge must match the parent's flows into and out of the process",
+    defaultSeverity: 'warning',
+    check: ({ elements, originals }) => expandedProcesses(originals).flatMap(process =>
+      checkInterfaces(elements, process.id).map(issue => ({
+        elementId: process.id,
+        message: `In the sub-diagram of ${elementLabel(process)}: ${issue.message}`,
+      }))
+    ),
+  },
+];
+
+/**
+ * Run the rules over a model, each with its configured severity
+ */
+export function lintModel(elements: DiagramElement[], config: LintConfig = {}, rules: LintRule[] = DFD_RULES): LintFinding[] {
+  const resolved = resolveReferences(elements);
+  const context: LintContext = {
+    elements: resolved,
+    byId: new Map(resolved.map(element => [element.id, element])),
+    originals: resolved.filter(element => !element.refId),
+  };
+
+  return rules.flatMap(rule => {
+    const severity = config[rule.id] ?? rule.defaultSeverity;
+    if (severity === 'off') return [];
+    return rule.check(context).map(finding => ({ rule: rule.id, severity, ...finding }));
+  });
+}
+
+/**
+ * Check rule settings read from a file or storage: known rule ids, known severities
+ */
+export function parseLintConfig(data: unknown, rules: LintRule[] = DFD_RULES): LintConfig {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('rule settings must be an object of rule id to severity');
+  }
+  const known = new Set(rules.map(rule => rule.id));
+  for (const [rule, setting] of Object.entries(data)) {
+    if (!known.has(rule)) {
+      throw new Error(`unknown rule "${rule}"`);
+    }
+    if (!RULE_SETTINGS.includes(setting as RuleSetting)) {
+      throw new Error(`rule "${rule}" must be ${RULE_SETTINGS.join(', ')}`);
+    }
+  }
+  return data as LintConfig;
+}
+
+/**
+ * The most severe finding on each element - what the canvas badges show
+ */
+export function worstByElement(findings: LintFinding[]): Record<string, LintSeverity> {
+  const worst: Record<string, LintSeverity> = {};
+  for (const finding of findings) {
+    if (worst[finding.elementId] !== 'error') worst[finding.elementId] = finding.severity;
+  }
+  return worst;
+}
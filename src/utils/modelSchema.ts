@@ -0,0 +1,323 @@
+/**
+ * Structural validation of Modelka models against the DiagramElement / ThreatActor schema
+ */
+import { DiagramElement, ThreatActor } from '../types/diagram';
+
+export interface SchemaIssue {
+  severity: 'error' | 'warning';
+  /** JSON path of the offending value, e.g. `elements[3].threats[0].severity` */
+  path: string;
+  message: string;
+}
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  issues: SchemaIssue[];
+  elements: DiagramElement[];
+  threatActors: ThreatActor[];
+}
+
+const ELEMENT_TYPES = ['external-entity', 'process', 'data-store', 'data-flow', 'trust-boundary'];
+const SEVERITIES = ['low', 'medium', 'high', 'critical'];
+const STRIDE_CATEGORIES = [
+  'spoofing',
+  'tampering',
+  'repudiation',
+  'information-disclosure',
+  'denial-of-service',
+  'elevation-of-privilege',
+];
+const RISK_METHODS = ['likelihood-impact', 'dread', 'cvss'];
+const TECHNOLOGY_CATEGORIES = ['web-server', 'database', 'api', 'mobile-app', 'container', 'network', 'other'];
+const ASSET_TYPES = ['data', 'system', 'service', 'user', 'physical', 'other'];
+const EDGES = ['top', 'bottom', 'left', 'right'];
+const ACTOR_TYPES = ['insider', 'outsider', 'nation-state', 'criminal', 'hacktivist', 'competitor', 'other'];
+const ACTOR_SKILLS = ['low', 'medium', 'high', 'expert'];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Collects issues while walking a model
+ */
+class IssueCollector {
+  issues: SchemaIssue[] = [];
+
+  error(path: string, message: string): void {
+    this.issues.push({ severity: 'error', path, message });
+  }
+
+  warning(path: string, message: string): void {
+    this.issues.push({ severity: 'warning', path, message });
+  }
+
+  string(value: unknown, path: string, required = true): void {
+    if (value === undefined && !required) return;
+    if (typeof value !== 'string') {
+      this.error(path, 'must be a string');
+    }
+  }
+
+  nonEmptyString(value: unknown, path: string): void {
+    if (typeof value !== 'string' || value.length === 0) {
+      this.error(path, 'must be a non-empty string');
+    }
+  }
+
+  oneOf(value: unknown, allowed: string[], path: string, required = true): void {
+    if (value === undefined && !required) return;
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      this.error(path, `must be one of: ${allowed.join(', ')}`);
+    }
+  }
+
+  array(value: unknown, path: string, required = true): value is any[] {
+    if (Array.isArray(value)) return true;
+    if (value !== undefined || required) {
+      this.error(path, 'must be an array');
+    }
+    return false;
+  }
+}
+
+/**
+ * Validate a model file's `elements` / `threatActors` (the shape `handleExport('json')` writes).
+ * Fields older exports may lack are reported as warnings, everything else as errors.
+ */
+export function validateModel(data: unknown): SchemaValidationResult {
+  const check = new IssueCollector();
+
+  if (!isObject(data)) {
+    check.error('$', 'model must be a JSON object');
+    return { valid: false, issues: check.issues, elements: [], threatActors: [] };
+  }
+
+  const elements = Array.isArray(data.elements) ? data.elements : [];
+  const threatActors = Array.isArray(data.threatActors) ? data.threatActors : [];
+
+  if (data.elements === undefined && data.threatActors === undefined) {
+    check.error('$', 'missing elements and threatActors');
+  }
+  check.array(data.elements, 'elements', false);
+  check.array(data.threatActors, 'threatActors', false);
+
+  const ids = new Map<string, number>();
+  elements.forEach((element: unknown, index: number) => {
+    validateElement(element, `elements[${index}]`, check);
+    if (isObject(element) && typeof element.id === 'string') {
+      if (ids.has(element.id)) {
+        check.error(`elements[${index}].id`, `duplicate id (also used by elements[${ids.get(element.id)}])`);
+      } else {
+        ids.set(element.id, index);
+      }
+    }
+  });
+
+  // Data flows connect non-flow elements. Unconnected and dangling ends are
+  // not structural errors - the `dangling-flow` lint rule reports them (see utils/modelLint)
+  elements.forEach((element: any, index: number) => {
+    if (!isObject(element) || element.type !== 'data-flow') return;
+    for (const end of ['sourceId', 'targetId'] as const) {
+      const path = `elements[${index}].${end}`;
+      if (element[end] === undefined) continue;
+      if (typeof element[end] !== 'string') {
+        check.error(path, 'must be an element id');
+        continue;
+      }
+      const target = elements[ids.get(element[end]) ?? -1];
+      if (target?.type === 'data-flow') {
+        check.error(path, 'data flow cannot connect to another data flow');
+      }
+    }
+  });
+
+  // Sub-diagrams belong to processes, and flows stay within one level of one diagram
+  const levelOf = (element: any) => (typeof element?.parentId === 'string' ? element.parentId : null);
+  elements.forEach((element: any, index: number) => {
+    if (!isObject(element)) return;
+    const path = `elements[${index}]`;
+    check.string(element.parentId, `${path}.parentId`, false);
+    check.string(element.interfaceOf, `${path}.interfaceOf`, false);
+
+    if (typeof element.parentId === 'string') {
+      const parent = elements[ids.get(element.parentId) ?? -1];
+      const seen = new Set<string>([element.id]);
+      let ancestor = parent;
+      while (ancestor && typeof ancestor.parentId === 'string' && !seen.has(ancestor.id)) {
+        seen.add(ancestor.id);
+        ancestor = elements[ids.get(ancestor.parentId) ?? -1];
+      }
+      if (!parent) {
+        check.error(`${path}.parentId`, `references unknown element "${element.parentId}"`);
+      } else if (parent.type !== 'process') {
+        check.error(`${path}.parentId`, 'only processes have sub-diagrams');
+      } else if (ancestor && seen.has(ancestor.id)) {
+        check.error(`${path}.parentId`, 'sub-diagrams are nested in a loop');
+      }
+    }
+    if (typeof element.interfaceOf === 'string') {
+      if (!ids.has(element.interfaceOf)) {
+        check.warning(`${path}.interfaceOf`, `stands in for unknown element "${element.interfaceOf}"`);
+      } else if (levelOf(element) === null) {
+        check.error(`${path}.interfaceOf`, 'only elements in a sub-diagram stand in for others');
+      }
+    }
+    // Diagrams of a project, and elements placed in several of them
+    check.string(element.view, `${path}.view`, false);
+    check.string(element.refId, `${path}.refId`, false);
+    if (typeof element.refId === 'string') {
+      const original = elements[ids.get(element.refId) ?? -1];
+      if (!original) {
+        check.error(`${path}.refId`, `references unknown element "${element.refId}"`);
+      } else if (typeof original.refId === 'string') {
+        check.error(`${path}.refId`, 'must reference the original, not another reference');
+      } else if (original.type !== element.type || !['external-entity', 'process', 'data-store'].includes(element.type)) {
+        check.error(`${path}.refId`, 'only entities, processes and stores are placed in several diagrams, as the same type');
+      }
+    }
+    if (element.type === 'data-flow') {
+      for (const end of ['sourceId', 'targetId'] as const) {
+        const target = elements[ids.get(element[end]) ?? -1];
+        if (target && (target.view ?? null) !== (element.view ?? null)) {
+          check.error(`${path}.${end}`, 'data flow connects elements of different diagrams');
+        }
+        if (target && levelOf(target) !== levelOf(element)) {
+          check.error(`${path}.${end}`, 'data flow connects elements of different diagram levels');
+        }
+      }
+    }
+  });
+
+  threatActors.forEach((actor: unknown, index: number) => {
+    validateThreatActor(actor, `threatActors[${index}]`, check);
+  });
+
+  return {
+    valid: !check.issues.some(issue => issue.severity === 'error'),
+    issues: check.issues,
+    elements: elements as DiagramElement[],
+    threatActors: threatActors as ThreatActor[],
+  };
+}
+
+function validateElement(element: unknown, path: string, check: IssueCollector): void {
+  if (!isObject(element)) {
+    check.error(path, 'must be an object');
+    return;
+  }
+
+  check.nonEmptyString(element.id, `${path}.id`);
+  check.oneOf(element.type, ELEMENT_TYPES, `${path}.type`);
+  check.string(element.name, `${path}.name`);
+
+  if (!isObject(element.position) || !isNumber(element.position.x) || !isNumber(element.position.y)) {
+    check.error(`${path}.position`, 'must be { x: number, y: number }');
+  }
+  if (!isObject(element.size) || !isNumber(element.size.width) || !isNumber(element.size.height)) {
+    check.error(`${path}.size`, 'must be { width: number, height: number }');
+  }
+
+  check.string(element.notes, `${path}.notes`, false);
+  check.string(element.description, `${path}.description`, false);
+  if (element.notes === undefined || element.description === undefined) {
+    check.warning(path, 'missing notes/description (written by older exports)');
+  }
+
+  if (check.array(element.threats, `${path}.threats`)) {
+    element.threats.forEach((threat: unknown, index: number) =>
+      validateThreat(threat, `${path}.threats[${index}]`, check)
+    );
+  }
+
+  if (check.array(element.technologies, `${path}.technologies`)) {
+    element.technologies.forEach((tech: any, index: number) => {
+      const techPath = `${path}.technologies[${index}]`;
+      if (!isObject(tech)) {
+        check.error(techPath, 'must be an object');
+        return;
+      }
+      check.nonEmptyString(tech.id, `${techPath}.id`);
+      check.string(tech.name, `${techPath}.name`);
+      check.oneOf(tech.category, TECHNOLOGY_CATEGORIES, `${techPath}.category`);
+    });
+  }
+
+  if (check.array(element.assets, `${path}.assets`, false)) {
+    element.assets.forEach((asset: any, index: number) => {
+      const assetPath = `${path}.assets[${index}]`;
+      if (!isObject(asset)) {
+        check.error(assetPath, 'must be an object');
+        return;
+      }
+      check.nonEmptyString(asset.id, `${assetPath}.id`);
+      check.string(asset.name, `${assetPath}.name`);
+      check.oneOf(asset.type, ASSET_TYPES, `${assetPath}.type`);
+      check.oneOf(asset.value, SEVERITIES, `${assetPath}.value`);
+    });
+  }
+
+  if (element.type === 'data-flow') {
+    check.oneOf(element.sourceEdge, EDGES, `${path}.sourceEdge`, false);
+    check.oneOf(element.targetEdge, EDGES, `${path}.targetEdge`, false);
+  }
+}
+
+function validateThreat(threat: unknown, path: string, check: IssueCollector): void {
+  if (!isObject(threat)) {
+    check.error(path, 'must be an object');
+    return;
+  }
+
+  check.nonEmptyString(threat.id, `${path}.id`);
+  check.string(threat.title, `${path}.title`);
+  check.string(threat.description, `${path}.description`);
+  check.oneOf(threat.severity, SEVERITIES, `${path}.severity`);
+  check.oneOf(threat.strideCategory, STRIDE_CATEGORIES, `${path}.strideCategory`);
+
+  if (threat.risk !== undefined) {
+    if (!isObject(threat.risk)) {
+      check.error(`${path}.risk`, 'must be an object');
+    } else {
+      check.oneOf(threat.risk.method, RISK_METHODS, `${path}.risk.method`);
+      for (const factor of ['likelihood', 'impact', 'cvssScore']) {
+        if (threat.risk[factor] !== undefined && !isNumber(threat.risk[factor])) {
+          check.error(`${path}.risk.${factor}`, 'must be a number');
+        }
+      }
+      check.string(threat.risk.cvssVector, `${path}.risk.cvssVector`, false);
+    }
+  }
+
+  if (check.array(threat.controls, `${path}.controls`)) {
+    threat.controls.forEach((control: any, index: number) => {
+      const controlPath = `${path}.controls[${index}]`;
+      if (!isObject(control)) {
+        check.error(controlPath, 'must be an object');
+        return;
+      }
+      check.nonEmptyString(control.id, `${controlPath}.id`);
+      check.string(control.name, `${controlPath}.name`);
+      if (typeof control.implemented !== 'boolean') {
+        check.error(`${controlPath}.implemented`, 'must be a boolean');
+      }
+    });
+  }
+}
+
+function validateThreatActor(actor: unknown, path: string, check: IssueCollector): void {
+  if (!isObject(actor)) {
+    check.error(path, 'must be an object');
+    return;
+  }
+
+  check.nonEmptyString(actor.id, `${path}.id`);
+  check.string(actor.name, `${path}.name`);
+  check.oneOf(actor.type, ACTOR_TYPES, `${path}.type`);
+  check.oneOf(actor.skill, ACTOR_SKILLS, `${path}.skill`);
+  check.string(actor.motivation, `${path}.motivation`, false);
+  check.string(actor.description, `${path}.description`, false);
+  check.array(actor.capabilities, `${path}.capabilities`, false);
+}
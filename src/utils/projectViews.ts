@@ -0,0 +1,111 @@
+/**
+ * Projects with several named diagrams ("views") over one shared model.
+ *
+ * Like diagram levels, views live in the flat element list, so a project
+ * syncs as a single room: each element's `view` names the diagram it is
+ * drawn in (unset: the main diagram). An entity, process or store can be
+ * placed in more diagrams as a reference (`refId`) - an appearance with a
+ * position of its own whose name, threats, technologies, assets and notes
+ * are the original's, so editing any appearance edits them all.
+ */
+import { DiagramElement } from '../types/diagram';
+
+/** A diagram of the project: its name, or null for the main diagram */
+export type ViewId = string | null;
+
+export const MAIN_VIEW_NAME = 'Main';
+
+/** What a reference shares with its original; everything else is per appearance */
+export const SHARED_FIELDS = ['name', 'threats', 'technologies', 'assets', 'description', 'notes', 'dismissedSuggestions', 'extensions'] as const;
+
+export const viewOf = (element: DiagramElement): ViewId => element.view ?? null;
+
+export function elementsInView(elements: DiagramElement[], view: ViewId): DiagramElement[] {
+  return elements.filter(element => viewOf(element) === view);
+}
+
+/**
+ * The project's named diagrams, in the order they first appear - the main diagram is not listed
+ */
+export function listViews(elements: DiagramElement[]): string[] {
+  return [...new Set(elements.map(element => element.view).filter((view): view is string => !!view))];
+}
+
+/**
+ * Elements that can be placed in other diagrams: entities, processes and
+ * stores that are originals, and not sub-diagram interfaces
+ */
+export function libraryElements(elements: DiagramElement[]): DiagramElement[] {
+  return elements.filter(element =>
+    ['external-entity', 'process', 'data-store'].includes(element.type) && !element.refId && !element.interfaceOf
+  );
+}
+
+export function referencesTo(elements: DiagramElement[], elementId: string): DiagramElement[] {
+  return elements.filter(element => element.refId === elementId);
+}
+
+/**
+ * The given element ids plus every reference to them, so deleting an original removes all its appearances
+ */
+export function withReferences(elements: DiagramElement[], ids: string[]): string[] {
+  const deleted = new Set(ids);
+  return [...ids, ...elements.filter(element => element.refId && deleted.has(element.refId) && !deleted.has(element.id)).map(element => element.id)];
+}
+
+/**
+ * Elements as they are drawn and edited: references show their original's shared fields
+ */
+export function resolveReferences(elements: DiagramElement[]): DiagramElement[] {
+  const byId = new Map(elements.map(element => [element.id, element]));
+  return elements.map(element => resolveReference(element, byId));
+}
+
+export function resolveReference(element: DiagramElement, byId: Map<string, DiagramElement>): DiagramElement {
+  const original = element.refId ? byId.get(element.refId) : undefined;
+  if (!original) return element;
+  const shared = Object.fromEntries(SHARED_FIELDS.filter(field => field in original).map(field => [field, original[field]]));
+  return { ...element, ...shared, type: original.type };
+}
+
+/**
+ * Split an edit of a reference into what goes to the original and what stays with the appearance
+ */
+export function splitReferencePatch(patch: Partial<DiagramElement>): { shared: Partial<DiagramElement>; own: Partial<DiagramElement> } {
+  const shared: Record<string, unknown> = {};
+  const own: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(patch)) {
+    if ((SHARED_FIELDS as readonly string[]).includes(field)) shared[field] = value;
+    else if (field !== 'id' && field !== 'type' && field !== 'refId') own[field] = value;
+  }
+  return { shared, own };
+}
+
+/**
+ * A new appearance of `original` in a diagram. It keeps a copy of the name
+ * (kept current by the state manager) so lists of raw elements read well.
+ */
+export function placeReference(original: DiagramElement, view: ViewId, position: { x: number; y: number }): DiagramElement {
+  return {
+    id: `${original.type}-${crypto.randomUUID()}`,
+    type: original.type,
+    name: original.name,
+    position,
+    size: { ...original.size },
+    threats: [],
+    technologies: [],
+    description: '',
+    notes: '',
+    assets: [],
+    refId: original.id,
+    ...(view ? { view } : {}),
+  };
+}
+
+/**
+ * Diagrams an original element appears in, itself included
+ */
+export function appearancesOf(elements: DiagramElement[], elementId: string): ViewId[] {
+  const original = elements.find(element => element.id === elementId);
+  return [...new Set([...(original ? [original] : []), ...referencesTo(elements, elementId)].map(viewOf))];
+}
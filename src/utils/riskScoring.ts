@@ -0,0 +1,262 @@
+// src/utils/riskScoring.ts - Pluggable risk scoring for threats
+import { DiagramElement, DreadScores, RiskAssessment, RiskMethod, Threat, ThreatSeverity } from '../types/diagram';
+
+/**
+ * A scoring method. Scores are normalized to 0-10 so methods can be compared and sorted together.
+ */
+export interface RiskScorer {
+  method: RiskMethod;
+  name: string;
+  /** Returns null when the assessment is incomplete or invalid */
+  score(assessment: RiskAssessment): number | null;
+}
+
+/** Baseline scores for threats that only have a hand-picked severity */
+const SEVERITY_BASELINE: Record<ThreatSeverity, number> = {
+  low: 2,
+  medium: 5,
+  high: 7.5,
+  critical: 9.5,
+};
+
+export const DREAD_COMPONENTS: Array<{ key: keyof DreadScores; name: string }> = [
+  { key: 'damage', name: 'Damage' },
+  { key: 'reproducibility', name: 'Reproducibility' },
+  { key: 'exploitability', name: 'Exploitability' },
+  { key: 'affectedUsers', name: 'Affected users' },
+  { key: 'discoverability', name: 'Discoverability' },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/* ---------- CVSS ---------- */
+
+const CVSS31_WEIGHTS: Record<string, Record<string, number>> = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+  AC: { L: 0.77, H: 0.44 },
+  UI: { N: 0.85, R: 0.62 },
+  C: { H: 0.56, L: 0.22, N: 0 },
+  I: { H: 0.56, L: 0.22, N: 0 },
+  A: { H: 0.56, L: 0.22, N: 0 },
+};
+
+/** Privileges Required depends on Scope */
+const CVSS31_PR: Record<'U' | 'C', Record<string, number>> = {
+  U: { N: 0.85, L: 0.62, H: 0.27 },
+  C: { N: 0.85, L: 0.68, H: 0.5 },
+};
+
+const CVSS40_BASE_METRICS = ['AV', 'AC', 'AT', 'PR', 'UI', 'VC', 'VI', 'VA', 'SC', 'SI', 'SA'];
+
+/**
+ * Parse `CVSS:x.y/AV:N/...` into its version and metrics
+ */
+export function parseCvssVector(vector: string): { version: '3.1' | '4.0'; metrics: Record<string, string> } | null {
+  const [prefix, ...parts] = vector.trim().split('/');
+  const version = prefix === 'CVSS:3.1' || prefix === 'CVSS:3.0' ? '3.1' : prefix === 'CVSS:4.0' ? '4.0' : null;
+  if (!version) return null;
+
+  const metrics: Record<string, string> = {};
+  for (const part of parts) {
+    const [metric, value] = part.split(':');
+    if (!metric || !value || metric in metrics) return null;
+    metrics[metric] = value;
+  }
+  return { version, metrics };
+}
+
+/** CVSS v3.1 "Roundup" - smallest number with one decimal that is >= the input */
+function roundUp(value: number): number {
+  const intInput = Math.round(value * 100000);
+  return intInput % 10000 === 0 ? intInput / 100000 : (Math.floor(intInput / 10000) + 1) / 10;
+}
+
+/**
+ * CVSS v3.1 base score (FIRST specification, section 7.1)
+ */
+export function cvss31BaseScore(metrics: Record<string, string>): number | null {
+  const scope = metrics.S;
+  if (scope !== 'U' && scope !== 'C') return null;
+
+  const weight = (metric: string) => CVSS31_WEIGHTS[metric][metrics[metric]];
+  const pr = CVSS31_PR[scope][metrics.PR];
+  const values = [weight('AV'), weight('AC'), weight('UI'), weight('C'), weight('I'), weight('A'), pr];
+  if (values.some(value => value === undefined)) return null;
+
+  const iss = 1 - (1 - weight('C')) * (1 - weight('I')) * (1 - weight('A'));
+  const impact = scope === 'U'
+    ? 6.42 * iss
+    : 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15);
+  const exploitability = 8.22 * weight('AV') * weight('AC') * pr * weight('UI');
+
+  if (impact <= 0) return 0;
+  return scope === 'U'
+    ? roundUp(Math.min(impact + exploitability, 10))
+    : roundUp(Math.min(1.08 * (impact + exploitability), 10));
+}
+
+/* ---------- scorers ---------- */
+
+const likelihoodImpactScorer: RiskScorer = {
+  method: 'likelihood-impact',
+  name: 'Likelihood × Impact',
+  score: ({ likelihood, impact }) => {
+    if (!likelihood || !impact) return null;
+    // 1-25 matrix mapped onto 0-10
+    return round1(clamp(likelihood, 1, 5) * clamp(impact, 1, 5) / 2.5);
+  },
+};
+
+const dreadScorer: RiskScorer = {
+  method: 'dread',
+  name: 'DREAD',
+  score: ({ dread }) => {
+    if (!dread) return null;
+    const values = DREAD_COMPONENTS.map(({ key }) => dread[key]);
+    if (values.some(value => typeof value !== 'number' || Number.isNaN(value))) return null;
+    return round1(values.reduce((sum, value) => sum + clamp(value, 0, 10), 0) / values.length);
+  },
+};
+
+const cvssScorer: RiskScorer = {
+  method: 'cvss',
+  name: 'CVSS',
+  score: ({ cvssVector }) => {
+    const parsed = cvssVector ? parseCvssVector(cvssVector) : null;
+    if (!parsed) return null;
+
+    // CVSS 4.0 scores come from the FIRST macro-vector lookup tables, which we don't ship -
+    // a 4.0 vector yields no computed score (see enteredCvss40Score)
+    return parsed.version === '3.1' ? cvss31BaseScore(parsed.metrics) : null;
+  },
+};
+
+/**
+ * The base score typed in next to a complete CVSS 4.0 vector. It can't be checked
+ * against the vector, so the severity it gives counts as a manual override.
+ */
+export function enteredCvss40Score(risk: RiskAssessment | undefined): number | null {
+  if (risk?.method !== 'cvss' || !risk.cvssVector || typeof risk.cvssScore !== 'number') return null;
+  const parsed = parseCvssVector(risk.cvssVector);
+  if (parsed?.version !== '4.0' || !CVSS40_BASE_METRICS.every(metric => metric in parsed.metrics)) return null;
+  return clamp(risk.cvssScore, 0, 10);
+}
+
+/**
+ * Registered scoring methods - add an entry here to support another method
+ */
+export const RISK_SCORERS: Record<RiskMethod, RiskScorer> = {
+  'likelihood-impact': likelihoodImpactScorer,
+  'dread': dreadScorer,
+  'cvss': cvssScorer,
+};
+
+/**
+ * Score of the threat's risk assessment, or null if it has none (or it is incomplete)
+ */
+export function computeAssessmentScore(threat: Threat): number | null {
+  if (!threat.risk) return null;
+  return RISK_SCORERS[threat.risk.method]?.score(threat.risk) ?? null;
+}
+
+/**
+ * Risk score used for ordering and reporting (0-10).
+ * Manually overridden severities and unassessed threats fall back to the severity baseline.
+ */
+export function getRiskScore(threat: Threat): number {
+  const score = threat.severityOverride ? null : computeAssessmentScore(threat);
+  return score ?? SEVERITY_BASELINE[threat.severity];
+}
+
+/**
+ * Severity band for a 0-10 score (CVSS qualitative rating scale)
+ */
+export function severityFromScore(score: number): ThreatSeverity {
+  if (score >= 9) return 'critical';
+  if (score >= 7) return 'high';
+  if (score >= 4) return 'medium';
+  return 'low';
+}
+
+/**
+ * Update a threat's assessment, re-deriving its severity unless it was overridden
+ */
+export function applyRiskAssessment(threat: Threat, risk: RiskAssessment | undefined): Threat {
+  const updated: Threat = { ...threat, risk };
+  if (!risk) {
+    return { ...updated, severityOverride: undefined };
+  }
+
+  const score = computeAssessmentScore(updated);
+  if (score !== null && !threat.severityOverride) {
+    updated.severity = severityFromScore(score);
+    return updated;
+  }
+
+  const entered = enteredCvss40Score(risk);
+  if (entered !== null && entered !== enteredCvss40Score(threat.risk)) {
+    return { ...updated, severity: severityFromScore(entered), severityOverride: true };
+  }
+  return updated;
+}
+
+/**
+ * Set a severity by hand. It is flagged as an override when it differs from the derived one,
+ * and always next to a hand-entered CVSS 4.0 score.
+ */
+export function overrideSeverity(threat: Threat, severity: ThreatSeverity): Threat {
+  const score = computeAssessmentScore(threat);
+  const overridden = score !== null
+    ? severityFromScore(score) !== severity
+    : enteredCvss40Score(threat.risk) !== null;
+  return { ...threat, severity, severityOverride: overridden || undefined };
+}
+
+/**
+ * Drop a manual override and go back to the derived severity
+ */
+export function clearSeverityOverride(threat: Threat): Threat {
+  const score = computeAssessmentScore(threat);
+  return {
+    ...threat,
+    severity: score !== null ? severityFromScore(score) : threat.severity,
+    severityOverride: undefined,
+  };
+}
+
+/**
+ * Sort threats by descending risk score
+ */
+export function compareByRisk(a: Threat, b: Threat): number {
+  return getRiskScore(b) - getRiskScore(a);
+}
+
+/**
+ * Risk posture of a set of elements, for comparing versions of a model.
+ * Residual risk sums the scores of unmitigated threats - those with no implemented control.
+ */
+export interface RiskSummary {
+  threats: number;
+  unmitigated: number;
+  bySeverity: Record<ThreatSeverity, number>;
+  averageRisk: number;
+  residualRisk: number;
+}
+
+export const isMitigated = (threat: Threat) => threat.controls.some(control => control.implemented);
+
+export function summarizeRisk(elements: DiagramElement[]): RiskSummary {
+  const threats = elements.flatMap(element => element.threats);
+  const bySeverity: Record<ThreatSeverity, number> = { low: 0, medium: 0, high: 0, critical: 0 };
+  threats.forEach(threat => { bySeverity[threat.severity]++; });
+  const unmitigated = threats.filter(threat => !isMitigated(threat));
+  return {
+    threats: threats.length,
+    unmitigated: unmitigated.length,
+    bySeverity,
+    averageRisk: threats.length > 0 ? round1(threats.reduce((sum, threat) => sum + getRiskScore(threat), 0) / threats.length) : 0,
+    residualRisk: round1(unmitigated.reduce((sum, threat) => sum + getRiskScore(threat), 0)),
+  };
+}
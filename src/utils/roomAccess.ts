@@ -0,0 +1,179 @@
+// src/utils/roomAccess.ts - Edit and read-only room capabilities derived from the invite passphrase
+import { deriveRoomMasterSecret } from './roomCrypto';
+
+/**
+ * An edit invite carries the passphrase and the room salt. From them we
+ * derive two things:
+ *
+ * - the transport secret, which encrypts all room traffic, and
+ * - an Ed25519 "edit key" pair.
+ *
+ * A read-only link carries only the transport secret and the edit *public*
+ * key. Holders can decrypt and follow the room but cannot produce an edit
+ * grant: a signature by the edit key over their identity key. Every peer
+ * accepts changes only from identity keys with a valid grant, so a read-only
+ * link cannot emit operations, whatever its holder's client does.
+ */
+
+export interface RoomAccess {
+  roomId: string;
+  transportSecret: string;    // encrypts traffic; both link types carry it
+  editPublicKey: string;      // base64url raw Ed25519 key, verifies edit grants
+  editKey: CryptoKey | null;  // null when joined through a read-only link
+}
+
+/** What a link (or a key rotation) hands out: edit or read-only access */
+export type RoomCredentials =
+  | { kind: 'edit'; passphrase: string; salt: string | null }
+  | { kind: 'read-only'; transportSecret: string; editPublicKey: string };
+
+// PKCS#8 wrapping of a raw 32-byte Ed25519 seed
+const ED25519_PKCS8_PREFIX = Uint8Array.from([
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x04, 0x22, 0x04, 0x20,
+]);
+
+const toBase64Url = (bytes: ArrayBuffer | Uint8Array) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0));
+
+async function hkdf(masterSecret: ArrayBuffer, roomId: string, purpose: string): Promise<ArrayBuffer> {
+  const base = await crypto.subtle.importKey('raw', masterSecret, 'HKDF', false, ['deriveBits']);
+  return crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: new TextEncoder().encode(roomId), info: new TextEncoder().encode(purpose) },
+    base,
+    256,
+  );
+}
+
+/**
+ * Secret that encrypts room traffic, shared by edit and read-only links.
+ */
+export async function deriveTransportSecret(roomId: string, passphrase: string, salt: string | null): Promise<string> {
+  const master = await deriveRoomMasterSecret(roomId, passphrase, salt);
+  return toBase64Url(await hkdf(master, roomId, 'modelka-transport'));
+}
+
+/**
+ * Full (edit) access from an invite passphrase. Needs Ed25519 in WebCrypto.
+ */
+export async function accessFromPassphrase(roomId: string, passphrase: string, salt: string | null): Promise<RoomAccess> {
+  const transportSecret = await deriveTransportSecret(roomId, passphrase, salt);
+
+  const master = await deriveRoomMasterSecret(roomId, passphrase, salt);
+  const seed = new Uint8Array(await hkdf(master, roomId, 'modelka-edit'));
+  const pkcs8 = new Uint8Array(ED25519_PKCS8_PREFIX.length + seed.length);
+  pkcs8.set(ED25519_PKCS8_PREFIX, 0);
+  pkcs8.set(seed, ED25519_PKCS8_PREFIX.length);
+
+  // Extractable once, only to read the public half out of the JWK
+  const exportable = await crypto.subtle.importKey('pkcs8', pkcs8, { name: 'Ed25519' }, true, ['sign']);
+  const jwk = await crypto.subtle.exportKey('jwk', exportable);
+  const editKey = await crypto.subtle.importKey('pkcs8', pkcs8, { name: 'Ed25519' }, false, ['sign']);
+
+  return { roomId, transportSecret, editPublicKey: jwk.x!, editKey };
+}
+
+/**
+ * Read-only access from the `v` (transport secret) and `e` (edit public key) link parameters.
+ */
+export function accessFromReadOnlyLink(roomId: string, transportSecret: string, editPublicKey: string): RoomAccess {
+  return { roomId, transportSecret, editPublicKey, editKey: null };
+}
+
+const grantMessage = (access: RoomAccess, signerKey: string) =>
+  new TextEncoder().encode(`modelka-edit-grant:${access.roomId}:${signerKey}`);
+
+/**
+ * Grant an identity key edit rights; null without the edit key.
+ */
+export async function issueEditGrant(access: RoomAccess, signerKey: string): Promise<string | null> {
+  if (!access.editKey) return null;
+  return toBase64Url(await crypto.subtle.sign({ name: 'Ed25519' }, access.editKey, grantMessage(access, signerKey)));
+}
+
+const publicKeys = new Map<string, Promise<CryptoKey>>();
+
+export async function verifyEditGrant(access: RoomAccess, signerKey: string, grant: string): Promise<boolean> {
+  try {
+    let key = publicKeys.get(access.editPublicKey);
+    if (!key) {
+      key = crypto.subtle.importKey('raw', fromBase64Url(access.editPublicKey), { name: 'Ed25519' }, false, ['verify']);
+      publicKeys.set(access.editPublicKey, key);
+    }
+    return await crypto.subtle.verify({ name: 'Ed25519' }, await key, fromBase64Url(grant), grantMessage(access, signerKey));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Identity keys that have shown a valid edit grant in this room session.
+ */
+export class EditGrants {
+  private granted = new Set<string>();
+
+  constructor(private readonly access: RoomAccess) {}
+
+  /**
+   * Check a grant a peer presented for its key. Returns whether the key may edit.
+   */
+  async present(signerKey: string | undefined, grant: unknown): Promise<boolean> {
+    if (!signerKey) return false;
+    if (this.granted.has(signerKey)) return true;
+    if (typeof grant === 'string' && await verifyEditGrant(this.access, signerKey, grant)) {
+      this.granted.add(signerKey);
+      return true;
+    }
+    return false;
+  }
+
+  has(signerKey: string | null | undefined): boolean {
+    return !!signerKey && this.granted.has(signerKey);
+  }
+}
+
+/* ---------------------- handing out rotated keys ----------------------- */
+
+const EXCHANGE_PARAMS: EcKeyImportParams = { name: 'ECDH', namedCurve: 'P-256' };
+
+/**
+ * Per-session key pair peers announce (inside their signed identity) so a new
+ * room key can be sent to each of them alone - traffic encrypted with the old
+ * room key is readable by everyone who still holds it.
+ */
+export async function createExchangeKey(): Promise<{ publicKey: string; privateKey: CryptoKey }> {
+  const keys = await crypto.subtle.generateKey(EXCHANGE_PARAMS, false, ['deriveKey']) as CryptoKeyPair;
+  return { publicKey: toBase64Url(await crypto.subtle.exportKey('spki', keys.publicKey)), privateKey: keys.privateKey };
+}
+
+async function sharedKey(ownPrivateKey: CryptoKey, theirPublicKey: string): Promise<CryptoKey> {
+  const publicKey = await crypto.subtle.importKey('spki', fromBase64Url(theirPublicKey), EXCHANGE_PARAMS, false, []);
+  return crypto.subtle.deriveKey({ name: 'ECDH', public: publicKey }, ownPrivateKey, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Encrypt credentials so only the holder of `recipientPublicKey` can read them.
+ */
+export async function sealCredentials(credentials: RoomCredentials, ownPrivateKey: CryptoKey, recipientPublicKey: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await sharedKey(ownPrivateKey, recipientPublicKey),
+    new TextEncoder().encode(JSON.stringify(credentials)),
+  );
+  return `${toBase64Url(iv)}.${toBase64Url(ciphertext)}`;
+}
+
+/**
+ * Inverse of sealCredentials. Throws when the credentials were not sealed for us.
+ */
+export async function openCredentials(sealed: string, ownPrivateKey: CryptoKey, senderPublicKey: string): Promise<RoomCredentials> {
+  const [iv, ciphertext] = sealed.split('.');
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64Url(iv) },
+    await sharedKey(ownPrivateKey, senderPublicKey),
+    fromBase64Url(ciphertext),
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
@@ -0,0 +1,83 @@
+// src/utils/roomCrypto.ts - Application-level AES-GCM encryption shared by all transports
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256
+export const PASSPHRASE_ITERATIONS = 600_000;
+
+const toBase64Url = (bytes: ArrayBuffer | Uint8Array) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/**
+ * Fresh random salt for a new room (or a rotated key), carried in invite links as `n`.
+ */
+export function makeRoomSalt(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+const masterSecrets = new Map<string, Promise<ArrayBuffer>>();
+
+/**
+ * Stretch the invite passphrase into the room's 256-bit master secret
+ * (PBKDF2-SHA-256, per-room salt). Links from before per-room salts have no
+ * salt; they fall back to one derived from the room id. Cached, as this is
+ * deliberately slow.
+ */
+export function deriveRoomMasterSecret(roomId: string, passphrase: string, salt: string | null): Promise<ArrayBuffer> {
+  const cacheKey = `${roomId}\n${salt ?? ''}\n${passphrase}`;
+  let secret = masterSecrets.get(cacheKey);
+  if (!secret) {
+    secret = (async () => {
+      const base = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+      return crypto.subtle.deriveBits(
+        {
+          name: 'PBKDF2',
+          salt: new TextEncoder().encode(salt ?? `modelka-legacy-salt:${roomId}`),
+          iterations: PASSPHRASE_ITERATIONS,
+          hash: 'SHA-256',
+        },
+        base,
+        256,
+      );
+    })();
+    masterSecrets.set(cacheKey, secret);
+  }
+  return secret;
+}
+
+/**
+ * Derive the AES-GCM room key from the transport secret. The secret is
+ * already 256 uniformly random bits (see roomAccess.ts), so HKDF suffices.
+ */
+export async function deriveRoomKey(transportSecret: string): Promise<CryptoKey> {
+  const base = await crypto.subtle.importKey('raw', new TextEncoder().encode(transportSecret), 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode('modelka-room-aes-gcm') },
+    base,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+/**
+ * Encrypt a JSON-serializable value; returns base64(iv || ciphertext).
+ */
+export async function encryptPayload(obj: unknown, key: CryptoKey): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const pt = new TextEncoder().encode(JSON.stringify(obj));
+  const ct = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, pt);
+  const blob = new Uint8Array(iv.byteLength + ct.byteLength);
+  blob.set(iv, 0);
+  blob.set(new Uint8Array(ct), iv.byteLength);
+  return btoa(String.fromCharCode(...blob));
+}
+
+/**
+ * Inverse of encryptPayload. Throws when the key does not match.
+ */
+export async function decryptPayload<T>(b64: string, key: CryptoKey): Promise<T> {
+  const raw = Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+  const iv = raw.slice(0, 12);
+  const ct = raw.slice(12);
+  const pt = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ct);
+  return JSON.parse(new TextDecoder().decode(pt));
+}
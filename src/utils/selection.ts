@@ -0,0 +1,93 @@
+/**
+ * Multi-selection helpers: marquee hit testing and group alignment
+ */
+import { DiagramElement } from '../types/diagram';
+import { Point } from './coordinates';
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+export interface ElementUpdate {
+  id: string;
+  patch: Partial<DiagramElement>;
+}
+
+/**
+ * Normalize a marquee drawn between two points (in any direction)
+ */
+export function rectFromPoints(a: Point, b: Point): { x: number; y: number; width: number; height: number } {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+  };
+}
+
+/**
+ * Get IDs of elements fully enclosed by the marquee.
+ * Data flows are included when both of their endpoints are selected.
+ */
+export function getElementsInMarquee(
+  elements: DiagramElement[],
+  rect: { x: number; y: number; width: number; height: number }
+): string[] {
+  const selected = new Set(
+    elements
+      .filter(el => el.type !== 'data-flow')
+      .filter(el =>
+        el.position.x >= rect.x &&
+        el.position.y >= rect.y &&
+        el.position.x + el.size.width <= rect.x + rect.width &&
+        el.position.y + el.size.height <= rect.y + rect.height
+      )
+      .map(el => el.id)
+  );
+
+  for (const flow of elements.filter(el => el.type === 'data-flow')) {
+    if (flow.sourceId && flow.targetId && selected.has(flow.sourceId) && selected.has(flow.targetId)) {
+      selected.add(flow.id);
+    }
+  }
+
+  return Array.from(selected);
+}
+
+/**
+ * Compute position updates that align the given elements to the group's bounding box
+ */
+export function alignElements(elements: DiagramElement[], mode: AlignMode): ElementUpdate[] {
+  const shapes = elements.filter(el => el.type !== 'data-flow');
+  if (shapes.length < 2) return [];
+
+  const left = Math.min(...shapes.map(el => el.position.x));
+  const top = Math.min(...shapes.map(el => el.position.y));
+  const right = Math.max(...shapes.map(el => el.position.x + el.size.width));
+  const bottom = Math.max(...shapes.map(el => el.position.y + el.size.height));
+
+  return shapes.map(el => {
+    const { x, y } = el.position;
+    const { width, height } = el.size;
+    const position = {
+      left: { x: left, y },
+      center: { x: (left + right) / 2 - width / 2, y },
+      right: { x: right - width, y },
+      top: { x, y: top },
+      middle: { x, y: (top + bottom) / 2 - height / 2 },
+      bottom: { x, y: bottom - height },
+    }[mode];
+
+    return { id: el.id, patch: { position } };
+  });
+}
+
+/**
+ * Compute position updates that move every element by the same offset
+ */
+export function translateElements(elements: DiagramElement[], delta: Point): ElementUpdate[] {
+  return elements
+    .filter(el => el.type !== 'data-flow')
+    .map(el => ({
+      id: el.id,
+      patch: { position: { x: el.position.x + delta.x, y: el.position.y + delta.y } },
+    }));
+}
@@ -0,0 +1,256 @@
+// src/utils/signing.ts - Per-browser identity keys for signing operations and events
+/**
+ * Every operation or event a peer sends is signed with a key pair that never
+ * leaves this browser: the private key is non-extractable and kept in
+ * IndexedDB. Receivers pin the first key they see for a user (trust on first
+ * use) and reject anything unsigned, tampered with, or signed by another key.
+ */
+
+export type SignatureAlgorithm = 'Ed25519' | 'ECDSA-P256';
+
+/** Fields a signed record carries next to its content */
+export interface Signed {
+  signature?: string; // base64 signature over the canonical JSON of everything else
+  signerKey?: string; // '<algorithm>:<base64 SPKI public key>'
+}
+
+export interface SigningIdentity {
+  algorithm: SignatureAlgorithm;
+  publicKey: string; // same encoding as Signed.signerKey
+  privateKey: CryptoKey;
+}
+
+export type VerificationResult = { valid: true } | { valid: false; reason: string };
+
+const DB_NAME = 'modelka-identity';
+const STORE = 'keys';
+const IDENTITY_KEY = 'signing';
+
+const toBase64 = (buffer: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(buffer)));
+const fromBase64 = (b64: string) => Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+
+function keyParams(algorithm: SignatureAlgorithm): EcKeyImportParams | Algorithm {
+  return algorithm === 'Ed25519' ? { name: 'Ed25519' } : { name: 'ECDSA', namedCurve: 'P-256' };
+}
+
+function signParams(algorithm: SignatureAlgorithm): EcdsaParams | Algorithm {
+  return algorithm === 'Ed25519' ? { name: 'Ed25519' } : { name: 'ECDSA', hash: 'SHA-256' };
+}
+
+/**
+ * JSON with object keys sorted at every level, so signer and verifier hash the
+ * same bytes whatever order the fields were built or parsed in.
+ */
+export function canonicalJson(value: unknown): string {
+  const sort = (v: unknown): unknown => {
+    if (Array.isArray(v)) return v.map(sort);
+    if (v && typeof v === 'object') {
+      return Object.keys(v as Record<string, unknown>).sort().reduce<Record<string, unknown>>((out, key) => {
+        out[key] = sort((v as Record<string, unknown>)[key]);
+        return out;
+      }, {});
+    }
+    return v;
+  };
+  // Round-trip first so undefined fields, toJSON and NaN behave exactly as on the wire
+  return JSON.stringify(sort(JSON.parse(JSON.stringify(value ?? null))));
+}
+
+/* ----------------------------- key storage ------------------------------ */
+
+function openIdentityDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function readStoredKeys(): Promise<{ algorithm: SignatureAlgorithm; keys: CryptoKeyPair } | undefined> {
+  const db = await openIdentityDb();
+  try {
+    return await new Promise((resolve, reject) => {
+      const request = db.transaction(STORE, 'readonly').objectStore(STORE).get(IDENTITY_KEY);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+async function storeKeys(algorithm: SignatureAlgorithm, keys: CryptoKeyPair): Promise<void> {
+  const db = await openIdentityDb();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE, 'readwrite');
+      tx.objectStore(STORE).put({ algorithm, keys }, IDENTITY_KEY);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+async function generateKeys(): Promise<{ algorithm: SignatureAlgorithm; keys: CryptoKeyPair }> {
+  // Ed25519 where the browser has it, ECDSA P-256 everywhere else
+  for (const algorithm of ['Ed25519', 'ECDSA-P256'] as SignatureAlgorithm[]) {
+    try {
+      const keys = await crypto.subtle.generateKey(keyParams(algorithm), false, ['sign', 'verify']) as CryptoKeyPair;
+      return { algorithm, keys };
+    } catch {
+      // not supported - try the next algorithm
+    }
+  }
+  throw new Error('This browser cannot generate signing keys');
+}
+
+async function createIdentity(): Promise<SigningIdentity> {
+  let stored: { algorithm: SignatureAlgorithm; keys: CryptoKeyPair } | undefined;
+  try {
+    stored = await readStoredKeys();
+  } catch (error) {
+    console.warn('⚠️ Identity key store unavailable, using a key for this session only:', error);
+  }
+
+  if (!stored) {
+    stored = await generateKeys();
+    try {
+      await storeKeys(stored.algorithm, stored.keys);
+      console.log(`🔑 Generated ${stored.algorithm} identity key`);
+    } catch (error) {
+      console.warn('⚠️ Could not persist identity key:', error);
+    }
+  }
+
+  const spki = await crypto.subtle.exportKey('spki', stored.keys.publicKey);
+  return {
+    algorithm: stored.algorithm,
+    publicKey: `${stored.algorithm}:${toBase64(spki)}`,
+    privateKey: stored.keys.privateKey,
+  };
+}
+
+let identityPromise: Promise<SigningIdentity> | null = null;
+
+/**
+ * This browser's signing identity, generated on first use.
+ */
+export function loadSigningIdentity(): Promise<SigningIdentity> {
+  if (!identityPromise) {
+    identityPromise = createIdentity().catch((error) => {
+      identityPromise = null; // allow a retry
+      throw error;
+    });
+  }
+  return identityPromise;
+}
+
+/**
+ * Delete this browser's identity key; the next load generates a new one.
+ */
+export async function forgetSigningIdentity(): Promise<void> {
+  identityPromise = null;
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => resolve(); // deleted once the last open connection closes
+  });
+}
+
+/* --------------------------- sign and verify ---------------------------- */
+
+/**
+ * Return a copy of the record with signerKey and signature set.
+ */
+export async function signRecord<T extends object>(record: T, identity: SigningIdentity): Promise<T & Signed> {
+  const { signature: _signature, ...content } = record as T & Signed;
+  const unsigned = { ...content, signerKey: identity.publicKey };
+  const signature = await crypto.subtle.sign(
+    signParams(identity.algorithm),
+    identity.privateKey,
+    new TextEncoder().encode(canonicalJson(unsigned)),
+  );
+  return { ...unsigned, signature: toBase64(signature) } as T & Signed;
+}
+
+const importedKeys = new Map<string, Promise<CryptoKey>>();
+
+function importSignerKey(signerKey: string): { algorithm: SignatureAlgorithm; key: Promise<CryptoKey> } {
+  const separator = signerKey.indexOf(':');
+  const algorithm = signerKey.slice(0, separator) as SignatureAlgorithm;
+  if (algorithm !== 'Ed25519' && algorithm !== 'ECDSA-P256') throw new Error(`Unknown signature algorithm ${algorithm}`);
+
+  let key = importedKeys.get(signerKey);
+  if (!key) {
+    key = crypto.subtle.importKey('spki', fromBase64(signerKey.slice(separator + 1)), keyParams(algorithm), false, ['verify']);
+    importedKeys.set(signerKey, key);
+  }
+  return { algorithm, key };
+}
+
+/**
+ * Check a record's signature against the key it names (not who that key belongs to).
+ */
+export async function verifyRecord(record: object & Signed): Promise<boolean> {
+  const { signature, ...content } = record;
+  if (!signature || !content.signerKey) return false;
+  try {
+    const { algorithm, key } = importSignerKey(content.signerKey);
+    return await crypto.subtle.verify(
+      signParams(algorithm),
+      await key,
+      fromBase64(signature),
+      new TextEncoder().encode(canonicalJson(content)),
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Short, URL-safe fingerprint of a public key (SHA-256, first 16 bytes) for
+ * invite links and display.
+ */
+export async function keyFingerprint(signerKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(signerKey));
+  return toBase64(digest.slice(0, 16)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Trust-on-first-use pins of user id → signer key, for one room session.
+ */
+export class SignerPins {
+  private pins = new Map<string, string>();
+
+  async verify(record: object & Signed, authorId: string): Promise<VerificationResult> {
+    if (!record.signature || !record.signerKey) {
+      return { valid: false, reason: 'unsigned change' };
+    }
+    if (this.pins.has(authorId) && this.pins.get(authorId) !== record.signerKey) {
+      return { valid: false, reason: `change signed with a different key than ${authorId} used before` };
+    }
+    if (!(await verifyRecord(record))) {
+      return { valid: false, reason: 'signature does not match the change (forged or tampered)' };
+    }
+    // Another record may have pinned a key while we were verifying
+    const pinned = this.pins.get(authorId);
+    if (pinned && pinned !== record.signerKey) {
+      return { valid: false, reason: `change signed with a different key than ${authorId} used before` };
+    }
+    this.pins.set(authorId, record.signerKey);
+    return { valid: true };
+  }
+
+  /** The key pinned for a user, if they have sent anything signed yet */
+  keyOf(authorId: string): string | undefined {
+    return this.pins.get(authorId);
+  }
+
+  clear(): void {
+    this.pins.clear();
+  }
+}
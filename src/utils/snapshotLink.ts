@@ -0,0 +1,61 @@
+// src/utils/snapshotLink.ts - Frozen, read-only copies of a model packed into a link
+/**
+ * A snapshot link carries the whole model, deflated and base64url-encoded, in
+ * the URL fragment (`#s=...`). Opening it joins no room and connects to
+ * nobody, so there is nothing it could send changes to.
+ */
+import { DiagramElement, ThreatActor } from '../types/diagram';
+
+export interface FrozenSnapshot {
+  roomId: string;
+  frozenAt: number;
+  elements: DiagramElement[];
+  threatActors: ThreatActor[];
+}
+
+export const SNAPSHOT_PARAM = 's';
+// A fork link carries a model the same way, to seed a new room with it
+export const FORK_PARAM = 'f';
+
+async function pipe(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked - spreading a large model into String.fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0));
+
+/**
+ * Encode a snapshot for the `s` fragment parameter.
+ */
+export async function encodeSnapshot(snapshot: FrozenSnapshot): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(snapshot));
+  return toBase64Url(await pipe(json, new CompressionStream('deflate-raw')));
+}
+
+/**
+ * Decode the `s` fragment parameter. Throws on a truncated or corrupted link.
+ */
+export async function decodeSnapshot(encoded: string): Promise<FrozenSnapshot> {
+  const json = await pipe(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+  const snapshot = JSON.parse(new TextDecoder().decode(json)) as FrozenSnapshot;
+  if (!Array.isArray(snapshot?.elements) || !Array.isArray(snapshot?.threatActors)) {
+    throw new Error('Snapshot link does not contain a model');
+  }
+  return snapshot;
+}
+
+/**
+ * The snapshot parameter of the current URL, if this is a snapshot link.
+ */
+export function snapshotFromLocation(): string | null {
+  return new URLSearchParams(window.location.hash.substring(1)).get(SNAPSHOT_PARAM);
+}
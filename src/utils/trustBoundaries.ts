@@ -0,0 +1,139 @@
+/**
+ * Geometric trust boundary containment and boundary-crossing detection
+ */
+import { DiagramElement } from '../types/diagram';
+import { isPointInRect, Point } from './coordinates';
+import { viewOf } from './projectViews';
+
+export interface BoundaryCrossing {
+  flowId: string;
+  sourceId: string;
+  targetId: string;
+  /** Boundaries the flow enters or leaves, outermost first */
+  boundaryIds: string[];
+}
+
+export interface TrustBoundaryModel {
+  /** Boundary IDs containing each element, outermost first */
+  containment: Record<string, string[]>;
+  /** Immediate parent of each boundary (null for top-level boundaries) */
+  parentBoundary: Record<string, string | null>;
+  /** Data flows crossing one or more boundaries */
+  crossings: BoundaryCrossing[];
+}
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+function toRect(element: DiagramElement): Rect {
+  return {
+    x: element.position.x,
+    y: element.position.y,
+    width: element.size.width,
+    height: element.size.height,
+  };
+}
+
+function center(element: DiagramElement): Point {
+  return {
+    x: element.position.x + element.size.width / 2,
+    y: element.position.y + element.size.height / 2,
+  };
+}
+
+function area(element: DiagramElement): number {
+  return element.size.width * element.size.height;
+}
+
+/**
+ * Check if rect `inner` lies completely within rect `outer`
+ */
+function isRectInRect(inner: Rect, outer: Rect): boolean {
+  return inner.x >= outer.x &&
+         inner.y >= outer.y &&
+         inner.x + inner.width <= outer.x + outer.width &&
+         inner.y + inner.height <= outer.y + outer.height;
+}
+
+/**
+ * Check if an element sits inside a trust boundary.
+ * Nested boundaries must be fully enclosed; other elements count as inside
+ * when their center point is within the boundary.
+ */
+export function isInsideBoundary(element: DiagramElement, boundary: DiagramElement): boolean {
+  if (element.id === boundary.id || element.type === 'data-flow') return false;
+  // Each DFD level and each project view has its own canvas - a boundary holds only elements of its own
+  if ((element.parentId ?? null) !== (boundary.parentId ?? null)) return false;
+  if (viewOf(element) !== viewOf(boundary)) return false;
+
+  if (element.type === 'trust-boundary') {
+    // Identical rects would otherwise contain each other - the larger (or first) one wins
+    return isRectInRect(toRect(element), toRect(boundary)) && area(element) < area(boundary);
+  }
+
+  return isPointInRect(center(element), toRect(boundary));
+}
+
+/**
+ * Get all boundaries containing an element, ordered outermost first
+ */
+export function getContainingBoundaries(element: DiagramElement, elements: DiagramElement[]): DiagramElement[] {
+  return elements
+    .filter(el => el.type === 'trust-boundary' && isInsideBoundary(element, el))
+    .sort((a, b) => area(b) - area(a));
+}
+
+/**
+ * Get boundaries a data flow crosses, ordered outermost first.
+ * A flow crosses every boundary that contains exactly one of its endpoints.
+ */
+export function getCrossedBoundaries(flow: DiagramElement, elements: DiagramElement[]): DiagramElement[] {
+  if (flow.type !== 'data-flow') return [];
+
+  const source = elements.find(el => el.id === flow.sourceId);
+  const target = elements.find(el => el.id === flow.targetId);
+  if (!source || !target) return [];
+
+  const sourceBoundaries = getContainingBoundaries(source, elements);
+  const targetBoundaries = getContainingBoundaries(target, elements);
+  const targetIds = new Set(targetBoundaries.map(b => b.id));
+  const sourceIds = new Set(sourceBoundaries.map(b => b.id));
+
+  return [
+    ...sourceBoundaries.filter(b => !targetIds.has(b.id)),
+    ...targetBoundaries.filter(b => !sourceIds.has(b.id)),
+  ].sort((a, b) => area(b) - area(a));
+}
+
+/**
+ * Build the full containment model for a diagram
+ */
+export function computeTrustBoundaryModel(elements: DiagramElement[]): TrustBoundaryModel {
+  const containment: Record<string, string[]> = {};
+  const parentBoundary: Record<string, string | null> = {};
+  const crossings: BoundaryCrossing[] = [];
+
+  for (const element of elements) {
+    if (element.type === 'data-flow') continue;
+
+    const containing = getContainingBoundaries(element, elements);
+    containment[element.id] = containing.map(b => b.id);
+
+    if (element.type === 'trust-boundary') {
+      parentBoundary[element.id] = containing.length > 0 ? containing[containing.length - 1].id : null;
+    }
+  }
+
+  for (const flow of elements.filter(el => el.type === 'data-flow')) {
+    const crossed = getCrossedBoundaries(flow, elements);
+    if (crossed.length > 0) {
+      crossings.push({
+        flowId: flow.id,
+        sourceId: flow.sourceId!,
+        targetId: flow.targetId!,
+        boundaryIds: crossed.map(b => b.id),
+      });
+    }
+  }
+
+  return { containment, parentBoundary, crossings };
+}
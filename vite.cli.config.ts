@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite'
+
+// Node builds of the headless CLI and Raft simulator (src/cli) and the reference relay (src/relay) - run with `npm run build:cli`
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist/cli',
+    target: 'node18',
+    rollupOptions: {
+      input: {
+        modelka: 'src/cli/modelka.ts',
+        'modelka-relay': 'src/relay/server.ts',
+        'modelka-raft-sim': 'src/cli/raftSim.ts',
+      },
+      output: {
+        entryFileNames: '[name].js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})